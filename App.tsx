@@ -1,111 +1,387 @@
-import React, { useState, useRef } from 'react';
-import { AnalysisContext, AnalysisResult, VisualizationMode } from './types';
-import { analyzeImage } from './services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { AnalysisContext, AnalysisRecord, AnalysisResult, AoiPoint, BatchItem, ComparisonLayout, ComposedSearchGrid, AreaOfInterest, ContextProfile, ListingMetadata, HeatmapSettings, HotspotSource, Language, MarketplaceId, SaliencyAnalysis, SearchGridConfig, VisualizationMode } from './types';
+import { analysisProviders, getAnalysisProvider, getDefaultProviderId } from './services/analysisProviders';
+import { restoreImages } from './services/historyService';
+import { analyzeImageSaliency, blendHotspots, compareWithModel } from './services/saliencyService';
+import { computeAoiMetrics, createAoi } from './services/aoiService';
+import { DEFAULT_HEATMAP_SETTINGS, findDifferencePeaks } from './services/densityRenderer';
+import { runAnalysis, saveToHistory } from './services/analysisRunner';
+import { getBuiltInProfile, listContextProfiles } from './services/contextProfiles';
+import { createEmptyListing, normalizeListing } from './services/listingMetadata';
+import { ENSEMBLE_RUN_OPTIONS } from './services/ensemble';
+import { composeSearchGrid, computeTileAttention, createDefaultGridConfig } from './services/searchGrid';
+import { AnalysisError, classifyError } from './services/analysisErrors';
+import { downscaleImageFile, DOWNSCALE_MAX_SIDE } from './services/deviceSimulation';
+import { getMarketplace, getMarketplaceSettings, MARKETPLACES, saveMarketplaceSettings } from './services/marketplaces';
+import { getTranslator, LANGUAGES } from './services/messages';
+import { getImageLabel, getMaxFileCount, getRequiredFileCount, getVariantHotspots, MAX_VARIANTS, MIN_MULTI_VARIANTS, variantLabel } from './services/variants';
 import { HeatmapOverlay } from './components/HeatmapOverlay';
+import { ScanpathPlayer } from './components/ScanpathPlayer';
+import { SaliencyCrossCheck } from './components/SaliencyCrossCheck';
+import { HeatmapControls } from './components/HeatmapControls';
+import { AoiPanel } from './components/AoiPanel';
+import { AoiDrawTool } from './components/AoiLayer';
+import { HistoryView } from './components/HistoryView';
+import { ExportMenu } from './components/ExportMenu';
+import { VariantSwitcher } from './components/VariantSwitcher';
+import { SideBySideView } from './components/SideBySideView';
+import { DifferenceLegend } from './components/DifferenceLegend';
+import { DeviceSimulationView } from './components/DeviceSimulationView';
 import { AnalysisView } from './components/AnalysisView';
+import { SearchGridComposer } from './components/SearchGridComposer';
+import { BatchQueueView } from './components/BatchQueueView';
+import { ContextProfilePicker } from './components/ContextProfilePicker';
+import { ListingDetailsForm } from './components/ListingDetailsForm';
+import { AnalysisErrorPanel } from './components/AnalysisErrorPanel';
 import { Button } from './components/Button';
-import { Upload, Layout, Search, Image as ImageIcon, Sparkles, RefreshCw, Wand2, Eye, Store, Fingerprint, Activity, Info, Scale, ArrowRightLeft } from 'lucide-react';
+import { Upload, Layout, Search, Image as ImageIcon, Sparkles, RefreshCw, Wand2, Eye, Fingerprint, Activity, Info, Cpu, History, LayoutGrid, X, Diff, Columns2, Smartphone, Layers, Loader2, Globe, Languages } from 'lucide-react';
 
 const App: React.FC = () => {
-  const [step, setStep] = useState<1 | 2>(1);
+  const [step, setStep] = useState<1 | 2 | 'history' | 'batch'>(1);
+  // The batch view stays mounted once opened so a running queue survives opening its results
+  const [batchOpened, setBatchOpened] = useState(false);
   
-  // File State: Supports up to 2 files for A/B testing
+  // File State: One file per variant (2 for A/B tests, up to 6 for multi-variant tests)
   const [files, setFiles] = useState<File[]>([]);
   const [previews, setPreviews] = useState<string[]>([]);
   
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [vizMode, setVizMode] = useState<VisualizationMode>('heatmap');
+  const [heatmapSettings, setHeatmapSettings] = useState<HeatmapSettings>(DEFAULT_HEATMAP_SETTINGS);
 
   // Visualization State
-  const [activeImageIndex, setActiveImageIndex] = useState<0 | 1>(0);
+  const [activeImageIndex, setActiveImageIndex] = useState(0);
+  const [hotspotSource, setHotspotSource] = useState<HotspotSource>('model');
+  const [comparisonLayout, setComparisonLayout] = useState<ComparisonLayout>('single');
+
+  // Local pixel saliency, one entry per preview (computed instantly, no AI call)
+  const [saliency, setSaliency] = useState<(SaliencyAnalysis | undefined)[]>([]);
+  const [showSaliencyPreview, setShowSaliencyPreview] = useState(false);
+
+  // Areas of Interest are shared by every variant so the same layout regions can be compared
+  const [aois, setAois] = useState<AreaOfInterest[]>([]);
+  const [aoiTool, setAoiTool] = useState<AoiDrawTool | null>(null);
+  const [aoiName, setAoiName] = useState('');
 
   // Form State
-  const [context, setContext] = useState<AnalysisContext | null>(null);
-
-  const fileInputRefA = useRef<HTMLInputElement>(null);
-  const fileInputRefB = useRef<HTMLInputElement>(null);
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>, index: number) => {
-    if (e.target.files && e.target.files[0]) {
-      const selectedFile = e.target.files[0];
-      
-      const newFiles = [...files];
-      newFiles[index] = selectedFile;
-      setFiles(newFiles);
-      
+  const [profiles, setProfiles] = useState<ContextProfile[]>(listContextProfiles);
+  const [profile, setProfile] = useState<ContextProfile | null>(null);
+  // Kept across resets: consecutive analyses are usually of the same product
+  const [listing, setListing] = useState<ListingMetadata>(createEmptyListing);
+  // Image slots, validation and local measurements follow the profile's base context
+  const context = profile?.base ?? null;
+  const [providerId, setProviderId] = useState<string>(getDefaultProviderId);
+  const [includeDeviceRenders, setIncludeDeviceRenders] = useState(true);
+  const [ensembleRuns, setEnsembleRuns] = useState(1);
+  // The marketplace shapes the prompt; the language is used for the report text and the UI
+  const [marketplaceId, setMarketplaceId] = useState<MarketplaceId>(() => getMarketplaceSettings().marketplace);
+  const [language, setLanguage] = useState<Language>(() => getMarketplaceSettings().language);
+  const t = getTranslator(language);
+  const [runProgress, setRunProgress] = useState<{ completed: number; total: number } | null>(null);
+  // Set while a provisional result is on screen; the final one clears it
+  const [streaming, setStreaming] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // Shown inline instead of losing the uploads; cleared when the next run starts
+  const [analysisError, setAnalysisError] = useState<AnalysisError | null>(null);
+  const [quotaFailures, setQuotaFailures] = useState(0);
+
+  // Search grid builder: the config survives switching back to a screenshot;
+  // searchGrid is set only while the uploaded image is a composed grid
+  const [searchGridConfig, setSearchGridConfig] = useState<SearchGridConfig>(() => createDefaultGridConfig(language));
+  const [searchGrid, setSearchGrid] = useState<ComposedSearchGrid | null>(null);
+  const [showGridComposer, setShowGridComposer] = useState(false);
+  const [gridError, setGridError] = useState<string | null>(null);
+
+  // A single hidden input serves every upload slot; pendingSlot remembers which one was clicked
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pendingSlot = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(previews.map((src) => src ? analyzeImageSaliency(src, language).catch(() => undefined) : Promise.resolve(undefined)))
+      .then((results) => { if (!cancelled) setSaliency(results); });
+    return () => { cancelled = true; };
+  }, [previews, language]);
+
+  useEffect(() => {
+    saveMarketplaceSettings({ marketplace: marketplaceId, language });
+  }, [marketplaceId, language]);
+
+  // Switching marketplace also switches to its language; the language can still be changed afterwards
+  const handleMarketplaceChange = (id: MarketplaceId) => {
+    setMarketplaceId(id);
+    setLanguage(getMarketplace(id).language);
+  };
+
+  const maxFiles = getMaxFileCount(context);
+  const requiredFiles = getRequiredFileCount(context);
+  const uploadedCount = files.slice(0, maxFiles).filter(Boolean).length;
+
+  const openFilePicker = (slot: number) => {
+    // Multi-variant slots fill in order so variant letters never skip
+    pendingSlot.current = context === AnalysisContext.MULTI_VARIANT ? Math.min(slot, uploadedCount) : slot;
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected: File[] = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Allow picking the same file again
+    const start = pendingSlot.current;
+    if (selected.length > 0 && start === 0) setSearchGrid(null);
+
+    // Multi-select fills consecutive slots, up to the context's limit
+    selected.slice(0, Math.max(1, maxFiles - start)).forEach((selectedFile, offset) => {
+      const index = start + offset;
+      setFiles((prev) => {
+        const next = [...prev];
+        next[index] = selectedFile;
+        return next;
+      });
+
       const reader = new FileReader();
       reader.onload = (ev) => {
-        const newPreviews = [...previews];
-        newPreviews[index] = ev.target?.result as string;
-        setPreviews(newPreviews);
+        setPreviews((prev) => {
+          const next = [...prev];
+          next[index] = ev.target?.result as string;
+          return next;
+        });
       };
       reader.readAsDataURL(selectedFile);
+    });
+  };
+
+  const handleRemoveFile = (index: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== index));
+    setPreviews((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleComposeGrid = async () => {
+    setGridError(null);
+    try {
+      const composed = await composeSearchGrid(searchGridConfig);
+      setFiles([composed.file]);
+      setPreviews([composed.preview]);
+      setSearchGrid(composed.grid);
+      setShowGridComposer(false);
+    } catch (error) {
+      // A tile image that cannot be decoded fails the whole grid
+      console.error("Search grid composition failed", error);
+      setGridError(t('grid.composeFailed', { detail: error instanceof Error ? error.message : String(error) }));
     }
   };
 
-  const handleAnalyze = async () => {
-    if (files.length === 0 || !context) return;
-    if (context === AnalysisContext.AB_TEST && files.length < 2) return;
+  const handleAnalyze = async ({ forceRerun = false, slots: replacementSlots, providerId: runProviderId = providerId }: {
+    forceRerun?: boolean;
+    slots?: { file: File; preview: string }[]; // Replaces the uploads, e.g. with downscaled copies
+    providerId?: string;
+  } = {}) => {
+    if (!profile || !context || uploadedCount < requiredFiles) return;
 
+    // A forced re-run starts from the analysis view; cancelling or failing returns to it
+    const previousResult = result;
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
+    setAnalysisError(null);
     try {
-      // Clean undefined slots if any
-      const validFiles = files.filter(Boolean);
-      const analysisData = await analyzeImage(validFiles, context);
+      // Clean undefined slots and files left over from a context with more slots,
+      // keeping previews aligned so preview N always matches variant N
+      const slots = replacementSlots ?? files.slice(0, maxFiles)
+        .map((file, idx) => ({ file, preview: previews[idx] }))
+        .filter((slot) => slot.file);
+      const validFiles = slots.map((slot) => slot.file);
+      setFiles(validFiles);
+      setPreviews(slots.map((slot) => slot.preview));
+      setActiveImageIndex(0); // Default to Image A
+      setComparisonLayout('single');
+      const provider = getAnalysisProvider(runProviderId);
+      const analysisData = await runAnalysis(provider, context, slots, {
+        includeDeviceRenders,
+        searchGrid: searchGrid ?? undefined,
+        profile,
+        listing: normalizeListing(listing),
+        marketplace: marketplaceId,
+        language,
+        ensembleRuns,
+        forceRerun,
+        signal: controller.signal,
+        onRunComplete: (completed, total) => setRunProgress({ completed, total }),
+        onPartial: (partial) => {
+          setResult(partial);
+          setStreaming(true);
+          setStep(2);
+        },
+      });
       setResult(analysisData);
       setStep(2);
-      setActiveImageIndex(0); // Default to Image A
+      setQuotaFailures(0);
+      // A cache hit was saved when it first ran
+      if (!analysisData.cachedAt) saveToHistory(provider, profile, validFiles, analysisData);
     } catch (error) {
-      console.error(error);
-      alert("Analysis failed. Please try again or check your API key/Internet connection.");
+      setResult(previousResult);
+      setStep(previousResult ? 2 : 1);
+      if (!controller.signal.aborted) {
+        const classified = classifyError(error);
+        setAnalysisError(classified);
+        setQuotaFailures((count) => (classified.kind === 'quota' ? count + 1 : 0));
+      }
     } finally {
+      abortRef.current = null;
       setLoading(false);
+      setStreaming(false);
+      setRunProgress(null);
     }
   };
 
+  const handleCancelAnalysis = () => abortRef.current?.abort();
+
+  // A failed re-run started from the analysis view is retried as a re-run
+  const handleRetry = () => handleAnalyze({ forceRerun: result !== null });
+
+  const handleDownscaleAndRetry = async () => {
+    let slots: { file: File; preview: string }[];
+    try {
+      slots = await Promise.all(files.slice(0, maxFiles).filter(Boolean).map((file) => downscaleImageFile(file, DOWNSCALE_MAX_SIDE)));
+    } catch (error) {
+      setAnalysisError(new AnalysisError(
+        'unsupportedImage',
+        { key: 'error.cannotConvert' },
+        { detail: error instanceof Error ? error.message : String(error), cause: error }
+      ));
+      return;
+    }
+    await handleAnalyze({ forceRerun: result !== null, slots });
+  };
+
+  const handleSwitchProvider = (id: string) => {
+    setProviderId(id);
+    handleAnalyze({ forceRerun: result !== null, providerId: id });
+  };
+
+  const renderAnalysisError = () => analysisError && (
+    <AnalysisErrorPanel
+      error={analysisError}
+      quotaAttempt={quotaFailures}
+      alternative={analysisProviders.find((p) => p.id !== providerId)}
+      busy={loading}
+      onRetry={handleRetry}
+      onDownscale={handleDownscaleAndRetry}
+      onSwitchProvider={handleSwitchProvider}
+      onDismiss={() => setAnalysisError(null)}
+      language={language}
+    />
+  );
+
+  const showResult = (nextFiles: File[], nextPreviews: string[], nextProfile: ContextProfile, nextResult: AnalysisResult) => {
+    setFiles(nextFiles);
+    setPreviews(nextPreviews);
+    setProfile(nextProfile);
+    setResult(nextResult);
+    setVizMode('heatmap');
+    setActiveImageIndex(0);
+    setHotspotSource('model');
+    setComparisonLayout('single');
+    setStep(2);
+  };
+
+  const handleOpenRecord = async (record: AnalysisRecord) => {
+    const restored = await restoreImages(record);
+    showResult(restored.files, restored.previews, record.profile ?? getBuiltInProfile(record.context), record.result);
+  };
+
+  const handleOpenBatchItem = (item: BatchItem) => {
+    if (item.result) showResult([item.file], [item.preview], getBuiltInProfile(item.context), item.result);
+  };
+
+  const runBatchItem = async (item: BatchItem): Promise<AnalysisResult> => {
+    const provider = getAnalysisProvider(providerId);
+    const analysis = await runAnalysis(provider, item.context, [item], { includeDeviceRenders, marketplace: marketplaceId, language });
+    if (!analysis.cachedAt) saveToHistory(provider, getBuiltInProfile(item.context), [item.file], analysis);
+    return analysis;
+  };
+
+  const openBatch = () => {
+    setBatchOpened(true);
+    setStep('batch');
+  };
+
   const handleReset = () => {
     setStep(1);
     setResult(null);
+    setAnalysisError(null);
     setFiles([]);
     setPreviews([]);
-    setContext(null);
+    setProfile(null);
     setVizMode('heatmap');
     setActiveImageIndex(0);
+    setHotspotSource('model');
+    setComparisonLayout('single');
+    setShowSaliencyPreview(false);
+    setAois([]);
+    setAoiTool(null);
+    setSearchGrid(null);
+    setShowGridComposer(false);
+  };
+
+  const handleAoiDrawn = (shape: AoiDrawTool, points: AoiPoint[]) => {
+    setAois((prev) => [...prev, createAoi(aoiName.trim() || t('aoi.defaultName', { n: prev.length + 1 }), shape, points)]);
+    setAoiName('');
   };
 
   const isAB = context === AnalysisContext.AB_TEST;
+  const isMulti = context === AnalysisContext.MULTI_VARIANT;
+  const isComparison = isAB || isMulti;
+  const isSearch = context === AnalysisContext.SEARCH;
 
   const getButtonText = () => {
-    if (loading) return 'Analyzing Assets...';
+    if (loading && ensembleRuns > 1) return t('analyze.runProgress', { run: Math.min(ensembleRuns, (runProgress?.completed ?? 0) + 1), runs: ensembleRuns });
+    if (loading) return t('analyze.running');
     if (isAB) {
-        if (!files[0] || !files[1]) return 'Upload Both Images (A & B)';
+        if (!files[0] || !files[1]) return t('analyze.uploadBoth');
+    } else if (isMulti) {
+        if (uploadedCount < MIN_MULTI_VARIANTS) return t('analyze.uploadAtLeast', { count: MIN_MULTI_VARIANTS });
     } else {
-        if (!files[0]) return 'Upload an Image First';
+        if (!files[0]) return t('analyze.uploadFirst');
     }
-    if (!context) return 'Select Asset Type to Continue';
-    return 'Run Auto-Analysis';
+    if (!context) return t('analyze.selectContext');
+    return t('analyze.run');
+  };
+
+  // Multi-variant tests always offer one empty slot until the limit is reached
+  const slotCount = isMulti ? Math.min(MAX_VARIANTS, Math.max(MIN_MULTI_VARIANTS, uploadedCount + 1)) : maxFiles;
+
+  const getSlotPrompt = (index: number) => {
+    if (isAB) return index === 0 ? t('upload.control') : t('upload.variantB');
+    if (isMulti) return t('upload.variant', { label: variantLabel(index) });
+    return t('upload.asset');
   };
 
   const getVizGuide = (mode: VisualizationMode) => {
     switch (mode) {
       case 'heatmap':
         return {
-          title: 'Heatmap Analysis',
-          advertiser: 'Shows high-intensity zones. If your product is "cold" (blue) in a search grid, your PPC budget is being wasted on impressions that get ignored.',
-          customer: 'Represents general visual interest. Customers look at the red/hot zones first when scanning.'
+          title: t('guide.heatmap.title'),
+          advertiser: t('guide.heatmap.advertiser'),
+          customer: t('guide.heatmap.customer')
         };
       case 'fogmap':
         return {
-          title: 'Fog Map (The "3-Second Rule")',
-          advertiser: 'Simulates peripheral vision during scrolling. It reveals what is visible in the first 50ms. If your USP is hidden in the fog, you lose the click.',
-          customer: 'Mimics the brain’s initial filter (System 1 thinking). Only high-contrast, salient features penetrate the fog.'
+          title: t('guide.fogmap.title'),
+          advertiser: t('guide.fogmap.advertiser'),
+          customer: t('guide.fogmap.customer')
         };
       case 'path':
         return {
-          title: 'Attention Path Sequence',
-          advertiser: 'Validates hierarchy. Are they seeing Brand -> Product -> Price in the right order? A chaotic path reduces trust and conversion.',
-          customer: 'The order in which information is consumed. A logical path reduces cognitive load.'
+          title: t('guide.path.title'),
+          advertiser: t('guide.path.advertiser'),
+          customer: t('guide.path.customer')
+        };
+      case 'device':
+        return {
+          title: t('guide.device.title'),
+          advertiser: t('guide.device.advertiser'),
+          customer: t('guide.device.customer')
         };
     }
   };
@@ -118,14 +394,24 @@ const App: React.FC = () => {
       <div className="bg-gray-800 rounded-2xl shadow-2xl overflow-hidden border border-gray-700">
         
         {/* Header */}
-        <div className="bg-gray-900 p-8 border-b border-gray-800">
-          <h2 className="text-2xl font-bold text-white flex items-center gap-3">
-             <span className="w-8 h-8 rounded bg-gradient-to-br from-pink-500 to-purple-600 flex items-center justify-center">
-               <Sparkles className="w-5 h-5 text-white" />
-             </span>
-             Amazon HeatMap Studio
-          </h2>
-          <p className="text-gray-400 mt-2">Amazon Conversion & PPC Optimization Studio</p>
+        <div className="bg-gray-900 p-8 border-b border-gray-800 flex items-start justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+               <span className="w-8 h-8 rounded bg-gradient-to-br from-pink-500 to-purple-600 flex items-center justify-center">
+                 <Sparkles className="w-5 h-5 text-white" />
+               </span>
+               Amazon HeatMap Studio
+            </h2>
+            <p className="text-gray-400 mt-2">{t('app.tagline')}</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <button onClick={openBatch} className="text-gray-400 hover:text-white flex items-center gap-1 text-sm">
+              <Layers className="w-4 h-4" /> {t('nav.batch')}
+            </button>
+            <button onClick={() => setStep('history')} className="text-gray-400 hover:text-white flex items-center gap-1 text-sm">
+              <History className="w-4 h-4" /> {t('nav.history')}
+            </button>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-0">
@@ -133,57 +419,83 @@ const App: React.FC = () => {
           {/* Left: Upload Area */}
           <div className="p-8 border-r border-gray-700 flex flex-col items-center justify-center bg-gray-800/50">
              
-             {/* Dynamic Layout for A/B vs Single */}
-             <div className={`w-full grid gap-4 ${isAB ? 'grid-cols-2' : 'grid-cols-1'}`}>
-                
-                {/* Upload A */}
-                <div 
-                   className={`w-full aspect-square rounded-xl border-2 border-dashed flex flex-col items-center justify-center cursor-pointer transition-all ${previews[0] ? 'border-pink-500 bg-gray-900' : 'border-gray-600 hover:border-gray-400 hover:bg-gray-700/50'}`}
-                   onClick={() => fileInputRefA.current?.click()}
-                >
-                    {previews[0] ? (
-                      <div className="relative w-full h-full p-2">
-                        <img src={previews[0]} alt="Preview A" className="w-full h-full object-contain rounded-lg" />
-                        {isAB && <span className="absolute top-3 left-3 bg-pink-600 text-white text-xs font-bold px-2 py-1 rounded shadow-md">Image A</span>}
-                      </div>
-                    ) : (
-                      <div className="text-center p-4">
-                        <Upload className="w-8 h-8 mx-auto mb-2 text-gray-400" />
-                        <p className="text-gray-300 font-medium text-sm">{isAB ? 'Upload Control (A)' : 'Upload Asset'}</p>
-                      </div>
-                    )}
-                    <input type="file" ref={fileInputRefA} className="hidden" accept="image/*" onChange={(e) => handleFileChange(e, 0)} />
-                </div>
-
-                {/* Upload B (Only for A/B) */}
-                {isAB && (
-                   <div 
-                   className={`w-full aspect-square rounded-xl border-2 border-dashed flex flex-col items-center justify-center cursor-pointer transition-all ${previews[1] ? 'border-purple-500 bg-gray-900' : 'border-gray-600 hover:border-gray-400 hover:bg-gray-700/50'}`}
-                   onClick={() => fileInputRefB.current?.click()}
-                >
-                    {previews[1] ? (
-                      <div className="relative w-full h-full p-2">
-                        <img src={previews[1]} alt="Preview B" className="w-full h-full object-contain rounded-lg" />
-                        <span className="absolute top-3 left-3 bg-purple-600 text-white text-xs font-bold px-2 py-1 rounded shadow-md">Image B</span>
-                      </div>
-                    ) : (
-                      <div className="text-center p-4">
-                        <Upload className="w-8 h-8 mx-auto mb-2 text-gray-400" />
-                        <p className="text-gray-300 font-medium text-sm">Upload Variant (B)</p>
-                      </div>
-                    )}
-                    <input type="file" ref={fileInputRefB} className="hidden" accept="image/*" onChange={(e) => handleFileChange(e, 1)} />
-                </div>
-                )}
+             {isSearch && (
+               <div className="w-full flex bg-gray-900 rounded-lg p-1 border border-gray-700 mb-4">
+                 {[{ grid: false, label: t('upload.screenshot'), icon: Upload }, { grid: true, label: t('upload.buildGrid'), icon: LayoutGrid }].map((opt) => (
+                   <button
+                     key={opt.label}
+                     onClick={() => setShowGridComposer(opt.grid)}
+                     className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-all flex items-center justify-center gap-2 ${showGridComposer === opt.grid ? 'bg-pink-600 text-white shadow' : 'text-gray-400 hover:text-white'}`}
+                   >
+                     <opt.icon className="w-4 h-4" /> {opt.label}
+                   </button>
+                 ))}
+               </div>
+             )}
+
+             {isSearch && showGridComposer ? (
+               <SearchGridComposer config={searchGridConfig} onChange={setSearchGridConfig} onCompose={handleComposeGrid} error={gridError} language={language} />
+             ) : (
+             /* Dynamic Layout: one slot per variant */
+             <div className={`w-full grid gap-4 ${isMulti ? 'grid-cols-3' : isAB ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                {Array.from({ length: slotCount }, (_, idx) => (
+                  <div 
+                     key={idx}
+                     className={`w-full aspect-square rounded-xl border-2 border-dashed flex flex-col items-center justify-center cursor-pointer transition-all ${previews[idx] ? (idx === 0 ? 'border-pink-500 bg-gray-900' : 'border-purple-500 bg-gray-900') : 'border-gray-600 hover:border-gray-400 hover:bg-gray-700/50'}`}
+                     onClick={() => openFilePicker(idx)}
+                  >
+                      {previews[idx] ? (
+                        <div className="relative w-full h-full p-2">
+                          {showSaliencyPreview && saliency[idx]
+                            ? <HeatmapOverlay imageSrc={previews[idx]} hotspots={saliency[idx]!.hotspots} mode="heatmap" language={language} />
+                            : <img src={previews[idx]} alt={t('upload.preview', { label: variantLabel(idx) })} className="w-full h-full object-contain rounded-lg" />}
+                          {isSearch && idx === 0 && searchGrid && (
+                            <span className="absolute top-3 left-3 bg-pink-600 text-white text-xs font-bold px-2 py-1 rounded shadow-md">
+                              {t('upload.composedGrid', { count: searchGrid.regions.length })}
+                            </span>
+                          )}
+                          {isComparison && (
+                            <span className={`absolute top-3 left-3 text-white text-xs font-bold px-2 py-1 rounded shadow-md ${idx === 0 ? 'bg-pink-600' : 'bg-purple-600'}`}>
+                              {getImageLabel(context, idx, t)}
+                            </span>
+                          )}
+                          {isMulti && (
+                            <button
+                              onClick={(e) => { e.stopPropagation(); handleRemoveFile(idx); }}
+                              className="absolute top-3 right-3 bg-gray-900/80 hover:bg-red-600 text-white rounded p-1"
+                              aria-label={t('upload.remove', { label: getImageLabel(context, idx, t) })}
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="text-center p-4">
+                          <Upload className="w-8 h-8 mx-auto mb-2 text-gray-400" />
+                          <p className="text-gray-300 font-medium text-sm">{getSlotPrompt(idx)}</p>
+                        </div>
+                      )}
+                  </div>
+                ))}
              </div>
+             )}
+             <input type="file" ref={fileInputRef} className="hidden" accept="image/*" multiple={isMulti} onChange={handleFileChange} />
 
-             {previews[0] && (
-               <button 
-                 onClick={(e) => { e.stopPropagation(); setFiles([]); setPreviews([]); }} 
-                 className="mt-4 text-sm text-gray-400 hover:text-white underline"
-               >
-                 Clear Images
-               </button>
+             {previews[0] && !(isSearch && showGridComposer) && (
+               <div className="mt-4 flex items-center gap-4">
+                 <button 
+                   onClick={() => setShowSaliencyPreview(!showSaliencyPreview)} 
+                   className={`text-sm flex items-center gap-1 ${showSaliencyPreview ? 'text-pink-400' : 'text-gray-400 hover:text-white'}`}
+                 >
+                   <Activity className="w-4 h-4" /> {showSaliencyPreview ? t('upload.hideSaliency') : t('upload.showSaliency')}
+                 </button>
+                 <button 
+                   onClick={(e) => { e.stopPropagation(); setFiles([]); setPreviews([]); setSearchGrid(null); }} 
+                   className="text-sm text-gray-400 hover:text-white underline"
+                 >
+                   {t('upload.clear')}
+                 </button>
+               </div>
              )}
           </div>
 
@@ -193,49 +505,126 @@ const App: React.FC = () => {
             <div className="mb-8">
               <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
                 <Layout className="w-5 h-5 text-pink-400" />
-                Select Analysis Context
+                {t('setup.context')}
               </h3>
               
-              <div className="space-y-3">
-                {[
-                  { id: AnalysisContext.HERO, icon: ImageIcon, label: "Product Hero Image", desc: "Main listing image (CTR focus)" },
-                  { id: AnalysisContext.APLUS, icon: Layout, label: "A+ Content / Lifestyle", desc: "Detail page (Conversion focus)" },
-                  { id: AnalysisContext.SEARCH, icon: Search, label: "Search Results", desc: "Compare against competitors" },
-                  { id: AnalysisContext.STOREFRONT, icon: Store, label: "Brand Storefront", desc: "Brand equity and navigation" },
-                  { id: AnalysisContext.AB_TEST, icon: Scale, label: "A/B Comparison Test", desc: "Compare two images for effectiveness" }
-                ].map((opt) => (
+              <ContextProfilePicker
+                profiles={profiles}
+                selectedId={profile?.id ?? null}
+                onSelect={setProfile}
+                onProfilesChange={setProfiles}
+                language={language}
+              />
+            </div>
+
+            <ListingDetailsForm listing={listing} onChange={setListing} language={language} />
+
+            <div className="mb-6">
+              <label className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2 flex items-center gap-2">
+                <Cpu className="w-4 h-4 text-pink-400" /> {t('setup.engine')}
+              </label>
+              <select
+                value={providerId}
+                onChange={(e) => setProviderId(e.target.value)}
+                className="w-full bg-gray-700/50 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-pink-500"
+              >
+                {analysisProviders.map((p) => (
+                  <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">{getAnalysisProvider(providerId).description}</p>
+            </div>
+
+            <div className="mb-6 grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2 flex items-center gap-2">
+                  <Globe className="w-4 h-4 text-pink-400" /> {t('setup.marketplace')}
+                </label>
+                <select
+                  value={marketplaceId}
+                  onChange={(e) => handleMarketplaceChange(e.target.value as MarketplaceId)}
+                  className="w-full bg-gray-700/50 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-pink-500"
+                >
+                  {MARKETPLACES.map((m) => (
+                    <option key={m.id} value={m.id}>{m.domain}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2 flex items-center gap-2">
+                  <Languages className="w-4 h-4 text-pink-400" /> {t('setup.language')}
+                </label>
+                <select
+                  value={language}
+                  onChange={(e) => setLanguage(e.target.value as Language)}
+                  className="w-full bg-gray-700/50 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-pink-500"
+                >
+                  {LANGUAGES.map((l) => (
+                    <option key={l.id} value={l.id}>{l.label}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="col-span-2 text-xs text-gray-500">
+                {t('setup.marketplaceHint', { domain: getMarketplace(marketplaceId).domain })} {t('setup.languageHint')}
+              </p>
+            </div>
+
+            <div className="mb-6">
+              <label className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2 flex items-center gap-2">
+                <Layers className="w-4 h-4 text-pink-400" /> {t('setup.runs')}
+              </label>
+              <div className="flex gap-2">
+                {ENSEMBLE_RUN_OPTIONS.map((runs) => (
                   <button
-                    key={opt.id}
-                    onClick={() => {
-                        setContext(opt.id);
-                        // Reset files if switching modes to avoid confusion? 
-                        // Actually keeping them is fine, just UI changes.
-                    }}
-                    className={`w-full flex items-center gap-4 p-4 rounded-xl border transition-all text-left group ${context === opt.id ? 'bg-pink-600/20 border-pink-500' : 'bg-gray-700/50 border-gray-700 hover:bg-gray-700 hover:border-gray-500'}`}
+                    key={runs}
+                    onClick={() => setEnsembleRuns(runs)}
+                    className={`flex-1 px-3 py-1.5 rounded-lg text-sm border transition-colors ${ensembleRuns === runs ? 'bg-pink-600/20 border-pink-500 text-white' : 'bg-gray-700/50 border-gray-700 text-gray-400 hover:text-white'}`}
                   >
-                    <div className={`p-2 rounded-lg ${context === opt.id ? 'bg-pink-500 text-white' : 'bg-gray-800 text-gray-400 group-hover:text-white'}`}>
-                       <opt.icon className="w-5 h-5" />
-                    </div>
-                    <div>
-                        <div className={`font-semibold ${context === opt.id ? 'text-white' : 'text-gray-200'}`}>{opt.label}</div>
-                        <div className="text-xs text-gray-400">{opt.desc}</div>
-                    </div>
+                    {runs === 1 ? t('setup.singleRun') : `${runs}x`}
                   </button>
                 ))}
               </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {ensembleRuns > 1
+                  ? t('setup.runsHint', { runs: ensembleRuns })
+                  : t('setup.singleRunHint')}
+              </p>
+            </div>
+
+            <div className="mb-6">
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeDeviceRenders}
+                  onChange={(e) => setIncludeDeviceRenders(e.target.checked)}
+                  className="mt-1 accent-pink-500"
+                />
+                <span>
+                  <span className="text-sm font-medium text-gray-200 flex items-center gap-2">
+                    <Smartphone className="w-4 h-4 text-pink-400" /> {t('setup.deviceEvidence')}
+                  </span>
+                  <span className="text-xs text-gray-500 block">{t('setup.deviceEvidenceHint')}</span>
+                </span>
+              </label>
             </div>
 
             <div className="mt-auto">
+                {analysisError && <div className="mb-4">{renderAnalysisError()}</div>}
                 <Button 
                 className="w-full" 
                 size="lg" 
-                onClick={handleAnalyze} 
-                disabled={!context || loading || (isAB ? files.length < 2 : files.length < 1)}
+                onClick={() => handleAnalyze()} 
+                disabled={!context || loading || uploadedCount < requiredFiles}
                 isLoading={loading}
                 >
                 {getButtonText()}
                 {!loading && (context) && <Wand2 className="ml-2 w-5 h-5" />}
                 </Button>
+                {loading && (
+                  <Button className="w-full mt-2" variant="outline" onClick={handleCancelAnalysis}>
+                    <X className="mr-2 w-4 h-4" /> {t('nav.cancel')}
+                  </Button>
+                )}
             </div>
 
           </div>
@@ -246,12 +635,39 @@ const App: React.FC = () => {
 
   // Phase 2: Analysis View
   const renderAnalysisPhase = () => {
-    if (!result || !previews[0] || !context) return null;
+    if (!result || !previews[0] || !profile || !context) return null;
 
-    // Determine which image to show based on active index
-    const activePreview = previews[activeImageIndex];
     // Determine which hotspots to show
-    const activeHotspots = (activeImageIndex === 1 && result.hotspotsB) ? result.hotspotsB : result.hotspots;
+    const variantHotspotSets = getVariantHotspots(result);
+    const modelHotspots = variantHotspotSets[activeImageIndex] ?? result.hotspots;
+    const variantLabels = variantHotspotSets.map((_, idx) =>
+      isAB ? `${getImageLabel(context, idx, t)} (${idx === 0 ? t('lab.control') : t('lab.variant')})` : getImageLabel(context, idx, t));
+    const variantRanks = variantHotspotSets.map((_, idx) =>
+      result.report.variantLeaderboard?.find((s) => s.variant === variantLabel(idx))?.rank);
+    const activeSaliency = saliency[activeImageIndex];
+    const agreement = activeSaliency ? compareWithModel(modelHotspots, activeSaliency) : null;
+    const resolveHotspots = (idx: number) => {
+      const fromModel = variantHotspotSets[idx] ?? result.hotspots;
+      const pixels = saliency[idx];
+      return !pixels || hotspotSource === 'model' ? fromModel
+        : hotspotSource === 'saliency' ? pixels.hotspots
+        : blendHotspots(fromModel, pixels, language);
+    };
+    const activeHotspots = resolveHotspots(activeImageIndex);
+
+    // Difference and side-by-side views compare the selected variant against Image A
+    const compareIndex = activeImageIndex === 0 ? 1 : activeImageIndex;
+    const layout: ComparisonLayout = isComparison && previews[compareIndex] && vizMode !== 'device' ? comparisonLayout : 'single';
+    const baselineHotspots = layout === 'difference' ? resolveHotspots(0) : undefined;
+    const shownIndex = layout === 'difference' ? compareIndex : activeImageIndex;
+    const shownHotspots = layout === 'difference' ? resolveHotspots(compareIndex) : activeHotspots;
+    const differencePeaks = baselineHotspots ? findDifferencePeaks(baselineHotspots, shownHotspots, heatmapSettings.radius) : null;
+    // Every variant is measured with the same hotspot source as the one on screen
+    const tileAttention = result.searchGrid ? computeTileAttention(result.searchGrid, resolveHotspots(0), language) : [];
+    const aoiMeasurements = aois.length === 0 ? [] : variantHotspotSets.map((_, idx) => ({
+      label: getImageLabel(context, idx, t),
+      metrics: computeAoiMetrics(aois, resolveHotspots(idx)),
+    }));
 
     return (
       <div className="h-[calc(100vh-100px)] w-full max-w-[1600px] mx-auto animate-fade-in flex flex-col lg:flex-row gap-6">
@@ -260,10 +676,10 @@ const App: React.FC = () => {
         <div className="flex-1 min-h-[500px] bg-gray-800 rounded-2xl p-4 shadow-2xl border border-gray-700 flex flex-col">
            <div className="flex items-center justify-between mb-4 px-2">
               <h3 className="text-lg font-semibold text-white flex items-center gap-2">
-                 Visual Attention Lab
-                 {isAB && (
+                 {t('lab.title')}
+                 {isComparison && (
                     <span className="text-xs bg-gray-700 text-gray-300 px-2 py-1 rounded-full border border-gray-600">
-                        Viewing: {activeImageIndex === 0 ? 'Image A' : 'Image B'}
+                        {t('lab.viewing', { label: layout === 'single' ? getImageLabel(context, activeImageIndex, t) : t('lab.versus', { variant: getImageLabel(context, compareIndex, t), baseline: getImageLabel(context, 0, t) }) })}
                     </span>
                  )}
               </h3>
@@ -274,44 +690,79 @@ const App: React.FC = () => {
                     onClick={() => setVizMode('heatmap')}
                     className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${vizMode === 'heatmap' ? 'bg-pink-600 text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
                  >
-                    <Activity className="w-4 h-4" /> Heatmap
+                    <Activity className="w-4 h-4" /> {t('viz.heatmap')}
                  </button>
                  <button 
                     onClick={() => setVizMode('fogmap')}
                     className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${vizMode === 'fogmap' ? 'bg-pink-600 text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
                  >
-                    <Eye className="w-4 h-4" /> Fog Map
+                    <Eye className="w-4 h-4" /> {t('viz.fogmap')}
                  </button>
                  <button 
                     onClick={() => setVizMode('path')}
                     className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${vizMode === 'path' ? 'bg-pink-600 text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
                  >
-                    <Fingerprint className="w-4 h-4" /> Path
+                    <Fingerprint className="w-4 h-4" /> {t('viz.path')}
                  </button>
-              </div>
-           </div>
-
-           {/* A/B Comparison Toggle (New) */}
-           {isAB && (
-             <div className="mb-4 flex items-center justify-center gap-4">
                  <button 
-                   onClick={() => setActiveImageIndex(0)}
-                   className={`flex-1 py-2 rounded-lg border text-sm font-bold transition-all ${activeImageIndex === 0 ? 'bg-pink-600 border-pink-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-400 hover:bg-gray-600'}`}
+                    onClick={() => setVizMode('device')}
+                    className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${vizMode === 'device' ? 'bg-pink-600 text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
                  >
-                    Image A (Control)
-                 </button>
-                 <ArrowRightLeft className="w-4 h-4 text-gray-500" />
-                 <button 
-                   onClick={() => setActiveImageIndex(1)}
-                   className={`flex-1 py-2 rounded-lg border text-sm font-bold transition-all ${activeImageIndex === 1 ? 'bg-purple-600 border-purple-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-400 hover:bg-gray-600'}`}
-                 >
-                    Image B (Variant)
+                    <Smartphone className="w-4 h-4" /> {t('viz.device')}
                  </button>
+              </div>
+           </div>
+
+           {/* Comparison Layout (A/B and multi-variant tests) */}
+           {isComparison && variantHotspotSets.length > 1 && vizMode !== 'device' && (
+             <div className="mb-4 flex justify-center">
+               <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
+                 {([
+                   { id: 'single', label: t('layout.single'), icon: ImageIcon },
+                   { id: 'difference', label: t('layout.difference'), icon: Diff },
+                   { id: 'sideBySide', label: t('layout.sideBySide'), icon: Columns2 },
+                 ] as const).map((opt) => (
+                   <button
+                     key={opt.id}
+                     onClick={() => setComparisonLayout(opt.id)}
+                     className={`px-3 py-1 rounded-md text-xs font-medium transition-all flex items-center gap-1.5 ${layout === opt.id ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
+                   >
+                     <opt.icon className="w-3.5 h-3.5" /> {opt.label}
+                   </button>
+                 ))}
+               </div>
              </div>
            )}
 
+           {/* Variant Switcher (A/B and multi-variant tests) */}
+           {isComparison && variantHotspotSets.length > 1 && (
+             <VariantSwitcher
+               labels={variantLabels}
+               activeIndex={activeImageIndex}
+               onChange={setActiveImageIndex}
+               ranks={isMulti ? variantRanks : undefined}
+               language={language}
+             />
+           )}
+
+           <SaliencyCrossCheck source={hotspotSource} onSourceChange={setHotspotSource} agreement={agreement} language={language} />
+
+           {(vizMode === 'heatmap' || layout === 'difference') && (
+             <HeatmapControls settings={heatmapSettings} onChange={setHeatmapSettings} language={language} />
+           )}
+
+           {differencePeaks && (
+             <DifferenceLegend
+               baselineLabel={getImageLabel(context, 0, t)}
+               variantLabel={getImageLabel(context, compareIndex, t)}
+               gain={differencePeaks.gain}
+               loss={differencePeaks.loss}
+               language={language}
+             />
+           )}
+
            {/* Guide */}
-           {!isAB && (
+           {!isComparison && (
                <div className="mb-4 mx-2 bg-gray-900/80 border border-gray-700 rounded-lg p-4">
                   <div className="flex items-start gap-3">
                     <div className="mt-1 p-1 bg-pink-500/10 rounded-full flex-shrink-0">
@@ -321,11 +772,11 @@ const App: React.FC = () => {
                       <h4 className="text-sm font-bold text-white mb-2">{vizGuide.title}</h4>
                       <div className="grid grid-cols-1 gap-2">
                         <div className="bg-gray-800/50 p-2 rounded border border-gray-700/50">
-                           <span className="text-[10px] font-bold text-pink-400 uppercase tracking-wide block mb-1">Advertiser View</span>
+                           <span className="text-[10px] font-bold text-pink-400 uppercase tracking-wide block mb-1">{t('guide.advertiser')}</span>
                            <p className="text-xs text-gray-300 leading-relaxed">{vizGuide.advertiser}</p>
                         </div>
                         <div className="bg-gray-800/50 p-2 rounded border border-gray-700/50">
-                           <span className="text-[10px] font-bold text-blue-400 uppercase tracking-wide block mb-1">Customer View</span>
+                           <span className="text-[10px] font-bold text-blue-400 uppercase tracking-wide block mb-1">{t('guide.customer')}</span>
                            <p className="text-xs text-gray-300 leading-relaxed">{vizGuide.customer}</p>
                         </div>
                       </div>
@@ -335,24 +786,110 @@ const App: React.FC = () => {
            )}
 
            <div className="flex-1 relative bg-black/50 rounded-xl overflow-hidden flex items-center justify-center border border-gray-700/50">
-              <HeatmapOverlay 
-                imageSrc={activePreview} 
-                hotspots={activeHotspots} 
-                mode={vizMode}
-              />
+              {vizMode === 'device' ? (
+                <DeviceSimulationView imageSrc={previews[activeImageIndex]} hotspots={activeHotspots} language={language} />
+              ) : layout === 'sideBySide' ? (
+                <SideBySideView
+                  panes={[0, compareIndex].map((idx) => ({
+                    label: getImageLabel(context, idx, t),
+                    imageSrc: previews[idx],
+                    hotspots: resolveHotspots(idx),
+                  }))}
+                  mode={vizMode}
+                  heatmapSettings={heatmapSettings}
+                  language={language}
+                />
+              ) : vizMode === 'path' && layout === 'single' ? (
+                <ScanpathPlayer
+                  imageSrc={previews[shownIndex]}
+                  imageLabel={getImageLabel(context, shownIndex, t)}
+                  hotspots={shownHotspots}
+                  aois={aois}
+                  aoiTool={aoiTool}
+                  onAoiDrawn={handleAoiDrawn}
+                  language={language}
+                />
+              ) : (
+                <HeatmapOverlay 
+                  imageSrc={previews[shownIndex]} 
+                  hotspots={shownHotspots} 
+                  mode={vizMode}
+                  heatmapSettings={heatmapSettings}
+                  baselineHotspots={baselineHotspots}
+                  aois={aois}
+                  aoiTool={aoiTool}
+                  onAoiDrawn={handleAoiDrawn}
+                  language={language}
+                />
+              )}
            </div>
+
+           {vizMode !== 'device' && (
+             <AoiPanel
+               aois={aois}
+               onChange={setAois}
+               tool={aoiTool}
+               onToolChange={setAoiTool}
+               nextName={aoiName}
+               onNextNameChange={setAoiName}
+               language={language}
+             />
+           )}
            
         </div>
 
         {/* Right: Analysis Report */}
         <div className="w-full lg:w-[450px] xl:w-[500px] flex flex-col h-full bg-gray-900">
            <div className="flex items-center justify-between mb-4">
-             <h3 className="text-xl font-bold text-white">Strategic Report</h3>
-             <button onClick={handleReset} className="text-gray-400 hover:text-white flex items-center gap-1 text-sm">
-               <RefreshCw className="w-4 h-4" /> New Analysis
-             </button>
+             <h3 className="text-xl font-bold text-white">{t('report.title')}</h3>
+             {loading ? (
+               <div className="flex items-center gap-3">
+                 <span className="text-sm text-gray-400 flex items-center gap-2">
+                   <Loader2 className="w-4 h-4 animate-spin text-pink-400" /> {streaming ? t('report.receiving') : t('report.rerunning')}
+                 </span>
+                 <Button size="sm" variant="outline" onClick={handleCancelAnalysis}>
+                   <X className="mr-1 w-4 h-4" /> {t('nav.cancel')}
+                 </Button>
+               </div>
+             ) : (
+               <div className="flex items-center gap-4">
+                 <ExportMenu
+                   input={{ result, context, profile, previews, heatmapSettings }}
+                   language={language}
+                   activeView={{
+                     imageSrc: previews[shownIndex],
+                     imageLabel: baselineHotspots
+                       ? t('lab.versus', { variant: getImageLabel(context, shownIndex, t), baseline: getImageLabel(context, 0, t) })
+                       : getImageLabel(context, shownIndex, t),
+                     hotspots: shownHotspots,
+                     // Device renders are not an overlay; exports fall back to the heatmap
+                     mode: vizMode === 'device' ? 'heatmap' : vizMode,
+                     heatmapSettings,
+                     baselineHotspots,
+                   }}
+                 />
+                 <button onClick={() => setStep('history')} className="text-gray-400 hover:text-white flex items-center gap-1 text-sm">
+                   <History className="w-4 h-4" /> {t('nav.history')}
+                 </button>
+                 <button onClick={handleReset} className="text-gray-400 hover:text-white flex items-center gap-1 text-sm">
+                   <RefreshCw className="w-4 h-4" /> {t('nav.newAnalysis')}
+                 </button>
+               </div>
+             )}
            </div>
-           <AnalysisView result={result} context={context} />
+           {analysisError && <div className="mb-4">{renderAnalysisError()}</div>}
+           <AnalysisView
+             result={result}
+             profile={profile}
+             aoiMeasurements={aoiMeasurements}
+             activeImageIndex={activeImageIndex}
+             tileAttention={tileAttention}
+             imageSrc={previews[activeImageIndex]}
+             onRerun={() => handleAnalyze({ forceRerun: true })}
+             rerunning={loading}
+             streaming={streaming}
+             language={language}
+           />
         </div>
 
       </div>
@@ -368,7 +905,16 @@ const App: React.FC = () => {
       </div>
 
       <div className="relative z-10 w-full">
-         {step === 1 ? renderInputPhase() : renderAnalysisPhase()}
+         {step === 1 && renderInputPhase()}
+         {step === 2 && renderAnalysisPhase()}
+         {step === 'history' && (
+           <HistoryView language={language} onOpen={handleOpenRecord} onClose={() => setStep(result ? 2 : 1)} />
+         )}
+         {batchOpened && (
+           <div className={step === 'batch' ? '' : 'hidden'}>
+             <BatchQueueView language={language} defaultContext={context} runItem={runBatchItem} onOpen={handleOpenBatchItem} onClose={() => setStep(1)} />
+           </div>
+         )}
       </div>
     </div>
   );
@@ -0,0 +1,172 @@
+import { existsSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { AnalysisContext, AnalysisResult } from "../types";
+import { analysisProviders, getAnalysisProvider, getDefaultProviderId } from "../services/analysisProviders";
+import { classifyError, ERROR_GUIDANCE } from "../services/analysisErrors";
+import { getBuiltInProfile } from "../services/contextProfiles";
+import { DEFAULT_HEATMAP_SETTINGS } from "../services/densityRenderer";
+import { MARKETPLACES } from "../services/marketplaces";
+import { getTranslator, LANGUAGES } from "../services/messages";
+import { buildReportMarkdown } from "../services/reportExport";
+import { getMaxFileCount, getRequiredFileCount, getVariantHotspots, variantLabel } from "../services/variants";
+import { LocalImage, readLocalImage } from "./imageFiles";
+import { renderHeatmapOverlayPng } from "./overlayPng";
+
+// Scripts branch on these, so their meaning must stay stable
+const EXIT_OK = 0;
+const EXIT_FAILED = 1; // Provider, network or file errors
+const EXIT_USAGE = 2;
+const EXIT_INVALID = 3; // The response never passed validation
+const EXIT_REPAIRED = 4; // Only with --strict: the result needed repairs or re-prompts
+
+const CONTEXT_FLAGS: Record<string, AnalysisContext> = {
+  hero: AnalysisContext.HERO,
+  aplus: AnalysisContext.APLUS,
+  search: AnalysisContext.SEARCH,
+  storefront: AnalysisContext.STOREFRONT,
+  ab: AnalysisContext.AB_TEST,
+  multi: AnalysisContext.MULTI_VARIANT,
+};
+
+const USAGE = `Usage: npm run analyze -- <image> [options]
+
+Options:
+  --context <name>   ${Object.keys(CONTEXT_FLAGS).join(" | ")}
+                     (default: hero; ab with one --variant, multi with more)
+  --variant <image>  Another image to compare against <image>; repeat for multi-variant tests
+  --out <dir>        Output directory (default: heatmap-output)
+  --provider <id>    ${analysisProviders.map((p) => p.id).join(" | ")} (default: from ANALYSIS_PROVIDER or GEMINI_API_KEY)
+  --marketplace <id> ${MARKETPLACES.map((m) => m.id).join(" | ")} (default: us)
+  --language <id>    ${LANGUAGES.map((l) => l.id).join(" | ")} for the report text (default: the marketplace's language)
+  --overlays         Also write a transparent heatmap PNG per image
+  --strict           Exit with ${EXIT_REPAIRED} when the result needed repairs
+  -h, --help         Show this help
+
+Writes analysis.json and summary.md. Exit codes: ${EXIT_OK} ok, ${EXIT_FAILED} analysis failed,
+${EXIT_USAGE} bad arguments, ${EXIT_INVALID} response failed validation, ${EXIT_REPAIRED} repaired (--strict).`;
+
+const VALIDATION_KINDS = new Set(["malformedJson", "incompleteSchema"]);
+
+const usageError = (message: string): number => {
+  console.error(`${message}\n\n${USAGE}`);
+  return EXIT_USAGE;
+};
+
+// The browser gets these from Vite at build time; here they are read when the CLI runs
+const loadEnv = () => {
+  if (existsSync(".env.local")) process.loadEnvFile(".env.local");
+  // process.env turns undefined into the string "undefined", so only copy a real key
+  if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+};
+
+const writeOutputs = async (out: string, images: LocalImage[], result: AnalysisResult, context: AnalysisContext, overlays: boolean) => {
+  await mkdir(out, { recursive: true });
+  const written = [join(out, "analysis.json"), join(out, "summary.md")];
+  await writeFile(written[0], `${JSON.stringify(result, null, 2)}\n`);
+  await writeFile(written[1], buildReportMarkdown({ result, context, profile: getBuiltInProfile(context), previews: [] }));
+
+  if (overlays) {
+    for (const [idx, hotspots] of getVariantHotspots(result).entries()) {
+      const image = images[idx];
+      if (!image) continue;
+      if (!image.size) {
+        console.warn(`Skipping the overlay for ${image.path}: its pixel size could not be read`);
+        continue;
+      }
+      const path = join(out, images.length > 1 ? `heatmap-${variantLabel(idx)}.png` : "heatmap.png");
+      await writeFile(path, renderHeatmapOverlayPng(hotspots, image.size, DEFAULT_HEATMAP_SETTINGS));
+      written.push(path);
+    }
+  }
+  return written;
+};
+
+const main = async (): Promise<number> => {
+  let args;
+  try {
+    args = parseArgs({
+      allowPositionals: true,
+      options: {
+        context: { type: "string" },
+        variant: { type: "string", multiple: true, default: [] },
+        out: { type: "string", default: "heatmap-output" },
+        provider: { type: "string" },
+        marketplace: { type: "string", default: "us" },
+        language: { type: "string" },
+        overlays: { type: "boolean", default: false },
+        strict: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    return usageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = args;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (positionals.length !== 1) return usageError("Expected exactly one image; pass comparison images with --variant.");
+
+  const paths = [positionals[0], ...values.variant];
+  const inferred = paths.length === 1 ? "hero" : paths.length === 2 ? "ab" : "multi";
+  const context = CONTEXT_FLAGS[values.context ?? inferred];
+  if (!context) return usageError(`Unknown context "${values.context}".`);
+  if (paths.length < getRequiredFileCount(context) || paths.length > getMaxFileCount(context)) {
+    const min = getRequiredFileCount(context);
+    const max = getMaxFileCount(context);
+    return usageError(`${context} takes ${min === max ? min : `${min}-${max}`} image(s), got ${paths.length}.`);
+  }
+
+  const marketplace = MARKETPLACES.find((m) => m.id === values.marketplace);
+  if (!marketplace) return usageError(`Unknown marketplace "${values.marketplace}".`);
+  const language = LANGUAGES.find((l) => l.id === (values.language ?? marketplace.language))?.id;
+  if (!language) return usageError(`Unknown language "${values.language}".`);
+
+  loadEnv();
+  const providerId = values.provider ?? getDefaultProviderId();
+  if (!analysisProviders.some((p) => p.id === providerId)) return usageError(`Unknown provider "${providerId}".`);
+  const provider = getAnalysisProvider(providerId);
+
+  let images: LocalImage[];
+  try {
+    images = await Promise.all(paths.map(readLocalImage));
+  } catch (error) {
+    console.error(`Could not read the images: ${error instanceof Error ? error.message : error}`);
+    return EXIT_FAILED;
+  }
+
+  console.error(`Analyzing ${images.length} image(s) as "${context}" for ${marketplace.domain} with ${provider.label} (${provider.model})...`);
+  let result: AnalysisResult;
+  try {
+    const options = { profile: getBuiltInProfile(context), marketplace: marketplace.id, language };
+    // Recorded in analysis.json the way the app stores them with its results
+    result = { ...(await provider.analyze(images.map((image) => image.file), context, options)), marketplace: marketplace.id, language };
+  } catch (error) {
+    const classified = classifyError(error);
+    console.error(`${getTranslator("en")(ERROR_GUIDANCE[classified.kind].titleKey)}: ${classified.message}`);
+    if (classified.detail) console.error(classified.detail);
+    return VALIDATION_KINDS.has(classified.kind) ? EXIT_INVALID : EXIT_FAILED;
+  }
+
+  const written = await writeOutputs(values.out, images, result, context, values.overlays);
+  written.forEach((path) => console.log(path));
+
+  if (result.validation?.repaired) {
+    console.error(`The response needed ${result.validation.issues.length} correction(s); see summary.md.`);
+    if (values.strict) return EXIT_REPAIRED;
+  }
+  return EXIT_OK;
+};
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(error);
+    process.exitCode = EXIT_FAILED;
+  }
+);
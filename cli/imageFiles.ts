@@ -0,0 +1,90 @@
+import { readFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+
+// The browser fills File.type from the picker; on disk the extension is all there is
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".heic": "image/heic",
+  ".heif": "image/heif",
+  ".gif": "image/gif",
+};
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface LocalImage {
+  path: string;
+  file: File;
+  size: ImageSize | null; // Null for formats whose header is not parsed (HEIC)
+}
+
+const readUint16 = (bytes: Uint8Array, offset: number, littleEndian = false) =>
+  littleEndian ? bytes[offset] | (bytes[offset + 1] << 8) : (bytes[offset] << 8) | bytes[offset + 1];
+
+const readUint24LE = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// JPEG start-of-frame markers; C4, C8 and CC share the range but are not frames
+const isStartOfFrame = (marker: number) => marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+
+const readJpegSize = (bytes: Uint8Array): ImageSize | null => {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (isStartOfFrame(marker)) {
+      return { height: readUint16(bytes, offset + 5), width: readUint16(bytes, offset + 7) };
+    }
+    offset += 2 + readUint16(bytes, offset + 2);
+  }
+  return null;
+};
+
+const readWebpSize = (bytes: Uint8Array): ImageSize | null => {
+  switch (ascii(bytes, 12, 4)) {
+    case "VP8 ":
+      return { width: readUint16(bytes, 26, true) & 0x3fff, height: readUint16(bytes, 28, true) & 0x3fff };
+    case "VP8L": {
+      const bits = bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case "VP8X":
+      return { width: readUint24LE(bytes, 24) + 1, height: readUint24LE(bytes, 27) + 1 };
+    default:
+      return null;
+  }
+};
+
+/** Pixel size from the file header, without decoding the image. */
+export const readImageSize = (bytes: Uint8Array): ImageSize | null => {
+  if (bytes.length < 30) return null;
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === "PNG") {
+    return { width: readUint32(bytes, 16), height: readUint32(bytes, 20) };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpegSize(bytes);
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") return readWebpSize(bytes);
+  if (ascii(bytes, 0, 3) === "GIF") {
+    return { width: readUint16(bytes, 6, true), height: readUint16(bytes, 8, true) };
+  }
+  return null;
+};
+
+/**
+ * Reads an image from disk as the File the analysis providers expect. Node has
+ * File and Blob globally, so the providers run unchanged on it.
+ */
+export const readLocalImage = async (path: string): Promise<LocalImage> => {
+  const bytes = await readFile(path);
+  const type = MIME_TYPES[extname(path).toLowerCase()] ?? "";
+  return { path, file: new File([bytes], basename(path), { type }), size: readImageSize(bytes) };
+};
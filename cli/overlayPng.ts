@@ -0,0 +1,69 @@
+import { crc32, deflateSync } from "node:zlib";
+import { HeatmapSettings, Hotspot, PixelBuffer } from "../types";
+import { renderDensityPixels } from "../services/densityRenderer";
+import { ImageSize } from "./imageFiles";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const chunk = (type: string, data: Uint8Array): Buffer => {
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const out = Buffer.alloc(body.length + 8);
+  out.writeUInt32BE(data.length, 0);
+  body.copy(out, 4);
+  out.writeUInt32BE(crc32(body), body.length + 4);
+  return out;
+};
+
+/** 8-bit RGBA PNG; every scanline uses filter 0, which deflate handles well enough for smooth heatmaps. */
+export const encodePng = ({ width, height, data }: PixelBuffer): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.set([8, 6, 0, 0, 0], 8); // Bit depth, RGBA, deflate, no filter set, no interlace
+
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from(PNG_SIGNATURE),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", new Uint8Array()),
+  ]);
+};
+
+// What drawImage with smoothing does in the browser: the density grid is far smaller than the image
+const upscaleBilinear = (source: PixelBuffer, width: number, height: number): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  const sx = source.width / width;
+  const sy = source.height / height;
+  for (let y = 0; y < height; y++) {
+    const fy = Math.max(0, Math.min(source.height - 1, (y + 0.5) * sy - 0.5));
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(source.height - 1, y0 + 1);
+    const ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.max(0, Math.min(source.width - 1, (x + 0.5) * sx - 0.5));
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(source.width - 1, x0 + 1);
+      const tx = fx - x0;
+      for (let c = 0; c < 4; c++) {
+        const top = source.data[(y0 * source.width + x0) * 4 + c] * (1 - tx) + source.data[(y0 * source.width + x1) * 4 + c] * tx;
+        const bottom = source.data[(y1 * source.width + x0) * 4 + c] * (1 - tx) + source.data[(y1 * source.width + x1) * 4 + c] * tx;
+        data[(y * width + x) * 4 + c] = top * (1 - ty) + bottom * ty;
+      }
+    }
+  }
+  return { width, height, data };
+};
+
+/**
+ * The heatmap layer on its own, at the image's size, as a transparent PNG to
+ * lay over the original. Node cannot decode JPEG or WebP without extra
+ * dependencies, so the image itself is not composited in.
+ */
+export const renderHeatmapOverlayPng = (hotspots: Hotspot[], size: ImageSize, settings: HeatmapSettings): Buffer =>
+  encodePng(upscaleBilinear(renderDensityPixels(hotspots, size.width, size.height, settings), size.width, size.height));
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { AnalysisErrorKind, AnalysisProvider, Language, RecoveryAction } from '../types';
+import { AnalysisError, ERROR_GUIDANCE } from '../services/analysisErrors';
+import { getTranslator } from '../services/messages';
+import { backoffDelay } from '../services/batchQueue';
+import { AlertTriangle, KeyRound, Timer, ShieldAlert, Shrink, FileWarning, FileJson, WifiOff, RefreshCw, ArrowLeftRight, X } from 'lucide-react';
+
+interface AnalysisErrorPanelProps {
+  error: AnalysisError;
+  quotaAttempt: number; // Consecutive rate-limit failures, for the backoff delay
+  alternative?: AnalysisProvider;
+  busy?: boolean;
+  onRetry: () => void;
+  onDownscale: () => void;
+  onSwitchProvider: (providerId: string) => void;
+  onDismiss: () => void;
+  language: Language;
+}
+
+const KIND_ICONS: Record<AnalysisErrorKind, React.ElementType> = {
+  apiKey: KeyRound,
+  quota: Timer,
+  safety: ShieldAlert,
+  imageTooLarge: Shrink,
+  unsupportedImage: FileWarning,
+  malformedJson: FileJson,
+  incompleteSchema: FileJson,
+  offline: WifiOff,
+  unknown: AlertTriangle,
+};
+
+export const AnalysisErrorPanel: React.FC<AnalysisErrorPanelProps> = ({ error, quotaAttempt, alternative, busy, onRetry, onDownscale, onSwitchProvider, onDismiss, language }) => {
+  const t = getTranslator(language);
+  const guidance = ERROR_GUIDANCE[error.kind];
+  const Icon = KIND_ICONS[error.kind];
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => setRetryAt(null), [error]);
+
+  useEffect(() => {
+    if (retryAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  useEffect(() => {
+    if (retryAt !== null && now >= retryAt) {
+      setRetryAt(null);
+      onRetry();
+    }
+  }, [now, retryAt, onRetry]);
+
+  const startBackoff = () => {
+    setNow(Date.now());
+    setRetryAt(Date.now() + backoffDelay(Math.max(1, quotaAttempt)));
+  };
+
+  const actionButton = (action: RecoveryAction, primary: boolean) => {
+    const className = `px-3 py-1.5 rounded-lg text-xs font-medium transition-all flex items-center gap-1.5 disabled:opacity-50 ${
+      primary ? 'bg-red-500/80 hover:bg-red-500 text-white' : 'border border-gray-600 text-gray-300 hover:text-white hover:border-gray-400'
+    }`;
+    switch (action) {
+      case 'retry':
+        return (
+          <button key={action} onClick={onRetry} disabled={busy} className={className}>
+            <RefreshCw className="w-3 h-3" /> {t('error.tryAgain')}
+          </button>
+        );
+      case 'retryWithBackoff':
+        return retryAt !== null ? (
+          <button key={action} onClick={() => setRetryAt(null)} className={className}>
+            <Timer className="w-3 h-3" /> {t('error.retryingIn', { seconds: Math.max(0, Math.ceil((retryAt - now) / 1000)) })}
+          </button>
+        ) : (
+          <button key={action} onClick={startBackoff} disabled={busy} className={className}>
+            <Timer className="w-3 h-3" /> {t('error.retryWithBackoff')}
+          </button>
+        );
+      case 'downscale':
+        return (
+          <button key={action} onClick={onDownscale} disabled={busy} className={className}>
+            <Shrink className="w-3 h-3" /> {t(error.kind === 'unsupportedImage' ? 'error.convertAndRetry' : 'error.downscaleAndRetry')}
+          </button>
+        );
+      case 'switchProvider':
+        return alternative ? (
+          <button key={action} onClick={() => onSwitchProvider(alternative.id)} disabled={busy} className={className}>
+            <ArrowLeftRight className="w-3 h-3" /> {t('error.switchTo', { provider: alternative.label })}
+          </button>
+        ) : null;
+    }
+  };
+
+  return (
+    <div className="bg-red-950/40 border border-red-500/40 rounded-xl p-4 text-left">
+      <div className="flex items-start gap-3">
+        <Icon className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="text-sm font-semibold text-red-200">{t(guidance.titleKey)}</h4>
+            <button onClick={onDismiss} className="text-gray-500 hover:text-white" title={t('nav.dismiss')}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-xs text-gray-300 mt-1">{t(error.text.key, error.text.params)}</p>
+          {error.text.key !== guidance.messageKey && <p className="text-xs text-gray-400 mt-1">{t(guidance.messageKey)}</p>}
+          <p className="text-[10px] text-gray-500 mt-1">{t('error.inputsKept')}</p>
+
+          <div className="flex flex-wrap gap-2 mt-3">
+            {guidance.actions.map((action, idx) => actionButton(action, idx === 0))}
+          </div>
+
+          {error.detail && (
+            <details className="mt-3">
+              <summary className="text-[10px] uppercase font-bold tracking-wider text-gray-500 cursor-pointer hover:text-gray-300">{t('nav.details')}</summary>
+              <pre className="mt-1 text-[10px] text-gray-400 whitespace-pre-wrap break-words max-h-32 overflow-y-auto">{error.detail}</pre>
+            </details>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
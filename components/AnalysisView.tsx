@@ -1,5 +1,16 @@
-import React from 'react';
-import { AnalysisContext, AnalysisResult } from '../types';
+import React, { useState } from 'react';
+import { AnalysisContext, AnalysisResult, AoiMeasurement, ContextProfile, Language, StrategicInsight, TileAttention } from '../types';
+import { aoiColor } from '../services/aoiService';
+import { VariantLeaderboard } from './VariantLeaderboard';
+import { ComplianceChecklist } from './ComplianceChecklist';
+import { KeywordAlignmentPanel } from './KeywordAlignmentPanel';
+import { EnsemblePanel } from './EnsemblePanel';
+import { ColorPalettePanel } from './ColorPalettePanel';
+import { ProfitCalculator } from './ProfitCalculator';
+import { formatRange } from '../services/projections';
+import { localizeProfile } from '../services/contextProfiles';
+import { getMarketplace } from '../services/marketplaces';
+import { getLanguage, getTranslator, MessageKey } from '../services/messages';
 import { 
   BarChart, 
   Bar, 
@@ -9,47 +20,78 @@ import {
   Tooltip, 
   ResponsiveContainer,
   Cell,
-  Legend
+  Legend,
+  ErrorBar
 } from 'recharts';
-import { Eye, Target, Zap, Lightbulb, Activity, TrendingUp, DollarSign, MousePointer, ShoppingBag, Trophy, Scale, CheckCircle2 } from 'lucide-react';
+import { Eye, Target, Zap, Lightbulb, Activity, TrendingUp, DollarSign, MousePointer, ShoppingBag, Trophy, Scale, CheckCircle2, Wrench, DatabaseZap, RefreshCw, Radio } from 'lucide-react';
+
+const SCENARIO_KEYS: Record<StrategicInsight['scenario'], MessageKey> = {
+  Winning: 'view.scenario.Winning',
+  Losing: 'view.scenario.Losing',
+  Neutral: 'view.scenario.Neutral',
+};
 
 interface AnalysisViewProps {
   result: AnalysisResult;
-  context: AnalysisContext;
+  profile: ContextProfile;
+  aoiMeasurements?: AoiMeasurement[];
+  activeImageIndex?: number;
+  tileAttention?: TileAttention[];
+  imageSrc?: string; // Preview of the active image, for local color measurements
+  onRerun?: () => void; // Offered on cached results to bypass the cache
+  rerunning?: boolean;
+  streaming?: boolean; // Result is provisional and still filling in
+  language: Language; // UI language; the report text comes in whatever language it was requested in
 }
 
-export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, context }) => {
-  const { report } = result;
+export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, profile, aoiMeasurements = [], activeImageIndex = 0, tileAttention = [], imageSrc, onRerun, rerunning = false, streaming = false, language }) => {
+  const { report, validation } = result;
+  const t = getTranslator(language);
+  const [showRepairs, setShowRepairs] = useState(false);
 
+  const { ensemble } = result;
+  // Distance from the mean to each end of the ensemble interval, as ErrorBar expects
+  const errorOf = (key: keyof typeof report.metrics) =>
+    ensemble ? [ensemble.metrics[key].mean - ensemble.metrics[key].low, ensemble.metrics[key].high - ensemble.metrics[key].mean] : undefined;
   const scoreData = [
-    { name: 'Visibility', score: report.metrics.visibilityScore, color: '#ec4899' },
-    { name: 'Goal Align', score: report.metrics.goalAlignmentScore, color: '#8b5cf6' },
-    { name: 'Clarity', score: report.metrics.clarityScore, color: '#10b981' },
+    { name: t('view.score.visibility'), score: report.metrics.visibilityScore, error: errorOf('visibilityScore'), color: '#ec4899' },
+    { name: t('view.score.goalAlign'), score: report.metrics.goalAlignmentScore, error: errorOf('goalAlignmentScore'), color: '#8b5cf6' },
+    { name: t('view.score.clarity'), score: report.metrics.clarityScore, error: errorOf('clarityScore'), color: '#10b981' },
   ];
 
   // Dynamic Content Helpers
+  const context = profile.base;
   const isSearch = context === AnalysisContext.SEARCH;
-  const isAplus = context === AnalysisContext.APLUS;
   const isStore = context === AnalysisContext.STOREFRONT;
-  const isHero = context === AnalysisContext.HERO;
   const isAB = context === AnalysisContext.AB_TEST;
-
-  const strategyTitle = isSearch ? "PPC Bidding Strategy" 
-    : isAplus ? "Conversion & Content Strategy"
-    : isStore ? "Brand & Traffic Strategy"
-    : isAB ? "Experimentation Strategy"
-    : "CTR & Main Image Strategy";
+  const isMulti = context === AnalysisContext.MULTI_VARIANT;
+  const { labels, name: profileName } = localizeProfile(profile, t);
+  const activeAoi = aoiMeasurements[activeImageIndex];
+  const ourTile = tileAttention.find((tile) => tile.isOurs);
+  const competitorTiles = tileAttention.filter((tile) => !tile.isOurs);
+  const competitorAverage = competitorTiles.length > 0
+    ? Math.round((competitorTiles.reduce((sum, tile) => sum + tile.attentionShare, 0) / competitorTiles.length) * 10) / 10
+    : 0;
+  // Results from before marketplaces were selectable are amazon.com ones
+  const marketplace = getMarketplace(result.marketplace);
+  // The winner is a schema enum and stays English in every report language
+  const verdictWinner = (winner: string) =>
+    winner === 'Image A' ? t('view.wins', { winner: t('view.imageA') })
+      : winner === 'Image B' ? t('view.wins', { winner: t('view.imageB') })
+      : t('view.inconclusive');
 
   const businessMetrics = [
     { 
-      label: isSearch || isHero ? 'Est. CTR Impact' : 'Est. Engagement', 
+      label: labels.ctrLabel, 
       value: report.commercialProjections.predictedCTR, 
+      range: report.commercialProjections.ctrLift,
       icon: isSearch ? MousePointer : Activity, 
       color: 'text-green-400' 
     },
     { 
-      label: isAplus ? 'Conv. Rate Lift' : isStore ? 'AOV Potential' : 'Sales Potential', 
+      label: labels.conversionLabel, 
       value: report.commercialProjections.conversionLiftPotential, 
+      range: report.commercialProjections.conversionLift,
       icon: isStore ? ShoppingBag : TrendingUp, 
       color: 'text-blue-400' 
     },
@@ -61,27 +103,74 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, context }) =
       {/* Context Badge */}
       <div className="flex items-center gap-2 mb-2">
          <span className="text-[10px] uppercase font-bold tracking-wider text-gray-500 bg-gray-800 px-2 py-1 rounded border border-gray-700">
-           {context} Mode
+           {profileName}
          </span>
+         {validation?.repaired && (
+           <button
+             onClick={() => setShowRepairs(!showRepairs)}
+             className="text-[10px] uppercase font-bold tracking-wider text-yellow-300 bg-yellow-500/10 px-2 py-1 rounded border border-yellow-500/30 flex items-center gap-1 hover:bg-yellow-500/20"
+           >
+             <Wrench className="w-3 h-3" /> {t('view.autoRepaired', { count: validation.issues.length })}
+           </button>
+         )}
+         {streaming && (
+           <span className="text-[10px] uppercase font-bold tracking-wider text-pink-300 bg-pink-500/10 px-2 py-1 rounded border border-pink-500/30 flex items-center gap-1 animate-pulse">
+             <Radio className="w-3 h-3" /> {t('view.streaming')}
+           </span>
+         )}
+         {result.cachedAt && (
+           <span
+             className="text-[10px] uppercase font-bold tracking-wider text-blue-300 bg-blue-500/10 px-2 py-1 rounded border border-blue-500/30 flex items-center gap-1"
+             title={t('view.cachedTitle')}
+           >
+             <DatabaseZap className="w-3 h-3" /> {t('view.cached', { date: new Date(result.cachedAt).toLocaleString(getLanguage(language).locale) })}
+           </span>
+         )}
+         {result.cachedAt && onRerun && (
+           <button
+             onClick={onRerun}
+             disabled={rerunning}
+             className="text-[10px] uppercase font-bold tracking-wider text-gray-300 bg-gray-800 px-2 py-1 rounded border border-gray-700 flex items-center gap-1 hover:text-white disabled:opacity-50"
+           >
+             <RefreshCw className={`w-3 h-3 ${rerunning ? 'animate-spin' : ''}`} /> {t('view.forceRerun')}
+           </button>
+         )}
       </div>
 
+      {validation?.repaired && showRepairs && (
+        <div className="bg-yellow-900/10 rounded-xl p-4 border border-yellow-500/30 text-xs">
+          <p className="text-yellow-200 mb-2">
+            {validation.attempts > 1 ? t('view.repairNoteReprompts', { count: validation.attempts - 1 }) : t('view.repairNote')}
+          </p>
+          <ul className="space-y-1 text-gray-300">
+            {validation.issues.map((issue, idx) => (
+              <li key={idx}><span className="font-mono text-yellow-400">{issue.path || t('view.response')}</span>: {issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {ensemble && <EnsemblePanel summary={ensemble} activeImageIndex={activeImageIndex} language={language} />}
+
+      {result.compliance && <ComplianceChecklist report={result.compliance} language={language} />}
+
       {/* A/B Verdict Card (Only for A/B Tests) */}
       {isAB && report.abTestVerdict && (
         <div className="bg-gradient-to-r from-purple-900/40 to-pink-900/40 rounded-xl p-6 border border-purple-500/50 shadow-lg">
            <h2 className="text-lg font-bold text-white mb-3 flex items-center gap-2">
              <Trophy className="w-5 h-5 text-yellow-400" />
-             Comparison Verdict
+             {t('view.verdict')}
            </h2>
            <div className="flex items-center justify-between mb-4">
-              <span className="text-2xl font-bold text-white">{report.abTestVerdict.winner} Wins</span>
+              <span className="text-2xl font-bold text-white">{verdictWinner(report.abTestVerdict.winner)}</span>
               <span className="text-xs font-bold bg-purple-500/20 text-purple-300 px-2 py-1 rounded border border-purple-500/30">
-                {report.abTestVerdict.confidenceScore}% Confidence
+                {t('view.confidence', { score: report.abTestVerdict.confidenceScore })}
               </span>
            </div>
-           <p className="text-sm text-gray-200 mb-2 font-medium">Why?</p>
+           <p className="text-sm text-gray-200 mb-2 font-medium">{t('view.why')}</p>
            <p className="text-sm text-gray-300 mb-3 leading-relaxed">{report.abTestVerdict.reasoning}</p>
            <div className="text-xs text-purple-300 flex items-center gap-1">
-             <Scale className="w-3 h-3" /> Key Differentiator: {report.abTestVerdict.keyDifferentiator}
+             <Scale className="w-3 h-3" /> {t('view.differentiator', { text: report.abTestVerdict.keyDifferentiator })}
            </div>
         </div>
       )}
@@ -90,7 +179,7 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, context }) =
       {isAB && report.comparativeAnalysis && (
         <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
           <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
-            <CheckCircle2 className="w-4 h-4 text-pink-500" /> Head-to-Head Scores
+            <CheckCircle2 className="w-4 h-4 text-pink-500" /> {t('view.headToHead')}
           </h3>
           <div className="h-56 w-full">
             <ResponsiveContainer width="100%" height="100%">
@@ -107,20 +196,25 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, context }) =
                    contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#fff' }}
                 />
                 <Legend iconSize={8} wrapperStyle={{ fontSize: '12px', color: '#9ca3af' }} />
-                <Bar dataKey="scoreA" name="Image A" fill="#ec4899" radius={[0, 4, 4, 0]} barSize={12} />
-                <Bar dataKey="scoreB" name="Image B" fill="#8b5cf6" radius={[0, 4, 4, 0]} barSize={12} />
+                <Bar dataKey="scoreA" name={t('view.imageA')} fill="#ec4899" radius={[0, 4, 4, 0]} barSize={12} />
+                <Bar dataKey="scoreB" name={t('view.imageB')} fill="#8b5cf6" radius={[0, 4, 4, 0]} barSize={12} />
               </BarChart>
             </ResponsiveContainer>
           </div>
         </div>
       )}
 
+      {/* Leaderboard, Per-Metric Scores & Pairwise (Only for Multi-Variant Tests) */}
+      {isMulti && report.variantLeaderboard && (
+        <VariantLeaderboard leaderboard={report.variantLeaderboard} pairwise={report.pairwiseComparisons} language={language} />
+      )}
+
       {/* Summary Card */}
       {!isAB && (
         <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
           <h2 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
             <Zap className="w-5 h-5 text-yellow-400" />
-            Executive Summary
+            {t('view.summary')}
           </h2>
           <p className="text-gray-300 text-sm leading-relaxed">
             {report.summary}
@@ -137,25 +231,34 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, context }) =
                 <span className="text-xs text-gray-400 uppercase tracking-wide">{m.label}</span>
               </div>
               <span className="text-lg font-bold text-white">{m.value}</span>
+              {m.range && <span className="text-xs font-mono text-gray-400 mt-1">{formatRange(m.range, language)}</span>}
            </div>
          ))}
       </div>
 
+      <ProfitCalculator
+        key={marketplace.id}
+        projections={report.commercialProjections}
+        variantProjections={report.variantProjections}
+        marketplace={marketplace}
+        language={language}
+      />
+
       {/* Strategic Scenario Analysis */}
       <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
         <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
-           <DollarSign className="w-4 h-4 text-green-500" /> Commercial Scenarios
+           <DollarSign className="w-4 h-4 text-green-500" /> {t('view.scenarios')}
         </h3>
         <div className="space-y-4">
           {report.strategicInsights.map((insight, idx) => (
              <div key={idx} className={`p-4 rounded-lg border ${insight.scenario === 'Winning' ? 'bg-green-900/20 border-green-800' : insight.scenario === 'Losing' ? 'bg-red-900/20 border-red-800' : 'bg-gray-700/30 border-gray-600'}`}>
                 <div className="flex items-center justify-between mb-2">
                    <span className={`text-xs font-bold px-2 py-1 rounded uppercase ${insight.scenario === 'Winning' ? 'bg-green-500 text-white' : insight.scenario === 'Losing' ? 'bg-red-500 text-white' : 'bg-gray-500 text-white'}`}>
-                     {insight.scenario} Scenario
+                     {t(SCENARIO_KEYS[insight.scenario])}
                    </span>
                 </div>
                 <p className="text-sm font-medium text-white mb-1">{insight.observation}</p>
-                <p className="text-xs text-gray-400 italic mb-2">Business Impact: {insight.businessImpact}</p>
+                <p className="text-xs text-gray-400 italic mb-2">{t('view.businessImpact', { text: insight.businessImpact })}</p>
                 <ul className="text-xs text-gray-300 list-disc list-inside space-y-1">
                   {insight.actionPlan.map((action, i) => (
                     <li key={i}>{action}</li>
@@ -169,34 +272,40 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, context }) =
       {/* Dynamic Strategy Section */}
       <div className="bg-gradient-to-br from-blue-900/20 to-gray-800 rounded-xl p-6 border border-blue-500/30">
         <h3 className="text-sm font-medium text-blue-300 uppercase tracking-wider mb-4 flex items-center gap-2">
-           <Target className="w-4 h-4" /> {strategyTitle}
+           <Target className="w-4 h-4" /> {labels.strategyTitle}
         </h3>
         <div className="space-y-3 text-sm">
            <div className="flex flex-col gap-1">
              <span className="text-gray-400 text-xs">
-                {isSearch ? 'Recommended Bid Strategy' : isHero ? 'Traffic Potential' : 'Conversion Strategy'}
+                {labels.bidLabel}
              </span>
              <span className="text-white font-medium">{report.ppcStrategy.bidRecommendation}</span>
            </div>
            <div className="flex flex-col gap-1">
              <span className="text-gray-400 text-xs">
-                {isSearch ? 'Keyword Focus' : 'Key Benefit / Hook'}
+                {labels.keywordLabel}
              </span>
              <span className="text-white font-medium">{report.ppcStrategy.keywordFocus}</span>
            </div>
            <div className="flex flex-col gap-1">
              <span className="text-gray-400 text-xs">
-               {isAplus ? 'Text/Overlay Content' : 'Ad Copy Alignment'}
+               {labels.copyLabel}
              </span>
              <span className="text-white font-medium">{report.ppcStrategy.adCopyAlignment}</span>
            </div>
         </div>
       </div>
 
-      {/* Standard Metrics Chart (Hide if AB test, as we show head-to-head) */}
-      {!isAB && (
+      {report.keywordAlignment && report.keywordAlignment.length > 0 && (
+        <KeywordAlignmentPanel entries={report.keywordAlignment} listing={result.listing} language={language} />
+      )}
+
+      {/* Standard Metrics Chart (Hide for A/B and multi-variant tests, which show per-variant scores) */}
+      {!isAB && !isMulti && (
         <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
-          <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-4">Core Visual Scores (1-10)</h3>
+          <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-4">
+            {t('view.coreScores')}{ensemble && <span className="normal-case tracking-normal text-gray-500">{t('view.ensembleNote', { runs: ensemble.runs })}</span>}
+          </h3>
           <div className="h-40 w-full">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={scoreData} layout="vertical" margin={{ top: 0, right: 30, left: 40, bottom: 0 }}>
@@ -216,6 +325,7 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, context }) =
                   {scoreData.map((entry, index) => (
                     <Cell key={`cell-${index}`} fill={entry.color} />
                   ))}
+                  {ensemble && <ErrorBar dataKey="error" direction="x" width={6} stroke="#f9fafb" strokeWidth={1.5} />}
                 </Bar>
               </BarChart>
             </ResponsiveContainer>
@@ -226,8 +336,77 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, context }) =
       {/* Share of Attention */}
       <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
         <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
-           <Eye className="w-4 h-4" /> Share of Attention
+           <Eye className="w-4 h-4" /> {t('view.shareOfAttention')}
         </h3>
+
+        {/* Composed search grids know which tile is ours, so the split is measured, not estimated */}
+        {ourTile && (
+          <div className="mb-4 p-3 rounded-lg bg-gray-900/50 border border-pink-500/30">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-[10px] font-bold text-pink-400 uppercase tracking-wide">{t('view.ourTile')}</span>
+              <span className="text-[10px] text-gray-400">{t('view.tileRank', { rank: ourTile.rank, total: tileAttention.length })}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              <div>
+                <div className="text-[10px] text-gray-500 uppercase">{t('view.ourShare')}</div>
+                <div className="text-lg font-bold text-pink-300">{ourTile.attentionShare}%</div>
+              </div>
+              <div>
+                <div className="text-[10px] text-gray-500 uppercase">{t('view.competitorAverage')}</div>
+                <div className="text-lg font-bold text-gray-300">{competitorAverage}%</div>
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              {tileAttention.map((tile) => (
+                <div key={tile.aoiId} className="flex items-center gap-2 text-xs">
+                  <span className={`w-24 truncate ${tile.isOurs ? 'text-pink-300 font-semibold' : 'text-gray-400'}`}>{tile.name}</span>
+                  <div className="flex-1 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                    <div className={`h-full rounded-full ${tile.isOurs ? 'bg-pink-500' : 'bg-gray-500'}`} style={{ width: `${Math.min(100, tile.attentionShare)}%` }} />
+                  </div>
+                  <span className="w-10 text-right text-gray-300">{tile.attentionShare}%</span>
+                  <span className="w-16 text-right text-[10px] text-gray-500">{tile.firstFixation === null ? t('view.unseen') : t('view.seen', { order: tile.firstFixation })}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Measured from the hotspot sequence rather than the model's estimates */}
+        {activeAoi && activeAoi.metrics.length > 0 && (
+          <div className="mb-4 p-3 rounded-lg bg-gray-900/50 border border-cyan-500/30">
+            <div className="text-[10px] font-bold text-cyan-400 uppercase tracking-wide mb-2">
+              {t('view.measuredAois', { label: activeAoi.label })}
+            </div>
+            <div className="space-y-3">
+              {activeAoi.metrics.map((m, idx) => (
+                <div key={m.aoiId}>
+                  <div className="flex items-center justify-between text-xs mb-1">
+                    <span className="flex items-center gap-2 text-white font-medium">
+                      <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: aoiColor(idx) }} />
+                      {m.name}
+                    </span>
+                    <span className="font-bold text-cyan-300">{m.attentionShare}%</span>
+                  </div>
+                  <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden mb-1">
+                    <div className="h-full rounded-full" style={{ width: `${Math.min(100, m.attentionShare)}%`, backgroundColor: aoiColor(idx) }} />
+                  </div>
+                  <div className="flex items-center gap-3 text-[10px] text-gray-400">
+                    <span>
+                      {t('view.ttff', { value: m.firstFixation === null ? t('view.notFixated') : t('view.fixatedAt', { order: m.firstFixation, ms: m.timeToFirstFixationMs ?? 0 }) })}
+                    </span>
+                    <span>{t('view.fixations', { count: m.fixationCount })}</span>
+                    {aoiMeasurements.length > 1 && (
+                      <span className="ml-auto">
+                        {aoiMeasurements.map((v) => `${v.label} ${v.metrics[idx]?.attentionShare ?? 0}%`).join(' · ')}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="space-y-4">
           {report.hotspotsAnalysis.map((spot, idx) => (
             <div key={idx} className="flex items-start gap-4 p-3 rounded-lg bg-gray-900/50 border border-gray-700/50 hover:border-gray-600 transition-colors">
@@ -246,10 +425,20 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, context }) =
         </div>
       </div>
 
+      {/* Pixel measurements re-run whenever the claimed colors change, so they wait for the final result */}
+      {imageSrc && !streaming && (
+        <ColorPalettePanel
+          imageSrc={imageSrc}
+          claimed={report.dominantColors}
+          searchGrid={activeImageIndex === 0 ? result.searchGrid : undefined}
+          language={language}
+        />
+      )}
+
       {/* Recommendations */}
       <div className="bg-gradient-to-br from-pink-900/20 to-gray-800 rounded-xl p-6 border border-pink-500/30">
         <h3 className="text-sm font-medium text-pink-300 uppercase tracking-wider mb-4 flex items-center gap-2">
-           <Lightbulb className="w-4 h-4" /> Optimization Plan
+           <Lightbulb className="w-4 h-4" /> {t('view.optimizationPlan')}
         </h3>
         <div className="space-y-4">
             {report.recommendations.map((rec, idx) => (
@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AoiPoint, AreaOfInterest } from '../types';
+import { aoiColor, rectFromCorners } from '../services/aoiService';
+
+export type AoiDrawTool = 'rect' | 'polygon';
+
+interface AoiLayerProps {
+  aois: AreaOfInterest[];
+  tool: AoiDrawTool | null;
+  onDrawn: (shape: AoiDrawTool, points: AoiPoint[]) => void;
+}
+
+// Clicking within this distance (in %) of the first vertex closes a polygon
+const CLOSE_DISTANCE = 2.5;
+// Ignore accidental clicks that would produce a sliver rectangle
+const MIN_RECT_SIZE = 1;
+
+const toPoints = (points: AoiPoint[]) => points.map((p) => `${p.x},${p.y}`).join(' ');
+
+export const AoiLayer: React.FC<AoiLayerProps> = ({ aois, tool, onDrawn }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draft, setDraft] = useState<AoiPoint[]>([]);
+  const [cursor, setCursor] = useState<AoiPoint | null>(null);
+  const [rectStart, setRectStart] = useState<AoiPoint | null>(null);
+
+  // Switching tools abandons whatever was half drawn
+  useEffect(() => {
+    setDraft([]);
+    setRectStart(null);
+  }, [tool]);
+
+  useEffect(() => {
+    if (!tool) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setDraft([]);
+        setRectStart(null);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [tool]);
+
+  const toPercent = (e: React.PointerEvent | React.MouseEvent): AoiPoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.max(0, Math.min(100, v));
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 100),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 100),
+    };
+  };
+
+  const finishPolygon = (points: AoiPoint[]) => {
+    if (points.length >= 3) onDrawn('polygon', points);
+    setDraft([]);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (tool !== 'rect') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setRectStart(toPercent(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (tool) setCursor(toPercent(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (tool !== 'rect' || !rectStart) return;
+    const end = toPercent(e);
+    if (Math.abs(end.x - rectStart.x) >= MIN_RECT_SIZE && Math.abs(end.y - rectStart.y) >= MIN_RECT_SIZE) {
+      onDrawn('rect', rectFromCorners(rectStart, end));
+    }
+    setRectStart(null);
+  };
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (tool !== 'polygon') return;
+    const point = toPercent(e);
+    const first = draft[0];
+    if (first && draft.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) <= CLOSE_DISTANCE) {
+      finishPolygon(draft);
+      return;
+    }
+    setDraft((prev) => [...prev, point]);
+  };
+
+  const handleDoubleClick = () => {
+    // The two clicks of a double-click already added the same vertex twice
+    if (tool === 'polygon') finishPolygon(draft.slice(0, -1));
+  };
+
+  const previewRect = tool === 'rect' && rectStart && cursor ? rectFromCorners(rectStart, cursor) : null;
+
+  return (
+    <>
+      <svg
+        ref={svgRef}
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+        className={`absolute inset-0 w-full h-full ${tool ? 'cursor-crosshair' : 'pointer-events-none'}`}
+        style={{ zIndex: 20, touchAction: tool ? 'none' : undefined }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => setCursor(null)}
+        onClick={handleClick}
+        onDoubleClick={handleDoubleClick}
+      >
+        {aois.map((aoi, idx) => (
+          <polygon
+            key={aoi.id}
+            points={toPoints(aoi.points)}
+            fill={aoiColor(idx)}
+            fillOpacity={0.12}
+            stroke={aoiColor(idx)}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+
+        {previewRect && (
+          <polygon points={toPoints(previewRect)} fill="#ffffff" fillOpacity={0.1} stroke="#ffffff" strokeWidth={1.5} strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+        )}
+
+        {draft.length > 0 && (
+          <polyline
+            points={toPoints(cursor ? [...draft, cursor] : draft)}
+            fill="none"
+            stroke="#ffffff"
+            strokeWidth={1.5}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+
+      {/* Labels live outside the SVG so text is not stretched by preserveAspectRatio="none" */}
+      {aois.map((aoi, idx) => {
+        const left = Math.min(...aoi.points.map((p) => p.x));
+        const top = Math.min(...aoi.points.map((p) => p.y));
+        return (
+          <span
+            key={aoi.id}
+            className="absolute text-[10px] font-bold px-1.5 py-0.5 rounded-sm text-gray-900 pointer-events-none whitespace-nowrap"
+            style={{ left: `${left}%`, top: `${top}%`, backgroundColor: aoiColor(idx), zIndex: 21 }}
+          >
+            {aoi.name}
+          </span>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { AoiTemplate, AreaOfInterest, Language } from '../types';
+import { AOI_PRESETS, aoiColor, deleteAoiTemplate, instantiateTemplate, listAoiTemplates, saveAoiTemplate } from '../services/aoiService';
+import { getTranslator } from '../services/messages';
+import { AoiDrawTool } from './AoiLayer';
+import { Square, Pentagon, MousePointer2, Trash2, BookmarkPlus, LayoutTemplate, Crosshair } from 'lucide-react';
+
+interface AoiPanelProps {
+  aois: AreaOfInterest[];
+  onChange: (aois: AreaOfInterest[]) => void;
+  tool: AoiDrawTool | null;
+  onToolChange: (tool: AoiDrawTool | null) => void;
+  nextName: string;
+  onNextNameChange: (name: string) => void;
+  language: Language;
+}
+
+export const AoiPanel: React.FC<AoiPanelProps> = ({ aois, onChange, tool, onToolChange, nextName, onNextNameChange, language }) => {
+  const t = getTranslator(language);
+  const [templates, setTemplates] = useState<AoiTemplate[]>(listAoiTemplates);
+  const [templateName, setTemplateName] = useState('');
+
+  const toolButton = (value: AoiDrawTool | null, Icon: typeof Square, label: string) => (
+    <button
+      onClick={() => onToolChange(value)}
+      title={label}
+      className={`px-2 py-1 rounded-md text-xs font-medium transition-all flex items-center gap-1 ${tool === value ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:text-white'}`}
+    >
+      <Icon className="w-3.5 h-3.5" /> {label}
+    </button>
+  );
+
+  const handleRename = (id: string, name: string) =>
+    onChange(aois.map((aoi) => (aoi.id === id ? { ...aoi, name } : aoi)));
+
+  const handleSaveTemplate = () => {
+    const name = templateName.trim();
+    if (!name || aois.length === 0) return;
+    saveAoiTemplate(name, aois);
+    setTemplates(listAoiTemplates());
+    setTemplateName('');
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    deleteAoiTemplate(id);
+    setTemplates(listAoiTemplates());
+  };
+
+  return (
+    <div className="mt-4 bg-gray-900/80 border border-gray-700 rounded-lg p-3 max-h-64 overflow-y-auto">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-bold text-white flex items-center gap-2">
+          <Crosshair className="w-4 h-4 text-cyan-400" /> {t('aoi.title')}
+        </h4>
+        <div className="flex bg-gray-800 rounded-lg p-0.5 border border-gray-700">
+          {toolButton(null, MousePointer2, t('aoi.tool.view'))}
+          {toolButton('rect', Square, t('aoi.tool.rect'))}
+          {toolButton('polygon', Pentagon, t('aoi.tool.polygon'))}
+        </div>
+      </div>
+
+      {tool && (
+        <div className="mb-3">
+          <div className="flex items-center gap-2 mb-1">
+            <input
+              value={nextName}
+              onChange={(e) => onNextNameChange(e.target.value)}
+              placeholder={t('aoi.nextName')}
+              className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-cyan-500"
+            />
+            {AOI_PRESETS.map((key) => {
+              const preset = t(key);
+              return (
+                <button
+                  key={key}
+                  onClick={() => onNextNameChange(preset)}
+                  className={`text-[10px] px-2 py-1 rounded border ${nextName === preset ? 'border-cyan-500 text-cyan-300' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+                >
+                  {preset}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-[10px] text-gray-500">
+            {tool === 'rect' ? t('aoi.rectHint') : t('aoi.polygonHint')}
+          </p>
+        </div>
+      )}
+
+      {aois.length > 0 ? (
+        <div className="space-y-1 mb-3">
+          {aois.map((aoi, idx) => (
+            <div key={aoi.id} className="flex items-center gap-2">
+              <span className="w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ backgroundColor: aoiColor(idx) }} />
+              <input
+                value={aoi.name}
+                onChange={(e) => handleRename(aoi.id, e.target.value)}
+                className="flex-1 bg-transparent border-b border-transparent hover:border-gray-700 focus:border-cyan-500 text-xs text-gray-200 focus:outline-none"
+              />
+              <span className="text-[10px] text-gray-500 uppercase">{aoi.shape === 'rect' ? t('aoi.shape.rect') : t('aoi.shape.polygon')}</span>
+              <button onClick={() => onChange(aois.filter((a) => a.id !== aoi.id))} className="text-gray-500 hover:text-red-400">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 mb-3">{t('aoi.empty')}</p>
+      )}
+
+      {/* Templates */}
+      <div className="border-t border-gray-700/50 pt-2">
+        <div className="flex items-center gap-2 mb-2">
+          <input
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder={t('aoi.templateName')}
+            className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-cyan-500"
+          />
+          <button
+            onClick={handleSaveTemplate}
+            disabled={!templateName.trim() || aois.length === 0}
+            className="text-xs flex items-center gap-1 text-cyan-300 hover:text-cyan-200 disabled:text-gray-600"
+          >
+            <BookmarkPlus className="w-3.5 h-3.5" /> {t('aoi.save')}
+          </button>
+        </div>
+        {templates.map((template) => (
+          <div key={template.id} className="flex items-center gap-2 text-xs text-gray-300 py-0.5">
+            <LayoutTemplate className="w-3.5 h-3.5 text-gray-500" />
+            <span className="flex-1 truncate">{template.name}</span>
+            <span className="text-[10px] text-gray-500">{t('aoi.count', { count: template.aois.length })}</span>
+            <button onClick={() => onChange(instantiateTemplate(template))} className="text-cyan-300 hover:text-cyan-200">{t('aoi.apply')}</button>
+            <button onClick={() => handleDeleteTemplate(template.id)} className="text-gray-500 hover:text-red-400">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
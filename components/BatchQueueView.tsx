@@ -0,0 +1,327 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisContext, AnalysisResult, BatchItem, BatchItemStatus, BatchQueueState, BatchSettings, Language } from '../types';
+import { BATCH_CONTEXTS, BatchQueue, DEFAULT_BATCH_SETTINGS, createBatchItem, createBatchQueue } from '../services/batchQueue';
+import { contextName } from '../services/contextProfiles';
+import { getTranslator, MessageKey } from '../services/messages';
+import { ArrowLeft, FolderInput, ImagePlus, Play, Pause, CircleStop, Trash2, FolderOpen, ArrowUp, ArrowDown, ArrowUpDown, Layers, RotateCw } from 'lucide-react';
+
+interface BatchQueueViewProps {
+  defaultContext: AnalysisContext | null;
+  runItem: (item: BatchItem) => Promise<AnalysisResult>;
+  onOpen: (item: BatchItem) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+type SortKey = 'name' | 'context' | 'status' | 'score' | 'visibility' | 'alignment' | 'clarity';
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'bg-gray-700/50 text-gray-300 border-gray-600',
+  running: 'bg-blue-500/10 text-blue-300 border-blue-500/30',
+  retrying: 'bg-yellow-500/10 text-yellow-300 border-yellow-500/30',
+  done: 'bg-green-500/10 text-green-300 border-green-500/30',
+  failed: 'bg-red-500/10 text-red-300 border-red-500/30',
+  cancelled: 'bg-gray-800 text-gray-500 border-gray-700',
+};
+
+const STATUS_LABELS: Record<BatchItemStatus, MessageKey> = {
+  queued: 'batch.status.queued',
+  running: 'batch.status.running',
+  retrying: 'batch.status.retrying',
+  done: 'batch.status.done',
+  failed: 'batch.status.failed',
+  cancelled: 'batch.status.cancelled',
+};
+
+const STATE_LABELS: Record<BatchQueueState, MessageKey> = {
+  idle: 'batch.state.idle',
+  running: 'batch.state.running',
+  paused: 'batch.state.paused',
+  cancelled: 'batch.state.cancelled',
+  finished: 'batch.state.finished',
+};
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const averageScore = (result: AnalysisResult) => {
+  const { metrics } = result.report;
+  return (metrics.visibilityScore + metrics.goalAlignmentScore + metrics.clarityScore) / 3;
+};
+
+const sortValue = (item: BatchItem, key: SortKey): string | number => {
+  const metrics = item.result?.report.metrics;
+  switch (key) {
+    case 'name': return item.file.name.toLowerCase();
+    case 'context': return item.context;
+    case 'status': return item.status;
+    case 'score': return item.result ? averageScore(item.result) : -1;
+    case 'visibility': return metrics?.visibilityScore ?? -1;
+    case 'alignment': return metrics?.goalAlignmentScore ?? -1;
+    case 'clarity': return metrics?.clarityScore ?? -1;
+  }
+};
+
+const numberInputClass = 'w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-pink-500';
+
+export const BatchQueueView: React.FC<BatchQueueViewProps> = ({ defaultContext, runItem, onOpen, onClose, language }) => {
+  const t = getTranslator(language);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [queueState, setQueueState] = useState<BatchQueueState>('idle');
+  const [settings, setSettings] = useState<BatchSettings>(DEFAULT_BATCH_SETTINGS);
+  const [context, setContext] = useState<AnalysisContext>(
+    defaultContext && BATCH_CONTEXTS.includes(defaultContext) ? defaultContext : AnalysisContext.HERO);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'score', descending: true });
+  const [now, setNow] = useState(Date.now());
+  const queueRef = useRef<BatchQueue | null>(null);
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // React does not type the non-standard folder attribute, so it is set directly
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  useEffect(() => () => queueRef.current?.cancel(), []);
+
+  // Ticks the retry countdowns
+  const waiting = items.some((item) => item.status === 'retrying');
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  const editable = queueState === 'idle';
+  const settled = items.filter((item) => item.status === 'done' || item.status === 'failed' || item.status === 'cancelled').length;
+  const completed = items.filter((item) => item.status === 'done' && item.result);
+
+  const sortedResults = [...completed].sort((a, b) => {
+    const va = sortValue(a, sort.key);
+    const vb = sortValue(b, sort.key);
+    const order = va < vb ? -1 : va > vb ? 1 : 0;
+    return sort.descending ? -order : order;
+  });
+
+  const handleAddFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected: File[] = Array.from(e.target.files ?? []);
+    const images = selected.filter((file) => file.type.startsWith('image/'));
+    e.target.value = '';
+    const added = await Promise.all(images.map(async (file) => createBatchItem(file, await readAsDataUrl(file), context)));
+    setItems((prev) => [...prev, ...added]);
+  };
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) =>
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+
+  const handleStart = () => {
+    const queue = createBatchQueue({
+      items,
+      settings,
+      run: runItem,
+      onChange: (next, state) => {
+        setItems(next);
+        setQueueState(state);
+      },
+    });
+    queueRef.current = queue;
+    queue.start();
+  };
+
+  const handleNewBatch = () => {
+    queueRef.current = null;
+    setItems([]);
+    setQueueState('idle');
+  };
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) => ({ key, descending: prev.key === key ? !prev.descending : key !== 'name' && key !== 'context' }));
+
+  const sortHeader = (key: SortKey, label: string) => (
+    <th className="px-2 py-2 font-medium">
+      <button onClick={() => toggleSort(key)} className="flex items-center gap-1 hover:text-white">
+        {label}
+        {sort.key === key
+          ? (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)
+          : <ArrowUpDown className="w-3 h-3 text-gray-600" />}
+      </button>
+    </th>
+  );
+
+  const settingInput = (key: keyof BatchSettings, label: string, min: number, max: number) => (
+    <label className="flex items-center gap-2 text-xs text-gray-400">
+      {label}
+      <input
+        type="number" min={min} max={max} value={settings[key]} disabled={!editable}
+        onChange={(e) => setSettings({ ...settings, [key]: Math.max(min, Math.min(max, Math.round(Number(e.target.value)) || min)) })}
+        className={numberInputClass}
+      />
+    </label>
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto w-full animate-fade-in">
+      <div className="bg-gray-900 rounded-2xl shadow-2xl border border-gray-700 p-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+            <Layers className="w-6 h-6 text-pink-400" /> {t('batch.title')}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white flex items-center gap-1 text-sm">
+            <ArrowLeft className="w-4 h-4" /> {t('nav.back')}
+          </button>
+        </div>
+
+        {/* Queue setup */}
+        <div className="bg-gray-800 rounded-xl border border-gray-700 p-4 mb-6 flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            {t('batch.contextForNew')}
+            <select
+              value={context}
+              onChange={(e) => setContext(e.target.value as AnalysisContext)}
+              disabled={!editable}
+              className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-pink-500"
+            >
+              {BATCH_CONTEXTS.map((c) => <option key={c} value={c}>{contextName(c, t)}</option>)}
+            </select>
+          </label>
+          <button onClick={() => folderInputRef.current?.click()} disabled={!editable} className="text-xs flex items-center gap-1 text-pink-300 hover:text-pink-200 disabled:text-gray-600">
+            <FolderInput className="w-4 h-4" /> {t('batch.addFolder')}
+          </button>
+          <button onClick={() => filesInputRef.current?.click()} disabled={!editable} className="text-xs flex items-center gap-1 text-pink-300 hover:text-pink-200 disabled:text-gray-600">
+            <ImagePlus className="w-4 h-4" /> {t('batch.addImages')}
+          </button>
+          <input type="file" ref={folderInputRef} className="hidden" multiple onChange={handleAddFiles} />
+          <input type="file" ref={filesInputRef} className="hidden" accept="image/*" multiple onChange={handleAddFiles} />
+          <div className="flex items-center gap-4 ml-auto">
+            {settingInput('concurrency', t('batch.parallel'), 1, 6)}
+            {settingInput('requestsPerMinute', t('batch.perMinute'), 1, 60)}
+            {settingInput('maxRetries', t('batch.retries'), 0, 8)}
+          </div>
+        </div>
+
+        {/* Controls and overall progress */}
+        <div className="flex items-center gap-3 mb-4">
+          {queueState === 'idle' && (
+            <button onClick={handleStart} disabled={items.length === 0} className="px-4 py-2 rounded-lg text-sm font-medium bg-pink-600 hover:bg-pink-700 disabled:bg-pink-800 disabled:text-pink-300 text-white flex items-center gap-2">
+              <Play className="w-4 h-4" /> {items.length > 0 ? t('batch.startCount', { count: items.length }) : t('batch.start')}
+            </button>
+          )}
+          {queueState === 'running' && (
+            <button onClick={() => queueRef.current?.pause()} className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white flex items-center gap-2">
+              <Pause className="w-4 h-4" /> {t('batch.pause')}
+            </button>
+          )}
+          {queueState === 'paused' && (
+            <button onClick={() => queueRef.current?.resume()} className="px-4 py-2 rounded-lg text-sm font-medium bg-pink-600 hover:bg-pink-700 text-white flex items-center gap-2">
+              <Play className="w-4 h-4" /> {t('batch.resume')}
+            </button>
+          )}
+          {(queueState === 'running' || queueState === 'paused') && (
+            <button onClick={() => queueRef.current?.cancel()} className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-700 hover:bg-red-700 text-gray-300 hover:text-white flex items-center gap-2">
+              <CircleStop className="w-4 h-4" /> {t('nav.cancel')}
+            </button>
+          )}
+          {(queueState === 'finished' || queueState === 'cancelled') && (
+            <button onClick={handleNewBatch} className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white flex items-center gap-2">
+              <RotateCw className="w-4 h-4" /> {t('batch.newBatch')}
+            </button>
+          )}
+          <span className="text-xs text-gray-400">{t(STATE_LABELS[queueState])} · {t('batch.settled', { settled, total: items.length })}</span>
+          <div className="flex-1 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+            <div className="h-full bg-pink-500 transition-all" style={{ width: `${items.length > 0 ? (settled / items.length) * 100 : 0}%` }} />
+          </div>
+        </div>
+        {queueState === 'paused' && (
+          <p className="text-xs text-gray-500 mb-4">{t('batch.pausedNote')}</p>
+        )}
+
+        {/* Per-item progress */}
+        {items.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-10">{t('batch.empty')}</p>
+        ) : (
+          <div className="space-y-1.5 max-h-80 overflow-y-auto pr-1 mb-6">
+            {items.map((item) => (
+              <div key={item.id} className="flex items-center gap-3 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2">
+                <img src={item.preview} alt={item.file.name} className="w-10 h-10 object-contain rounded bg-gray-900 flex-shrink-0" />
+                <span className="text-xs text-gray-200 truncate flex-1 min-w-0">{item.file.name}</span>
+                {editable ? (
+                  <>
+                    <select
+                      value={item.context}
+                      onChange={(e) => updateItem(item.id, { context: e.target.value as AnalysisContext })}
+                      className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-[11px] text-gray-200 focus:outline-none focus:border-pink-500 max-w-[220px]"
+                    >
+                      {BATCH_CONTEXTS.map((c) => <option key={c} value={c}>{contextName(c, t)}</option>)}
+                    </select>
+                    <button onClick={() => setItems((prev) => prev.filter((i) => i.id !== item.id))} className="text-gray-500 hover:text-red-400" aria-label={t('upload.remove', { label: item.file.name })}>
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span className="text-[11px] text-gray-500 truncate max-w-[200px]">{contextName(item.context, t)}</span>
+                    {item.error && item.status !== 'done' && (
+                      <span className="text-[11px] text-red-300 truncate max-w-[220px]" title={item.error}>
+                        {item.status === 'retrying' && item.nextRetryAt
+                          ? t('batch.retryIn', { seconds: Math.max(0, Math.ceil((item.nextRetryAt - now) / 1000)) })
+                          : item.error}
+                      </span>
+                    )}
+                    {item.attempts > 1 && <span className="text-[10px] text-gray-500">{t('batch.attempt', { count: item.attempts })}</span>}
+                    <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded border ${STATUS_STYLES[item.status]}`}>{t(STATUS_LABELS[item.status])}</span>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Summary */}
+        {sortedResults.length > 0 && (
+          <div className="bg-gray-800 rounded-xl border border-gray-700 overflow-x-auto">
+            <table className="w-full text-xs text-left">
+              <thead className="text-gray-400 border-b border-gray-700">
+                <tr>
+                  {sortHeader('name', t('batch.column.image'))}
+                  {sortHeader('context', t('batch.column.context'))}
+                  {sortHeader('score', t('batch.column.score'))}
+                  {sortHeader('visibility', t('view.score.visibility'))}
+                  {sortHeader('alignment', t('view.score.goalAlign'))}
+                  {sortHeader('clarity', t('view.score.clarity'))}
+                  <th className="px-2 py-2 font-medium">{t('batch.column.ctr')}</th>
+                  <th className="px-2 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {sortedResults.map((item) => {
+                  const { metrics, commercialProjections } = item.result!.report;
+                  return (
+                    <tr key={item.id} className="border-b border-gray-700/50 last:border-0 text-gray-300 hover:bg-gray-700/30">
+                      <td className="px-2 py-2 max-w-[200px] truncate text-white">{item.file.name}</td>
+                      <td className="px-2 py-2 max-w-[160px] truncate text-gray-400">{contextName(item.context, t)}</td>
+                      <td className="px-2 py-2 font-bold text-pink-400">{averageScore(item.result!).toFixed(1)}</td>
+                      <td className="px-2 py-2">{metrics.visibilityScore}</td>
+                      <td className="px-2 py-2">{metrics.goalAlignmentScore}</td>
+                      <td className="px-2 py-2">{metrics.clarityScore}</td>
+                      <td className="px-2 py-2">{commercialProjections.predictedCTR}</td>
+                      <td className="px-2 py-2 text-right">
+                        <button onClick={() => onOpen(item)} className="text-pink-300 hover:text-pink-200 flex items-center gap-1 ml-auto">
+                          <FolderOpen className="w-3.5 h-3.5" /> {t('nav.open')}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
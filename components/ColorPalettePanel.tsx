@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { AnalysisReport, ClaimedColorCheck, ColorAnalysis, ComposedSearchGrid, ContrastLevel, Language } from '../types';
+import { analyzeColors, COLOR_FAMILIES } from '../services/colorPalette';
+import { getTranslator, MessageKey } from '../services/messages';
+import { localizeTileLabels } from '../services/searchGrid';
+import { Palette, Loader2 } from 'lucide-react';
+
+interface ColorPalettePanelProps {
+  imageSrc: string;
+  claimed: AnalysisReport['dominantColors'];
+  searchGrid?: ComposedSearchGrid;
+  language: Language;
+}
+
+const VERDICT_STYLES: Record<ClaimedColorCheck['verdict'], string> = {
+  match: 'bg-green-500/10 text-green-300 border-green-500/30',
+  close: 'bg-yellow-500/10 text-yellow-300 border-yellow-500/30',
+  absent: 'bg-red-500/10 text-red-300 border-red-500/30',
+};
+
+const VERDICT_LABELS: Record<ClaimedColorCheck['verdict'], MessageKey> = {
+  match: 'color.verdict.match',
+  close: 'color.verdict.close',
+  absent: 'color.verdict.absent',
+};
+
+const LEVEL_STYLES: Record<ContrastLevel, string> = {
+  AAA: 'text-green-300',
+  AA: 'text-green-300',
+  'AA Large': 'text-yellow-300',
+  Fail: 'text-red-300',
+};
+
+const LEVEL_LABELS: Record<ContrastLevel, MessageKey> = {
+  AAA: 'color.level.aaa',
+  AA: 'color.level.aa',
+  'AA Large': 'color.level.aaLarge',
+  Fail: 'color.level.fail',
+};
+
+const Swatch: React.FC<{ hex: string; size?: string }> = ({ hex, size = 'w-5 h-5' }) => (
+  <span className={`${size} rounded border border-gray-600 flex-shrink-0 inline-block`} style={{ backgroundColor: hex }} title={hex} />
+);
+
+export const ColorPalettePanel: React.FC<ColorPalettePanelProps> = ({ imageSrc, claimed, searchGrid, language }) => {
+  const t = getTranslator(language);
+  const [analysis, setAnalysis] = useState<ColorAnalysis | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAnalysis(null);
+    setError(null);
+    analyzeColors(imageSrc, claimed, searchGrid)
+      .then((result) => { if (!cancelled) setAnalysis(result); })
+      .catch((err) => { if (!cancelled) setError(err instanceof Error ? err.message : t('color.readFailed')); });
+    return () => { cancelled = true; };
+  }, [imageSrc, claimed, searchGrid]);
+
+  const families: string[] = analysis ? Array.from(new Set(analysis.palette.map((c) => c.family))) : [];
+  const failing = analysis?.contrast.filter((r) => r.level === 'Fail' || r.level === 'AA Large').length ?? 0;
+  const tileLabels = searchGrid ? localizeTileLabels(searchGrid, language) : [];
+  const tileLabel = (tileId: string) => tileLabels[searchGrid?.regions.findIndex((r) => r.tileId === tileId) ?? -1];
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <Palette className="w-4 h-4 text-pink-500" /> {t('color.title')}
+      </h3>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      {!analysis && !error && (
+        <p className="text-xs text-gray-500 flex items-center gap-2"><Loader2 className="w-3 h-3 animate-spin" /> {t('color.extracting')}</p>
+      )}
+
+      {analysis && (
+        <div className="space-y-5">
+          <div>
+            <div className="flex h-6 rounded overflow-hidden border border-gray-700 mb-2">
+              {analysis.palette.map((c) => (
+                <div key={c.hex} style={{ width: `${c.share * 100}%`, backgroundColor: c.hex }} title={`${c.hex} · ${Math.round(c.share * 100)}%`} />
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+              {analysis.palette.map((c) => (
+                <span key={c.hex} className="flex items-center gap-1.5">
+                  <Swatch hex={c.hex} size="w-3 h-3" /> <span className="font-mono">{c.hex}</span> {Math.round(c.share * 100)}%
+                </span>
+              ))}
+            </div>
+            <ul className="mt-3 space-y-1 text-xs text-gray-400">
+              {families.map((family) => (
+                <li key={family}><span className="text-gray-200 font-medium">{t(COLOR_FAMILIES[family].name)}:</span> {t(COLOR_FAMILIES[family].note)}</li>
+              ))}
+            </ul>
+          </div>
+
+          {analysis.claimed.length > 0 && (
+            <div>
+              <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">{t('color.claimed')}</h4>
+              <div className="space-y-2">
+                {analysis.claimed.map((c, idx) => (
+                  <div key={`${c.hex}-${idx}`} className="flex items-start gap-3 text-xs">
+                    <div className="flex items-center gap-1 mt-0.5">
+                      <Swatch hex={c.hex} />
+                      {c.nearestHex && <Swatch hex={c.nearestHex} />}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-white font-medium">{c.name}</span>
+                        <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded border ${VERDICT_STYLES[c.verdict]}`}>
+                          {t(VERDICT_LABELS[c.verdict])}
+                        </span>
+                        {Number.isFinite(c.deltaE) && <span className="text-gray-500 font-mono">ΔE {c.deltaE}</span>}
+                      </div>
+                      <p className="text-gray-400 mt-0.5">{c.psychology}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">
+              {t('color.contrast')}{failing > 0 && <span className="ml-2 normal-case text-red-300">{t('color.belowAa', { count: failing })}</span>}
+            </h4>
+            {analysis.contrast.length === 0 ? (
+              <p className="text-xs text-gray-500">{t('color.noText')}</p>
+            ) : (
+              <div className="space-y-1.5">
+                {analysis.contrast.map((r, idx) => (
+                  <div key={idx} className="flex items-center gap-3 text-xs">
+                    <span className="w-14 h-5 rounded border border-gray-600 flex items-center justify-center font-bold" style={{ backgroundColor: r.background, color: r.foreground }}>Aa</span>
+                    <span className="text-gray-400 flex-1">{t('color.region', { x: Math.round(r.x), y: Math.round(r.y) })}</span>
+                    <span className="font-mono text-gray-300">{r.ratio.toFixed(1)}:1</span>
+                    <span className={`w-16 text-right font-bold ${LEVEL_STYLES[r.level]}`}>{t(LEVEL_LABELS[r.level])}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-[10px] text-gray-500 mt-2">{t('color.detectionNote')}</p>
+          </div>
+
+          {analysis.distinctness && (
+            <div>
+              <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">{t('color.distinctness')}</h4>
+              {analysis.distinctness.length === 0 ? (
+                <p className="text-xs text-gray-500">{t('color.noNeighbors')}</p>
+              ) : (
+                <div className="space-y-1.5">
+                  {analysis.distinctness.map((tile) => (
+                    <div key={tile.tileId} className="flex items-center justify-between text-xs">
+                      <span className="text-gray-300">{tileLabel(tile.tileId) ?? tile.label}</span>
+                      <span className="flex items-center gap-2">
+                        <span className="font-mono text-gray-400">ΔE {tile.deltaE}</span>
+                        <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded border ${tile.distinct ? VERDICT_STYLES.match : VERDICT_STYLES.absent}`}>
+                          {tile.distinct ? t('color.standsOut') : t('color.blendsIn')}
+                        </span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { ComplianceReport, ComplianceStatus, Language } from '../types';
+import { localizeComplianceReport } from '../services/complianceChecker';
+import { getTranslator } from '../services/messages';
+import { CheckCircle2, AlertTriangle, XCircle, ShieldCheck } from 'lucide-react';
+
+interface ComplianceChecklistProps {
+  report: ComplianceReport;
+  language: Language;
+}
+
+const STATUS_STYLES: Record<ComplianceStatus, { icon: typeof CheckCircle2; color: string }> = {
+  pass: { icon: CheckCircle2, color: 'text-green-400' },
+  warn: { icon: AlertTriangle, color: 'text-yellow-400' },
+  fail: { icon: XCircle, color: 'text-red-400' },
+};
+
+export const ComplianceChecklist: React.FC<ComplianceChecklistProps> = ({ report, language }) => {
+  const t = getTranslator(language);
+  const { checks } = localizeComplianceReport(report, language);
+  const warnings = checks.filter((c) => c.status === 'warn').length;
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4 text-pink-500" /> {t('compliance.title')}
+        </h3>
+        <span className={`text-xs font-bold px-2 py-1 rounded border ${report.passed ? 'bg-green-500/10 text-green-300 border-green-500/30' : 'bg-red-500/10 text-red-300 border-red-500/30'}`}>
+          {report.passed ? (warnings > 0 ? t('compliance.passedWithWarnings', { count: warnings }) : t('compliance.allPassed')) : t('compliance.notCompliant')}
+        </span>
+      </div>
+      <div className="space-y-3">
+        {checks.map((check) => {
+          const style = STATUS_STYLES[check.status];
+          const Icon = style.icon;
+          return (
+            <div key={check.id} className="flex items-start gap-3">
+              <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${style.color}`} />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-white font-medium">{check.label}</span>
+                  <span className={`text-xs font-mono ${style.color}`}>{check.value}</span>
+                </div>
+                <p className="text-xs text-gray-400 mt-0.5">{check.detail}</p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[10px] text-gray-500 mt-4">{t('compliance.measured')}</p>
+    </div>
+  );
+};
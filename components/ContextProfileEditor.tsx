@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { AnalysisContext, ContextProfile, Language, ReportLabels } from '../types';
+import { BUILT_IN_PROFILES, contextName, REPORT_FIELD_OPTIONS } from '../services/contextProfiles';
+import { getTranslator, MessageKey } from '../services/messages';
+import { Save, Trash2, X } from 'lucide-react';
+
+interface ContextProfileEditorProps {
+  profile: ContextProfile;
+  onSave: (profile: ContextProfile) => void;
+  onDelete?: () => void;
+  onCancel: () => void;
+  language: Language;
+}
+
+const LABEL_FIELDS: { key: keyof ReportLabels; label: MessageKey }[] = [
+  { key: 'strategyTitle', label: 'profileEditor.label.strategyTitle' },
+  { key: 'ctrLabel', label: 'profileEditor.label.ctrLabel' },
+  { key: 'conversionLabel', label: 'profileEditor.label.conversionLabel' },
+  { key: 'bidLabel', label: 'profileEditor.label.bidLabel' },
+  { key: 'keywordLabel', label: 'profileEditor.label.keywordLabel' },
+  { key: 'copyLabel', label: 'profileEditor.label.copyLabel' },
+];
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-pink-500';
+const labelClass = 'text-[11px] font-semibold text-gray-400 uppercase tracking-wide mb-1 block';
+
+export const ContextProfileEditor: React.FC<ContextProfileEditorProps> = ({ profile, onSave, onDelete, onCancel, language }) => {
+  const t = getTranslator(language);
+  const [draft, setDraft] = useState<ContextProfile>(profile);
+  // Edited as text so blank lines can be typed; split on save
+  const [focusText, setFocusText] = useState(profile.focus.join('\n'));
+  const [error, setError] = useState<string | null>(null);
+
+  const set = <K extends keyof ContextProfile>(key: K, value: ContextProfile[K]) => setDraft({ ...draft, [key]: value });
+
+  const toggleField = (field: ContextProfile['requiredFields'][number]) =>
+    set('requiredFields', draft.requiredFields.includes(field)
+      ? draft.requiredFields.filter((f) => f !== field)
+      : [...draft.requiredFields, field]);
+
+  const handleSave = () => {
+    const focus = focusText.split('\n').map((line) => line.trim()).filter(Boolean);
+    if (!draft.name.trim()) return setError(t('profileEditor.nameRequired'));
+    if (focus.length === 0) return setError(t('profileEditor.focusRequired'));
+    try {
+      onSave({ ...draft, focus });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('profileEditor.saveFailed'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onCancel}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h3 className="text-lg font-bold text-white">{profile.name ? t('profileEditor.editTitle') : t('profileEditor.newTitle')}</h3>
+          <button onClick={onCancel} className="text-gray-400 hover:text-white" aria-label={t('profileEditor.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className={labelClass}>{t('profileEditor.name')}</label>
+            <input value={draft.name} onChange={(e) => set('name', e.target.value)} placeholder={t('profileEditor.namePlaceholder')} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{t('profileEditor.base')}</label>
+            <select value={draft.base} onChange={(e) => set('base', e.target.value as AnalysisContext)} className={inputClass}>
+              {BUILT_IN_PROFILES.map((p) => <option key={p.id} value={p.base}>{contextName(p.base, t)}</option>)}
+            </select>
+            <p className="text-[10px] text-gray-500 mt-1">{t('profileEditor.baseHint')}</p>
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelClass}>{t('profileEditor.description')}</label>
+            <input value={draft.description} onChange={(e) => set('description', e.target.value)} placeholder={t('profileEditor.descriptionPlaceholder')} className={inputClass} />
+          </div>
+        </div>
+
+        <h4 className="text-sm font-bold text-white mb-2">{t('profileEditor.prompt')}</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className={labelClass}>{t('profileEditor.scenario')}</label>
+            <input value={draft.scenario} onChange={(e) => set('scenario', e.target.value)} placeholder={t('profileEditor.scenarioPlaceholder')} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{t('profileEditor.objective')}</label>
+            <input value={draft.objective} onChange={(e) => set('objective', e.target.value)} className={inputClass} />
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelClass}>{t('profileEditor.role')}</label>
+            <input value={draft.role} onChange={(e) => set('role', e.target.value)} placeholder={t('profileEditor.rolePlaceholder')} className={inputClass} />
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelClass}>{t('profileEditor.focus')}</label>
+            <textarea value={focusText} onChange={(e) => setFocusText(e.target.value)} rows={4} className={inputClass} />
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelClass}>{t('profileEditor.instructions')}</label>
+            <textarea value={draft.instructions} onChange={(e) => set('instructions', e.target.value)} rows={3} placeholder={t('profileEditor.instructionsPlaceholder')} className={`${inputClass} font-mono text-xs`} />
+          </div>
+        </div>
+
+        <h4 className="text-sm font-bold text-white mb-2">{t('profileEditor.reportLabels')}</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+          {LABEL_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label className={labelClass}>{t(label)}</label>
+              <input value={draft.labels[key]} onChange={(e) => set('labels', { ...draft.labels, [key]: e.target.value })} className={inputClass} />
+            </div>
+          ))}
+        </div>
+
+        <h4 className="text-sm font-bold text-white mb-2">{t('profileEditor.requiredOutput')}</h4>
+        <div className="flex flex-wrap gap-x-4 gap-y-2 mb-6">
+          {REPORT_FIELD_OPTIONS.map(({ field, label }) => (
+            <label key={field} className="flex items-center gap-1.5 text-xs text-gray-300 cursor-pointer">
+              <input type="checkbox" checked={draft.requiredFields.includes(field)} onChange={() => toggleField(field)} className="accent-pink-500" />
+              {t(label)}
+            </label>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-300 mb-3 whitespace-pre-line">{error}</p>}
+        <div className="flex items-center gap-3">
+          <button onClick={handleSave} className="px-4 py-2 rounded-lg text-sm font-medium bg-pink-600 hover:bg-pink-700 text-white flex items-center gap-2">
+            <Save className="w-4 h-4" /> {t('profileEditor.save')}
+          </button>
+          <button onClick={onCancel} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-300 hover:text-white">{t('nav.cancel')}</button>
+          {onDelete && (
+            <button onClick={onDelete} className="ml-auto px-3 py-2 rounded-lg text-sm font-medium text-gray-400 hover:text-red-400 flex items-center gap-1">
+              <Trash2 className="w-4 h-4" /> {t('profileEditor.delete')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
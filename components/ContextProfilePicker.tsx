@@ -0,0 +1,144 @@
+import React, { useRef, useState } from 'react';
+import { AnalysisContext, ContextProfile, Language } from '../types';
+import {
+  BUILT_IN_PROFILES, deleteContextProfile, draftContextProfile, importContextProfiles,
+  listContextProfiles, localizeProfile, saveContextProfile, serializeContextProfiles,
+} from '../services/contextProfiles';
+import { getTranslator } from '../services/messages';
+import { downloadBlob, exportFileName } from '../services/download';
+import { ContextProfileEditor } from './ContextProfileEditor';
+import { Image as ImageIcon, Layout, Search, Store, Scale, LayoutGrid, Pencil, Copy, Plus, FileUp, FileDown } from 'lucide-react';
+
+interface ContextProfilePickerProps {
+  profiles: ContextProfile[];
+  selectedId: string | null;
+  onSelect: (profile: ContextProfile) => void;
+  onProfilesChange: (profiles: ContextProfile[]) => void;
+  language: Language;
+}
+
+const BASE_ICONS: Record<AnalysisContext, React.ElementType> = {
+  [AnalysisContext.HERO]: ImageIcon,
+  [AnalysisContext.APLUS]: Layout,
+  [AnalysisContext.SEARCH]: Search,
+  [AnalysisContext.STOREFRONT]: Store,
+  [AnalysisContext.AB_TEST]: Scale,
+  [AnalysisContext.MULTI_VARIANT]: LayoutGrid,
+};
+
+export const ContextProfilePicker: React.FC<ContextProfilePickerProps> = ({ profiles, selectedId, onSelect, onProfilesChange, language }) => {
+  const t = getTranslator(language);
+  const [editing, setEditing] = useState<ContextProfile | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+  const customProfiles = profiles.filter((p) => !p.builtIn);
+
+  const handleSave = (profile: ContextProfile) => {
+    // Throws on an invalid profile; the editor shows the message
+    const saved = saveContextProfile(profile);
+    onProfilesChange(listContextProfiles());
+    setEditing(null);
+    onSelect(saved);
+  };
+
+  const handleDelete = (profile: ContextProfile) => {
+    deleteContextProfile(profile.id);
+    onProfilesChange(listContextProfiles());
+    setEditing(null);
+    if (selectedId === profile.id) onSelect(BUILT_IN_PROFILES.find((p) => p.base === profile.base) ?? BUILT_IN_PROFILES[0]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importContextProfiles(await file.text());
+      setImportError(null);
+      onProfilesChange(listContextProfiles());
+      if (imported.length === 1) onSelect(imported[0]);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : t('profilePicker.importFailed'));
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([serializeContextProfiles(customProfiles)], { type: 'application/json' }), exportFileName('context-profiles', 'json'));
+  };
+
+  return (
+    <div>
+      <div className="space-y-3 max-h-[26rem] overflow-y-auto pr-1">
+        {profiles.map((profile) => {
+          const Icon = BASE_ICONS[profile.base];
+          const selected = selectedId === profile.id;
+          // Only the displayed text is translated; the selected profile keeps the English text the prompt uses
+          const shown = localizeProfile(profile, t);
+          return (
+            <div
+              key={profile.id}
+              role="button"
+              tabIndex={0}
+              onClick={() => onSelect(profile)}
+              onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); onSelect(profile); } }}
+              className={`w-full flex items-center gap-4 p-4 rounded-xl border transition-all text-left group cursor-pointer ${selected ? 'bg-pink-600/20 border-pink-500' : 'bg-gray-700/50 border-gray-700 hover:bg-gray-700 hover:border-gray-500'}`}
+            >
+              <div className={`p-2 rounded-lg ${selected ? 'bg-pink-500 text-white' : 'bg-gray-800 text-gray-400 group-hover:text-white'}`}>
+                <Icon className="w-5 h-5" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className={`font-semibold truncate ${selected ? 'text-white' : 'text-gray-200'}`}>
+                  {shown.name}
+                  {!profile.builtIn && <span className="ml-2 text-[10px] font-medium uppercase tracking-wide text-purple-300">{t('profilePicker.custom')}</span>}
+                </div>
+                <div className="text-xs text-gray-400 truncate">{shown.description}</div>
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); setEditing(profile.builtIn ? draftContextProfile(shown, t) : profile); }}
+                className="p-1.5 rounded text-gray-500 hover:text-white hover:bg-gray-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                title={profile.builtIn ? t('profilePicker.customizeCopy') : t('profilePicker.edit')}
+                aria-label={t(profile.builtIn ? 'profilePicker.customizeName' : 'profilePicker.editName', { name: shown.name })}
+              >
+                {profile.builtIn ? <Copy className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-2 mt-3 text-xs">
+        <button
+          onClick={() => setEditing({ ...draftContextProfile(localizeProfile(BUILT_IN_PROFILES[0], t), t), name: '', description: '' })}
+          className="px-2.5 py-1.5 rounded-lg bg-gray-700/50 text-gray-300 hover:text-white hover:bg-gray-700 flex items-center gap-1"
+        >
+          <Plus className="w-3.5 h-3.5" /> {t('profilePicker.new')}
+        </button>
+        <button
+          onClick={() => importInput.current?.click()}
+          className="px-2.5 py-1.5 rounded-lg bg-gray-700/50 text-gray-300 hover:text-white hover:bg-gray-700 flex items-center gap-1"
+        >
+          <FileUp className="w-3.5 h-3.5" /> {t('profilePicker.import')}
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={customProfiles.length === 0}
+          className="px-2.5 py-1.5 rounded-lg bg-gray-700/50 text-gray-300 hover:text-white hover:bg-gray-700 flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <FileDown className="w-3.5 h-3.5" /> {t('profilePicker.export')}
+        </button>
+        <input ref={importInput} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+      {importError && <p className="text-xs text-red-300 mt-2 whitespace-pre-line">{importError}</p>}
+
+      {editing && (
+        <ContextProfileEditor
+          profile={editing}
+          onSave={handleSave}
+          onDelete={profiles.some((p) => p.id === editing.id && !p.builtIn) ? () => handleDelete(editing) : undefined}
+          onCancel={() => setEditing(null)}
+          language={language}
+        />
+      )}
+    </div>
+  );
+};
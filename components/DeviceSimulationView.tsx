@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { DeviceViewportId, Hotspot, HotspotSurvival, Language, ViewportSimulation } from '../types';
+import { simulateAllViewports } from '../services/deviceSimulation';
+import { getTranslator, MessageKey } from '../services/messages';
+import { Smartphone, Monitor, GalleryHorizontal, Loader2 } from 'lucide-react';
+
+interface DeviceSimulationViewProps {
+  imageSrc: string;
+  hotspots: Hotspot[];
+  language: Language;
+}
+
+const STATUS_STYLES: Record<HotspotSurvival, { dot: string; chip: string; label: MessageKey }> = {
+  survives: { dot: 'bg-green-400', chip: 'bg-green-500/10 text-green-300 border-green-500/30', label: 'device.status.survives' },
+  blurred: { dot: 'bg-yellow-400', chip: 'bg-yellow-500/10 text-yellow-300 border-yellow-500/30', label: 'device.status.blurred' },
+  lost: { dot: 'bg-red-400', chip: 'bg-red-500/10 text-red-300 border-red-500/30', label: 'device.status.lost' },
+};
+
+const VIEWPORT_ICONS = { mobileSearch: Smartphone, desktopSearch: Monitor, detailCarousel: GalleryHorizontal };
+
+// The viewport's own label and description stay English for the prompt
+const VIEWPORT_TEXT: Record<DeviceViewportId, { label: MessageKey; description: MessageKey }> = {
+  mobileSearch: { label: 'device.mobileSearch.label', description: 'device.mobileSearch.description' },
+  desktopSearch: { label: 'device.desktopSearch.label', description: 'device.desktopSearch.description' },
+  detailCarousel: { label: 'device.detailCarousel.label', description: 'device.detailCarousel.description' },
+};
+
+export const DeviceSimulationView: React.FC<DeviceSimulationViewProps> = ({ imageSrc, hotspots, language }) => {
+  const t = getTranslator(language);
+  const [simulations, setSimulations] = useState<ViewportSimulation[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSimulations(null);
+    setError(null);
+    simulateAllViewports(imageSrc, hotspots)
+      .then((results) => { if (!cancelled) setSimulations(results); })
+      .catch((err) => { if (!cancelled) setError(err instanceof Error ? err.message : t('device.failed')); });
+    return () => { cancelled = true; };
+  }, [imageSrc, hotspots]);
+
+  if (error) {
+    return <p className="text-sm text-red-300">{error}</p>;
+  }
+
+  if (!simulations) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin" /> {t('device.rendering')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full overflow-auto p-4">
+      <div className="flex flex-wrap items-start justify-center gap-6">
+        {simulations.map((sim) => {
+          const Icon = VIEWPORT_ICONS[sim.viewport.id];
+          const text = VIEWPORT_TEXT[sim.viewport.id];
+          return (
+            <div key={sim.viewport.id} className="bg-gray-900/80 border border-gray-700 rounded-lg p-3" style={{ width: Math.max(sim.width, 200) + 24 }}>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs font-bold text-white flex items-center gap-1.5">
+                  <Icon className="w-3.5 h-3.5 text-pink-400" /> {t(text.label)}
+                </span>
+                <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${sim.legibilityScore >= 70 ? 'text-green-300' : sim.legibilityScore >= 45 ? 'text-yellow-300' : 'text-red-300'}`}>
+                  {t('device.legibility', { score: sim.legibilityScore })}
+                </span>
+              </div>
+              <p className="text-[10px] text-gray-500 mb-2">{t(text.description)} · {sim.width}x{sim.height}px</p>
+
+              {/* Shown at true CSS size: this is what a shopper sees */}
+              <div className="relative mx-auto bg-white" style={{ width: sim.width, height: sim.height }}>
+                <img src={sim.renderSrc} alt={t(text.label)} width={sim.width} height={sim.height} className="block" />
+                {sim.checks.map((check) => (
+                  <span
+                    key={check.hotspot.id}
+                    className={`absolute w-2 h-2 -ml-1 -mt-1 rounded-full ring-1 ring-black/60 ${STATUS_STYLES[check.status].dot}`}
+                    style={{ left: `${check.hotspot.x}%`, top: `${check.hotspot.y}%` }}
+                    title={check.hotspot.label}
+                  />
+                ))}
+              </div>
+
+              <div className="mt-3 space-y-1">
+                {sim.checks.map((check) => (
+                  <div key={check.hotspot.id} className="flex items-center justify-between gap-2 text-[11px]">
+                    <span className="text-gray-300 truncate">{check.hotspot.id}. {check.hotspot.label || t('hotspot.point', { id: check.hotspot.id })}</span>
+                    <span className={`flex-shrink-0 px-1.5 py-0.5 rounded border text-[10px] font-bold ${STATUS_STYLES[check.status].chip}`}>
+                      {t(STATUS_STYLES[check.status].label)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { DifferencePeak, Language } from '../types';
+import { DIFFERENCE_STOPS } from '../services/densityRenderer';
+import { getTranslator } from '../services/messages';
+import { TrendingUp, TrendingDown } from 'lucide-react';
+
+interface DifferenceLegendProps {
+  baselineLabel: string;
+  variantLabel: string;
+  gain: DifferencePeak | null;
+  loss: DifferencePeak | null;
+  language: Language;
+}
+
+const describe = (peak: DifferencePeak) =>
+  `${peak.label ? `${peak.label} ` : ''}(${Math.round(peak.x)}%, ${Math.round(peak.y)}%)`;
+
+export const DifferenceLegend: React.FC<DifferenceLegendProps> = ({ baselineLabel, variantLabel, gain, loss, language }) => {
+  const t = getTranslator(language);
+  return (
+    <div className="mb-4 mx-2 bg-gray-900/80 border border-gray-700 rounded-lg p-3">
+      <div className="h-2 rounded-sm mb-1" style={{ background: `linear-gradient(90deg, ${DIFFERENCE_STOPS.join(', ')})` }} />
+      <div className="flex items-center justify-between text-[10px] text-gray-400 uppercase tracking-wide mb-2">
+        <span>{t('diff.loses', { variant: variantLabel })}</span>
+        <span>{t('diff.noChange')}</span>
+        <span>{t('diff.gains', { variant: variantLabel })}</span>
+      </div>
+      {gain || loss ? (
+        <div className="grid grid-cols-2 gap-3 text-xs">
+          <div className="flex items-start gap-2">
+            <TrendingUp className="w-4 h-4 text-red-400 flex-shrink-0" />
+            <span className="text-gray-300">
+              <span className="text-red-300 font-semibold">{t('diff.biggestGain')}</span> {gain ? describe(gain) : t('diff.none')}
+            </span>
+          </div>
+          <div className="flex items-start gap-2">
+            <TrendingDown className="w-4 h-4 text-blue-400 flex-shrink-0" />
+            <span className="text-gray-300">
+              <span className="text-blue-300 font-semibold">{t('diff.biggestLoss', { baseline: baselineLabel })}</span> {loss ? describe(loss) : t('diff.none')}
+            </span>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">{t('diff.identical')}</p>
+      )}
+    </div>
+  );
+};
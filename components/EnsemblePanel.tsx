@@ -0,0 +1,122 @@
+import React from 'react';
+import { EnsembleStability, EnsembleSummary, Language, ScoreInterval } from '../types';
+import { getTranslator, MessageKey } from '../services/messages';
+import { Layers, CheckCircle2, AlertTriangle, XCircle } from 'lucide-react';
+
+interface EnsemblePanelProps {
+  summary: EnsembleSummary;
+  activeImageIndex?: number;
+  language: Language;
+}
+
+const STABILITY_STYLES: Record<EnsembleStability, { icon: typeof CheckCircle2; label: MessageKey; badge: string; hint: MessageKey }> = {
+  stable: {
+    icon: CheckCircle2,
+    label: 'export.stability.stable',
+    badge: 'bg-green-500/10 text-green-300 border-green-500/30',
+    hint: 'ensemble.hint.stable',
+  },
+  moderate: {
+    icon: AlertTriangle,
+    label: 'export.stability.moderate',
+    badge: 'bg-yellow-500/10 text-yellow-300 border-yellow-500/30',
+    hint: 'ensemble.hint.moderate',
+  },
+  unstable: {
+    icon: XCircle,
+    label: 'export.stability.unstable',
+    badge: 'bg-red-500/10 text-red-300 border-red-500/30',
+    hint: 'ensemble.hint.unstable',
+  },
+};
+
+const METRIC_LABELS: [keyof EnsembleSummary['metrics'], MessageKey][] = [
+  ['visibilityScore', 'view.score.visibility'],
+  ['goalAlignmentScore', 'view.score.goalAlign'],
+  ['clarityScore', 'view.score.clarity'],
+  ['cognitiveLoadScore', 'export.score.cognitiveLoad'],
+  ['brandImpactScore', 'export.score.brandImpact'],
+];
+
+// Bar up to the mean with a whisker across the interval
+const IntervalRow: React.FC<{ label: string; interval: ScoreInterval; max: number; color: string }> = ({ label, interval, max, color }) => {
+  const pct = (value: number) => `${(value / max) * 100}%`;
+  return (
+    <div className="grid grid-cols-[7rem_1fr_6.5rem] items-center gap-2 text-xs">
+      <span className="text-gray-400 truncate">{label}</span>
+      <div className="relative h-3 bg-gray-700 rounded">
+        <div className="absolute inset-y-0 left-0 rounded opacity-70" style={{ width: pct(interval.mean), backgroundColor: color }} />
+        <div className="absolute top-1/2 h-px bg-white" style={{ left: pct(interval.low), width: `calc(${pct(interval.high)} - ${pct(interval.low)})` }} />
+        <div className="absolute inset-y-0 w-px bg-white" style={{ left: pct(interval.low) }} />
+        <div className="absolute inset-y-0 w-px bg-white" style={{ left: pct(interval.high) }} />
+      </div>
+      <span className="font-mono text-gray-300 text-right">
+        {interval.mean} <span className="text-gray-500">± {Math.round(((interval.high - interval.low) / 2) * 10) / 10}</span>
+      </span>
+    </div>
+  );
+};
+
+export const EnsemblePanel: React.FC<EnsemblePanelProps> = ({ summary, activeImageIndex = 0, language }) => {
+  const t = getTranslator(language);
+  const style = STABILITY_STYLES[summary.stability];
+  const Icon = style.icon;
+  const consensus = summary.consensusHotspots[activeImageIndex] ?? [];
+  const meanSpread = consensus.length > 0
+    ? Math.round((consensus.reduce((sum, h) => sum + h.spread, 0) / consensus.length) * 10) / 10
+    : 0;
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <Layers className="w-4 h-4 text-pink-500" /> {t('export.ensemble', { runs: summary.runs })}
+        </h3>
+        <span className={`text-xs font-bold px-2 py-1 rounded border flex items-center gap-1 ${style.badge}`}>
+          <Icon className="w-3 h-3" /> {t(style.label)}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        {t(style.hint)}
+        {summary.winnerAgreement !== undefined && ` ${t('export.winnerAgreement', { percent: Math.round(summary.winnerAgreement * 100) })}`}
+        {summary.failedRuns > 0 && ` ${t(summary.failedRuns > 1 ? 'ensemble.failedMany' : 'ensemble.failedOne', { count: summary.failedRuns })}`}
+      </p>
+
+      <div className="space-y-2 mb-5">
+        {METRIC_LABELS.map(([key, labelKey]) => (
+          <IntervalRow key={key} label={t(labelKey)} interval={summary.metrics[key]} max={10} color="#ec4899" />
+        ))}
+      </div>
+
+      {summary.comparativeAnalysis && summary.comparativeAnalysis.length > 0 && (
+        <div className="space-y-2 mb-5">
+          <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">{t('ensemble.headToHead')}</h4>
+          {summary.comparativeAnalysis.map((m) => (
+            <React.Fragment key={m.metric}>
+              <IntervalRow label={`${m.metric} (A)`} interval={m.scoreA} max={100} color="#ec4899" />
+              <IntervalRow label={`${m.metric} (B)`} interval={m.scoreB} max={100} color="#8b5cf6" />
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+
+      <div className="mb-5 text-xs text-gray-400">
+        <span className="text-white font-medium">{t('ensemble.consensus', { count: consensus.length })}</span>
+        {' '}{t('ensemble.spread', { spread: meanSpread })}
+        {consensus.some((h) => h.support <= 0.5) && ` ${t('ensemble.weakSupport')}`}
+      </div>
+
+      <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">{t('export.recurrence')}</h4>
+      <div className="space-y-1.5">
+        {summary.recommendations.map((rec) => (
+          <div key={rec.title} className="flex items-center gap-2 text-xs">
+            <span className={`font-mono px-1.5 py-0.5 rounded ${rec.share > 0.5 ? 'bg-green-500/10 text-green-300' : 'bg-gray-700 text-gray-400'}`}>
+              {rec.runs}/{summary.runs}
+            </span>
+            <span className={rec.share > 0.5 ? 'text-gray-200' : 'text-gray-500'}>{rec.title}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
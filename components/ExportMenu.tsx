@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Download, FileText, Globe, Loader2, Image as ImageIcon, Layers, Braces, Table, AlertTriangle, X } from 'lucide-react';
+import { exportReportHtml, exportReportPdf, ReportExportInput } from '../services/reportExport';
+import { exportAttentionAnalysisCsv, exportHotspotsCsv, exportHotspotsJson, exportOverlayPng, OverlayExportView } from '../services/dataExport';
+import { getTranslator } from '../services/messages';
+import { Language } from '../types';
+
+interface ExportMenuProps {
+  input: ReportExportInput;
+  activeView: OverlayExportView;
+  language: Language;
+}
+
+interface ExportOption {
+  id: string;
+  label: string;
+  desc: string;
+  icon: React.ElementType;
+  run: () => Promise<void> | void;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ input, activeView, language }) => {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const t = getTranslator(language);
+
+  const groups: { title: string; options: ExportOption[] }[] = [
+    {
+      title: t('export.group.report'),
+      options: [
+        { id: 'pdf', label: t('export.pdfReport'), desc: t('export.pdfReportDesc'), icon: FileText, run: () => exportReportPdf(input) },
+        { id: 'html', label: t('export.htmlReport'), desc: t('export.htmlReportDesc'), icon: Globe, run: () => exportReportHtml(input) },
+      ],
+    },
+    {
+      title: t('export.group.raw'),
+      options: [
+        { id: 'png', label: t('export.png'), desc: t('export.pngDesc', { label: activeView.imageLabel }), icon: ImageIcon, run: () => exportOverlayPng(activeView, { includeImage: true }) },
+        { id: 'overlay', label: t('export.overlay'), desc: t('export.overlayDesc'), icon: Layers, run: () => exportOverlayPng(activeView, { includeImage: false }) },
+        { id: 'json', label: t('export.hotspotsJson'), desc: t('export.hotspotsJsonDesc'), icon: Braces, run: () => exportHotspotsJson(input.result, input.context) },
+        { id: 'csv', label: t('export.hotspotsCsv'), desc: t('export.hotspotsCsvDesc'), icon: Table, run: () => exportHotspotsCsv(input.result, input.context) },
+        { id: 'analysis-csv', label: t('export.analysisCsv'), desc: t('export.analysisCsvDesc'), icon: Table, run: () => exportAttentionAnalysisCsv(input.result, input.context) },
+      ],
+    },
+  ];
+
+  const handleExport = async (option: ExportOption) => {
+    setBusy(option.id);
+    setError(null);
+    try {
+      await option.run();
+      setOpen(false);
+    } catch (err) {
+      console.error("Export failed", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(!open)} className="text-gray-400 hover:text-white flex items-center gap-1 text-sm">
+        <Download className="w-4 h-4" /> {t('export.menu')}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 bg-gray-800 border border-gray-700 rounded-lg shadow-2xl z-20 p-1">
+          {error && (
+            <div className="m-1 bg-red-950/40 border border-red-500/40 rounded-md p-2 flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <div className="text-xs font-semibold text-red-200">{t('export.failed')}</div>
+                <div className="text-[11px] text-gray-400 break-words">{error}</div>
+              </div>
+              <button onClick={() => setError(null)} className="text-gray-500 hover:text-white" title={t('nav.dismiss')}>
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+          {groups.map((group) => (
+            <div key={group.title}>
+              <div className="px-3 pt-2 pb-1 text-[10px] uppercase font-bold tracking-wider text-gray-500">{group.title}</div>
+              {group.options.map((opt) => (
+                <button
+                  key={opt.id}
+                  onClick={() => handleExport(opt)}
+                  disabled={busy !== null}
+                  className="w-full flex items-center gap-3 px-3 py-2 rounded-md text-left hover:bg-gray-700 disabled:opacity-50"
+                >
+                  {busy === opt.id ? <Loader2 className="w-4 h-4 text-pink-400 animate-spin" /> : <opt.icon className="w-4 h-4 text-pink-400" />}
+                  <div>
+                    <div className="text-sm text-white">{opt.label}</div>
+                    <div className="text-[11px] text-gray-400">{opt.desc}</div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { HeatmapSettings, Language } from '../types';
+import { DEFAULT_HEATMAP_SETTINGS, HEATMAP_PALETTES, paletteGradient } from '../services/densityRenderer';
+import { getTranslator } from '../services/messages';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+
+interface HeatmapControlsProps {
+  settings: HeatmapSettings;
+  onChange: (settings: HeatmapSettings) => void;
+  language: Language;
+}
+
+export const HeatmapControls: React.FC<HeatmapControlsProps> = ({ settings, onChange, language }) => {
+  const t = getTranslator(language);
+  const sliders: { key: 'radius' | 'opacity' | 'threshold'; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+    { key: 'radius', label: t('heatmap.radius'), min: 3, max: 30, step: 1, format: (v) => `${v}%` },
+    { key: 'opacity', label: t('heatmap.opacity'), min: 0.1, max: 1, step: 0.05, format: (v) => `${Math.round(v * 100)}%` },
+    { key: 'threshold', label: t('heatmap.threshold'), min: 0, max: 0.8, step: 0.01, format: (v) => `${Math.round(v * 100)}%` },
+  ];
+
+  return (
+    <div className="mb-4 mx-2 bg-gray-900/80 border border-gray-700 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-bold text-white flex items-center gap-2">
+          <SlidersHorizontal className="w-3.5 h-3.5 text-pink-400" /> {t('heatmap.settings')}
+        </span>
+        <button
+          onClick={() => onChange(DEFAULT_HEATMAP_SETTINGS)}
+          className="text-[10px] text-gray-400 hover:text-white flex items-center gap-1"
+        >
+          <RotateCcw className="w-3 h-3" /> {t('heatmap.reset')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-3">
+        {sliders.map((slider) => (
+          <label key={slider.key} className="text-[10px] text-gray-400 uppercase tracking-wide">
+            <div className="flex items-center justify-between mb-1">
+              <span>{slider.label}</span>
+              <span className="text-gray-200 font-bold">{slider.format(settings[slider.key])}</span>
+            </div>
+            <input
+              type="range"
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              value={settings[slider.key]}
+              onChange={(e) => onChange({ ...settings, [slider.key]: Number(e.target.value) })}
+              className="w-full accent-pink-500"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {HEATMAP_PALETTES.map((palette) => (
+          <button
+            key={palette.id}
+            onClick={() => onChange({ ...settings, palette: palette.id })}
+            className={`rounded-md border p-1 text-[10px] transition-all ${settings.palette === palette.id ? 'border-pink-500 text-white' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+          >
+            <div className="h-2 rounded-sm mb-1" style={{ background: paletteGradient(palette.id) }} />
+            {t(palette.labelKey)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
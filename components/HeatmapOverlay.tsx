@@ -1,13 +1,25 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Hotspot, VisualizationMode } from '../types';
+import { AoiPoint, AreaOfInterest, HeatmapSettings, Hotspot, Language, VisualizationMode } from '../types';
+import { drawOverlay } from '../services/overlayRenderer';
+import { buildScanpath, drawScanpathFrame } from '../services/scanpath';
+import { getTranslator } from '../services/messages';
+import { AoiDrawTool, AoiLayer } from './AoiLayer';
 
 interface HeatmapOverlayProps {
   imageSrc: string;
   hotspots: Hotspot[];
   mode: VisualizationMode;
+  heatmapSettings?: HeatmapSettings;
+  baselineHotspots?: Hotspot[]; // Renders a difference map against these instead of `mode`
+  aois?: AreaOfInterest[];
+  aoiTool?: AoiDrawTool | null;
+  onAoiDrawn?: (shape: AoiDrawTool, points: AoiPoint[]) => void;
+  playhead?: number; // ms into the scanpath; animates `path` mode instead of drawing it whole
+  language: Language;
 }
 
-export const HeatmapOverlay: React.FC<HeatmapOverlayProps> = ({ imageSrc, hotspots, mode }) => {
+export const HeatmapOverlay: React.FC<HeatmapOverlayProps> = ({ imageSrc, hotspots, mode, heatmapSettings, baselineHotspots, aois, aoiTool = null, onAoiDrawn, playhead, language }) => {
+  const t = getTranslator(language);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
   const [dimensions, setDimensions] = useState<{width: number, height: number} | null>(null);
@@ -41,121 +53,12 @@ export const HeatmapOverlay: React.FC<HeatmapOverlayProps> = ({ imageSrc, hotspo
     canvas.width = dimensions.width;
     canvas.height = dimensions.height;
 
-    // Reset canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    if (!hotspots || hotspots.length === 0) return;
-
-    // Sort hotspots by ID for sequence
-    const sortedHotspots = [...hotspots].sort((a, b) => a.id - b.id);
-
-    // -------------------------
-    // RENDER: HEATMAP
-    // -------------------------
-    if (mode === 'heatmap') {
-      sortedHotspots.forEach(spot => {
-          const x = (spot.x / 100) * canvas.width;
-          const y = (spot.y / 100) * canvas.height;
-          // Dynamic radius based on image size
-          const radius = Math.min(canvas.width, canvas.height) * 0.12; 
-          
-          const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
-          const alpha = Math.max(0.3, Math.min(0.9, spot.intensity));
-          
-          gradient.addColorStop(0, `rgba(255, 0, 0, ${alpha})`); 
-          gradient.addColorStop(0.4, `rgba(255, 165, 0, ${alpha * 0.8})`); 
-          gradient.addColorStop(0.7, `rgba(255, 255, 0, ${alpha * 0.5})`); 
-          gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
-
-          ctx.globalCompositeOperation = 'screen'; 
-          ctx.fillStyle = gradient;
-          ctx.beginPath();
-          ctx.arc(x, y, radius, 0, 2 * Math.PI);
-          ctx.fill();
-      });
-      ctx.globalCompositeOperation = 'source-over';
-    }
-
-    // -------------------------
-    // RENDER: FOG MAP (Reverse Heatmap)
-    // -------------------------
-    if (mode === 'fogmap') {
-      // 1. Fill entire screen with dark fog
-      ctx.fillStyle = 'rgba(15, 23, 42, 0.92)'; // Slate 900
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-      // 2. Cut out holes for hotspots
-      ctx.globalCompositeOperation = 'destination-out';
-      
-      sortedHotspots.forEach(spot => {
-          const x = (spot.x / 100) * canvas.width;
-          const y = (spot.y / 100) * canvas.height;
-          const radius = Math.min(canvas.width, canvas.height) * 0.14; 
-
-          const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
-          gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');     // Fully transparent hole
-          gradient.addColorStop(0.5, 'rgba(0, 0, 0, 0.5)'); // Semi-transparent edge
-          gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');     // Solid fog
-
-          ctx.fillStyle = gradient;
-          ctx.beginPath();
-          ctx.arc(x, y, radius, 0, 2 * Math.PI);
-          ctx.fill();
-      });
-      ctx.globalCompositeOperation = 'source-over';
+    if (mode === 'path' && playhead !== undefined && !baselineHotspots) {
+      drawScanpathFrame(ctx, buildScanpath(hotspots), playhead);
+    } else {
+      drawOverlay(ctx, hotspots, mode, heatmapSettings, baselineHotspots);
     }
-
-    // -------------------------
-    // RENDER: PATH
-    // -------------------------
-    if (mode === 'path') {
-       // Draw Lines
-       ctx.strokeStyle = 'rgba(236, 72, 153, 0.8)'; // Pink-500
-       ctx.lineWidth = Math.max(2, canvas.width * 0.003); // Responsive line width
-       ctx.setLineDash([15, 10]);
-       
-       ctx.beginPath();
-       sortedHotspots.forEach((spot, idx) => {
-         const x = (spot.x / 100) * canvas.width;
-         const y = (spot.y / 100) * canvas.height;
-         if (idx === 0) ctx.moveTo(x, y);
-         else ctx.lineTo(x, y);
-       });
-       ctx.stroke();
-       ctx.setLineDash([]); // Reset dash
-
-       // Draw Points and Numbers
-       sortedHotspots.forEach((spot) => {
-         const x = (spot.x / 100) * canvas.width;
-         const y = (spot.y / 100) * canvas.height;
-         const circleRadius = Math.max(12, canvas.width * 0.015);
-
-         // Outer glow
-         ctx.shadowColor = "rgba(0,0,0,0.5)";
-         ctx.shadowBlur = 10;
-         
-         // Circle
-         ctx.fillStyle = spot.id === 1 ? '#ec4899' : '#ffffff'; 
-         ctx.beginPath();
-         ctx.arc(x, y, circleRadius, 0, 2 * Math.PI);
-         ctx.fill();
-         ctx.shadowBlur = 0; // Reset shadow
-
-         // Border
-         ctx.strokeStyle = '#ec4899';
-         ctx.lineWidth = 3;
-         ctx.stroke();
-
-         // Number
-         ctx.fillStyle = spot.id === 1 ? '#ffffff' : '#ec4899';
-         ctx.font = `bold ${Math.max(12, circleRadius)}px Inter, sans-serif`;
-         ctx.textAlign = 'center';
-         ctx.textBaseline = 'middle';
-         ctx.fillText(spot.id.toString(), x, y + 2);
-       });
-    }
-
-  }, [dimensions, hotspots, mode]);
+  }, [dimensions, hotspots, mode, heatmapSettings, baselineHotspots, playhead]);
 
   return (
     // Outer container: Flex center to manage the available space
@@ -180,7 +83,7 @@ export const HeatmapOverlay: React.FC<HeatmapOverlayProps> = ({ imageSrc, hotspo
           <img 
               ref={imgRef}
               src={imageSrc} 
-              alt="Analyzed Asset" 
+              alt={t('overlay.analyzedAsset')}
               className="w-full h-full object-contain"
               onLoad={onImageLoad}
           />
@@ -191,6 +94,11 @@ export const HeatmapOverlay: React.FC<HeatmapOverlayProps> = ({ imageSrc, hotspo
               className="absolute inset-0 w-full h-full pointer-events-none"
               style={{ zIndex: 10 }}
           />
+
+          {/* Areas of Interest */}
+          {aois && onAoiDrawn && (
+            <AoiLayer aois={aois} tool={aoiTool} onDrawn={onAoiDrawn} />
+          )}
       </div>
     </div>
   );
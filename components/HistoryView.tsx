@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AnalysisRecord, Language } from '../types';
+import { deleteAnalysis, listAnalyses, matchesQuery, updateAnalysis } from '../services/historyService';
+import { contextName, localizeProfile } from '../services/contextProfiles';
+import { getLanguage, getTranslator, Translate } from '../services/messages';
+import { Search, Trash2, FolderOpen, ArrowLeft, Clock, Tag, AlertTriangle, X } from 'lucide-react';
+
+interface HistoryViewProps {
+  onOpen: (record: AnalysisRecord) => Promise<void>;
+  onClose: () => void;
+  language: Language;
+}
+
+interface HistoryError {
+  title: string;
+  message: string;
+  detail?: string;
+}
+
+const errorDetail = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Same layout as the analysis error panel, without the recovery actions
+const HistoryErrorPanel: React.FC<{ error: HistoryError; onDismiss: () => void; t: Translate }> = ({ error, onDismiss, t }) => (
+  <div className="bg-red-950/40 border border-red-500/40 rounded-xl p-4 text-left mb-4">
+    <div className="flex items-start gap-3">
+      <AlertTriangle className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-sm font-semibold text-red-200">{error.title}</h4>
+          <button onClick={onDismiss} className="text-gray-500 hover:text-white" title={t('nav.dismiss')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-xs text-gray-300 mt-1">{error.message}</p>
+        {error.detail && (
+          <details className="mt-3">
+            <summary className="text-[10px] uppercase font-bold tracking-wider text-gray-500 cursor-pointer hover:text-gray-300">{t('nav.details')}</summary>
+            <pre className="mt-1 text-[10px] text-gray-400 whitespace-pre-wrap break-words max-h-32 overflow-y-auto">{error.detail}</pre>
+          </details>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+const RecordThumbnails: React.FC<{ record: AnalysisRecord }> = ({ record }) => {
+  const [urls, setUrls] = useState<string[]>([]);
+
+  useEffect(() => {
+    const created = record.images.map((img) => URL.createObjectURL(img.blob));
+    setUrls(created);
+    return () => created.forEach((url) => URL.revokeObjectURL(url));
+  }, [record]);
+
+  return (
+    <div className="flex gap-1 flex-shrink-0">
+      {urls.map((url, idx) => (
+        <img key={idx} src={url} alt={record.images[idx].name} className="w-16 h-16 object-contain rounded bg-gray-900 border border-gray-700" />
+      ))}
+    </div>
+  );
+};
+
+const RecordCard: React.FC<{
+  record: AnalysisRecord;
+  onOpen: () => void;
+  onDelete: () => void;
+  onUpdate: (record: AnalysisRecord) => void;
+  onError: (error: HistoryError) => void;
+  t: Translate;
+  locale: string;
+}> = ({ record, onOpen, onDelete, onUpdate, onError, t, locale }) => {
+  const [asin, setAsin] = useState(record.asin ?? '');
+  const [productName, setProductName] = useState(record.productName ?? '');
+  const [tags, setTags] = useState(record.tags.join(', '));
+
+  const save = async () => {
+    try {
+      const updated = await updateAnalysis(record.id, {
+        asin: asin.trim() || undefined,
+        productName: productName.trim() || undefined,
+        tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+      });
+      if (updated) onUpdate(updated);
+    } catch (err) {
+      console.error(err);
+      onError({ title: t('history.saveFailed'), message: t('history.saveFailedMessage'), detail: errorDetail(err) });
+    }
+  };
+
+  const { metrics } = record.result.report;
+  const avgScore = (metrics.visibilityScore + metrics.goalAlignmentScore + metrics.clarityScore) / 3;
+  const inputClass = "bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-pink-500";
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-4 border border-gray-700 flex gap-4">
+      <RecordThumbnails record={record} />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <span className="text-sm font-semibold text-white truncate">{record.productName || record.images[0]?.name || t('history.untitled')}</span>
+          <span className="text-xs font-bold text-pink-400 flex-shrink-0">{avgScore.toFixed(1)}/10</span>
+        </div>
+        <div className="text-xs text-gray-400 flex items-center gap-2 mb-2 flex-wrap">
+          <Clock className="w-3 h-3" /> {new Date(record.createdAt).toLocaleString(locale)}
+          <span className="text-gray-600">•</span> {record.profile ? localizeProfile(record.profile, t).name : contextName(record.context, t)}
+          <span className="text-gray-600">•</span> {t('history.model', { model: record.model, version: record.promptVersion })}
+        </div>
+        <p className="text-xs text-gray-400 line-clamp-2 mb-3">{record.result.report.summary}</p>
+        <div className="grid grid-cols-3 gap-2">
+          <input className={inputClass} placeholder="ASIN" value={asin} onChange={(e) => setAsin(e.target.value)} onBlur={save} />
+          <input className={inputClass} placeholder={t('history.product')} value={productName} onChange={(e) => setProductName(e.target.value)} onBlur={save} />
+          <input className={inputClass} placeholder={t('history.tags')} value={tags} onChange={(e) => setTags(e.target.value)} onBlur={save} />
+        </div>
+      </div>
+      <div className="flex flex-col gap-2 flex-shrink-0">
+        <button onClick={onOpen} className="px-3 py-1.5 rounded-md text-xs font-medium bg-pink-600 hover:bg-pink-700 text-white flex items-center gap-1">
+          <FolderOpen className="w-3.5 h-3.5" /> {t('nav.open')}
+        </button>
+        <button onClick={onDelete} className="px-3 py-1.5 rounded-md text-xs font-medium bg-gray-700 hover:bg-red-700 text-gray-300 hover:text-white flex items-center gap-1">
+          <Trash2 className="w-3.5 h-3.5" /> {t('history.delete')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ onOpen, onClose, language }) => {
+  const t = getTranslator(language);
+  const { locale } = getLanguage(language);
+  const [records, setRecords] = useState<AnalysisRecord[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<HistoryError | null>(null);
+
+  useEffect(() => {
+    listAnalyses()
+      .then(setRecords)
+      .catch((err) => {
+        console.error(err);
+        setError({ title: t('history.unavailable'), message: t('history.unavailableMessage'), detail: errorDetail(err) });
+        setRecords([]);
+      });
+  }, []);
+
+  const filtered = useMemo(() => (records ?? []).filter((r) => matchesQuery(r, query)), [records, query]);
+
+  const handleDelete = async (record: AnalysisRecord) => {
+    if (!confirm(t('history.confirmDelete', { date: new Date(record.createdAt).toLocaleString(locale) }))) return;
+    try {
+      await deleteAnalysis(record.id);
+      setRecords((prev) => prev?.filter((r) => r.id !== record.id) ?? null);
+    } catch (err) {
+      console.error(err);
+      setError({ title: t('history.deleteFailed'), message: t('history.deleteFailedMessage'), detail: errorDetail(err) });
+    }
+  };
+
+  const handleOpen = async (record: AnalysisRecord) => {
+    try {
+      await onOpen(record);
+    } catch (err) {
+      console.error(err);
+      setError({ title: t('history.openFailed'), message: t('history.openFailedMessage'), detail: errorDetail(err) });
+    }
+  };
+
+  const handleUpdate = (updated: AnalysisRecord) => {
+    setRecords((prev) => prev?.map((r) => (r.id === updated.id ? updated : r)) ?? null);
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto w-full animate-fade-in">
+      <div className="bg-gray-900 rounded-2xl shadow-2xl border border-gray-700 p-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white">{t('history.title')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white flex items-center gap-1 text-sm">
+            <ArrowLeft className="w-4 h-4" /> {t('nav.back')}
+          </button>
+        </div>
+
+        <div className="relative mb-6">
+          <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('history.search')}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg pl-9 pr-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-pink-500"
+          />
+        </div>
+
+        {error && <HistoryErrorPanel error={error} onDismiss={() => setError(null)} t={t} />}
+
+        {records === null ? (
+          <p className="text-sm text-gray-400">{t('history.loading')}</p>
+        ) : filtered.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <Tag className="w-8 h-8 mx-auto mb-2" />
+            <p className="text-sm">{records.length === 0 ? t('history.empty') : t('history.noMatches')}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {filtered.map((record) => (
+              <RecordCard
+                key={record.id}
+                record={record}
+                onOpen={() => handleOpen(record)}
+                onDelete={() => handleDelete(record)}
+                onUpdate={handleUpdate}
+                onError={setError}
+                t={t}
+                locale={locale}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
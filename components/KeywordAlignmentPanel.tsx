@@ -0,0 +1,50 @@
+import React from 'react';
+import { KeywordAlignment, Language, ListingMetadata } from '../types';
+import { SUPPORTED_SCORE, summarizeKeywordAlignment } from '../services/listingMetadata';
+import { getTranslator } from '../services/messages';
+import { KeyRound } from 'lucide-react';
+
+interface KeywordAlignmentPanelProps {
+  entries: KeywordAlignment[];
+  listing?: ListingMetadata;
+  language: Language;
+}
+
+const scoreColor = (score: number) =>
+  score >= SUPPORTED_SCORE ? 'bg-green-500' : score >= SUPPORTED_SCORE / 2 ? 'bg-yellow-500' : 'bg-red-500';
+
+export const KeywordAlignmentPanel: React.FC<KeywordAlignmentPanelProps> = ({ entries, listing, language }) => {
+  const t = getTranslator(language);
+  const summary = summarizeKeywordAlignment(entries);
+  if (!summary) return null;
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <KeyRound className="w-4 h-4 text-pink-500" /> {t('keywords.title')}
+        </h3>
+        <span className="text-2xl font-bold text-white">{summary.score}<span className="text-sm text-gray-500">/100</span></span>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        {listing?.title
+          ? t('keywords.supportedFor', { supported: summary.supported.length, total: entries.length, title: listing.title })
+          : t('keywords.supported', { supported: summary.supported.length, total: entries.length })}
+      </p>
+      <div className="space-y-3">
+        {entries.map((entry) => (
+          <div key={entry.keyword}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="text-white font-medium">{entry.keyword}</span>
+              <span className="text-xs font-mono text-gray-400">{Math.round(entry.score)}</span>
+            </div>
+            <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+              <div className={`h-full ${scoreColor(entry.score)}`} style={{ width: `${entry.score}%` }} />
+            </div>
+            <p className="text-xs text-gray-400 mt-1">{entry.evidence}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Language, ListingMetadata } from '../types';
+import { MAX_BULLETS, MAX_KEYWORDS, parseKeywords } from '../services/listingMetadata';
+import { getTranslator } from '../services/messages';
+import { ChevronDown, ChevronRight, ClipboardList } from 'lucide-react';
+
+interface ListingDetailsFormProps {
+  listing: ListingMetadata;
+  onChange: (listing: ListingMetadata) => void;
+  language: Language;
+}
+
+const inputClass = 'w-full bg-gray-700/50 border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-pink-500';
+
+export const ListingDetailsForm: React.FC<ListingDetailsFormProps> = ({ listing, onChange, language }) => {
+  const t = getTranslator(language);
+  const [open, setOpen] = useState(false);
+  // Kept as typed; parsing on every keystroke would swallow a trailing comma
+  const [keywordText, setKeywordText] = useState(listing.keywords.join(', '));
+
+  const filled = [listing.title, listing.price, listing.category].filter((v) => v.trim()).length
+    + listing.bullets.filter((b) => b.trim()).length
+    + listing.keywords.length;
+
+  const setBullet = (idx: number, value: string) => {
+    const bullets = Array.from({ length: MAX_BULLETS }, (_, i) => (i === idx ? value : listing.bullets[i] ?? ''));
+    onChange({ ...listing, bullets });
+  };
+
+  const setKeywords = (text: string) => {
+    setKeywordText(text);
+    onChange({ ...listing, keywords: parseKeywords(text) });
+  };
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full text-xs font-semibold text-gray-400 uppercase tracking-wide flex items-center gap-2 hover:text-white"
+      >
+        <ClipboardList className="w-4 h-4 text-pink-400" /> {t('listing.title')}
+        <span className="normal-case font-normal text-gray-500">{filled > 0 ? t('listing.filled', { count: filled }) : t('listing.optional')}</span>
+        {open ? <ChevronDown className="w-4 h-4 ml-auto" /> : <ChevronRight className="w-4 h-4 ml-auto" />}
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          <input value={listing.title} onChange={(e) => onChange({ ...listing, title: e.target.value })} placeholder={t('listing.productTitle')} className={inputClass} />
+          <div className="grid grid-cols-2 gap-3">
+            <input value={listing.price} onChange={(e) => onChange({ ...listing, price: e.target.value })} placeholder={t('listing.price')} className={inputClass} />
+            <input value={listing.category} onChange={(e) => onChange({ ...listing, category: e.target.value })} placeholder={t('listing.category')} className={inputClass} />
+          </div>
+          <div className="space-y-1.5">
+            {Array.from({ length: MAX_BULLETS }, (_, idx) => (
+              <input
+                key={idx}
+                value={listing.bullets[idx] ?? ''}
+                onChange={(e) => setBullet(idx, e.target.value)}
+                placeholder={t('listing.bullet', { n: idx + 1 })}
+                className={`${inputClass} text-xs`}
+              />
+            ))}
+          </div>
+          <div>
+            <textarea
+              value={keywordText}
+              onChange={(e) => setKeywords(e.target.value)}
+              rows={2}
+              placeholder={t('listing.keywords')}
+              className={inputClass}
+            />
+            <p className="text-[11px] text-gray-500 mt-1">
+              {t('listing.keywordCount', { count: listing.keywords.length, max: MAX_KEYWORDS })}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
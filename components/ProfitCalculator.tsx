@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { AnalysisReport, CampaignInputs, CampaignOutcome, Language, Marketplace } from '../types';
+import { compareVariants, DAYS_PER_MONTH, formatRange, getCampaignInputs, netRevenue, projectCampaign, saveCampaignInputs } from '../services/projections';
+import { currencySymbol, formatMoney } from '../services/marketplaces';
+import { getLanguage, getTranslator, MessageKey } from '../services/messages';
+import { Calculator } from 'lucide-react';
+
+interface ProfitCalculatorProps {
+  projections: AnalysisReport['commercialProjections'];
+  variantProjections?: AnalysisReport['variantProjections'];
+  marketplace: Marketplace;
+  language: Language;
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-pink-500';
+
+// Money fields get the marketplace's currency symbol in their label
+const INPUT_FIELDS: { key: keyof CampaignInputs; label: MessageKey; step: number; money?: boolean }[] = [
+  { key: 'cpc', label: 'profit.input.cpc', step: 0.05, money: true },
+  { key: 'ctr', label: 'profit.input.ctr', step: 0.05 },
+  { key: 'conversionRate', label: 'profit.input.conversionRate', step: 0.5 },
+  { key: 'aov', label: 'profit.input.aov', step: 1, money: true },
+  { key: 'dailyBudget', label: 'profit.input.dailyBudget', step: 5, money: true },
+];
+
+const count = (value: number, locale: string) => value.toLocaleString(locale, { maximumFractionDigits: 1 });
+const percent = (value: number | null, locale: string) =>
+  (value === null ? '—' : (value / 100).toLocaleString(locale, { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1 }));
+const ratio = (value: number | null, locale: string) =>
+  (value === null ? '—' : `${value.toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}x`);
+
+type Money = (value: number) => string;
+
+const OUTCOME_ROWS: { label: MessageKey; format: (o: CampaignOutcome, money: Money, locale: string) => string }[] = [
+  { label: 'profit.row.clicks', format: (o, _, locale) => count(o.clicks, locale) },
+  { label: 'profit.row.orders', format: (o, _, locale) => count(o.orders, locale) },
+  { label: 'profit.row.spend', format: (o, money) => money(o.spend) },
+  { label: 'profit.row.revenue', format: (o, money) => money(o.revenue) },
+  { label: 'profit.row.acos', format: (o, _, locale) => percent(o.acos, locale) },
+  { label: 'profit.row.roas', format: (o, _, locale) => ratio(o.roas, locale) },
+];
+
+export const ProfitCalculator: React.FC<ProfitCalculatorProps> = ({ projections, variantProjections, marketplace, language }) => {
+  const t = getTranslator(language);
+  const { locale } = getLanguage(language);
+  const [inputs, setInputs] = useState<CampaignInputs>(() => getCampaignInputs(marketplace));
+  const money: Money = (value) => formatMoney(value, marketplace);
+  const signedMoney: Money = (value) => `${value >= 0 ? '+' : '−'}${money(Math.abs(value))}`;
+
+  const updateInput = (key: keyof CampaignInputs, value: string) => {
+    const next = { ...inputs, [key]: Math.max(0, Number(value) || 0) };
+    setInputs(next);
+    saveCampaignInputs(next, marketplace);
+  };
+
+  const { ctrLift, conversionLift } = projections;
+  const hasLift = Boolean(ctrLift || conversionLift);
+  const campaign = projectCampaign(inputs, ctrLift, conversionLift);
+  const variants = variantProjections && variantProjections.length > 1 ? compareVariants(inputs, variantProjections) : [];
+  const leader = variants[0];
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-1 flex items-center gap-2">
+        <Calculator className="w-4 h-4 text-green-500" /> {t('profit.title')}
+      </h3>
+      <p className="text-xs text-gray-500 mb-4">{t('profit.intro')}</p>
+
+      <div className="grid grid-cols-5 gap-2 mb-5">
+        {INPUT_FIELDS.map((field) => (
+          <label key={field.key} className="text-[10px] text-gray-400 uppercase tracking-wide space-y-1">
+            <span className="block truncate">{field.money ? `${t(field.label)} (${currencySymbol(marketplace)})` : t(field.label)}</span>
+            <input
+              type="number" min={0} step={field.step} value={inputs[field.key]}
+              onChange={(e) => updateInput(field.key, e.target.value)}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      {!hasLift ? (
+        <p className="text-xs text-gray-500">{t('profit.noLift')}</p>
+      ) : (
+        <>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 uppercase tracking-wide text-[10px]">
+                <th className="text-left font-medium pb-2">{t('profit.column.daily')}</th>
+                <th className="text-right font-medium pb-2">{t('profit.column.baseline')}</th>
+                <th className="text-right font-medium pb-2">{t('profit.column.projected')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {OUTCOME_ROWS.map((row) => (
+                <tr key={row.label} className="border-t border-gray-700/50">
+                  <td className="py-1.5 text-gray-400">{t(row.label)}</td>
+                  <td className="py-1.5 text-right font-mono text-gray-300">{row.format(campaign.baseline, money, locale)}</td>
+                  <td className="py-1.5 text-right font-mono text-white">
+                    {row.format(campaign.low, money, locale)} – {row.format(campaign.high, money, locale)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-gray-500 mt-2">
+            {ctrLift && `${t('profit.ctrRange', { range: formatRange(ctrLift, language) })} `}
+            {conversionLift && `${t('profit.conversionRange', { range: formatRange(conversionLift, language) })} `}
+            {t('profit.budgetNote', { amount: money(campaign.high.spend) })}
+          </p>
+        </>
+      )}
+
+      {leader && (
+        <div className="mt-5">
+          <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">{t('profit.variantComparison')}</h4>
+          <div className="space-y-1.5">
+            {variants.map((v) => {
+              const gap = netRevenue(v.outcome) - netRevenue(leader.outcome);
+              return (
+                <div key={v.variant} className="grid grid-cols-[4rem_1fr_5rem_8rem] items-center gap-2 text-xs">
+                  <span className="text-white font-bold">{t('image.ab', { label: v.variant })}</span>
+                  <span className="font-mono text-gray-300">{t('profit.perDay', { amount: money(v.outcome.revenue) })}</span>
+                  <span className="font-mono text-gray-400 text-right">{t('profit.acos', { value: percent(v.outcome.acos, locale) })}</span>
+                  <span className={`font-mono text-right ${v === leader ? 'text-green-300' : 'text-red-300'}`}>
+                    {v === leader ? t('profit.leader') : t('profit.perMonth', { amount: signedMoney(gap * DAYS_PER_MONTH) })}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-[10px] text-gray-500 mt-2">{t('profit.monthlyNote')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { HotspotSource, Language, SaliencyAgreement } from '../types';
+import { getTranslator } from '../services/messages';
+import { Sparkles, Cpu, Layers, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface SaliencyCrossCheckProps {
+  source: HotspotSource;
+  onSourceChange: (source: HotspotSource) => void;
+  agreement: SaliencyAgreement | null;
+  language: Language;
+}
+
+// Below this score the model and the pixels tell noticeably different stories
+const DISAGREEMENT_THRESHOLD = 60;
+
+export const SaliencyCrossCheck: React.FC<SaliencyCrossCheckProps> = ({ source, onSourceChange, agreement, language }) => {
+  const t = getTranslator(language);
+  const options: { id: HotspotSource; label: string; icon: React.ElementType }[] = [
+    { id: 'model', label: t('saliency.source.model'), icon: Sparkles },
+    { id: 'saliency', label: t('saliency.source.pixels'), icon: Cpu },
+    { id: 'blended', label: t('saliency.source.blended'), icon: Layers },
+  ];
+
+  const disagrees = agreement !== null && agreement.score < DISAGREEMENT_THRESHOLD;
+
+  return (
+    <div className="mb-4 mx-2 flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
+          {options.map((opt) => (
+            <button
+              key={opt.id}
+              onClick={() => onSourceChange(opt.id)}
+              className={`px-3 py-1 rounded-md text-xs font-medium transition-all flex items-center gap-1.5 ${source === opt.id ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              <opt.icon className="w-3.5 h-3.5" /> {opt.label}
+            </button>
+          ))}
+        </div>
+
+        {agreement ? (
+          <span className={`text-xs font-bold px-2 py-1 rounded border flex items-center gap-1 ${disagrees ? 'bg-yellow-500/10 text-yellow-300 border-yellow-500/30' : 'bg-green-500/10 text-green-300 border-green-500/30'}`}>
+            {disagrees ? <AlertTriangle className="w-3.5 h-3.5" /> : <CheckCircle2 className="w-3.5 h-3.5" />}
+            {t('saliency.agreement', { score: agreement.score })}
+          </span>
+        ) : (
+          <span className="text-xs text-gray-500">{t('saliency.computing')}</span>
+        )}
+      </div>
+
+      {agreement && (agreement.unsupported.length > 0 || agreement.missed.length > 0) && (
+        <div className="text-xs text-gray-400 bg-gray-900/80 border border-gray-700 rounded-lg p-3 space-y-1">
+          {agreement.unsupported.length > 0 && (
+            <p>
+              <span className="text-yellow-300 font-semibold">{t('saliency.aiOnly')}</span>{' '}
+              {t('saliency.aiOnlyNote', { points: agreement.unsupported.map((s) => s.label || t('hotspot.point', { id: s.id })).join(', ') })}
+            </p>
+          )}
+          {agreement.missed.length > 0 && (
+            <p>
+              <span className="text-blue-300 font-semibold">{t('saliency.pixelOnly')}</span>{' '}
+              {t(agreement.missed.length === 1 ? 'saliency.missedOne' : 'saliency.missedMany', { count: agreement.missed.length })}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
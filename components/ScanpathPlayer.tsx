@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AoiPoint, AreaOfInterest, Hotspot, Language } from '../types';
+import { buildScanpath, FIRST_IMPRESSION_MS, fixationsWithin, formatSeconds, gazeAt, PLAYBACK_SPEEDS } from '../services/scanpath';
+import { canRecordWebm, exportScanpathAnimation, ScanpathExportFormat } from '../services/dataExport';
+import { getTranslator } from '../services/messages';
+import { HeatmapOverlay } from './HeatmapOverlay';
+import { AoiDrawTool } from './AoiLayer';
+import { Play, Pause, RotateCcw, Film, Loader2 } from 'lucide-react';
+
+interface ScanpathPlayerProps {
+  imageSrc: string;
+  imageLabel: string;
+  hotspots: Hotspot[];
+  aois?: AreaOfInterest[];
+  aoiTool?: AoiDrawTool | null;
+  onAoiDrawn?: (shape: AoiDrawTool, points: AoiPoint[]) => void;
+  language: Language;
+}
+
+export const ScanpathPlayer: React.FC<ScanpathPlayerProps> = ({ imageSrc, imageLabel, hotspots, aois, aoiTool, onAoiDrawn, language }) => {
+  const t = getTranslator(language);
+  const path = useMemo(() => buildScanpath(hotspots), [hotspots]);
+  // Starts on the finished path so the view matches the static sequence until played
+  const [time, setTime] = useState(path.duration);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [exporting, setExporting] = useState<ScanpathExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPlaying(false);
+    setTime(path.duration);
+  }, [path]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const step = (now - last) * speed;
+      last = now;
+      setTime((prev) => Math.min(path.duration, prev + step));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, path]);
+
+  useEffect(() => {
+    if (playing && time >= path.duration) setPlaying(false);
+  }, [playing, time, path]);
+
+  const togglePlay = () => {
+    if (!playing && time >= path.duration) setTime(0);
+    setPlaying(!playing);
+  };
+
+  const handleExport = async (format: ScanpathExportFormat) => {
+    setExporting(format);
+    setExportError(null);
+    try {
+      await exportScanpathAnimation({ imageSrc, imageLabel, hotspots }, format, speed);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : t('scanpath.exportFailed'));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const gaze = gazeAt(path, time);
+  const current = gaze ? path.fixations[gaze.fixationIndex] : undefined;
+  const total = Math.max(path.duration, 1);
+  const firstImpression = fixationsWithin(path, FIRST_IMPRESSION_MS);
+  const buttonClass = 'px-2 py-1 rounded text-xs font-medium transition-all flex items-center gap-1.5 disabled:opacity-50';
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="flex-1 min-h-0">
+        <HeatmapOverlay imageSrc={imageSrc} hotspots={hotspots} mode="path" playhead={time} aois={aois} aoiTool={aoiTool} onAoiDrawn={onAoiDrawn} language={language} />
+      </div>
+
+      <div className="bg-gray-900/90 border-t border-gray-700 px-4 py-3 space-y-2">
+        <div className="flex items-center gap-3">
+          <button onClick={togglePlay} className="p-1.5 rounded-full bg-pink-600 hover:bg-pink-500 text-white" title={playing ? t('scanpath.pause') : t('scanpath.play')}>
+            {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button onClick={() => { setPlaying(false); setTime(0); }} className="p-1.5 rounded-full text-gray-400 hover:text-white" title={t('scanpath.restart')}>
+            <RotateCcw className="w-4 h-4" />
+          </button>
+
+          <div className="relative flex-1">
+            <input
+              type="range" min={0} max={total} step={10} value={Math.min(time, total)}
+              onChange={(e) => { setPlaying(false); setTime(Number(e.target.value)); }}
+              className="w-full accent-pink-500"
+            />
+            {path.duration > FIRST_IMPRESSION_MS && (
+              <div
+                className="absolute -top-3 bottom-0 w-px bg-yellow-400 pointer-events-none"
+                style={{ left: `${(FIRST_IMPRESSION_MS / total) * 100}%` }}
+              >
+                <span className="absolute -top-1 left-1 text-[9px] font-bold text-yellow-400">3s</span>
+              </div>
+            )}
+          </div>
+
+          <span className="text-xs font-mono text-gray-300 w-20 text-right">
+            {formatSeconds(time)} / {formatSeconds(path.duration)}
+          </span>
+
+          <div className="flex bg-gray-800 rounded p-0.5 border border-gray-700">
+            {PLAYBACK_SPEEDS.map((s) => (
+              <button
+                key={s}
+                onClick={() => setSpeed(s)}
+                className={`${buttonClass} ${speed === s ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {s}×
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-gray-400">
+            {current && (
+              <>
+                {t('scanpath.fixation')} <span className="text-white font-medium">{current.hotspot.id}</span>
+                {current.hotspot.label && <> · {current.hotspot.label}</>}
+                {' · '}{current.end - current.start} ms
+              </>
+            )}
+            <span className="text-gray-500">
+              {' '}{t('scanpath.firstImpression', { count: firstImpression, total: path.fixations.length })}
+            </span>
+          </span>
+          <div className="flex items-center gap-1">
+            {(['gif', 'webm'] as const).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={exporting !== null || (format === 'webm' && !canRecordWebm())}
+                className={`${buttonClass} text-gray-300 bg-gray-800 border border-gray-700 hover:text-white`}
+                title={format === 'webm' && !canRecordWebm() ? t('scanpath.noWebm') : t('scanpath.download', { format: format.toUpperCase() })}
+              >
+                {exporting === format ? <Loader2 className="w-3 h-3 animate-spin" /> : <Film className="w-3 h-3" />} {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+        {exportError && <p className="text-xs text-red-300">{exportError}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useRef, useState } from 'react';
+import { Language, SearchGridConfig, SearchGridLayout, SearchGridTile } from '../types';
+import { MAX_GRID_TILES, createGridTile } from '../services/searchGrid';
+import { getTranslator, MessageKey } from '../services/messages';
+import { Monitor, Smartphone, Plus, Trash2, ImagePlus, Crown, Grid3x3 } from 'lucide-react';
+
+interface SearchGridComposerProps {
+  config: SearchGridConfig;
+  onChange: (config: SearchGridConfig) => void;
+  onCompose: () => Promise<void>;
+  error: string | null;
+  language: Language;
+}
+
+const LAYOUTS: { id: SearchGridLayout; label: MessageKey; icon: typeof Monitor }[] = [
+  { id: 'desktop', label: 'grid.layout.desktop', icon: Monitor },
+  { id: 'mobile', label: 'grid.layout.mobile', icon: Smartphone },
+];
+
+const inputClass = 'bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-pink-500';
+
+export const SearchGridComposer: React.FC<SearchGridComposerProps> = ({ config, onChange, onCompose, error, language }) => {
+  const t = getTranslator(language);
+  const [composing, setComposing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pendingTile = useRef<string | null>(null);
+
+  const updateTile = (id: string, patch: Partial<SearchGridTile>) =>
+    onChange({ ...config, tiles: config.tiles.map((tile) => (tile.id === id ? { ...tile, ...patch } : tile)) });
+
+  const removeTile = (id: string) => {
+    const tiles = config.tiles.filter((tile) => tile.id !== id);
+    // Our tile cannot disappear; the first remaining tile takes over
+    onChange({ ...config, tiles, ourTileId: id === config.ourTileId ? tiles[0].id : config.ourTileId });
+  };
+
+  const pickImage = (id: string) => {
+    pendingTile.current = id;
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    const id = pendingTile.current;
+    if (!file || !id) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => updateTile(id, { imageSrc: ev.target?.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const handleCompose = async () => {
+    setComposing(true);
+    try {
+      await onCompose();
+    } finally {
+      setComposing(false);
+    }
+  };
+
+  const ourTile = config.tiles.find((tile) => tile.id === config.ourTileId);
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex bg-gray-900 rounded-lg p-0.5 border border-gray-700">
+          {LAYOUTS.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => onChange({ ...config, layout: id })}
+              className={`px-2 py-1 rounded-md text-xs font-medium flex items-center gap-1 ${config.layout === id ? 'bg-pink-600 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              <Icon className="w-3.5 h-3.5" /> {t(label)}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onChange({ ...config, tiles: [...config.tiles, createGridTile({ title: t('grid.competitor', { n: config.tiles.length }) })] })}
+          disabled={config.tiles.length >= MAX_GRID_TILES}
+          className="text-xs flex items-center gap-1 text-pink-300 hover:text-pink-200 disabled:text-gray-600"
+        >
+          <Plus className="w-3.5 h-3.5" /> {t('grid.addTile')}
+        </button>
+      </div>
+
+      <div className="space-y-2 max-h-[420px] overflow-y-auto pr-1">
+        {config.tiles.map((tile, idx) => {
+          const isOurs = tile.id === config.ourTileId;
+          return (
+            <div key={tile.id} className={`flex gap-3 p-2 rounded-lg border ${isOurs ? 'border-pink-500 bg-pink-900/10' : 'border-gray-700 bg-gray-900/50'}`}>
+              <button
+                onClick={() => pickImage(tile.id)}
+                className="w-16 h-16 flex-shrink-0 rounded bg-gray-800 border border-gray-700 hover:border-gray-500 flex items-center justify-center overflow-hidden"
+                title={t('grid.chooseImage')}
+              >
+                {tile.imageSrc
+                  ? <img src={tile.imageSrc} alt={t('grid.tile', { n: idx + 1 })} className="w-full h-full object-contain bg-white" />
+                  : <ImagePlus className="w-5 h-5 text-gray-500" />}
+              </button>
+              <div className="flex-1 min-w-0 space-y-1">
+                <input value={tile.title} onChange={(e) => updateTile(tile.id, { title: e.target.value })} placeholder={t('grid.productTitle')} className={`${inputClass} w-full`} />
+                <div className="flex items-center gap-1">
+                  <input value={tile.price} onChange={(e) => updateTile(tile.id, { price: e.target.value })} placeholder="$0.00" className={`${inputClass} w-16`} />
+                  <input
+                    type="number" min={0} max={5} step={0.1} value={tile.rating}
+                    onChange={(e) => updateTile(tile.id, { rating: Math.max(0, Math.min(5, Number(e.target.value))) })}
+                    className={`${inputClass} w-14`} title={t('grid.rating')}
+                  />
+                  <input
+                    type="number" min={0} value={tile.reviewCount}
+                    onChange={(e) => updateTile(tile.id, { reviewCount: Math.max(0, Math.round(Number(e.target.value))) })}
+                    className={`${inputClass} w-20`} title={t('grid.reviewCount')}
+                  />
+                </div>
+                <div className="flex items-center gap-3 text-[11px] text-gray-300">
+                  <label className="flex items-center gap-1 cursor-pointer">
+                    <input type="checkbox" checked={tile.prime} onChange={(e) => updateTile(tile.id, { prime: e.target.checked })} className="accent-pink-500" /> {t('grid.prime')}
+                  </label>
+                  <label className="flex items-center gap-1 cursor-pointer">
+                    <input type="checkbox" checked={tile.sponsored} onChange={(e) => updateTile(tile.id, { sponsored: e.target.checked })} className="accent-pink-500" /> {t('grid.sponsored')}
+                  </label>
+                  <label className={`flex items-center gap-1 cursor-pointer ${isOurs ? 'text-pink-300 font-semibold' : ''}`}>
+                    <input type="radio" name="our-tile" checked={isOurs} onChange={() => onChange({ ...config, ourTileId: tile.id })} className="accent-pink-500" />
+                    <Crown className="w-3 h-3" /> {t('grid.ours')}
+                  </label>
+                  <button
+                    onClick={() => removeTile(tile.id)}
+                    disabled={config.tiles.length <= 2}
+                    className="ml-auto text-gray-500 hover:text-red-400 disabled:text-gray-700"
+                    aria-label={t('grid.removeTile', { n: idx + 1 })}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleFileChange} />
+
+      {error && <p className="text-xs text-red-300 mt-2">{error}</p>}
+      <button
+        onClick={handleCompose}
+        disabled={composing || !ourTile?.imageSrc}
+        className="mt-3 w-full text-sm font-medium py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white disabled:bg-gray-800 disabled:text-gray-500 flex items-center justify-center gap-2"
+      >
+        <Grid3x3 className="w-4 h-4" /> {composing ? t('grid.building') : ourTile?.imageSrc ? t('upload.buildGrid') : t('grid.addImage')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HeatmapSettings, Hotspot, Language, VisualizationMode } from '../types';
+import { getTranslator } from '../services/messages';
+import { HeatmapOverlay } from './HeatmapOverlay';
+import { ZoomIn, ZoomOut, Maximize } from 'lucide-react';
+
+interface SideBySidePane {
+  label: string;
+  imageSrc: string;
+  hotspots: Hotspot[];
+}
+
+interface SideBySideViewProps {
+  panes: SideBySidePane[];
+  mode: VisualizationMode;
+  heatmapSettings: HeatmapSettings;
+  language: Language;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 6;
+
+interface ViewTransform {
+  scale: number;
+  x: number; // px
+  y: number; // px
+}
+
+const IDENTITY: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+export const SideBySideView: React.FC<SideBySideViewProps> = ({ panes, mode, heatmapSettings, language }) => {
+  const t = getTranslator(language);
+  // One transform drives every pane, so zooming or panning either side moves both
+  const [view, setView] = useState<ViewTransform>(IDENTITY);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; originX: number; originY: number } | null>(null);
+
+  const zoomBy = (factor: number) =>
+    setView((prev) => {
+      const scale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev.scale * factor));
+      // Keep the pan proportional so the same region stays centred
+      const ratio = scale / prev.scale;
+      return scale === MIN_ZOOM ? IDENTITY : { scale, x: prev.x * ratio, y: prev.y * ratio };
+    });
+
+  // React registers wheel listeners as passive, which would let the page scroll while zooming
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomBy(e.deltaY < 0 ? 1.15 : 1 / 1.15);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (view.scale === 1) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, startY: e.clientY, originX: view.x, originY: view.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setView((prev) => ({ ...prev, x: drag.originX + e.clientX - drag.startX, y: drag.originY + e.clientY - drag.startY }));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="flex items-center justify-end gap-1 p-2">
+        <span className="text-xs text-gray-500 mr-2">{Math.round(view.scale * 100)}%</span>
+        <button onClick={() => zoomBy(1.25)} className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-gray-700" title={t('zoom.in')}>
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button onClick={() => zoomBy(0.8)} className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-gray-700" title={t('zoom.out')}>
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button onClick={() => setView(IDENTITY)} className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-gray-700" title={t('zoom.reset')}>
+          <Maximize className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div
+        ref={containerRef}
+        className={`flex-1 grid gap-2 min-h-0 ${view.scale > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+        style={{ gridTemplateColumns: `repeat(${panes.length}, minmax(0, 1fr))` }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        {panes.map((pane) => (
+          <div key={pane.label} className="relative overflow-hidden rounded-lg border border-gray-700/50 bg-black/30">
+            <span className="absolute top-2 left-2 z-30 text-[10px] font-bold uppercase tracking-wide bg-gray-900/80 text-gray-200 px-2 py-0.5 rounded">
+              {pane.label}
+            </span>
+            <div
+              className="w-full h-full"
+              style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`, transformOrigin: 'center' }}
+            >
+              <HeatmapOverlay imageSrc={pane.imageSrc} hotspots={pane.hotspots} mode={mode} heatmapSettings={heatmapSettings} language={language} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
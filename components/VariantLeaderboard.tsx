@@ -0,0 +1,114 @@
+import React from 'react';
+import { Language, PairwiseComparison, VariantStanding } from '../types';
+import { getTranslator } from '../services/messages';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Trophy, CheckCircle2, Swords } from 'lucide-react';
+
+interface VariantLeaderboardProps {
+  leaderboard: VariantStanding[];
+  pairwise?: PairwiseComparison[];
+  language: Language;
+}
+
+const VARIANT_COLORS = ['#ec4899', '#8b5cf6', '#10b981', '#f59e0b', '#3b82f6', '#ef4444'];
+
+const colorFor = (variant: string) => VARIANT_COLORS[(variant.charCodeAt(0) - 65) % VARIANT_COLORS.length];
+
+export const VariantLeaderboard: React.FC<VariantLeaderboardProps> = ({ leaderboard, pairwise, language }) => {
+  const t = getTranslator(language);
+  const ranked = [...leaderboard].sort((a, b) => a.rank - b.rank);
+  const byVariant = [...leaderboard].sort((a, b) => a.variant.localeCompare(b.variant));
+  const metrics = Array.from(new Set<string>(leaderboard.flatMap((s) => s.metricScores.map((m) => m.metric))));
+
+  // One row per metric, one bar per variant
+  const metricData = metrics.map((metric) => {
+    const row: Record<string, string | number> = { metric };
+    byVariant.forEach((s) => {
+      row[s.variant] = s.metricScores.find((m) => m.metric === metric)?.score ?? 0;
+    });
+    return row;
+  });
+
+  return (
+    <>
+      {/* Ranked Leaderboard */}
+      <div className="bg-gradient-to-r from-purple-900/40 to-pink-900/40 rounded-xl p-6 border border-purple-500/50 shadow-lg">
+        <h2 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+          <Trophy className="w-5 h-5 text-yellow-400" />
+          {t('export.leaderboard')}
+        </h2>
+        <div className="space-y-3">
+          {ranked.map((s) => (
+            <div key={s.variant} className="flex items-start gap-3">
+              <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm ${s.rank === 1 ? 'bg-yellow-400 text-gray-900' : 'bg-gray-800 text-gray-300 border border-gray-700'}`}>
+                {s.rank}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-bold text-white">{t('image.variant', { label: s.variant })}</span>
+                  <span className="text-xs font-bold text-purple-300">{s.overallScore}/100</span>
+                </div>
+                <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden mb-1">
+                  <div className="h-full rounded-full" style={{ width: `${s.overallScore}%`, backgroundColor: colorFor(s.variant) }} />
+                </div>
+                <p className="text-xs text-gray-400">{s.verdict}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Per-Metric Scores */}
+      {metrics.length > 0 && (
+        <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+          <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+            <CheckCircle2 className="w-4 h-4 text-pink-500" /> {t('leaderboard.perMetric')}
+          </h3>
+          <div className="w-full" style={{ height: Math.max(180, metrics.length * byVariant.length * 14 + 60) }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={metricData} layout="vertical" margin={{ top: 5, right: 30, left: 40, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" horizontal={false} />
+                <XAxis type="number" domain={[0, 100]} hide />
+                <YAxis dataKey="metric" type="category" width={80} tick={{ fill: '#9ca3af', fontSize: 11 }} />
+                <Tooltip
+                  cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                  contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#fff' }}
+                />
+                <Legend iconSize={8} wrapperStyle={{ fontSize: '12px', color: '#9ca3af' }} />
+                {byVariant.map((s) => (
+                  <Bar key={s.variant} dataKey={s.variant} name={t('image.variant', { label: s.variant })} fill={colorFor(s.variant)} radius={[0, 4, 4, 0]} barSize={8} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {/* Pairwise Comparisons */}
+      {pairwise && pairwise.length > 0 && (
+        <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+          <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+            <Swords className="w-4 h-4 text-purple-400" /> {t('export.pairwise')}
+          </h3>
+          <div className="space-y-2">
+            {pairwise.map((p, idx) => (
+              <div key={idx} className="p-3 rounded-lg bg-gray-900/50 border border-gray-700/50">
+                <div className="flex items-center justify-between mb-1 text-sm">
+                  <span className="text-white font-medium">
+                    <span className={p.winner === p.variantA ? 'text-yellow-300' : ''}>{p.variantA}</span>
+                    <span className="text-gray-500 mx-2">{t('leaderboard.versus')}</span>
+                    <span className={p.winner === p.variantB ? 'text-yellow-300' : ''}>{p.variantB}</span>
+                  </span>
+                  <span className="text-[10px] font-bold text-purple-300 bg-purple-500/10 px-2 py-0.5 rounded uppercase">
+                    {p.winner === 'Tie' ? t('export.tie') : t('export.pairWins', { winner: p.winner })} · {p.confidenceScore}%
+                  </span>
+                </div>
+                <p className="text-xs text-gray-400">{p.keyDifferentiator}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Language } from '../types';
+import { getTranslator } from '../services/messages';
+import { ArrowRightLeft } from 'lucide-react';
+
+interface VariantSwitcherProps {
+  labels: string[];
+  activeIndex: number;
+  onChange: (index: number) => void;
+  ranks?: (number | undefined)[]; // Leaderboard position per variant, if known
+  language: Language;
+}
+
+// Image A keeps the pink accent used throughout the app; every other variant is purple
+const activeClass = (index: number) =>
+  index === 0 ? 'bg-pink-600 border-pink-500 text-white' : 'bg-purple-600 border-purple-500 text-white';
+
+export const VariantSwitcher: React.FC<VariantSwitcherProps> = ({ labels, activeIndex, onChange, ranks, language }) => {
+  const t = getTranslator(language);
+  // Two variants keep the familiar A <-> B toggle
+  if (labels.length === 2) {
+    return (
+      <div className="mb-4 flex items-center justify-center gap-4">
+        {labels.map((label, idx) => (
+          <React.Fragment key={label}>
+            {idx === 1 && <ArrowRightLeft className="w-4 h-4 text-gray-500" />}
+            <button
+              onClick={() => onChange(idx)}
+              className={`flex-1 py-2 rounded-lg border text-sm font-bold transition-all ${activeIndex === idx ? activeClass(idx) : 'bg-gray-700 border-gray-600 text-gray-400 hover:bg-gray-600'}`}
+            >
+              {label}
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 grid grid-cols-3 xl:grid-cols-6 gap-2">
+      {labels.map((label, idx) => (
+        <button
+          key={label}
+          onClick={() => onChange(idx)}
+          className={`py-2 px-2 rounded-lg border text-xs font-bold transition-all flex items-center justify-center gap-1.5 ${activeIndex === idx ? activeClass(idx) : 'bg-gray-700 border-gray-600 text-gray-400 hover:bg-gray-600'}`}
+        >
+          {label}
+          {ranks?.[idx] !== undefined && (
+            <span
+              className={`text-[10px] px-1.5 py-0.5 rounded ${ranks[idx] === 1 ? 'bg-yellow-400 text-gray-900' : 'bg-gray-900/60 text-gray-300'}`}
+              title={t('switcher.rank', { rank: ranks[idx] })}
+            >
+              #{ranks[idx]}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
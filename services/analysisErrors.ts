@@ -0,0 +1,116 @@
+import { AnalysisErrorKind, RecoveryAction } from "../types";
+import { getTranslator, MessageKey } from "./messages";
+
+export interface ErrorGuidance {
+  titleKey: MessageKey;
+  messageKey: MessageKey;
+  actions: RecoveryAction[]; // Most useful first
+}
+
+/** Catalog text for an error, so it can be shown in the interface language. */
+export interface ErrorText {
+  key: MessageKey;
+  params?: Record<string, string | number>;
+}
+
+export const ERROR_GUIDANCE: Record<AnalysisErrorKind, ErrorGuidance> = {
+  apiKey: {
+    titleKey: "error.apiKey.title",
+    messageKey: "error.apiKey.message",
+    actions: ["switchProvider", "retry"],
+  },
+  quota: {
+    titleKey: "error.quota.title",
+    messageKey: "error.quota.message",
+    actions: ["retryWithBackoff", "switchProvider"],
+  },
+  safety: {
+    titleKey: "error.safety.title",
+    messageKey: "error.safety.message",
+    actions: ["retry", "switchProvider"],
+  },
+  imageTooLarge: {
+    titleKey: "error.imageTooLarge.title",
+    messageKey: "error.imageTooLarge.message",
+    actions: ["downscale"],
+  },
+  unsupportedImage: {
+    titleKey: "error.unsupportedImage.title",
+    messageKey: "error.unsupportedImage.message",
+    actions: ["downscale", "switchProvider"],
+  },
+  malformedJson: {
+    titleKey: "error.malformedJson.title",
+    messageKey: "error.malformedJson.message",
+    actions: ["retry", "switchProvider"],
+  },
+  incompleteSchema: {
+    titleKey: "error.incompleteSchema.title",
+    messageKey: "error.incompleteSchema.message",
+    actions: ["retry", "switchProvider"],
+  },
+  offline: {
+    titleKey: "error.offline.title",
+    messageKey: "error.offline.message",
+    actions: ["retry", "switchProvider"],
+  },
+  unknown: {
+    titleKey: "error.unknown.title",
+    messageKey: "error.unknown.message",
+    actions: ["retry", "switchProvider"],
+  },
+};
+
+/**
+ * A failed analysis with a known cause. `text` is what the user sees (`message`
+ * holds it in English); `detail` keeps the provider's own wording for the details section.
+ */
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly detail?: string;
+  readonly text: ErrorText;
+
+  constructor(kind: AnalysisErrorKind, text: ErrorText = { key: ERROR_GUIDANCE[kind].messageKey }, options: { detail?: string; cause?: unknown } = {}) {
+    super(getTranslator("en")(text.key, text.params), { cause: options.cause });
+    this.name = "AnalysisError";
+    this.kind = kind;
+    this.text = text;
+    this.detail = options.detail;
+  }
+}
+
+const errorStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+};
+
+/**
+ * Typed errors are judged by their kind, never by their (localizable) message. The SDK surfaces
+ * quota problems as plain errors, where the status text is the only reliable signal.
+ */
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof AnalysisError
+    ? error.kind === "quota"
+    : /\b429\b|quota|rate.?limit|resource.?exhausted|too many requests/i.test(error instanceof Error ? error.message : String(error));
+
+const isOffline = () => typeof navigator !== "undefined" && navigator.onLine === false;
+
+const detectKind = (error: unknown, message: string): AnalysisErrorKind => {
+  const status = errorStatus(error);
+  // Browsers word it per engine; Node says "fetch failed" and keeps the DNS or socket error as the cause
+  if (isOffline() || /failed to fetch|fetch failed|networkerror|network request failed|load failed|err_internet_disconnected/i.test(message)) return "offline";
+  if (status === 429 || isQuotaError(error)) return "quota";
+  if (status === 401 || status === 403 || /api.?key|permission.?denied|unauthenticated/i.test(message)) return "apiKey";
+  if (status === 413 || /payload|too large|request entity|exceeds the maximum/i.test(message)) return "imageTooLarge";
+  if (/unsupported (mime|image)|mime.?type|unable to process input image/i.test(message)) return "unsupportedImage";
+  if (/safety|prohibited|blocklist|blocked/i.test(message)) return "safety";
+  if (error instanceof SyntaxError) return "malformedJson";
+  return "unknown";
+};
+
+/** Maps any error thrown during an analysis onto an AnalysisError; typed errors pass through unchanged. */
+export const classifyError = (error: unknown): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new AnalysisError(detectKind(error, message), undefined, { detail: message, cause: error });
+};
@@ -0,0 +1,15 @@
+import { AnalysisProvider } from "../types";
+import { geminiProvider, isGeminiConfigured } from "./geminiService";
+import { fixtureProvider } from "./fixtureProvider";
+
+export const analysisProviders: AnalysisProvider[] = [geminiProvider, fixtureProvider];
+
+export const getAnalysisProvider = (id: string): AnalysisProvider =>
+  analysisProviders.find((p) => p.id === id) ?? fixtureProvider;
+
+// ANALYSIS_PROVIDER wins when set; otherwise fall back to fixtures when no key is available.
+export const getDefaultProviderId = (): string => {
+  const configured = process.env.ANALYSIS_PROVIDER;
+  if (configured && analysisProviders.some((p) => p.id === configured)) return configured;
+  return isGeminiConfigured() ? geminiProvider.id : fixtureProvider.id;
+};
@@ -0,0 +1,91 @@
+import { AnalysisContext, AnalysisProvider, AnalysisResult, ComposedSearchGrid, ContextProfile, Language, ListingMetadata, MarketplaceId } from "../types";
+import { analyzeMainImageCompliance } from "./complianceChecker";
+import { EVIDENCE_VIEWPORTS } from "./deviceSimulation";
+import { runEnsemble } from "./ensemble";
+import { saveAnalysis, toStoredImages } from "./historyService";
+import { computeCacheKey, getCachedResult, putCachedResult } from "./resultCache";
+
+export interface AnalysisSlot {
+  file: File;
+  preview: string; // Data URL
+}
+
+export interface RunAnalysisOptions {
+  includeDeviceRenders: boolean;
+  searchGrid?: ComposedSearchGrid;
+  profile?: ContextProfile;
+  listing?: ListingMetadata;
+  marketplace?: MarketplaceId;
+  language?: Language; // Report language; defaults to English
+  ensembleRuns?: number; // More than 1 combines that many provider calls
+  forceRerun?: boolean; // Skip the result cache and overwrite its entry
+  signal?: AbortSignal;
+  onPartial?: (partial: AnalysisResult) => void; // Only for single runs; ensembles report per run instead
+  onRunComplete?: (completed: number, total: number) => void;
+}
+
+/**
+ * One analysis as the app runs it: local measurements first, then the provider
+ * call unless the same inputs are already in the result cache. Measurements are
+ * attached to the result so they are stored with it.
+ */
+export const runAnalysis = async (
+  provider: AnalysisProvider,
+  context: AnalysisContext,
+  slots: AnalysisSlot[],
+  options: RunAnalysisOptions
+): Promise<AnalysisResult> => {
+  // A failed measurement only loses the checklist, never the analysis
+  const compliance = context === AnalysisContext.HERO && slots[0]?.preview
+    ? await analyzeMainImageCompliance(slots[0].preview).catch(() => undefined)
+    : undefined;
+  const searchGrid = context === AnalysisContext.SEARCH ? options.searchGrid : undefined;
+
+  const files = slots.map((slot) => slot.file);
+  const analyzeOptions = {
+    viewports: options.includeDeviceRenders ? EVIDENCE_VIEWPORTS : [],
+    compliance,
+    searchGrid,
+    profile: options.profile,
+    listing: options.listing,
+    marketplace: options.marketplace,
+    language: options.language,
+  };
+  // What the result needs to be read again later, e.g. from history
+  const inputs = { compliance, searchGrid, listing: options.listing, marketplace: options.marketplace, language: options.language };
+  const runs = options.ensembleRuns ?? 1;
+
+  // The cache only saves money; when IndexedDB is unavailable the analysis still runs
+  const cacheKey = await computeCacheKey({ provider, context, files, options: analyzeOptions, ensembleRuns: runs }).catch(() => null);
+  const cached = cacheKey && !options.forceRerun ? await getCachedResult(cacheKey, provider).catch(() => undefined) : undefined;
+  if (cached) {
+    return { ...cached.result, ...inputs, cachedAt: cached.createdAt };
+  }
+
+  // Kept out of analyzeOptions, which is hashed into the cache key
+  const { signal } = options;
+  const onPartial = runs > 1 || !options.onPartial
+    ? undefined
+    : (partial: AnalysisResult) => options.onPartial!({ ...partial, ...inputs });
+  const analyze = () => provider.analyze(files, context, { ...analyzeOptions, signal, onPartial });
+  const result = runs > 1 ? await runEnsemble(runs, analyze, options.onRunComplete, signal) : await analyze();
+  if (cacheKey) {
+    putCachedResult(cacheKey, provider, result).catch((err) => console.error("Could not cache analysis result", err));
+  }
+  return { ...result, ...inputs };
+};
+
+// Persist locally; a failed save must not block the report
+export const saveToHistory = (provider: AnalysisProvider, profile: ContextProfile, files: File[], result: AnalysisResult): void => {
+  saveAnalysis({
+    context: profile.base,
+    profile,
+    result,
+    images: toStoredImages(files),
+    providerId: provider.id,
+    model: provider.model,
+    promptVersion: provider.promptVersion,
+    productName: result.listing?.title || undefined,
+    tags: [],
+  }).catch((err) => console.error("Could not save analysis to history", err));
+};
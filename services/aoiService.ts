@@ -0,0 +1,117 @@
+import { AoiMetrics, AoiPoint, AoiTemplate, AreaOfInterest, Hotspot } from "../types";
+import { createId } from "./ids";
+import { MessageKey } from "./messages";
+import { buildScanpath } from "./scanpath";
+
+// Regions most listings want to measure; offered as one-click names when drawing
+export const AOI_PRESETS: MessageKey[] = ["aoi.preset.logo", "aoi.preset.priceBadge", "aoi.preset.product", "aoi.preset.claim"];
+
+const TEMPLATE_STORAGE_KEY = "amazon-heatmap-studio.aoi-templates";
+
+// Cool tones so AOI outlines stay readable on top of the red/yellow heatmap
+const AOI_COLORS = ["#22d3ee", "#a3e635", "#60a5fa", "#f0abfc", "#fbbf24", "#34d399"];
+
+export const aoiColor = (index: number): string => AOI_COLORS[index % AOI_COLORS.length];
+
+export const createAoi = (name: string, shape: AreaOfInterest["shape"], points: AoiPoint[]): AreaOfInterest => ({
+  id: createId(),
+  name,
+  shape,
+  points,
+});
+
+export const rectFromCorners = (a: AoiPoint, b: AoiPoint): AoiPoint[] => {
+  const left = Math.min(a.x, b.x);
+  const right = Math.max(a.x, b.x);
+  const top = Math.min(a.y, b.y);
+  const bottom = Math.max(a.y, b.y);
+  return [
+    { x: left, y: top },
+    { x: right, y: top },
+    { x: right, y: bottom },
+    { x: left, y: bottom },
+  ];
+};
+
+// Ray casting; points exactly on an edge may fall either way, which is fine at percentage precision
+export const isPointInAoi = (point: AoiPoint, aoi: AreaOfInterest): boolean => {
+  const pts = aoi.points;
+  let inside = false;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const crosses = (pts[i].y > point.y) !== (pts[j].y > point.y);
+    if (crosses && point.x < ((pts[j].x - pts[i].x) * (point.y - pts[i].y)) / (pts[j].y - pts[i].y) + pts[i].x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Measures each AOI against the hotspot sequence. Hotspots are treated as
+ * fixations ordered by id; a fixation belongs to every AOI containing its
+ * centre, so overlapping AOIs can add up to more than 100%. Time to first
+ * fixation comes from the same timeline the scanpath player shows.
+ */
+export const computeAoiMetrics = (aois: AreaOfInterest[], hotspots: Hotspot[]): AoiMetrics[] => {
+  const timeline = buildScanpath(hotspots).fixations;
+  const fixations = timeline.map((f) => f.hotspot);
+  const totalIntensity = fixations.reduce((sum, h) => sum + h.intensity, 0);
+
+  return aois.map((aoi) => {
+    let intensity = 0;
+    let fixationCount = 0;
+    let firstFixation: number | null = null;
+
+    for (const [idx, h] of fixations.entries()) {
+      if (!isPointInAoi(h, aoi)) continue;
+      intensity += h.intensity;
+      fixationCount += 1;
+      if (firstFixation === null) firstFixation = idx + 1;
+    }
+
+    return {
+      aoiId: aoi.id,
+      name: aoi.name,
+      attentionShare: totalIntensity > 0 ? Math.round((intensity / totalIntensity) * 1000) / 10 : 0,
+      fixationCount,
+      firstFixation,
+      timeToFirstFixationMs: firstFixation === null ? null : timeline[firstFixation - 1].start,
+    };
+  });
+};
+
+// -------------------------
+// Templates (localStorage)
+// -------------------------
+
+const isAoi = (value: unknown): value is AreaOfInterest => {
+  const aoi = value as AreaOfInterest;
+  return !!aoi && typeof aoi.name === "string" && Array.isArray(aoi.points) && aoi.points.length >= 3;
+};
+
+export const listAoiTemplates = (): AoiTemplate[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(TEMPLATE_STORAGE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter((t) => t && Array.isArray(t.aois)) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeTemplates = (templates: AoiTemplate[]) => {
+  localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(templates));
+};
+
+export const saveAoiTemplate = (name: string, aois: AreaOfInterest[]): AoiTemplate => {
+  const template: AoiTemplate = { id: createId(), name, createdAt: Date.now(), aois: aois.filter(isAoi) };
+  writeTemplates([template, ...listAoiTemplates()]);
+  return template;
+};
+
+export const deleteAoiTemplate = (id: string) => {
+  writeTemplates(listAoiTemplates().filter((t) => t.id !== id));
+};
+
+// Fresh ids so AOIs applied from a template can be edited without touching the template
+export const instantiateTemplate = (template: AoiTemplate): AreaOfInterest[] =>
+  template.aois.map((aoi) => createAoi(aoi.name, aoi.shape, aoi.points.map((p) => ({ ...p }))));
@@ -0,0 +1,149 @@
+import { AnalysisContext, AnalysisResult, BatchItem, BatchQueueState, BatchSettings } from "../types";
+import { createId } from "./ids";
+import { isQuotaError } from "./analysisErrors";
+
+export const DEFAULT_BATCH_SETTINGS: BatchSettings = { concurrency: 2, requestsPerMinute: 10, maxRetries: 4 };
+
+// Only single-image contexts; comparisons need their images picked together
+export const BATCH_CONTEXTS = [AnalysisContext.HERO, AnalysisContext.APLUS, AnalysisContext.SEARCH, AnalysisContext.STOREFRONT];
+
+const RATE_WINDOW_MS = 60_000;
+const BACKOFF_BASE_MS = 2_000;
+const BACKOFF_MAX_MS = 60_000;
+
+export const createBatchItem = (file: File, preview: string, context: AnalysisContext): BatchItem => ({
+  id: createId(),
+  file,
+  preview,
+  context,
+  status: "queued",
+  attempts: 0,
+});
+
+/** Exponential backoff with +/-25% jitter so parallel retries do not line up. */
+export const backoffDelay = (attempt: number, random: () => number = Math.random): number =>
+  Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1)) * (0.75 + random() * 0.5);
+
+export interface BatchQueueOptions {
+  items: BatchItem[];
+  settings: BatchSettings;
+  run: (item: BatchItem) => Promise<AnalysisResult>;
+  onChange: (items: BatchItem[], state: BatchQueueState) => void;
+}
+
+export interface BatchQueue {
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Runs items with at most `concurrency` requests in flight and at most
+ * `requestsPerMinute` started per sliding minute. Quota errors are retried
+ * with backoff; any other error fails the item. Pausing and cancelling stop
+ * new requests only: requests already in flight finish and keep their result.
+ */
+export const createBatchQueue = ({ items: initialItems, settings, run, onChange }: BatchQueueOptions): BatchQueue => {
+  let items = initialItems;
+  let state: BatchQueueState = "idle";
+  let inFlight = 0;
+  const startedAt: number[] = [];
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const emit = () => onChange(items, state);
+
+  const update = (id: string, patch: Partial<BatchItem>) => {
+    items = items.map((item) => (item.id === id ? { ...item, ...patch } : item));
+  };
+
+  // Milliseconds until the rate window allows another request
+  const rateWait = (now: number) => {
+    while (startedAt.length > 0 && now - startedAt[0] >= RATE_WINDOW_MS) startedAt.shift();
+    return startedAt.length < settings.requestsPerMinute ? 0 : RATE_WINDOW_MS - (now - startedAt[0]);
+  };
+
+  const scheduleRetry = (item: BatchItem, attempts: number, message: string) => {
+    const delay = backoffDelay(attempts);
+    update(item.id, { status: "retrying", error: message, nextRetryAt: Date.now() + delay });
+    retryTimers.set(item.id, setTimeout(() => {
+      retryTimers.delete(item.id);
+      update(item.id, { status: "queued", nextRetryAt: undefined });
+      pump();
+    }, delay));
+  };
+
+  const execute = async (item: BatchItem) => {
+    const attempts = item.attempts + 1;
+    inFlight++;
+    startedAt.push(Date.now());
+    update(item.id, { status: "running", attempts, error: undefined });
+    try {
+      const result = await run(item);
+      update(item.id, { status: "done", result, error: undefined });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (isQuotaError(error) && attempts <= settings.maxRetries && state !== "cancelled") {
+        scheduleRetry(item, attempts, message);
+      } else {
+        update(item.id, { status: "failed", error: message });
+      }
+    } finally {
+      inFlight--;
+    }
+    pump();
+  };
+
+  const pump = () => {
+    if (wakeTimer) {
+      clearTimeout(wakeTimer);
+      wakeTimer = null;
+    }
+    if (state === "running") {
+      while (inFlight < settings.concurrency) {
+        const next = items.find((item) => item.status === "queued");
+        if (!next) break;
+        const wait = rateWait(Date.now());
+        if (wait > 0) {
+          wakeTimer = setTimeout(pump, wait);
+          break;
+        }
+        void execute(next);
+      }
+      if (inFlight === 0 && retryTimers.size === 0 && !items.some((item) => item.status === "queued")) {
+        state = "finished";
+      }
+    }
+    emit();
+  };
+
+  return {
+    start: () => {
+      if (state !== "idle") return;
+      state = "running";
+      pump();
+    },
+    pause: () => {
+      if (state !== "running") return;
+      state = "paused";
+      emit();
+    },
+    resume: () => {
+      if (state !== "paused") return;
+      state = "running";
+      pump();
+    },
+    cancel: () => {
+      if (state === "finished" || state === "cancelled") return;
+      state = "cancelled";
+      if (wakeTimer) clearTimeout(wakeTimer);
+      wakeTimer = null;
+      retryTimers.forEach((timer) => clearTimeout(timer));
+      retryTimers.clear();
+      items = items.map((item) =>
+        item.status === "queued" || item.status === "retrying" ? { ...item, status: "cancelled", nextRetryAt: undefined } : item);
+      emit();
+    },
+  };
+};
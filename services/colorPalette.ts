@@ -0,0 +1,389 @@
+import {
+  AnalysisReport, ClaimedColorCheck, ColorAnalysis, ComposedSearchGrid, ContrastLevel, ContrastRegion, PaletteColor,
+  PixelBuffer, TileDistinctness,
+} from "../types";
+import { MessageKey } from "./messages";
+import { gradientMagnitude } from "./pixelOps";
+import { loadPixels } from "./saliencyService";
+
+// Working size: a composed search grid still leaves every tile ~100px wide
+const WORKING_SIDE = 400;
+const PALETTE_SIZE = 6;
+const TILE_PALETTE_SIZE = 4;
+const SAMPLE_TARGET = 5000;
+const KMEANS_ITERATIONS = 12;
+// Clusters below this share are noise, not palette
+const MIN_SHARE = 0.01;
+
+// CIE76 distances: ~2 is a just-noticeable difference
+const MATCH_DELTA_E = 15;
+const CLOSE_DELTA_E = 30;
+const DISTINCT_DELTA_E = 20;
+
+// Text detection works on square cells of the working image
+const TEXT_CELL = 8;
+const EDGE_LEVEL = 0.5;
+const MAX_CONTRAST_REGIONS = 6;
+
+type RGB = [number, number, number];
+type Lab = [number, number, number];
+
+// -------------------------
+// Color math
+// -------------------------
+
+export const rgbToHex = ([r, g, b]: RGB): string =>
+  `#${[r, g, b].map((c) => Math.round(c).toString(16).padStart(2, "0")).join("")}`;
+
+export const hexToRgb = (hex: string): RGB | null => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const full = match[1].length === 3 ? match[1].split("").map((c) => c + c).join("") : match[1];
+  const n = parseInt(full, 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const toLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+// WCAG 2.x relative luminance
+export const relativeLuminance = ([r, g, b]: RGB): number => 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+
+export const contrastRatio = (a: RGB, b: RGB): number => {
+  const [hi, lo] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+};
+
+export const contrastLevel = (ratio: number): ContrastLevel =>
+  ratio >= 7 ? "AAA" : ratio >= 4.5 ? "AA" : ratio >= 3 ? "AA Large" : "Fail";
+
+// sRGB -> CIELAB, D65 white point
+const rgbToLab = (rgb: RGB): Lab => {
+  const [r, g, b] = rgb.map(toLinear);
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const fx = f((0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047);
+  const fy = f(0.2126 * r + 0.7152 * g + 0.0722 * b);
+  const fz = f((0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+const deltaE = (a: Lab, b: Lab) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+export const colorFamily = ([r, g, b]: RGB): string => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 510;
+  const saturation = max === min ? 0 : (max - min) / 255 / (1 - Math.abs(2 * lightness - 1));
+  if (lightness > 0.9) return "white";
+  if (lightness < 0.12) return "black";
+  if (saturation < 0.15) return "gray";
+  const d = max - min;
+  const hue = max === r ? (((g - b) / d + 6) % 6) * 60 : max === g ? ((b - r) / d + 2) * 60 : ((r - g) / d + 4) * 60;
+  if (hue < 15 || hue >= 340) return "red";
+  if (hue < 45) return lightness < 0.4 ? "brown" : "orange";
+  if (hue < 70) return "yellow";
+  if (hue < 165) return "green";
+  if (hue < 195) return "teal";
+  if (hue < 255) return "blue";
+  if (hue < 290) return "purple";
+  return "pink";
+};
+
+export const COLOR_FAMILIES: Record<string, { name: MessageKey; note: MessageKey }> = {
+  white: { name: "color.family.white", note: "color.note.white" },
+  black: { name: "color.family.black", note: "color.note.black" },
+  gray: { name: "color.family.gray", note: "color.note.gray" },
+  red: { name: "color.family.red", note: "color.note.red" },
+  orange: { name: "color.family.orange", note: "color.note.orange" },
+  brown: { name: "color.family.brown", note: "color.note.brown" },
+  yellow: { name: "color.family.yellow", note: "color.note.yellow" },
+  green: { name: "color.family.green", note: "color.note.green" },
+  teal: { name: "color.family.teal", note: "color.note.teal" },
+  blue: { name: "color.family.blue", note: "color.note.blue" },
+  purple: { name: "color.family.purple", note: "color.note.purple" },
+  pink: { name: "color.family.pink", note: "color.note.pink" },
+};
+
+// -------------------------
+// Palette extraction
+// -------------------------
+
+interface Sample {
+  rgb: RGB;
+  lab: Lab;
+}
+
+const samplePixels = (pixels: PixelBuffer, ignoreBackground: boolean): Sample[] => {
+  const { data } = pixels;
+  const count = pixels.width * pixels.height;
+  const stride = Math.max(1, Math.floor(count / SAMPLE_TARGET));
+  const samples: Sample[] = [];
+  for (let i = 0; i < count; i += stride) {
+    if (data[i * 4 + 3] < 128) continue;
+    const rgb: RGB = [data[i * 4], data[i * 4 + 1], data[i * 4 + 2]];
+    if (ignoreBackground && rgb.every((c) => c >= 245)) continue;
+    samples.push({ rgb, lab: rgbToLab(rgb) });
+  }
+  return samples;
+};
+
+/**
+ * k-means in CIELAB over a pixel sample. Centers start from farthest-point
+ * seeding, which is deterministic and keeps small accent colors as their own
+ * clusters instead of averaging them into the background.
+ */
+export const extractPalette = (pixels: PixelBuffer, k: number = PALETTE_SIZE, ignoreBackground = false): PaletteColor[] => {
+  const samples = samplePixels(pixels, ignoreBackground);
+  if (samples.length === 0) return [];
+
+  const meanLab = [0, 1, 2].map((c) => samples.reduce((sum, s) => sum + s.lab[c], 0) / samples.length) as Lab;
+  const centers: Lab[] = [samples.reduce((best, s) => (deltaE(s.lab, meanLab) < deltaE(best.lab, meanLab) ? s : best)).lab];
+  const nearest = samples.map((s) => deltaE(s.lab, centers[0]));
+  while (centers.length < Math.min(k, samples.length)) {
+    let far = 0;
+    nearest.forEach((d, idx) => { if (d > nearest[far]) far = idx; });
+    if (nearest[far] === 0) break;
+    centers.push(samples[far].lab);
+    samples.forEach((s, idx) => { nearest[idx] = Math.min(nearest[idx], deltaE(s.lab, samples[far].lab)); });
+  }
+
+  const assignment = new Int32Array(samples.length);
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    let changed = false;
+    samples.forEach((s, idx) => {
+      let best = 0;
+      centers.forEach((c, ci) => { if (deltaE(s.lab, c) < deltaE(s.lab, centers[best])) best = ci; });
+      if (assignment[idx] !== best) changed = true;
+      assignment[idx] = best;
+    });
+    centers.forEach((_, ci) => {
+      const members = samples.filter((_, idx) => assignment[idx] === ci);
+      if (members.length === 0) return;
+      centers[ci] = [0, 1, 2].map((c) => members.reduce((sum, s) => sum + s.lab[c], 0) / members.length) as Lab;
+    });
+    if (!changed && iter > 0) break;
+  }
+
+  // Reported colors are mean sRGB of the members, so hex values are real image colors
+  return centers
+    .map((_, ci) => {
+      const members = samples.filter((_, idx) => assignment[idx] === ci);
+      const rgb = [0, 1, 2].map((c) => members.reduce((sum, s) => sum + s.rgb[c], 0) / Math.max(1, members.length)) as RGB;
+      return { hex: rgbToHex(rgb), share: members.length / samples.length, family: colorFamily(rgb) };
+    })
+    .filter((c) => c.share >= MIN_SHARE)
+    .sort((a, b) => b.share - a.share);
+};
+
+const paletteLab = (color: PaletteColor): Lab => rgbToLab(hexToRgb(color.hex)!);
+
+export const checkClaimedColors = (palette: PaletteColor[], claimed: AnalysisReport["dominantColors"]): ClaimedColorCheck[] =>
+  claimed.map((color) => {
+    const rgb = hexToRgb(color.hex);
+    if (!rgb || palette.length === 0) {
+      return { ...color, nearestHex: "", deltaE: Infinity, verdict: "absent" as const };
+    }
+    const lab = rgbToLab(rgb);
+    const nearest = palette.reduce((best, c) => (deltaE(lab, paletteLab(c)) < deltaE(lab, paletteLab(best)) ? c : best));
+    const distance = Math.round(deltaE(lab, paletteLab(nearest)) * 10) / 10;
+    return {
+      ...color,
+      nearestHex: nearest.hex,
+      deltaE: distance,
+      verdict: distance <= MATCH_DELTA_E ? "match" : distance <= CLOSE_DELTA_E ? "close" : "absent",
+    };
+  });
+
+// Share-weighted mean distance from each color to the other palette, averaged both ways
+export const paletteDistance = (a: PaletteColor[], b: PaletteColor[]): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const oneWay = (from: PaletteColor[], to: PaletteColor[]) => {
+    const total = from.reduce((sum, c) => sum + c.share, 0);
+    return from.reduce((sum, c) => sum + c.share * Math.min(...to.map((t) => deltaE(paletteLab(c), paletteLab(t)))), 0) / total;
+  };
+  return (oneWay(a, b) + oneWay(b, a)) / 2;
+};
+
+// -------------------------
+// Text contrast
+// -------------------------
+
+// Otsu threshold on 0-1 luminance values
+const otsu = (values: number[]): number => {
+  const bins = new Array(64).fill(0);
+  values.forEach((v) => bins[Math.min(63, Math.floor(v * 64))]++);
+  let sumAll = 0;
+  bins.forEach((count, idx) => { sumAll += idx * count; });
+  let sumLow = 0;
+  let countLow = 0;
+  let best = 0;
+  let threshold = 0.5;
+  bins.forEach((count, idx) => {
+    countLow += count;
+    if (countLow === 0 || countLow === values.length) return;
+    sumLow += idx * count;
+    const meanLow = sumLow / countLow;
+    const meanHigh = (sumAll - sumLow) / (values.length - countLow);
+    const between = countLow * (values.length - countLow) * (meanLow - meanHigh) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = (idx + 1) / 64;
+    }
+  });
+  return threshold;
+};
+
+interface SplitColors {
+  foreground: RGB;
+  background: RGB;
+  minorityShare: number;
+  separation: number; // Luminance gap between the two classes
+}
+
+// Text strokes are the minority class of a bimodal block
+const splitForeground = (pixels: PixelBuffer, indices: number[]): SplitColors | null => {
+  const { data } = pixels;
+  const lum = indices.map((i) => (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255);
+  const threshold = otsu(lum);
+  const sums = [[0, 0, 0, 0, 0], [0, 0, 0, 0, 0]]; // r, g, b, count, luminance per class
+  indices.forEach((i, n) => {
+    const cls = lum[n] >= threshold ? 1 : 0;
+    sums[cls][0] += data[i * 4];
+    sums[cls][1] += data[i * 4 + 1];
+    sums[cls][2] += data[i * 4 + 2];
+    sums[cls][3]++;
+    sums[cls][4] += lum[n];
+  });
+  if (sums[0][3] === 0 || sums[1][3] === 0) return null;
+  const [minor, major] = sums[0][3] < sums[1][3] ? [sums[0], sums[1]] : [sums[1], sums[0]];
+  const mean = (s: number[]): RGB => [s[0] / s[3], s[1] / s[3], s[2] / s[3]];
+  return {
+    foreground: mean(minor),
+    background: mean(major),
+    minorityShare: minor[3] / indices.length,
+    separation: Math.abs(minor[4] / minor[3] - major[4] / major[3]),
+  };
+};
+
+const cellIndices = (pixels: PixelBuffer, cx: number, cy: number): number[] => {
+  const indices: number[] = [];
+  for (let y = cy * TEXT_CELL; y < Math.min(pixels.height, (cy + 1) * TEXT_CELL); y++) {
+    for (let x = cx * TEXT_CELL; x < Math.min(pixels.width, (cx + 1) * TEXT_CELL); x++) indices.push(y * pixels.width + x);
+  }
+  return indices;
+};
+
+/**
+ * Finds blocks that look like text (dense edges over two clearly separated
+ * tones, the darker or lighter one thin) and rates their contrast with WCAG.
+ * This is a heuristic: busy product texture can qualify, small text can be missed.
+ */
+export const findContrastRegions = (pixels: PixelBuffer): ContrastRegion[] => {
+  const gradient = gradientMagnitude(pixels);
+  const cols = Math.floor(pixels.width / TEXT_CELL);
+  const rows = Math.floor(pixels.height / TEXT_CELL);
+  const textLike = new Uint8Array(cols * rows);
+
+  for (let cy = 0; cy < rows; cy++) {
+    for (let cx = 0; cx < cols; cx++) {
+      const indices = cellIndices(pixels, cx, cy);
+      const edgeShare = indices.filter((i) => gradient[i] > EDGE_LEVEL).length / indices.length;
+      if (edgeShare < 0.12 || edgeShare > 0.6) continue;
+      const split = splitForeground(pixels, indices);
+      if (split && split.separation > 0.25 && split.minorityShare >= 0.08 && split.minorityShare <= 0.45) {
+        textLike[cy * cols + cx] = 1;
+      }
+    }
+  }
+
+  // Connected cells form one region; lone cells are more often texture than text
+  const seen = new Uint8Array(cols * rows);
+  const regions: ContrastRegion[] = [];
+  for (let start = 0; start < textLike.length; start++) {
+    if (!textLike[start] || seen[start]) continue;
+    const cells: number[] = [];
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      cells.push(cell);
+      const cx = cell % cols;
+      const cy = Math.floor(cell / cols);
+      [[cx - 1, cy], [cx + 1, cy], [cx, cy - 1], [cx, cy + 1]].forEach(([nx, ny]) => {
+        const next = ny * cols + nx;
+        if (nx >= 0 && ny >= 0 && nx < cols && ny < rows && textLike[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      });
+    }
+    if (cells.length < 2) continue;
+
+    const split = splitForeground(pixels, cells.flatMap((cell) => cellIndices(pixels, cell % cols, Math.floor(cell / cols))));
+    if (!split) continue;
+    const xs = cells.map((cell) => cell % cols);
+    const ys = cells.map((cell) => Math.floor(cell / cols));
+    const ratio = Math.round(contrastRatio(split.foreground, split.background) * 100) / 100;
+    regions.push({
+      x: (Math.min(...xs) * TEXT_CELL / pixels.width) * 100,
+      y: (Math.min(...ys) * TEXT_CELL / pixels.height) * 100,
+      width: ((Math.max(...xs) - Math.min(...xs) + 1) * TEXT_CELL / pixels.width) * 100,
+      height: ((Math.max(...ys) - Math.min(...ys) + 1) * TEXT_CELL / pixels.height) * 100,
+      foreground: rgbToHex(split.foreground),
+      background: rgbToHex(split.background),
+      ratio,
+      level: contrastLevel(ratio),
+    });
+  }
+
+  return regions.sort((a, b) => b.width * b.height - a.width * a.height).slice(0, MAX_CONTRAST_REGIONS);
+};
+
+// -------------------------
+// Search grid distinctness
+// -------------------------
+
+const cropPixels = (pixels: PixelBuffer, rect: { x: number; y: number; width: number; height: number }): PixelBuffer => {
+  const x0 = Math.floor((rect.x / 100) * pixels.width);
+  const y0 = Math.floor((rect.y / 100) * pixels.height);
+  const width = Math.max(1, Math.min(pixels.width - x0, Math.round((rect.width / 100) * pixels.width)));
+  const height = Math.max(1, Math.min(pixels.height - y0, Math.round((rect.height / 100) * pixels.height)));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const from = ((y0 + y) * pixels.width + x0) * 4;
+    data.set(pixels.data.subarray(from, from + width * 4), y * width * 4);
+  }
+  return { width, height, data };
+};
+
+// Neighbors share a row or column edge or a corner with our tile
+export const computeTileDistinctness = (pixels: PixelBuffer, grid: ComposedSearchGrid): TileDistinctness[] => {
+  const ours = grid.regions.find((r) => r.isOurs);
+  if (!ours) return [];
+  // The white page behind every tile would otherwise make all palettes look alike
+  const palette = (region: typeof ours) => extractPalette(cropPixels(pixels, region), TILE_PALETTE_SIZE, true);
+  const ourPalette = palette(ours);
+  return grid.regions
+    .filter((r) => !r.isOurs && Math.abs(r.row - ours.row) <= 1 && Math.abs(r.column - ours.column) <= 1)
+    .map((r) => {
+      const distance = Math.round(paletteDistance(ourPalette, palette(r)) * 10) / 10;
+      return { tileId: r.tileId, label: r.label, deltaE: distance, distinct: distance >= DISTINCT_DELTA_E };
+    });
+};
+
+export const analyzeColors = async (
+  src: string,
+  claimed: AnalysisReport["dominantColors"],
+  grid?: ComposedSearchGrid
+): Promise<ColorAnalysis> => {
+  const pixels = await loadPixels(src, WORKING_SIDE);
+  const palette = extractPalette(pixels);
+  return {
+    palette,
+    claimed: checkClaimedColors(palette, claimed),
+    contrast: findContrastRegions(pixels),
+    distinctness: grid ? computeTileDistinctness(pixels, grid) : undefined,
+  };
+};
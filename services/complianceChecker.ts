@@ -0,0 +1,245 @@
+import { ComplianceCheck, ComplianceReport, ComplianceStatus, Language, PixelBuffer } from "../types";
+import { loadImage } from "./overlayRenderer";
+import { gradientMagnitude } from "./pixelOps";
+import { getLanguage, getTranslator, MessageKey } from "./messages";
+
+// Measured at this size: large enough for thin borders and overlay text,
+// small enough to stay instant. Downscaling keeps pure white exactly 255.
+const MEASURE_SIDE = 1000;
+
+// Outer ring sampled for background purity, as a fraction of the short side
+const BORDER_FRACTION = 0.01;
+// Channels at or above this count as background when locating the product
+const BACKGROUND_LEVEL = 245;
+// Corner regions scanned for badges, watermarks and text overlays
+const CORNER_FRACTION = 0.15;
+
+const PURITY_PASS = 0.97;
+const FILL_PASS = 0.85;
+const FILL_WARN = 0.7;
+const ZOOM_MIN_SIDE = 1000;
+const ABSOLUTE_MIN_SIDE = 500;
+const MAX_ASPECT_RATIO = 5;
+
+type Corner = ComplianceReport["overlayCorners"][number];
+
+interface CornerRegion {
+  name: Corner;
+  x0: number;
+  y0: number;
+  width: number;
+  height: number;
+}
+
+const isPureWhite = (data: Uint8ClampedArray, i: number) =>
+  data[i * 4] === 255 && data[i * 4 + 1] === 255 && data[i * 4 + 2] === 255 && data[i * 4 + 3] === 255;
+
+const isNearWhite = (data: Uint8ClampedArray, i: number) =>
+  data[i * 4] >= 240 && data[i * 4 + 1] >= 240 && data[i * 4 + 2] >= 240 && data[i * 4 + 3] === 255;
+
+// Transparent pixels count as background here so cut-out PNGs still get a bounding box
+const isBackground = (data: Uint8ClampedArray, i: number) =>
+  data[i * 4 + 3] < 16 ||
+  (data[i * 4] >= BACKGROUND_LEVEL && data[i * 4 + 1] >= BACKGROUND_LEVEL && data[i * 4 + 2] >= BACKGROUND_LEVEL);
+
+const measureBorder = (pixels: PixelBuffer) => {
+  const { width, height, data } = pixels;
+  const band = Math.max(1, Math.round(Math.min(width, height) * BORDER_FRACTION));
+  let total = 0;
+  let pure = 0;
+  let near = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x >= band && x < width - band && y >= band && y < height - band) continue;
+      const i = y * width + x;
+      total++;
+      if (isPureWhite(data, i)) pure++;
+      if (isNearWhite(data, i)) near++;
+    }
+  }
+  return { purity: total > 0 ? pure / total : 0, nearWhite: total > 0 ? near / total : 0 };
+};
+
+const inRegion = (x: number, y: number, r: CornerRegion) => x >= r.x0 && x < r.x0 + r.width && y >= r.y0 && y < r.y0 + r.height;
+
+// Overlay corners are excluded so a watermark does not inflate the product's fill ratio
+const findProductBox = (pixels: PixelBuffer, excluded: CornerRegion[]) => {
+  const { width, height, data } = pixels;
+  const rowCounts = new Uint32Array(height);
+  const colCounts = new Uint32Array(width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isBackground(data, y * width + x) || excluded.some((r) => inRegion(x, y, r))) continue;
+      rowCounts[y]++;
+      colCounts[x]++;
+    }
+  }
+
+  // Ignore rows/columns with only a few stray pixels (dust, JPEG ringing)
+  const minRow = Math.max(2, Math.round(width * 0.003));
+  const minCol = Math.max(2, Math.round(height * 0.003));
+  const top = rowCounts.findIndex((c) => c >= minRow);
+  const left = colCounts.findIndex((c) => c >= minCol);
+  if (top < 0 || left < 0) return null;
+  let bottom = height - 1;
+  while (bottom > top && rowCounts[bottom] < minRow) bottom--;
+  let right = width - 1;
+  while (right > left && colCounts[right] < minCol) right--;
+
+  return { left, top, right, bottom };
+};
+
+const findOverlayCorners = (pixels: PixelBuffer): CornerRegion[] => {
+  const { width, height, data } = pixels;
+  const gradient = gradientMagnitude(pixels);
+  const cw = Math.max(1, Math.round(width * CORNER_FRACTION));
+  const ch = Math.max(1, Math.round(height * CORNER_FRACTION));
+  const corners: CornerRegion[] = [
+    { name: "top-left", x0: 0, y0: 0, width: cw, height: ch },
+    { name: "top-right", x0: width - cw, y0: 0, width: cw, height: ch },
+    { name: "bottom-left", x0: 0, y0: height - ch, width: cw, height: ch },
+    { name: "bottom-right", x0: width - cw, y0: height - ch, width: cw, height: ch },
+  ];
+
+  // A badge or watermark is sparse, high-contrast content; a product that
+  // simply extends into the corner is dense with soft edges
+  return corners
+    .filter(({ x0, y0 }) => {
+      let foreground = 0;
+      let strongEdges = 0;
+      for (let y = y0; y < y0 + ch; y++) {
+        for (let x = x0; x < x0 + cw; x++) {
+          const i = y * width + x;
+          if (!isBackground(data, i)) foreground++;
+          if (gradient[i] > 0.8) strongEdges++;
+        }
+      }
+      const area = cw * ch;
+      return foreground / area > 0.01 && foreground / area < 0.6 && strongEdges / area > 0.02;
+    });
+};
+
+const CHECK_LABELS: Record<ComplianceCheck["id"], MessageKey> = {
+  background: "compliance.background.label",
+  fill: "compliance.fill.label",
+  dimensions: "compliance.dimensions.label",
+  aspectRatio: "compliance.aspectRatio.label",
+  overlays: "compliance.overlays.label",
+};
+
+const CORNER_KEYS: Record<Corner, MessageKey> = {
+  "top-left": "compliance.corner.topLeft",
+  "top-right": "compliance.corner.topRight",
+  "bottom-left": "compliance.corner.bottomLeft",
+  "bottom-right": "compliance.corner.bottomRight",
+};
+
+type Measurements = Omit<ComplianceReport, "passed" | "checks">;
+
+const aspectRatio = ({ width, height }: Measurements) => Math.max(width, height) / Math.max(1, Math.min(width, height));
+
+/** Label, measured value and advice for one check; everything is derived from the measurements. */
+const describeCheck = (id: ComplianceCheck["id"], status: ComplianceStatus, m: Measurements, language: Language) => {
+  const t = getTranslator(language);
+  const percent = (value: number) =>
+    new Intl.NumberFormat(getLanguage(language).locale, { style: "percent", minimumFractionDigits: 1, maximumFractionDigits: 1 }).format(value);
+  const text = (value: string, detail: string) => ({ label: t(CHECK_LABELS[id]), value, detail });
+  switch (id) {
+    case "background":
+      return text(
+        t("compliance.background.value", { percent: percent(m.backgroundPurity) }),
+        t(status === "warn" ? "compliance.background.offWhite" : "compliance.background.rule"),
+      );
+    case "fill":
+      return m.productBox
+        ? text(t("compliance.fill.value", { percent: percent(m.fillRatio) }), t("compliance.fill.rule"))
+        : text(t("compliance.fill.noProduct"), t("compliance.fill.whiteOnWhite"));
+    case "dimensions":
+      return text(
+        `${m.width}x${m.height}px`,
+        status === "pass"
+          ? t("compliance.dimensions.zoomEnabled", { zoom: ZOOM_MIN_SIDE })
+          : t("compliance.dimensions.rule", { zoom: ZOOM_MIN_SIDE, min: ABSOLUTE_MIN_SIDE }),
+      );
+    case "aspectRatio":
+      return text(`${aspectRatio(m).toFixed(2)}:1`, t("compliance.aspectRatio.rule"));
+    case "overlays":
+      return text(
+        m.overlayCorners.length > 0
+          ? t("compliance.overlays.found", { corners: m.overlayCorners.map((c) => t(CORNER_KEYS[c])).join(", ") })
+          : t("compliance.overlays.clear"),
+        t("compliance.overlays.rule"),
+      );
+  }
+};
+
+/**
+ * Checks a main image against Amazon's main-image requirements. `pixels` may be
+ * a downscaled copy; `naturalWidth`/`naturalHeight` are used for the size rules.
+ */
+export const checkMainImageCompliance = (pixels: PixelBuffer, naturalWidth: number, naturalHeight: number): ComplianceReport => {
+  const { purity, nearWhite } = measureBorder(pixels);
+  const overlayRegions = findOverlayCorners(pixels);
+  const overlayCorners = overlayRegions.map((r) => r.name);
+  const box = findProductBox(pixels, overlayRegions);
+
+  const productBox = box && {
+    x: (box.left / pixels.width) * 100,
+    y: (box.top / pixels.height) * 100,
+    width: ((box.right - box.left + 1) / pixels.width) * 100,
+    height: ((box.bottom - box.top + 1) / pixels.height) * 100,
+  };
+  const fillRatio = productBox ? Math.max(productBox.width, productBox.height) / 100 : 0;
+  const measurements: Measurements = {
+    width: naturalWidth,
+    height: naturalHeight,
+    backgroundPurity: purity,
+    fillRatio,
+    productBox,
+    overlayCorners,
+  };
+  const longest = Math.max(naturalWidth, naturalHeight);
+  const aspect = aspectRatio(measurements);
+
+  const statuses: Record<ComplianceCheck["id"], ComplianceStatus> = {
+    background: purity >= PURITY_PASS ? "pass" : nearWhite >= PURITY_PASS ? "warn" : "fail",
+    fill: fillRatio >= FILL_PASS ? "pass" : fillRatio >= FILL_WARN ? "warn" : "fail",
+    dimensions: longest >= ZOOM_MIN_SIDE ? "pass" : longest >= ABSOLUTE_MIN_SIDE ? "warn" : "fail",
+    aspectRatio: aspect <= 1.05 ? "pass" : aspect <= MAX_ASPECT_RATIO ? "warn" : "fail",
+    overlays: overlayCorners.length > 0 ? "warn" : "pass",
+  };
+  // Stored and sent to the model in English; localizeComplianceReport translates it for display
+  const checks: ComplianceCheck[] = (Object.keys(statuses) as ComplianceCheck["id"][]).map((id) => ({
+    id,
+    status: statuses[id],
+    ...describeCheck(id, statuses[id], measurements, "en"),
+  }));
+
+  return {
+    passed: checks.every((c) => c.status !== "fail"),
+    checks,
+    ...measurements,
+  };
+};
+
+/** The checklist text in another language; statuses and measurements are unchanged. */
+export const localizeComplianceReport = (report: ComplianceReport, language: Language): ComplianceReport => ({
+  ...report,
+  checks: report.checks.map((c) => ({ ...c, ...describeCheck(c.id, c.status, report, language) })),
+});
+export const analyzeMainImageCompliance = async (src: string): Promise<ComplianceReport> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, MEASURE_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return checkMainImageCompliance({ width: canvas.width, height: canvas.height, data }, img.naturalWidth, img.naturalHeight);
+};
+
+/** Checklist text for the prompt; the model is told to treat it as measured fact. */
+export const formatComplianceForPrompt = (report: ComplianceReport): string =>
+  report.checks.map((c) => `      - ${c.label}: ${c.status.toUpperCase()} (${c.value})`).join("\n");
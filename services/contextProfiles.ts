@@ -0,0 +1,324 @@
+import { AnalysisContext, ContextProfile, ReportField, ReportLabels } from "../types";
+import { createId } from "./ids";
+import { getTranslator, MessageKey, Translate } from "./messages";
+
+const PROFILE_STORAGE_KEY = "amazon-heatmap-studio.context-profiles";
+const EXPORT_VERSION = 1;
+
+type LabelKeys = Record<keyof ReportLabels, MessageKey>;
+
+const MAIN_IMAGE_LABELS: LabelKeys = {
+  strategyTitle: "label.strategy.mainImage",
+  ctrLabel: "label.ctrImpact",
+  conversionLabel: "label.salesPotential",
+  bidLabel: "label.trafficPotential",
+  keywordLabel: "label.keyBenefit",
+  copyLabel: "label.adCopy",
+};
+
+const EXPERIMENT_LABELS: LabelKeys = {
+  strategyTitle: "label.strategy.experiment",
+  ctrLabel: "label.engagement",
+  conversionLabel: "label.salesPotential",
+  bidLabel: "label.conversionStrategy",
+  keywordLabel: "label.keyBenefit",
+  copyLabel: "label.adCopy",
+};
+
+// Catalog keys for what a built-in profile shows; its prompt text stays English
+const BUILT_IN_TEXT: Record<AnalysisContext, { name: MessageKey; description: MessageKey; labels: LabelKeys }> = {
+  [AnalysisContext.HERO]: { name: "profile.hero.name", description: "profile.hero.description", labels: MAIN_IMAGE_LABELS },
+  [AnalysisContext.APLUS]: {
+    name: "profile.aplus.name",
+    description: "profile.aplus.description",
+    labels: {
+      strategyTitle: "label.strategy.content",
+      ctrLabel: "label.engagement",
+      conversionLabel: "label.conversionLift",
+      bidLabel: "label.conversionStrategy",
+      keywordLabel: "label.keyBenefit",
+      copyLabel: "label.overlayContent",
+    },
+  },
+  [AnalysisContext.SEARCH]: {
+    name: "profile.search.name",
+    description: "profile.search.description",
+    labels: {
+      strategyTitle: "label.strategy.ppc",
+      ctrLabel: "label.ctrImpact",
+      conversionLabel: "label.salesPotential",
+      bidLabel: "label.bidStrategy",
+      keywordLabel: "label.keywordFocus",
+      copyLabel: "label.adCopy",
+    },
+  },
+  [AnalysisContext.STOREFRONT]: {
+    name: "profile.storefront.name",
+    description: "profile.storefront.description",
+    labels: {
+      strategyTitle: "label.strategy.brand",
+      ctrLabel: "label.engagement",
+      conversionLabel: "label.aovPotential",
+      bidLabel: "label.conversionStrategy",
+      keywordLabel: "label.keyBenefit",
+      copyLabel: "label.adCopy",
+    },
+  },
+  [AnalysisContext.AB_TEST]: { name: "profile.ab.name", description: "profile.ab.description", labels: EXPERIMENT_LABELS },
+  [AnalysisContext.MULTI_VARIANT]: { name: "profile.multi.name", description: "profile.multi.description", labels: EXPERIMENT_LABELS },
+};
+
+const builtInText = (context: AnalysisContext, t: Translate) => {
+  const text = BUILT_IN_TEXT[context];
+  return {
+    name: t(text.name),
+    description: t(text.description),
+    labels: Object.fromEntries(Object.entries(text.labels).map(([field, key]) => [field, t(key)])) as unknown as ReportLabels,
+  };
+};
+
+// The stored profiles carry English text, which is what the prompt and saved snapshots use
+const en = getTranslator("en");
+
+export const BUILT_IN_PROFILES: ContextProfile[] = [
+  {
+    id: AnalysisContext.HERO,
+    ...builtInText(AnalysisContext.HERO, en),
+    base: AnalysisContext.HERO,
+    scenario: "AMAZON MAIN IMAGE (HERO)",
+    role: "Main Image Compliance & CTR Specialist.",
+    objective: "Stop the scroll.",
+    focus: [
+      "COMPLIANCE: Pure white background? 85% Frame fill? When a measured checklist is provided, use it as the answer instead of estimating from the image.",
+      "CLARITY: Is the product instantly identifiable on Mobile? When device renders are provided, judge this from the Mobile Search render, not the full-size upload.",
+      "BUSINESS IMPACT: High CTR = Lower CPC.",
+    ],
+    instructions: "",
+    requiredFields: [],
+    builtIn: true,
+  },
+  {
+    id: AnalysisContext.APLUS,
+    ...builtInText(AnalysisContext.APLUS, en),
+    base: AnalysisContext.APLUS,
+    scenario: "A+ CONTENT / LIFESTYLE IMAGE",
+    role: "Brand Storyteller & Conversion Specialist.",
+    objective: "Close the sale (Conversion Rate).",
+    focus: [
+      "DESIRE: Does it show the product solving a pain point?",
+      "EDUCATION: Are features clearly visualized?",
+    ],
+    instructions: "",
+    requiredFields: [],
+    builtIn: true,
+  },
+  {
+    id: AnalysisContext.SEARCH,
+    ...builtInText(AnalysisContext.SEARCH, en),
+    base: AnalysisContext.SEARCH,
+    scenario: "SEARCH RESULTS GRID (PPC)",
+    role: "PPC Bid Strategist.",
+    objective: "Steal market share.",
+    focus: [
+      "COMPETITIVE GAP: Does the product stand out from neighbors?",
+      "DOMINANCE: Is the price/badge visible?",
+    ],
+    instructions: "",
+    requiredFields: [],
+    builtIn: true,
+  },
+  {
+    id: AnalysisContext.STOREFRONT,
+    ...builtInText(AnalysisContext.STOREFRONT, en),
+    base: AnalysisContext.STOREFRONT,
+    scenario: "BRAND STOREFRONT",
+    role: "Brand Director.",
+    objective: "Increase Basket Size (AOV).",
+    focus: ["Navigation clarity", "Brand Equity"],
+    instructions: "",
+    requiredFields: [],
+    builtIn: true,
+  },
+  {
+    id: AnalysisContext.AB_TEST,
+    ...builtInText(AnalysisContext.AB_TEST, en),
+    base: AnalysisContext.AB_TEST,
+    scenario: "A/B COMPARISON TEST (PICKFU STYLE)",
+    role: "CRO Experimentation Lead & Consumer Psychologist.",
+    objective: "Determine the statistical winner based on simulated consumer preference.",
+    focus: [
+      "Click-Through Potential (Who gets the click?)",
+      "Information Clarity (Who communicates value faster?)",
+      "Purchase Intent (Who creates more desire?)",
+    ],
+    instructions: [
+      "* SIMULATION: Imagine you are polling 50 Amazon shoppers.",
+      "* OUTPUT:",
+      "  - Populate 'abTestVerdict' with the winner.",
+      "  - Populate 'comparativeAnalysis' with scores (0-100) for at least 3 distinct metrics.",
+      "  - Generate 'hotspots' for Image A and 'hotspotsB' for Image B.",
+    ].join("\n"),
+    requiredFields: ["abTestVerdict", "comparativeAnalysis"],
+    builtIn: true,
+  },
+  {
+    id: AnalysisContext.MULTI_VARIANT,
+    ...builtInText(AnalysisContext.MULTI_VARIANT, en),
+    base: AnalysisContext.MULTI_VARIANT,
+    scenario: "MULTI-VARIANT TEST (3-6 MAIN IMAGE CANDIDATES)",
+    role: "CRO Experimentation Lead & Consumer Psychologist.",
+    objective: "Rank every candidate and identify the one to launch.",
+    focus: [
+      "Click-Through Potential (0-100, for every variant)",
+      "Information Clarity (0-100, for every variant)",
+      "Purchase Intent (0-100, for every variant)",
+    ],
+    instructions: [
+      "* SIMULATION: Imagine you are polling 100 Amazon shoppers shown all candidates.",
+      "* VARIANTS: Images are labelled A, B, C... in the order provided.",
+      "* OUTPUT:",
+      "  - Populate 'variantHotspots' with one entry per image, in order.",
+      "  - Populate 'variantLeaderboard' ranking ALL variants (rank 1 = best) with the metric scores above.",
+      "  - Populate 'pairwiseComparisons' with one entry for EVERY pair of variants.",
+      "  - Set 'hotspots' to the hotspots of Variant A.",
+    ].join("\n"),
+    requiredFields: ["variantLeaderboard", "pairwiseComparisons"],
+    builtIn: true,
+  },
+];
+
+// Report sections a profile can insist on, in the order the editor lists them
+export const REPORT_FIELD_OPTIONS: { field: ReportField; label: MessageKey }[] = [
+  { field: "strategicInsights", label: "profileEditor.field.strategicInsights" },
+  { field: "blindSpots", label: "profileEditor.field.blindSpots" },
+  { field: "recommendations", label: "profileEditor.field.recommendations" },
+  { field: "dominantColors", label: "profileEditor.field.dominantColors" },
+  { field: "abTestVerdict", label: "profileEditor.field.abTestVerdict" },
+  { field: "comparativeAnalysis", label: "profileEditor.field.comparativeAnalysis" },
+  { field: "variantLeaderboard", label: "profileEditor.field.variantLeaderboard" },
+  { field: "pairwiseComparisons", label: "profileEditor.field.pairwiseComparisons" },
+];
+
+export const getBuiltInProfile = (context: AnalysisContext): ContextProfile =>
+  BUILT_IN_PROFILES.find((p) => p.id === context) ?? BUILT_IN_PROFILES[0];
+
+/** A profile as the interface shows it: built-in text in the given language, custom profiles as their author wrote them. */
+export const localizeProfile = (profile: ContextProfile, t: Translate): ContextProfile =>
+  profile.builtIn ? { ...profile, ...builtInText(profile.base, t) } : profile;
+
+export const contextName = (context: AnalysisContext, t: Translate): string => t(BUILT_IN_TEXT[context].name);
+
+// -------------------------
+// Custom profiles (localStorage)
+// -------------------------
+
+const CONTEXTS = Object.values(AnalysisContext) as string[];
+const LABEL_KEYS = Object.keys(MAIN_IMAGE_LABELS) as (keyof ReportLabels)[];
+const FIELD_KEYS = REPORT_FIELD_OPTIONS.map((o) => o.field) as string[];
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every((v) => typeof v === "string");
+
+/** Checks an untrusted (imported or stored) profile; returns the reason it is unusable, if any. */
+const profileProblem = (value: unknown): string | null => {
+  if (typeof value !== "object" || value === null) return "is not an object";
+  const p = value as Record<string, unknown>;
+  for (const key of ["name", "scenario", "role", "objective"]) {
+    if (typeof p[key] !== "string" || !(p[key] as string).trim()) return `is missing "${key}"`;
+  }
+  if (typeof p.base !== "string" || !CONTEXTS.includes(p.base)) return `has an unknown base context "${String(p.base)}"`;
+  if (!isStringList(p.focus)) return `needs "focus" as a list of strings`;
+  const labels = p.labels as Record<string, unknown> | undefined;
+  if (!labels || LABEL_KEYS.some((key) => typeof labels[key] !== "string")) return `needs all labels: ${LABEL_KEYS.join(", ")}`;
+  if (p.requiredFields !== undefined && (!isStringList(p.requiredFields) || p.requiredFields.some((f) => !FIELD_KEYS.includes(f)))) {
+    return `lists an unknown required field`;
+  }
+  return null;
+};
+
+const normalizeProfile = (p: ContextProfile, id: string): ContextProfile => ({
+  id,
+  name: p.name.trim(),
+  description: typeof p.description === "string" ? p.description : "",
+  base: p.base,
+  scenario: p.scenario,
+  role: p.role,
+  objective: p.objective,
+  focus: p.focus.map((f) => f.trim()).filter(Boolean),
+  instructions: typeof p.instructions === "string" ? p.instructions : "",
+  labels: Object.fromEntries(LABEL_KEYS.map((key) => [key, p.labels[key]])) as unknown as ReportLabels,
+  requiredFields: p.requiredFields ?? [],
+  builtIn: false,
+});
+
+const listCustomProfiles = (): ContextProfile[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PROFILE_STORAGE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter((p) => profileProblem(p) === null) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeProfiles = (profiles: ContextProfile[]) => {
+  localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const listContextProfiles = (): ContextProfile[] => [...BUILT_IN_PROFILES, ...listCustomProfiles()];
+
+/** A new editable profile, starting from the text of an existing one. */
+export const draftContextProfile = (from: ContextProfile, t: Translate): ContextProfile => ({
+  ...from,
+  id: `custom:${createId()}`,
+  name: t(from.builtIn ? "profile.customName" : "profile.copyName", { name: from.name }),
+  focus: [...from.focus],
+  labels: { ...from.labels },
+  requiredFields: [...from.requiredFields],
+  builtIn: false,
+});
+
+// Inserts or replaces by id; built-in profiles are read-only
+export const saveContextProfile = (profile: ContextProfile): ContextProfile => {
+  const problem = profileProblem(profile);
+  if (problem) throw new Error(`Profile ${problem}`);
+  const saved = normalizeProfile(profile, profile.builtIn ? `custom:${createId()}` : profile.id);
+  const existing = listCustomProfiles();
+  const next = existing.some((p) => p.id === saved.id)
+    ? existing.map((p) => (p.id === saved.id ? saved : p))
+    : [...existing, saved];
+  writeProfiles(next);
+  return saved;
+};
+
+export const deleteContextProfile = (id: string) => {
+  writeProfiles(listCustomProfiles().filter((p) => p.id !== id));
+};
+
+export const serializeContextProfiles = (profiles: ContextProfile[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, profiles }, null, 2);
+
+/**
+ * Reads an export file (or a bare profile/array) and stores every profile in it.
+ * Imports always get fresh ids, so importing twice never overwrites local edits.
+ */
+export const importContextProfiles = (json: string): ContextProfile[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const candidates: unknown[] = Array.isArray(parsed) ? parsed
+    : typeof parsed === "object" && parsed !== null && Array.isArray((parsed as { profiles?: unknown }).profiles)
+      ? (parsed as { profiles: unknown[] }).profiles
+      : [parsed];
+
+  const problems = candidates
+    .map((c, idx) => ({ idx, problem: profileProblem(c) }))
+    .filter((p) => p.problem !== null)
+    .map((p) => `Profile ${p.idx + 1} ${p.problem}`);
+  if (problems.length > 0) throw new Error(problems.join("\n"));
+
+  const imported = candidates.map((c) => normalizeProfile(c as ContextProfile, `custom:${createId()}`));
+  writeProfiles([...listCustomProfiles(), ...imported]);
+  return imported;
+};
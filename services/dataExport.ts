@@ -0,0 +1,159 @@
+import { AnalysisResult, HeatmapSettings, Hotspot, VisualizationMode } from "../types";
+import { loadImage, renderOverlayCanvas } from "./overlayRenderer";
+import { downloadBlob, exportFileName } from "./download";
+import { getVariantHotspots, variantLabel } from "./variants";
+import { buildScanpath, drawScanpathFrame } from "./scanpath";
+import { encodeGif, GifFrame } from "./gifEncoder";
+
+// What is currently shown in the Visual Attention Lab
+export interface OverlayExportView {
+  imageSrc: string;
+  imageLabel: string; // e.g. "Image A"
+  hotspots: Hotspot[];
+  mode: VisualizationMode;
+  heatmapSettings?: HeatmapSettings;
+  baselineHotspots?: Hotspot[]; // Set when the difference map is on screen
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png");
+  });
+
+/**
+ * Exports the overlay at the image's natural resolution, either flattened onto
+ * the image or on a transparent background for use in design tools.
+ */
+export const exportOverlayPng = async (view: OverlayExportView, options: { includeImage: boolean }) => {
+  const canvas = await renderOverlayCanvas(view.imageSrc, view.hotspots, view.mode, { ...options, heatmapSettings: view.heatmapSettings, baselineHotspots: view.baselineHotspots });
+  const layer = view.baselineHotspots ? "difference" : view.mode;
+  const suffix = options.includeImage ? layer : `${layer}-overlay`;
+  downloadBlob(await canvasToBlob(canvas), exportFileName(`${view.imageLabel} ${suffix}`, "png"));
+};
+
+export const buildHotspotsJson = (result: AnalysisResult): string =>
+  JSON.stringify(
+    {
+      hotspots: result.hotspots,
+      ...(result.hotspotsB ? { hotspotsB: result.hotspotsB } : {}),
+      ...(result.variantHotspots ? { variantHotspots: result.variantHotspots } : {}),
+      hotspotsAnalysis: result.report.hotspotsAnalysis,
+    },
+    null,
+    2
+  );
+
+const csvCell = (value: string | number | undefined): string => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: (string | number | undefined)[][]): string =>
+  [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n");
+
+export const buildHotspotsCsv = (result: AnalysisResult): string => {
+  const rows = getVariantHotspots(result).flatMap((hotspots, idx) =>
+    hotspots.map((h) => [variantLabel(idx), h.id, h.x, h.y, h.intensity, h.fixationMs, h.label])
+  );
+  return toCsv(["image", "id", "x", "y", "intensity", "fixationMs", "label"], rows);
+};
+
+export const buildAttentionAnalysisCsv = (result: AnalysisResult): string =>
+  toCsv(
+    ["rank", "element", "attentionPercentage", "rationale"],
+    result.report.hotspotsAnalysis.map((a, idx) => [idx + 1, a.element, a.attentionPercentage, a.rationale])
+  );
+
+export const exportHotspotsJson = (result: AnalysisResult, label: string) =>
+  downloadBlob(new Blob([buildHotspotsJson(result)], { type: "application/json" }), exportFileName(`${label} hotspots`, "json"));
+
+export const exportHotspotsCsv = (result: AnalysisResult, label: string) =>
+  downloadBlob(new Blob([buildHotspotsCsv(result)], { type: "text/csv" }), exportFileName(`${label} hotspots`, "csv"));
+
+export const exportAttentionAnalysisCsv = (result: AnalysisResult, label: string) =>
+  downloadBlob(new Blob([buildAttentionAnalysisCsv(result)], { type: "text/csv" }), exportFileName(`${label} attention`, "csv"));
+
+// -------------------------
+// Scanpath animation
+// -------------------------
+
+export type ScanpathExportFormat = "gif" | "webm";
+
+const GIF_MAX_SIDE = 480;
+const GIF_FRAME_MS = 100;
+const WEBM_MAX_SIDE = 1080;
+const WEBM_FPS = 30;
+// The finished path stays on screen before the animation loops or ends
+const END_HOLD_MS = 1500;
+
+export const canRecordWebm = () =>
+  typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported("video/webm");
+
+const recordWebm = (canvas: HTMLCanvasElement, lengthMs: number, drawAt: (elapsed: number) => void): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const recorder = new MediaRecorder(canvas.captureStream(WEBM_FPS), { mimeType: "video/webm" });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    recorder.onstop = () => resolve(new Blob(chunks, { type: "video/webm" }));
+    recorder.onerror = () => reject(new Error("WebM recording failed"));
+
+    // MediaRecorder captures in real time, so frames are drawn against the wall clock
+    drawAt(0);
+    recorder.start();
+    const started = performance.now();
+    const tick = () => {
+      const elapsed = performance.now() - started;
+      drawAt(Math.min(elapsed, lengthMs));
+      if (elapsed >= lengthMs + END_HOLD_MS) recorder.stop();
+      else requestAnimationFrame(tick);
+    };
+    requestAnimationFrame(tick);
+  });
+
+/**
+ * Renders the scanpath animation over the image with a timeline bar and the
+ * 3-second mark. `speed` scales playback the same way the on-screen player does.
+ */
+export const exportScanpathAnimation = async (
+  view: { imageSrc: string; imageLabel: string; hotspots: Hotspot[] },
+  format: ScanpathExportFormat,
+  speed = 1
+) => {
+  const img = await loadImage(view.imageSrc);
+  const path = buildScanpath(view.hotspots);
+  const maxSide = format === "gif" ? GIF_MAX_SIDE : WEBM_MAX_SIDE;
+  const scale = Math.min(1, maxSide / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+  const output = document.createElement("canvas");
+  const overlay = document.createElement("canvas");
+  output.width = overlay.width = width;
+  output.height = overlay.height = height;
+  const ctx = output.getContext("2d", { willReadFrequently: format === "gif" });
+  const overlayCtx = overlay.getContext("2d");
+  if (!ctx || !overlayCtx) throw new Error("Canvas 2D context unavailable");
+
+  const drawAt = (time: number) => {
+    ctx.drawImage(img, 0, 0, width, height);
+    drawScanpathFrame(overlayCtx, path, time, { timeline: true });
+    ctx.drawImage(overlay, 0, 0);
+  };
+  const lengthMs = path.duration / speed;
+
+  let blob: Blob;
+  if (format === "gif") {
+    const frames: GifFrame[] = [];
+    for (let elapsed = 0; ; elapsed += GIF_FRAME_MS) {
+      const last = elapsed >= lengthMs;
+      drawAt(Math.min(elapsed * speed, path.duration));
+      frames.push({ rgba: ctx.getImageData(0, 0, width, height).data, delayMs: last ? END_HOLD_MS : GIF_FRAME_MS });
+      if (last) break;
+    }
+    blob = encodeGif(frames, width, height);
+  } else {
+    if (!canRecordWebm()) throw new Error("This browser cannot record WebM video");
+    blob = await recordWebm(output, lengthMs, (elapsed) => drawAt(elapsed * speed));
+  }
+  downloadBlob(blob, exportFileName(`${view.imageLabel} scanpath`, format));
+};
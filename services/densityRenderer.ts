@@ -0,0 +1,253 @@
+import { DifferencePeak, HeatmapPalette, HeatmapSettings, Hotspot, PixelBuffer } from "../types";
+import { MessageKey } from "./messages";
+
+export const DEFAULT_HEATMAP_SETTINGS: HeatmapSettings = {
+  radius: 12,
+  opacity: 0.75,
+  threshold: 0.05,
+  palette: "jet",
+};
+
+export const HEATMAP_PALETTES: { id: HeatmapPalette; labelKey: MessageKey; stops: string[] }[] = [
+  { id: "jet", labelKey: "heatmap.palette.jet", stops: ["#00007f", "#0000ff", "#00ffff", "#ffff00", "#ff0000", "#7f0000"] },
+  { id: "viridis", labelKey: "heatmap.palette.viridis", stops: ["#440154", "#3b528b", "#21918c", "#5ec962", "#fde725"] },
+  // Cividis: designed to read the same for deuteranopes, protanopes and normal vision
+  { id: "colorblind", labelKey: "heatmap.palette.colorblind", stops: ["#00204d", "#31446b", "#666970", "#958f78", "#cbba69", "#ffea46"] },
+  { id: "mono", labelKey: "heatmap.palette.mono", stops: ["#fbcfe8", "#f472b6", "#db2777", "#831843"] },
+];
+
+// The density grid is computed at this resolution and upscaled; kernels are
+// smooth, so the loss is invisible while sliders re-render in a few ms
+const GRID_MAX_SIDE = 240;
+
+const gridSize = (width: number, height: number) => {
+  const scale = Math.min(1, GRID_MAX_SIDE / Math.max(width, height));
+  return { gw: Math.max(1, Math.round(width * scale)), gh: Math.max(1, Math.round(height * scale)) };
+};
+
+const drawUpscaled = (ctx: CanvasRenderingContext2D, image: ImageData) => {
+  const buffer = document.createElement("canvas");
+  buffer.width = image.width;
+  buffer.height = image.height;
+  buffer.getContext("2d")?.putImageData(image, 0, 0);
+
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(buffer, 0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.restore();
+};
+
+const lutCache = new Map<HeatmapPalette, Uint8ClampedArray>();
+
+const parseHex = (hex: string): [number, number, number] => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+/** 256-entry RGB lookup table, evenly interpolated between the palette stops. */
+export const getColorLut = (palette: HeatmapPalette): Uint8ClampedArray => {
+  const cached = lutCache.get(palette);
+  if (cached) return cached;
+
+  const stops = (HEATMAP_PALETTES.find((p) => p.id === palette) ?? HEATMAP_PALETTES[0]).stops.map(parseHex);
+  const lut = new Uint8ClampedArray(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const pos = (i / 255) * (stops.length - 1);
+    const lo = Math.floor(pos);
+    const hi = Math.min(stops.length - 1, lo + 1);
+    const t = pos - lo;
+    for (let c = 0; c < 3; c++) {
+      lut[i * 3 + c] = stops[lo][c] + (stops[hi][c] - stops[lo][c]) * t;
+    }
+  }
+  lutCache.set(palette, lut);
+  return lut;
+};
+
+// Sums an intensity-weighted Gaussian per hotspot. The kernel's standard
+// deviation is half the radius, so the radius slider reads as "how far
+// attention spreads" rather than a hard edge.
+const accumulateKernels = (hotspots: Hotspot[], width: number, height: number, radiusPercent: number) => {
+  const grid = new Float32Array(width * height);
+  const sigma = Math.max(1, (Math.min(width, height) * radiusPercent) / 100 / 2);
+  const extent = Math.ceil(sigma * 3);
+  const twoSigmaSq = 2 * sigma * sigma;
+
+  hotspots.forEach((spot) => {
+    const weight = Math.max(0, Math.min(1, spot.intensity));
+    if (weight === 0) return;
+    const cx = (spot.x / 100) * width;
+    const cy = (spot.y / 100) * height;
+    const x0 = Math.max(0, Math.floor(cx - extent));
+    const x1 = Math.min(width - 1, Math.ceil(cx + extent));
+    const y0 = Math.max(0, Math.floor(cy - extent));
+    const y1 = Math.min(height - 1, Math.ceil(cy + extent));
+    for (let y = y0; y <= y1; y++) {
+      const dy = y - cy;
+      for (let x = x0; x <= x1; x++) {
+        const dx = x - cx;
+        grid[y * width + x] += weight * Math.exp(-(dx * dx + dy * dy) / twoSigmaSq);
+      }
+    }
+  });
+  return grid;
+};
+
+/** Attention density on a width x height grid, normalized so the densest cell is 1. */
+export const computeDensityGrid = (hotspots: Hotspot[], width: number, height: number, radiusPercent: number) => {
+  const grid = accumulateKernels(hotspots, width, height, radiusPercent);
+  let max = 0;
+  for (let i = 0; i < grid.length; i++) if (grid[i] > max) max = grid[i];
+  if (max > 0) for (let i = 0; i < grid.length; i++) grid[i] /= max;
+  return grid;
+};
+
+/**
+ * The colored density layer for an image of width x height, at grid resolution
+ * (see GRID_MAX_SIDE); callers scale it up. Values under the threshold stay
+ * transparent; above it, color and alpha both rise with density so the image
+ * remains visible through sparse areas. Needs no canvas, so it also runs in Node.
+ */
+export const renderDensityPixels = (hotspots: Hotspot[], width: number, height: number, settings: HeatmapSettings): PixelBuffer => {
+  const { gw, gh } = gridSize(width, height);
+  const grid = computeDensityGrid(hotspots, gw, gh, settings.radius);
+  const lut = getColorLut(settings.palette);
+  const threshold = Math.max(0, Math.min(0.99, settings.threshold));
+
+  const data = new Uint8ClampedArray(gw * gh * 4);
+  for (let i = 0; i < grid.length; i++) {
+    const v = grid[i];
+    if (v <= threshold) continue;
+    const t = (v - threshold) / (1 - threshold);
+    const idx = Math.round(t * 255) * 3;
+    data[i * 4] = lut[idx];
+    data[i * 4 + 1] = lut[idx + 1];
+    data[i * 4 + 2] = lut[idx + 2];
+    data[i * 4 + 3] = Math.round(255 * settings.opacity * Math.sqrt(t));
+  }
+  return { width: gw, height: gh, data };
+};
+
+/** Draws the density heatmap over the whole canvas. */
+export const drawDensityHeatmap = (ctx: CanvasRenderingContext2D, hotspots: Hotspot[], settings: HeatmapSettings) => {
+  const { width, height } = ctx.canvas;
+  if (width === 0 || height === 0) return;
+
+  const pixels = renderDensityPixels(hotspots, width, height, settings);
+  drawUpscaled(ctx, new ImageData(pixels.data, pixels.width, pixels.height));
+};
+
+// CSS gradient preview of a palette, for the controls
+export const paletteGradient = (palette: HeatmapPalette): string => {
+  const stops = (HEATMAP_PALETTES.find((p) => p.id === palette) ?? HEATMAP_PALETTES[0]).stops;
+  return `linear-gradient(90deg, ${stops.join(", ")})`;
+};
+
+// -------------------------
+// Difference maps (A/B)
+// -------------------------
+
+// Blue where the variant loses attention, red where it gains (ColorBrewer RdBu)
+export const DIFFERENCE_STOPS = ["#2166ac", "#67a9cf", "#d1e5f0", "#f7f7f7", "#fddbc7", "#ef8a62", "#b2182b"];
+
+/**
+ * Variant minus baseline attention, in -1..1. Each density is first scaled to
+ * sum to 1 so both images spend the same attention budget; the result shows
+ * where attention moved rather than which image has more hotspots.
+ */
+export const computeDifferenceGrid = (
+  baseline: Hotspot[],
+  variant: Hotspot[],
+  width: number,
+  height: number,
+  radiusPercent: number
+) => {
+  const a = accumulateKernels(baseline, width, height, radiusPercent);
+  const b = accumulateKernels(variant, width, height, radiusPercent);
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < a.length; i++) {
+    sumA += a[i];
+    sumB += b[i];
+  }
+
+  const diff = new Float32Array(a.length);
+  let maxAbs = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff[i] = (sumB > 0 ? b[i] / sumB : 0) - (sumA > 0 ? a[i] / sumA : 0);
+    maxAbs = Math.max(maxAbs, Math.abs(diff[i]));
+  }
+  if (maxAbs > 0) for (let i = 0; i < diff.length; i++) diff[i] /= maxAbs;
+  return diff;
+};
+
+export const drawDifferenceMap = (
+  ctx: CanvasRenderingContext2D,
+  baseline: Hotspot[],
+  variant: Hotspot[],
+  settings: HeatmapSettings
+) => {
+  const { width, height } = ctx.canvas;
+  if (width === 0 || height === 0) return;
+
+  const { gw, gh } = gridSize(width, height);
+  const diff = computeDifferenceGrid(baseline, variant, gw, gh, settings.radius);
+  const stops = DIFFERENCE_STOPS.map(parseHex);
+  const threshold = Math.max(0, Math.min(0.99, settings.threshold));
+
+  const image = new ImageData(gw, gh);
+  for (let i = 0; i < diff.length; i++) {
+    const magnitude = Math.abs(diff[i]);
+    if (magnitude <= threshold) continue;
+    // -1 maps to the first stop, +1 to the last
+    const pos = ((diff[i] + 1) / 2) * (stops.length - 1);
+    const lo = Math.floor(pos);
+    const hi = Math.min(stops.length - 1, lo + 1);
+    const t = pos - lo;
+    for (let c = 0; c < 3; c++) {
+      image.data[i * 4 + c] = stops[lo][c] + (stops[hi][c] - stops[lo][c]) * t;
+    }
+    image.data[i * 4 + 3] = Math.round(255 * settings.opacity * Math.sqrt((magnitude - threshold) / (1 - threshold)));
+  }
+
+  drawUpscaled(ctx, image);
+};
+
+const nearestLabel = (hotspots: Hotspot[], x: number, y: number) => {
+  let best: Hotspot | undefined;
+  let bestDistance = Infinity;
+  hotspots.forEach((h) => {
+    const d = Math.hypot(h.x - x, h.y - y);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = h;
+    }
+  });
+  return best?.label;
+};
+
+/** Where the variant gains the most attention and where it loses the most. */
+export const findDifferencePeaks = (
+  baseline: Hotspot[],
+  variant: Hotspot[],
+  radiusPercent: number
+): { gain: DifferencePeak | null; loss: DifferencePeak | null } => {
+  const size = 100; // Square grid in percentage space is enough to locate peaks
+  const diff = computeDifferenceGrid(baseline, variant, size, size, radiusPercent);
+  let maxIdx = -1;
+  let minIdx = -1;
+  for (let i = 0; i < diff.length; i++) {
+    if (diff[i] > 0 && (maxIdx < 0 || diff[i] > diff[maxIdx])) maxIdx = i;
+    if (diff[i] < 0 && (minIdx < 0 || diff[i] < diff[minIdx])) minIdx = i;
+  }
+
+  const toPeak = (idx: number, owner: Hotspot[]): DifferencePeak | null => {
+    if (idx < 0) return null;
+    const x = (idx % size) + 0.5;
+    const y = Math.floor(idx / size) + 0.5;
+    return { x, y, value: diff[idx], label: nearestLabel(owner, x, y) };
+  };
+
+  return { gain: toPeak(maxIdx, variant), loss: toPeak(minIdx, baseline) };
+};
@@ -0,0 +1,149 @@
+import { DeviceViewport, DeviceViewportId, Hotspot, HotspotSurvival, PixelBuffer, ViewportHotspotCheck, ViewportSimulation } from "../types";
+import { loadImage } from "./overlayRenderer";
+import { analyzeSaliency, sampleSaliency } from "./saliencyService";
+import { gradientMagnitude } from "./pixelOps";
+
+export const DEVICE_VIEWPORTS: DeviceViewport[] = [
+  { id: "mobileSearch", label: "Mobile Search", size: 150, description: "Amazon app search results tile" },
+  { id: "desktopSearch", label: "Desktop Search", size: 220, description: "Desktop search results grid" },
+  { id: "detailCarousel", label: "Detail-Page Carousel", size: 375, description: "Full-width image carousel on a phone" },
+];
+
+// Sent alongside the uploads when device evidence is requested; the carousel is
+// close enough to the upload that it adds cost without new information
+export const EVIDENCE_VIEWPORTS: DeviceViewportId[] = ["mobileSearch", "desktopSearch"];
+
+export const getDeviceViewport = (id: DeviceViewportId): DeviceViewport =>
+  DEVICE_VIEWPORTS.find((v) => v.id === id) ?? DEVICE_VIEWPORTS[0];
+
+// Resolution the full-size reference is compared at; fine text is still intact here
+const REFERENCE_SIDE = 512;
+// Patch around each hotspot whose detail is measured, as a fraction of the short side
+const PATCH_FRACTION = 0.05;
+const BLURRED_BELOW = 0.5;
+const LOST_BELOW = 0.25;
+
+const toCanvas = (source: CanvasImageSource, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+};
+
+const fitSize = (width: number, height: number, maxSide: number) => {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const readPixels = (canvas: HTMLCanvasElement): PixelBuffer => {
+  const { data } = canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height);
+  return { width: canvas.width, height: canvas.height, data };
+};
+
+const patchEnergy = (gradient: Float32Array, width: number, height: number, hotspot: Hotspot) => {
+  const cx = Math.round((hotspot.x / 100) * (width - 1));
+  const cy = Math.round((hotspot.y / 100) * (height - 1));
+  const r = Math.max(2, Math.round(Math.min(width, height) * PATCH_FRACTION));
+  let sum = 0;
+  let count = 0;
+  for (let y = Math.max(0, cy - r); y <= Math.min(height - 1, cy + r); y++) {
+    for (let x = Math.max(0, cx - r); x <= Math.min(width - 1, cx + r); x++) {
+      sum += gradient[y * width + x];
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+};
+
+const classify = (salience: number, detailRetention: number): HotspotSurvival =>
+  salience < LOST_BELOW ? "lost" : detailRetention < BLURRED_BELOW ? "blurred" : "survives";
+
+/**
+ * Renders the asset at a real display size and checks each hotspot: does it
+ * still stand out (pixel saliency at that size), and does it keep its detail
+ * (edge energy after downscaling, compared with the full-size reference)?
+ */
+export const simulateViewport = async (imageSrc: string, hotspots: Hotspot[], viewport: DeviceViewport): Promise<ViewportSimulation> => {
+  const img = await loadImage(imageSrc);
+  const ref = fitSize(img.naturalWidth, img.naturalHeight, REFERENCE_SIDE);
+  const small = fitSize(img.naturalWidth, img.naturalHeight, viewport.size);
+
+  const reference = readPixels(toCanvas(img, ref.width, ref.height));
+  const smallCanvas = toCanvas(img, small.width, small.height);
+  // Back up to the reference size so both gradients are measured on the same grid
+  const degraded = readPixels(toCanvas(smallCanvas, ref.width, ref.height));
+
+  const refGradient = gradientMagnitude(reference);
+  const degradedGradient = gradientMagnitude(degraded);
+  const saliency = analyzeSaliency(readPixels(smallCanvas));
+
+  const checks: ViewportHotspotCheck[] = hotspots.map((hotspot) => {
+    const before = patchEnergy(refGradient, ref.width, ref.height, hotspot);
+    const after = patchEnergy(degradedGradient, ref.width, ref.height, hotspot);
+    // Flat regions have no detail to lose
+    const detailRetention = before < 0.02 ? 1 : Math.min(1, after / before);
+    const salience = sampleSaliency(saliency.map, hotspot.x, hotspot.y);
+    return { hotspot, detailRetention, salience, status: classify(salience, detailRetention) };
+  });
+
+  const totalIntensity = hotspots.reduce((sum, h) => sum + h.intensity, 0);
+  const retained = checks.reduce((sum, c) => sum + c.hotspot.intensity * c.detailRetention, 0);
+
+  return {
+    viewport,
+    renderSrc: smallCanvas.toDataURL("image/png"),
+    width: small.width,
+    height: small.height,
+    checks,
+    legibilityScore: totalIntensity > 0 ? Math.round((retained / totalIntensity) * 100) : 100,
+  };
+};
+
+export const simulateAllViewports = (imageSrc: string, hotspots: Hotspot[]): Promise<ViewportSimulation[]> =>
+  Promise.all(DEVICE_VIEWPORTS.map((viewport) => simulateViewport(imageSrc, hotspots, viewport)));
+
+/** Base64 PNG of an uploaded file at a viewport's size, for sending to the model. */
+export const renderFileAtViewport = async (file: File, viewport: DeviceViewport): Promise<string> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const size = fitSize(img.naturalWidth, img.naturalHeight, viewport.size);
+    return toCanvas(img, size.width, size.height).toDataURL("image/png").split(",")[1];
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Amazon's recommended size for zoomable product images
+export const DOWNSCALE_MAX_SIDE = 2000;
+
+/**
+ * Re-encodes an upload as a JPEG no larger than `maxSide`, for images the model
+ * rejects for their size or format. Transparent areas become white, the
+ * background Amazon shows them on.
+ */
+export const downscaleImageFile = async (file: File, maxSide: number): Promise<{ file: File; preview: string }> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const size = fitSize(img.naturalWidth, img.naturalHeight, maxSide);
+    const canvas = toCanvas(img, size.width, size.height);
+    const ctx = canvas.getContext("2d")!;
+    ctx.globalCompositeOperation = "destination-over";
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, size.width, size.height);
+
+    const blob = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Could not encode the image"))), "image/jpeg", 0.9));
+    const preview = canvas.toDataURL("image/jpeg", 0.9);
+    const name = `${file.name.replace(/\.[^.]*$/, "")}.jpg`;
+    return { file: new File([blob], name, { type: "image/jpeg" }), preview };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,17 @@
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// e.g. "heatmap-studio-product-hero-image-2025-12-01.pdf"
+export const exportFileName = (label: string, extension: string, date: Date = new Date()): string => {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `heatmap-studio-${slug}-${date.toISOString().slice(0, 10)}.${extension}`;
+};
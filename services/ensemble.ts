@@ -0,0 +1,285 @@
+import {
+  AnalysisReport, AnalysisResult, ComparativeMetric, ConsensusHotspot, EnsembleStability, EnsembleSummary, Hotspot,
+  RecommendationRecurrence, ScoreInterval,
+} from "../types";
+import { getVariantHotspots } from "./variants";
+
+export const ENSEMBLE_RUN_OPTIONS = [1, 3, 5, 7];
+
+type MetricKey = keyof AnalysisReport["metrics"];
+const METRIC_KEYS: MetricKey[] = ["visibilityScore", "goalAlignmentScore", "clarityScore", "cognitiveLoadScore", "brandImpactScore"];
+
+// Two-sided 95% t critical values by degrees of freedom; small ensembles need wide intervals
+const T_95 = [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262];
+const tCritical = (df: number) => (df <= 0 ? 0 : T_95[df - 1] ?? 1.96);
+
+// Hotspots further apart than this (in % of the image) are never merged
+const CLUSTER_RADIUS = 12;
+const SIMILAR_TITLE = 0.5;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export const scoreInterval = (values: number[], min: number, max: number): ScoreInterval => {
+  const n = values.length;
+  const avg = mean(values);
+  const stdDev = n > 1 ? Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (n - 1)) : 0;
+  const half = (tCritical(n - 1) * stdDev) / Math.sqrt(n);
+  return {
+    mean: round1(avg),
+    low: round1(Math.max(min, avg - half)),
+    high: round1(Math.min(max, avg + half)),
+    stdDev: round1(stdDev),
+  };
+};
+
+// -------------------------
+// Hotspots
+// -------------------------
+
+interface Cluster {
+  x: number;
+  y: number;
+  members: { run: number; hotspot: Hotspot }[];
+}
+
+const mostCommon = (values: string[]): string | undefined => {
+  const counts = new Map<string, number>();
+  values.forEach((v) => counts.set(v, (counts.get(v) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+/**
+ * Greedy clustering: strongest points first, each joining the nearest cluster
+ * within CLUSTER_RADIUS that has no point from the same run yet. Clusters most
+ * runs agree on become consensus points, renumbered by their mean attention order.
+ */
+export const clusterHotspots = (runs: Hotspot[][]): ConsensusHotspot[] => {
+  const clusters: Cluster[] = [];
+  const points = runs
+    .flatMap((hotspots, run) => hotspots.map((hotspot) => ({ run, hotspot })))
+    .sort((a, b) => b.hotspot.intensity - a.hotspot.intensity);
+
+  for (const point of points) {
+    let best: Cluster | null = null;
+    let bestDistance = CLUSTER_RADIUS;
+    for (const cluster of clusters) {
+      if (cluster.members.some((m) => m.run === point.run)) continue;
+      const distance = Math.hypot(cluster.x - point.hotspot.x, cluster.y - point.hotspot.y);
+      if (distance <= bestDistance) {
+        best = cluster;
+        bestDistance = distance;
+      }
+    }
+    if (best) {
+      best.members.push(point);
+      best.x = mean(best.members.map((m) => m.hotspot.x));
+      best.y = mean(best.members.map((m) => m.hotspot.y));
+    } else {
+      clusters.push({ x: point.hotspot.x, y: point.hotspot.y, members: [point] });
+    }
+  }
+
+  const consensus = clusters.map((cluster) => {
+    const hotspots = cluster.members.map((m) => m.hotspot);
+    const timed = hotspots.map((h) => h.fixationMs).filter((ms): ms is number => ms !== undefined);
+    return {
+      order: mean(hotspots.map((h) => h.id)),
+      x: round1(cluster.x),
+      y: round1(cluster.y),
+      // Runs without a point here count as zero attention
+      intensity: Math.round((hotspots.reduce((sum, h) => sum + h.intensity, 0) / runs.length) * 100) / 100,
+      label: mostCommon(hotspots.map((h) => h.label).filter((l): l is string => Boolean(l))),
+      fixationMs: timed.length > 0 ? Math.round(mean(timed)) : undefined,
+      spread: round1(Math.sqrt(mean(hotspots.map((h) => (h.x - cluster.x) ** 2 + (h.y - cluster.y) ** 2)))),
+      support: cluster.members.length / runs.length,
+    };
+  });
+
+  // When no point reaches a majority, keep the best supported ones rather than nothing
+  const majority = consensus.filter((c) => c.support > 0.5);
+  const kept = majority.length > 0
+    ? majority
+    : [...consensus].sort((a, b) => b.support - a.support || b.intensity - a.intensity).slice(0, Math.max(1, Math.round(points.length / runs.length)));
+
+  return kept
+    .sort((a, b) => a.order - b.order)
+    .map(({ order: _order, label, fixationMs, ...point }, idx) => ({
+      ...point,
+      id: idx + 1,
+      ...(label ? { label } : {}),
+      ...(fixationMs !== undefined ? { fixationMs } : {}),
+    }));
+};
+
+// -------------------------
+// Recommendations
+// -------------------------
+
+const STOP_WORDS = new Set(["the", "and", "for", "with", "your", "add", "use", "make", "more", "image", "main", "product"]);
+
+const titleTokens = (title: string): Set<string> =>
+  new Set(title.toLowerCase().replace(/[^a-z0-9\s]/g, " ").split(/\s+/).filter((w) => w.length > 2 && !STOP_WORDS.has(w)));
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = [...a].filter((w) => b.has(w)).length;
+  return shared / (a.size + b.size - shared);
+};
+
+// Titles are reworded between runs, so they are matched on shared content words
+export const groupRecommendations = (runs: AnalysisReport["recommendations"][]): RecommendationRecurrence[] => {
+  const groups: { title: string; type: RecommendationRecurrence["type"]; tokens: Set<string>; runs: Set<number> }[] = [];
+  runs.forEach((recommendations, run) => {
+    recommendations.forEach((rec) => {
+      const tokens = titleTokens(rec.title);
+      let best: (typeof groups)[number] | null = null;
+      let bestScore = SIMILAR_TITLE;
+      for (const group of groups) {
+        if (group.runs.has(run)) continue;
+        const score = similarity(tokens, group.tokens);
+        if (score >= bestScore) {
+          best = group;
+          bestScore = score;
+        }
+      }
+      if (best) best.runs.add(run);
+      else groups.push({ title: rec.title, type: rec.type, tokens, runs: new Set([run]) });
+    });
+  });
+  return groups
+    .map((g) => ({ title: g.title, type: g.type, runs: g.runs.size, share: g.runs.size / runs.length }))
+    .sort((a, b) => b.runs - a.runs);
+};
+
+// -------------------------
+// Combining runs
+// -------------------------
+
+const majorityVote = (values: string[]): { winner: string; agreement: number } | undefined => {
+  const winner = mostCommon(values);
+  return winner === undefined ? undefined : { winner, agreement: values.filter((v) => v === winner).length / values.length };
+};
+
+const winnerOf = (result: AnalysisResult): string | undefined =>
+  result.report.abTestVerdict?.winner ?? result.report.variantLeaderboard?.find((s) => s.rank === 1)?.variant;
+
+const combineComparative = (results: AnalysisResult[], base: AnalysisResult) => {
+  if (!base.report.comparativeAnalysis) return undefined;
+  return base.report.comparativeAnalysis.map((m) => {
+    const key = m.metric.trim().toLowerCase();
+    const matches = results
+      .map((r) => r.report.comparativeAnalysis?.find((o) => o.metric.trim().toLowerCase() === key))
+      .filter((o): o is ComparativeMetric => Boolean(o));
+    return {
+      metric: m.metric,
+      scoreA: scoreInterval(matches.map((o) => o.scoreA), 0, 100),
+      scoreB: scoreInterval(matches.map((o) => o.scoreB), 0, 100),
+    };
+  });
+};
+
+const rateStability = (summary: Omit<EnsembleSummary, "stability">): EnsembleStability => {
+  if (summary.runs < 2) return "unstable";
+  // Widest half-interval on a 0-10 scale
+  const widths = [
+    ...METRIC_KEYS.map((key) => (summary.metrics[key].high - summary.metrics[key].low) / 2),
+    ...(summary.comparativeAnalysis ?? []).flatMap((m) => [(m.scoreA.high - m.scoreA.low) / 20, (m.scoreB.high - m.scoreB.low) / 20]),
+  ];
+  const widest = Math.max(...widths);
+  const agreement = summary.winnerAgreement ?? 1;
+  if (widest <= 1 && agreement >= 0.8) return "stable";
+  if (widest <= 2 && agreement >= 0.6) return "moderate";
+  return "unstable";
+};
+
+/**
+ * Merges several results for the same images into one. Scores become run means,
+ * hotspots become consensus points, and all text comes from the run closest to
+ * the mean scores among those that picked the majority winner.
+ */
+export const combineRuns = (results: AnalysisResult[], failedRuns = 0): AnalysisResult => {
+  const metrics = Object.fromEntries(
+    METRIC_KEYS.map((key) => [key, scoreInterval(results.map((r) => r.report.metrics[key]), 1, 10)])
+  ) as EnsembleSummary["metrics"];
+
+  const winners = results.map(winnerOf).filter((w): w is string => Boolean(w));
+  const vote = winners.length > 0 ? majorityVote(winners) : undefined;
+  const candidates = vote ? results.filter((r) => winnerOf(r) === vote.winner) : results;
+  const distance = (r: AnalysisResult) => METRIC_KEYS.reduce((sum, key) => sum + (r.report.metrics[key] - metrics[key].mean) ** 2, 0);
+  const base = candidates.reduce((best, r) => (distance(r) < distance(best) ? r : best));
+
+  const hotspotSets = getVariantHotspots(base).map((_, idx) =>
+    clusterHotspots(results.map((r) => getVariantHotspots(r)[idx] ?? [])));
+  const comparativeAnalysis = combineComparative(results, base);
+
+  const summaryWithoutRating = {
+    runs: results.length,
+    failedRuns,
+    metrics,
+    comparativeAnalysis,
+    consensusHotspots: hotspotSets,
+    recommendations: groupRecommendations(results.map((r) => r.report.recommendations)),
+    winnerAgreement: vote?.agreement,
+  };
+  const ensemble: EnsembleSummary = { ...summaryWithoutRating, stability: rateStability(summaryWithoutRating) };
+
+  const plain = (hotspots: ConsensusHotspot[]): Hotspot[] => hotspots.map(({ spread: _spread, support: _support, ...h }) => h);
+  const report: AnalysisReport = {
+    ...base.report,
+    metrics: Object.fromEntries(METRIC_KEYS.map((key) => [key, metrics[key].mean])) as AnalysisReport["metrics"],
+  };
+  if (comparativeAnalysis) {
+    report.comparativeAnalysis = comparativeAnalysis.map((m) => ({
+      metric: m.metric,
+      scoreA: m.scoreA.mean,
+      scoreB: m.scoreB.mean,
+      winner: m.scoreA.mean === m.scoreB.mean ? "Tie" : m.scoreA.mean > m.scoreB.mean ? "A" : "B",
+    }));
+  }
+  if (base.report.variantLeaderboard) {
+    report.variantLeaderboard = base.report.variantLeaderboard
+      .map((s) => ({
+        ...s,
+        overallScore: round1(mean(results.map((r) => r.report.variantLeaderboard?.find((o) => o.variant === s.variant)?.overallScore ?? s.overallScore))),
+      }))
+      .sort((a, b) => b.overallScore - a.overallScore)
+      .map((s, idx) => ({ ...s, rank: idx + 1 }));
+  }
+
+  return {
+    ...base,
+    report,
+    hotspots: plain(hotspotSets[0]),
+    ...(base.hotspotsB ? { hotspotsB: plain(hotspotSets[1]) } : {}),
+    ...(base.variantHotspots
+      ? { variantHotspots: base.variantHotspots.map((v, idx) => ({ variant: v.variant, hotspots: plain(hotspotSets[idx]) })) }
+      : {}),
+    ensemble,
+  };
+};
+
+/**
+ * Runs one after another so an ensemble never multiplies the request rate.
+ * Failed runs are skipped; a cancelled one ends the whole ensemble.
+ */
+export const runEnsemble = async (
+  runs: number,
+  analyze: () => Promise<AnalysisResult>,
+  onProgress?: (completed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  const results: AnalysisResult[] = [];
+  let lastError: unknown;
+  for (let run = 0; run < runs; run++) {
+    try {
+      results.push(await analyze());
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      lastError = error;
+    }
+    onProgress?.(run + 1, runs);
+  }
+  if (results.length === 0) throw lastError;
+  return combineRuns(results, runs - results.length);
+};
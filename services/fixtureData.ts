@@ -0,0 +1,238 @@
+import { AnalysisContext, AnalysisReport, AnalysisResult, Hotspot } from "../types";
+
+// Recorded model responses used by the offline fixture provider.
+// They follow the exact shape returned by the Gemini responseSchema so the
+// UI can be developed and demoed without a network connection.
+
+const productHotspots: Hotspot[] = [
+  { id: 1, x: 50, y: 46, intensity: 0.95, label: "Product", fixationMs: 580 },
+  { id: 2, x: 38, y: 30, intensity: 0.78, label: "Cap / Top", fixationMs: 500 },
+  { id: 3, x: 52, y: 62, intensity: 0.7, label: "Front Label", fixationMs: 460 },
+  { id: 4, x: 64, y: 48, intensity: 0.55, label: "Side Profile", fixationMs: 390 },
+  { id: 5, x: 30, y: 78, intensity: 0.42, label: "Accessory", fixationMs: 330 },
+  { id: 6, x: 72, y: 80, intensity: 0.35, label: "Pack Count", fixationMs: 300 },
+  { id: 7, x: 18, y: 16, intensity: 0.22, label: "Logo", fixationMs: 240 },
+  { id: 8, x: 84, y: 18, intensity: 0.15, label: "Corner Badge", fixationMs: 210 },
+];
+
+const variantHotspots: Hotspot[] = [
+  { id: 1, x: 48, y: 40, intensity: 0.92, label: "Product", fixationMs: 560 },
+  { id: 2, x: 74, y: 22, intensity: 0.85, label: "Benefit Callout", fixationMs: 530 },
+  { id: 3, x: 50, y: 64, intensity: 0.68, label: "Front Label", fixationMs: 450 },
+  { id: 4, x: 22, y: 70, intensity: 0.52, label: "Lifestyle Inset", fixationMs: 380 },
+  { id: 5, x: 80, y: 76, intensity: 0.4, label: "Pack Count", fixationMs: 320 },
+  { id: 6, x: 16, y: 14, intensity: 0.3, label: "Logo", fixationMs: 280 },
+  { id: 7, x: 60, y: 88, intensity: 0.18, label: "Footer Claim", fixationMs: 220 },
+  { id: 8, x: 90, y: 50, intensity: 0.12, label: "Edge Shadow", fixationMs: 200 },
+];
+
+const gridHotspots: Hotspot[] = [
+  { id: 1, x: 18, y: 30, intensity: 0.9, label: "Sponsored Tile 1", fixationMs: 550 },
+  { id: 2, x: 50, y: 28, intensity: 0.82, label: "Your Product", fixationMs: 520 },
+  { id: 3, x: 50, y: 58, intensity: 0.66, label: "Price & Prime Badge", fixationMs: 440 },
+  { id: 4, x: 82, y: 32, intensity: 0.6, label: "Competitor Tile 3", fixationMs: 420 },
+  { id: 5, x: 18, y: 60, intensity: 0.44, label: "Star Rating", fixationMs: 340 },
+  { id: 6, x: 82, y: 62, intensity: 0.38, label: "Competitor Price", fixationMs: 310 },
+  { id: 7, x: 50, y: 86, intensity: 0.2, label: "Second Row", fixationMs: 230 },
+  { id: 8, x: 18, y: 88, intensity: 0.14, label: "Second Row", fixationMs: 200 },
+];
+
+const baseReport: AnalysisReport = {
+  summary: "The product dominates the first fixation and the silhouette reads clearly at thumbnail size. Secondary attention drifts to the cap and front label, while the logo and pack count are picked up late, so the value proposition is only partially communicated before the shopper scrolls on.",
+  metrics: {
+    visibilityScore: 8,
+    goalAlignmentScore: 7,
+    clarityScore: 8,
+    cognitiveLoadScore: 3,
+    brandImpactScore: 5,
+  },
+  commercialProjections: {
+    predictedCTR: "Above Average (0.5-0.7%)",
+    conversionLiftPotential: "+8-12%",
+    searchVolumeRelevance: "Strong match for generic category terms, weak for branded queries.",
+    ctrLift: { low: 10, high: 25, unit: "%" },
+    conversionLift: { low: 8, high: 12, unit: "%" },
+  },
+  ppcStrategy: {
+    bidRecommendation: "Scale bids on exact-match category keywords; the image earns its impressions.",
+    keywordFocus: "Category head terms plus size/quantity modifiers",
+    adCopyAlignment: "Lead with the pack count and primary benefit in the headline.",
+  },
+  strategicInsights: [
+    {
+      scenario: "Winning",
+      observation: "Product occupies most of the frame and is the first fixation.",
+      businessImpact: "Higher CTR lowers effective CPC on competitive terms.",
+      actionPlan: ["Keep the current crop and angle", "Increase bids on top-of-search placements"],
+    },
+    {
+      scenario: "Losing",
+      observation: "Brand logo is only picked up in the last third of the scan path.",
+      businessImpact: "Weak brand recall reduces repeat purchases and branded search volume.",
+      actionPlan: ["Rotate the product so the logo faces the camera", "Test a tighter crop on the label"],
+    },
+    {
+      scenario: "Neutral",
+      observation: "Pack count is visible but small on mobile.",
+      businessImpact: "Shoppers may misjudge value and bounce from the detail page.",
+      actionPlan: ["Show the full multipack arrangement", "Verify legibility at 160px width"],
+    },
+  ],
+  hotspotsAnalysis: [
+    { element: "Product Body", attentionPercentage: "42%", rationale: "Highest contrast against the white background and centred in frame." },
+    { element: "Cap / Top", attentionPercentage: "21%", rationale: "Strong edge and colour break draws the second fixation." },
+    { element: "Front Label", attentionPercentage: "17%", rationale: "Text-like texture attracts reading behaviour." },
+    { element: "Logo", attentionPercentage: "8%", rationale: "Small and off-axis, picked up late." },
+  ],
+  blindSpots: [
+    { item: "Pack Count", insight: "Rarely fixated; value per unit is not communicated at a glance." },
+    { item: "Corner Badge", insight: "Sits in the peripheral zone and is ignored during fast scrolling." },
+  ],
+  recommendations: [
+    { title: "Face the logo forward", description: "Rotate the product 15-20 degrees so the brand mark lands in the first three fixations.", type: "visual" },
+    { title: "Surface the pack count", description: "Show every unit in the pack instead of relying on small text.", type: "content" },
+    { title: "Test a tighter crop", description: "Run a crop at 90% frame fill against the current image.", type: "test" },
+  ],
+  dominantColors: [
+    { hex: "#FFFFFF", name: "Pure White", psychology: "Clean, compliant, lets the product pop." },
+    { hex: "#1E3A8A", name: "Deep Navy", psychology: "Trust and reliability." },
+    { hex: "#F59E0B", name: "Amber", psychology: "Energy and urgency, draws the eye to the cap." },
+  ],
+};
+
+const shiftHotspots = (hotspots: Hotspot[], dx: number, dy: number): Hotspot[] =>
+  hotspots.map((h) => ({ ...h, x: Math.min(100, Math.max(0, h.x + dx)), y: Math.min(100, Math.max(0, h.y + dy)) }));
+
+const multiVariantHotspots: Hotspot[][] = [
+  productHotspots,
+  variantHotspots,
+  shiftHotspots(productHotspots, -6, 4),
+  shiftHotspots(variantHotspots, 5, -3),
+  shiftHotspots(productHotspots, 8, 6),
+  shiftHotspots(variantHotspots, -4, 8),
+];
+
+const multiVariantStandings = [
+  { variant: "B", overallScore: 81, scores: [82, 74, 84], verdict: "Benefit callout is read early without hurting product recognition." },
+  { variant: "D", overallScore: 76, scores: [78, 72, 77], verdict: "Strong colour contrast, slightly busier than B." },
+  { variant: "A", overallScore: 70, scores: [66, 82, 62], verdict: "Cleanest image but communicates little beyond the product." },
+  { variant: "C", overallScore: 64, scores: [60, 70, 61], verdict: "Tilted angle hides the label on mobile." },
+  { variant: "F", overallScore: 58, scores: [57, 60, 58], verdict: "Lifestyle inset competes with the product for the first fixation." },
+  { variant: "E", overallScore: 51, scores: [49, 55, 50], verdict: "Product fills too little of the frame." },
+];
+
+export const fixtureResults: Record<AnalysisContext, AnalysisResult> = {
+  [AnalysisContext.HERO]: {
+    report: baseReport,
+    hotspots: productHotspots,
+  },
+  [AnalysisContext.APLUS]: {
+    report: {
+      ...baseReport,
+      summary: "The lifestyle scene tells a clear story, but the feature callouts compete with the model's face for attention. Shoppers understand the use case quickly, while the key specification text is only read by the most engaged visitors.",
+      metrics: { ...baseReport.metrics, goalAlignmentScore: 6, cognitiveLoadScore: 6, brandImpactScore: 7 },
+      commercialProjections: {
+        predictedCTR: "Moderate engagement",
+        conversionLiftPotential: "+5-9%",
+        searchVolumeRelevance: "Supports long-tail use-case keywords.",
+        ctrLift: { low: 0, high: 5, unit: "%" },
+        conversionLift: { low: 5, high: 9, unit: "%" },
+      },
+    },
+    hotspots: variantHotspots,
+  },
+  [AnalysisContext.SEARCH]: {
+    report: {
+      ...baseReport,
+      summary: "The sponsored tile to the left captures the first fixation. Your product is the second stop thanks to the saturated packaging, but the price block is visually weaker than the competitor's Prime badge.",
+      metrics: { ...baseReport.metrics, visibilityScore: 6, goalAlignmentScore: 6, cognitiveLoadScore: 7 },
+      commercialProjections: {
+        predictedCTR: "Average (0.3-0.45%)",
+        conversionLiftPotential: "+4-6%",
+        searchVolumeRelevance: "Competing on high-volume generic terms against stronger thumbnails.",
+        ctrLift: { low: -10, high: 5, unit: "%" },
+        conversionLift: { low: 4, high: 6, unit: "%" },
+      },
+      ppcStrategy: {
+        bidRecommendation: "Hold bids on generic terms until the thumbnail is improved; push branded terms.",
+        keywordFocus: "Branded and long-tail feature keywords",
+        adCopyAlignment: "Call out the deal price in Sponsored Products headlines.",
+      },
+    },
+    hotspots: gridHotspots,
+  },
+  [AnalysisContext.STOREFRONT]: {
+    report: {
+      ...baseReport,
+      summary: "The hero banner establishes the brand, but navigation tiles below the fold receive little attention. Shoppers are unlikely to discover the wider catalogue, limiting basket size.",
+      metrics: { ...baseReport.metrics, clarityScore: 6, brandImpactScore: 8 },
+      commercialProjections: {
+        predictedCTR: "Moderate engagement",
+        conversionLiftPotential: "AOV +6%",
+        searchVolumeRelevance: "Mostly branded traffic.",
+        ctrLift: { low: 0, high: 5, unit: "%" },
+        conversionLift: { low: 2, high: 6, unit: "%" },
+      },
+    },
+    hotspots: variantHotspots,
+  },
+  [AnalysisContext.AB_TEST]: {
+    report: {
+      ...baseReport,
+      summary: "Image B wins on benefit communication: the callout is fixated second, while Image A relies on the product alone. Image A remains slightly cleaner.",
+      abTestVerdict: {
+        winner: "Image B",
+        confidenceScore: 72,
+        keyDifferentiator: "Benefit callout in the upper right",
+        reasoning: "Simulated shoppers reach the value proposition two fixations earlier in Image B without losing product recognition.",
+      },
+      comparativeAnalysis: [
+        { metric: "Click-Through", scoreA: 64, scoreB: 78, winner: "B" },
+        { metric: "Clarity", scoreA: 80, scoreB: 74, winner: "A" },
+        { metric: "Purchase Intent", scoreA: 58, scoreB: 76, winner: "B" },
+      ],
+      variantProjections: [
+        { variant: "A", ctrLift: { low: 0, high: 5, unit: "%" }, conversionLift: { low: 0, high: 3, unit: "%" } },
+        { variant: "B", ctrLift: { low: 12, high: 22, unit: "%" }, conversionLift: { low: 6, high: 12, unit: "%" } },
+      ],
+    },
+    hotspots: productHotspots,
+    hotspotsB: variantHotspots,
+  },
+  [AnalysisContext.MULTI_VARIANT]: {
+    report: {
+      ...baseReport,
+      summary: "Variant B leads the field: its benefit callout is fixated second while the product stays the first fixation. Variants E and F lose attention to secondary elements and should be dropped from the next round.",
+      // Lifts scale with each variant's overall score around the current listing (70)
+      variantProjections: multiVariantStandings
+        .map((s) => ({
+          variant: s.variant,
+          ctrLift: { low: (s.overallScore - 70) * 0.8 - 4, high: (s.overallScore - 70) * 0.8 + 4, unit: "%" as const },
+          conversionLift: { low: (s.overallScore - 70) * 0.4 - 2, high: (s.overallScore - 70) * 0.4 + 2, unit: "%" as const },
+        }))
+        .sort((a, b) => a.variant.localeCompare(b.variant)),
+      variantLeaderboard: multiVariantStandings.map((s, idx) => ({
+        variant: s.variant,
+        rank: idx + 1,
+        overallScore: s.overallScore,
+        metricScores: [
+          { metric: "Click-Through", score: s.scores[0] },
+          { metric: "Clarity", score: s.scores[1] },
+          { metric: "Purchase Intent", score: s.scores[2] },
+        ],
+        verdict: s.verdict,
+      })),
+      pairwiseComparisons: multiVariantStandings.flatMap((a, i) =>
+        multiVariantStandings.slice(i + 1).map((b) => ({
+          variantA: a.variant,
+          variantB: b.variant,
+          winner: a.overallScore - b.overallScore < 3 ? "Tie" : a.variant,
+          confidenceScore: Math.min(95, 50 + (a.overallScore - b.overallScore) * 2),
+          keyDifferentiator: a.verdict,
+        }))
+      ),
+    },
+    hotspots: multiVariantHotspots[0],
+    variantHotspots: multiVariantHotspots.map((hotspots, idx) => ({ variant: String.fromCharCode(65 + idx), hotspots })),
+  },
+};
@@ -0,0 +1,53 @@
+import { AnalysisContext, AnalysisProvider, AnalysisResult, AnalyzeOptions } from "../types";
+import { fixtureResults } from "./fixtureData";
+import { buildProvisionalResult } from "./partialResult";
+
+// Short artificial delay so loading states can still be exercised offline.
+const FIXTURE_LATENCY_MS = 600;
+const FIXTURE_CHUNKS = 12;
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Sends the recording's JSON out in chunks over the artificial delay, so
+// progressive rendering and cancelling can be tried offline too.
+const replayAsStream = async (result: AnalysisResult, options: AnalyzeOptions) => {
+  const text = JSON.stringify(result);
+  const step = Math.ceil(text.length / FIXTURE_CHUNKS);
+  for (let end = step; end < text.length + step; end += step) {
+    await delay(FIXTURE_LATENCY_MS / FIXTURE_CHUNKS);
+    options.signal?.throwIfAborted();
+    const provisional = options.onPartial && buildProvisionalResult(text.slice(0, end));
+    if (provisional) options.onPartial!(provisional);
+  }
+};
+
+// Results are cloned so that consumers mutating them never alter the recordings.
+const clone = (result: AnalysisResult): AnalysisResult => JSON.parse(JSON.stringify(result));
+
+// The multi-variant recording covers six variants; keep only as many as were uploaded.
+const trimVariants = (result: AnalysisResult, count: number) => {
+  const { report } = result;
+  result.variantHotspots = result.variantHotspots!.slice(0, count);
+  const kept = new Set(result.variantHotspots.map((v) => v.variant));
+  report.variantLeaderboard = report.variantLeaderboard
+    ?.filter((s) => kept.has(s.variant))
+    .map((s, idx) => ({ ...s, rank: idx + 1 }));
+  report.pairwiseComparisons = report.pairwiseComparisons?.filter((p) => kept.has(p.variantA) && kept.has(p.variantB));
+  report.variantProjections = report.variantProjections?.filter((p) => kept.has(p.variant));
+};
+
+export const fixtureProvider: AnalysisProvider = {
+  id: "fixture",
+  label: "Offline Fixtures",
+  description: "Recorded sample results, no network or API key required",
+  model: "fixture",
+  promptVersion: "fixture-1",
+  analyze: async (files: File[], context: AnalysisContext, options: AnalyzeOptions = {}) => {
+    const result = clone(fixtureResults[context]);
+    // A/B recordings carry two images' worth of hotspots; drop B when only one file was sent.
+    if (files.length < 2) delete result.hotspotsB;
+    if (result.variantHotspots) trimVariants(result, files.length);
+    await replayAsStream(result, options);
+    return result;
+  },
+};
@@ -1,239 +1,222 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisContext, AnalysisResult } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const hotspotSchema = {
-  type: Type.ARRAY,
-  description: "List of 8-12 coordinate points representing the SEQUENCE of visual attention.",
-  items: {
-    type: Type.OBJECT,
-    properties: {
-      id: { type: Type.NUMBER, description: "Order of attention (1, 2, 3...)" },
-      x: { type: Type.NUMBER, description: "X coordinate percentage (0-100) from left" },
-      y: { type: Type.NUMBER, description: "Y coordinate percentage (0-100) from top" },
-      intensity: { type: Type.NUMBER, description: "Intensity 0.0 to 1.0" },
-      label: { type: Type.STRING },
-    },
-    required: ["id", "x", "y", "intensity"],
-  },
-};
+import { Content, FinishReason, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { AnalysisContext, AnalysisProvider, AnalysisResult, AnalyzeOptions, ContextProfile, ValidationIssue } from "../types";
+import { responseSchema } from "./responseSchema";
+import { formatIssues, validateAnalysisResult, ValidationOutcome } from "./resultValidator";
+import { getDeviceViewport, renderFileAtViewport } from "./deviceSimulation";
+import { formatComplianceForPrompt } from "./complianceChecker";
+import { describeGridForPrompt } from "./searchGrid";
+import { getBuiltInProfile } from "./contextProfiles";
+import { formatListingForPrompt } from "./listingMetadata";
+import { variantLabel } from "./variants";
+import { buildProvisionalResult } from "./partialResult";
+import { AnalysisError, classifyError } from "./analysisErrors";
+import { getMarketplace } from "./marketplaces";
+import { getLanguage } from "./messages";
 
-const responseSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    report: {
-      type: Type.OBJECT,
-      properties: {
-        summary: { type: Type.STRING },
-        metrics: {
-          type: Type.OBJECT,
-          properties: {
-            visibilityScore: { type: Type.NUMBER, description: "Score 1-10" },
-            goalAlignmentScore: { type: Type.NUMBER, description: "Score 1-10" },
-            clarityScore: { type: Type.NUMBER, description: "Score 1-10" },
-            cognitiveLoadScore: { type: Type.NUMBER, description: "Score 1-10 (10 = High Clutter)" },
-            brandImpactScore: { type: Type.NUMBER, description: "Score 1-10" },
-          },
-          required: ["visibilityScore", "goalAlignmentScore", "clarityScore", "cognitiveLoadScore", "brandImpactScore"],
-        },
-        commercialProjections: {
-          type: Type.OBJECT,
-          properties: {
-            predictedCTR: { type: Type.STRING, description: "Estimated Click-Through Rate impact" },
-            conversionLiftPotential: { type: Type.STRING, description: "Estimated impact on Sales/Conversion" },
-            searchVolumeRelevance: { type: Type.STRING, description: "Relevance to high-volume keywords" },
-          },
-          required: ["predictedCTR", "conversionLiftPotential", "searchVolumeRelevance"],
-        },
-        ppcStrategy: {
-          type: Type.OBJECT,
-          properties: {
-            bidRecommendation: { type: Type.STRING, description: "Strategic advice for Bidding or Traffic" },
-            keywordFocus: { type: Type.STRING, description: "Keywords or Themes to target" },
-            adCopyAlignment: { type: Type.STRING, description: "Ad Copy or Headline suggestions" },
-          },
-          required: ["bidRecommendation", "keywordFocus", "adCopyAlignment"],
-        },
-        strategicInsights: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              scenario: { type: Type.STRING, enum: ["Winning", "Losing", "Neutral"] },
-              observation: { type: Type.STRING },
-              businessImpact: { type: Type.STRING, description: "Impact on ROI/RoAS/ACOS" },
-              actionPlan: { type: Type.ARRAY, items: { type: Type.STRING } },
-            },
-            required: ["scenario", "observation", "businessImpact", "actionPlan"],
-          },
-        },
-        abTestVerdict: {
-          type: Type.OBJECT,
-          description: "ONLY populate this if analyzing two images.",
-          properties: {
-            winner: { type: Type.STRING, enum: ["Image A", "Image B", "Inconclusive"] },
-            confidenceScore: { type: Type.NUMBER, description: "0-100" },
-            keyDifferentiator: { type: Type.STRING },
-            reasoning: { type: Type.STRING },
-          },
-          required: ["winner", "confidenceScore", "keyDifferentiator", "reasoning"],
-        },
-        comparativeAnalysis: {
-          type: Type.ARRAY,
-          description: "Side-by-side scoring for A/B tests (e.g. Appeal, Clarity, Trustworthiness).",
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              metric: { type: Type.STRING },
-              scoreA: { type: Type.NUMBER, description: "Score 0-100" },
-              scoreB: { type: Type.NUMBER, description: "Score 0-100" },
-              winner: { type: Type.STRING, enum: ["A", "B", "Tie"] },
-            },
-            required: ["metric", "scoreA", "scoreB", "winner"],
-          },
-        },
-        hotspotsAnalysis: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              element: { type: Type.STRING },
-              attentionPercentage: { type: Type.STRING, description: "e.g. '35%'" },
-              rationale: { type: Type.STRING },
-            },
-            required: ["element", "attentionPercentage", "rationale"],
-          },
-        },
-        blindSpots: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              item: { type: Type.STRING },
-              insight: { type: Type.STRING },
-            },
-            required: ["item", "insight"],
-          },
-        },
-        recommendations: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              title: { type: Type.STRING },
-              description: { type: Type.STRING },
-              type: { type: Type.STRING, enum: ["visual", "content", "test"] },
-            },
-            required: ["title", "description", "type"],
-          },
-        },
-        dominantColors: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              hex: { type: Type.STRING },
-              name: { type: Type.STRING },
-              psychology: { type: Type.STRING },
-            },
-            required: ["hex", "name", "psychology"],
-          },
-        },
-      },
-      required: ["summary", "metrics", "commercialProjections", "ppcStrategy", "strategicInsights", "hotspotsAnalysis", "blindSpots", "recommendations", "dominantColors"],
-    },
-    hotspots: hotspotSchema,
-    hotspotsB: { ...hotspotSchema, description: "Hotspots specifically for Image B (Second Image)" },
-  },
-  required: ["report", "hotspots"],
+const GEMINI_MODEL = "gemini-2.5-flash";
+export const PROMPT_VERSION = "2025.12-10";
+
+// Initial call plus up to two re-prompts with the validation errors
+const MAX_ATTEMPTS = 3;
+
+// Image types Gemini accepts as inline data
+const SUPPORTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp", "image/heic", "image/heif"];
+// Gemini caps inline data at 20 MB per request after base64 encoding; the rest is left for device renders and the prompt
+const MAX_UPLOAD_BYTES = 18 * 1024 * 1024;
+
+const BLOCKING_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+];
+
+const NOT_JSON = "Response was not valid JSON";
+
+const stripCodeFence = (text: string) =>
+  text.replace(/^```json\s*/, "").replace(/^```\s*/, "").replace(/```\s*$/, "");
+
+// Created lazily: the SDK throws in the browser when no API key is set,
+// which would otherwise break the app even when another provider is used.
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    if (!process.env.API_KEY) {
+      throw new AnalysisError("apiKey", { key: "error.apiKeyNotSet" });
+    }
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
 };
 
-const getContextSpecificInstructions = (context: AnalysisContext): string => {
-  switch (context) {
-    case AnalysisContext.HERO:
-      return `
-        SCENARIO: AMAZON MAIN IMAGE (HERO)
-        * YOUR ROLE: Main Image Compliance & CTR Specialist.
-        * KEY OBJECTIVE: Stop the scroll.
-        * ANALYSIS FOCUS:
-          1. COMPLIANCE: Pure white background? 85% Frame fill?
-          2. CLARITY: Is the product instantly identifiable on Mobile?
-          3. BUSINESS IMPACT: High CTR = Lower CPC.
-      `;
-    case AnalysisContext.APLUS:
-      return `
-        SCENARIO: A+ CONTENT / LIFESTYLE IMAGE
-        * YOUR ROLE: Brand Storyteller & Conversion Specialist.
-        * KEY OBJECTIVE: Close the sale (Conversion Rate).
-        * ANALYSIS FOCUS:
-          1. DESIRE: Does it show the product solving a pain point?
-          2. EDUCATION: Are features clearly visualized?
-      `;
-    case AnalysisContext.SEARCH:
-      return `
-        SCENARIO: SEARCH RESULTS GRID (PPC)
-        * YOUR ROLE: PPC Bid Strategist.
-        * KEY OBJECTIVE: Steal market share.
+export const isGeminiConfigured = (): boolean => Boolean(process.env.API_KEY);
+
+const buildProfileInstructions = (profile: ContextProfile): string => {
+  const focus = profile.focus.map((item, idx) => `          ${idx + 1}. ${item}`).join("\n");
+  const extra = profile.instructions.trim()
+    ? `\n${profile.instructions.trim().split("\n").map((line) => `        ${line}`).join("\n")}`
+    : "";
+  const required = profile.requiredFields.length > 0
+    ? `\n        * REQUIRED OUTPUT: ${profile.requiredFields.map((f) => `'${f}'`).join(", ")} must be populated.`
+    : "";
+  return `
+        SCENARIO: ${profile.scenario}
+        * YOUR ROLE: ${profile.role}
+        * KEY OBJECTIVE: ${profile.objective}
         * ANALYSIS FOCUS:
-          1. COMPETITIVE GAP: Does the product stand out from neighbors?
-          2. DOMINANCE: Is the price/badge visible?
+${focus}${extra}${required}
       `;
-    case AnalysisContext.STOREFRONT:
-      return `
-        SCENARIO: BRAND STOREFRONT
-        * YOUR ROLE: Brand Director.
-        * KEY OBJECTIVE: Increase Basket Size (AOV).
-        * ANALYSIS FOCUS: Navigation clarity and Brand Equity.
-      `;
-    case AnalysisContext.AB_TEST:
-      return `
-        SCENARIO: A/B COMPARISON TEST (PICKFU STYLE)
-        * YOUR ROLE: CRO Experimentation Lead & Consumer Psychologist.
-        * KEY OBJECTIVE: Determine the statistical winner based on simulated consumer preference.
-        * SIMULATION: Imagine you are polling 50 Amazon shoppers.
-        * METRICS TO COMPARE:
-          - Click-Through Potential (Who gets the click?)
-          - Information Clarity (Who communicates value faster?)
-          - Purchase Intent (Who creates more desire?)
-        * OUTPUT:
-          - Populate 'abTestVerdict' with the winner.
-          - Populate 'comparativeAnalysis' with scores (0-100) for at least 3 distinct metrics.
-          - Generate 'hotspots' for Image A and 'hotspotsB' for Image B.
-      `;
-    default:
-      return "General Amazon Visual Analysis.";
+};
+
+const buildComplianceInstructions = (options: AnalyzeOptions): string => {
+  if (!options.compliance) return "";
+  return `
+    MEASURED COMPLIANCE (ground truth, measured locally from the pixels of the main image):
+${formatComplianceForPrompt(options.compliance)}
+    - Do not contradict these results. Explain their impact and how to fix any FAIL or WARN.
+  `;
+};
+
+const buildSearchGridInstructions = (options: AnalyzeOptions): string => {
+  if (!options.searchGrid) return "";
+  return `
+    SEARCH GRID LAYOUT:
+    The image is a composed ${options.searchGrid.layout} Amazon search results page with ${options.searchGrid.regions.length} product tiles:
+${describeGridForPrompt(options.searchGrid)}
+    - Judge the competitive gap for OUR PRODUCT against the competitor tiles; name competitors by tile number.
+    - Place hotspots wherever shoppers look, including on competitor tiles, so attention per tile can be measured.
+  `;
+};
+
+const buildListingInstructions = (options: AnalyzeOptions): string => {
+  if (!options.listing) return "";
+  const { keywords } = options.listing;
+  const keywordRules = keywords.length > 0
+    ? `
+    - Fill 'keywordAlignment' with exactly one entry per target keyword, in the order given. Score only what the image itself shows; the listing text does not count as evidence.
+    - Base 'ppcStrategy.keywordFocus' and 'commercialProjections.searchVolumeRelevance' on these keywords: say which to push and which the image fails to support.`
+    : `
+    - No target keywords were given: leave 'keywordAlignment' out.`;
+  return `
+    LISTING DETAILS (provided by the seller):
+${formatListingForPrompt(options.listing)}
+    - Judge the images against this product, price point and category, not a generic one.${keywordRules}
+  `;
+};
+
+// Contexts judged against the main image rules, where marketplace-specific rules apply too
+const MAIN_IMAGE_CONTEXTS = [AnalysisContext.HERO, AnalysisContext.AB_TEST, AnalysisContext.MULTI_VARIANT];
+
+const buildMarketplaceInstructions = (options: AnalyzeOptions, profile: ContextProfile): string => {
+  if (!options.marketplace && !options.language) return "";
+  const marketplace = getMarketplace(options.marketplace);
+  const shopperLanguage = getLanguage(marketplace.language).promptName;
+  const rules = MAIN_IMAGE_CONTEXTS.includes(profile.base) && marketplace.complianceRules.length > 0
+    ? `
+    - ${marketplace.domain.toUpperCase()} MAIN IMAGE RULES (on top of Amazon's global image rules):
+${marketplace.complianceRules.map((rule) => `      * ${rule}`).join("\n")}`
+    : "";
+  const language = getLanguage(options.language);
+  const reportLanguage = language.id !== "en"
+    ? `
+    REPORT LANGUAGE: Write every free-text value in ${language.promptName}.
+    - Keep JSON keys, enum values ("Winning", "Losing", "Neutral", "Image A", "Image B", "Inconclusive", "A", "B", "Tie", "visual", "content", "test"), units ("%", "pp") and the seller's target keywords exactly as given.`
+    : "";
+  return `
+    MARKETPLACE: ${marketplace.domain} (${marketplace.label})
+    - Shoppers browse in ${shopperLanguage}. Judge text on the images by whether these shoppers can read it.
+    - State money amounts in ${marketplace.currency}.
+    - A typical Sponsored Products CTR here is ${marketplace.ctrBenchmark.low}-${marketplace.ctrBenchmark.high}%. Anchor 'predictedCTR' to this range.${rules}
+${reportLanguage}
+  `;
+};
+
+const buildRepairPrompt = (errors: ValidationIssue[]): string => `
+    Your previous response failed validation:
+${formatIssues(errors)}
+
+    Return the COMPLETE corrected JSON object (not just the fixed fields), strictly following the schema.
+  `;
+
+// Rejected before anything is sent: the API would fail the whole request anyway
+const checkUploads = (files: File[]) => {
+  const unsupported = files.find((file) => !SUPPORTED_IMAGE_TYPES.includes(file.type));
+  if (unsupported) {
+    throw new AnalysisError("unsupportedImage", unsupported.type
+      ? { key: "error.unsupportedFile", params: { name: unsupported.name, type: unsupported.type } }
+      : { key: "error.unknownFileType", params: { name: unsupported.name } });
+  }
+  const encoded = files.reduce((sum, file) => sum + Math.ceil(file.size / 3) * 4, 0);
+  if (encoded > MAX_UPLOAD_BYTES) {
+    const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+    throw new AnalysisError("imageTooLarge", { key: "error.uploadTooLarge", params: { size: mb(encoded), limit: mb(MAX_UPLOAD_BYTES) } });
   }
 };
 
-export const analyzeImage = async (
-  files: File[],
-  context: AnalysisContext
-): Promise<AnalysisResult> => {
-  
-  const parts = await Promise.all(files.map(async (file) => ({
-    inlineData: {
-      data: await fileToGenerativePart(file),
-      mimeType: file.type
-    }
+const blockReason = (chunk: GenerateContentResponse): string | undefined => {
+  if (chunk.promptFeedback?.blockReason) return chunk.promptFeedback.blockReason;
+  const finishReason = chunk.candidates?.[0]?.finishReason;
+  return BLOCKING_FINISH_REASONS.includes(finishReason) ? finishReason : undefined;
+};
+
+const deviceRenderList = (fileCount: number, options: AnalyzeOptions) => {
+  const viewports = (options.viewports ?? []).map(getDeviceViewport);
+  return Array.from({ length: fileCount }, (_, fileIdx) => viewports.map((viewport) => ({ fileIdx, viewport }))).flat();
+};
+
+// Downscaled copies of every upload, sent after the uploads themselves
+const buildDeviceRenderParts = (files: File[], options: AnalyzeOptions) =>
+  Promise.all(deviceRenderList(files.length, options).map(async ({ fileIdx, viewport }) => ({
+    inlineData: { data: await renderFileAtViewport(files[fileIdx], viewport), mimeType: "image/png" },
   })));
 
-  const contextInstructions = getContextSpecificInstructions(context);
+const buildDeviceRenderInstructions = (fileCount: number, options: AnalyzeOptions): string => {
+  const renders = deviceRenderList(fileCount, options);
+  if (renders.length === 0) return "";
+
+  const list = renders
+    .map((r, idx) => `      - Extra image ${idx + 1}: ${fileCount > 1 ? `Image ${variantLabel(r.fileIdx)}` : "The asset"} at ${r.viewport.label} size (${r.viewport.size}px, ${r.viewport.description})`)
+    .join("\n");
+  return `
+    DEVICE RENDERS:
+    After the ${fileCount} uploaded image(s), ${renders.length} extra image(s) show the same asset(s) at real Amazon display sizes:
+${list}
+    - Use them as evidence for mobile and thumbnail legibility: name text or details that are no longer readable.
+    - They are NOT additional variants. Do not generate hotspots for them and do not count them in FILES PROVIDED.
+  `;
+};
 
-  const prompt = `
+/**
+ * The full instruction text for one request. Depends only on the number of
+ * images and the options, so the result cache can hash it before anything is sent.
+ */
+export const buildAnalysisPrompt = (fileCount: number, context: AnalysisContext, options: AnalyzeOptions = {}): string => {
+  const profile = options.profile ?? getBuiltInProfile(context);
+  return `
     You are Amazon HeatMap Studio AI, a World-Class Amazon PPC & CRO Strategist.
     Analyze the provided visual asset(s).
     
-    CONTEXT: ${context}
-    FILES PROVIDED: ${files.length}
-
-    ${contextInstructions}
+    CONTEXT: ${profile.name}
+    FILES PROVIDED: ${fileCount}
 
+    ${buildProfileInstructions(profile)}
+    ${buildDeviceRenderInstructions(fileCount, options)}
+    ${buildComplianceInstructions(options)}
+    ${buildSearchGridInstructions(options)}
+    ${buildListingInstructions(options)}
+    ${buildMarketplaceInstructions(options, profile)}
     ---
     
     GENERAL MISSION:
     1. VISUAL AUDIT: Track the eye path.
+       - Give every hotspot an estimated 'fixationMs': how long the eye rests there (typically 150-600 ms; dense text and faces hold it longer).
+         The first 3 seconds usually cover 6-10 fixations, so order and durations should show what a shopper takes in before deciding to click.
     2. COMMERCIAL PROJECTIONS: Estimate financial impact.
+       - 'ctrLift' and 'conversionLift' are numeric low/high ranges for the change versus the seller's current main image.
+         Use unit "%" for a relative change (+20 means 20% more than today) or "pp" for percentage points. Negative values mean a drop.
+       - For A/B and multi-variant tests, also fill 'variantProjections' with one entry per image ("A", "B", ...) on the same basis.
     3. ACTION PLAN: Provide specific, actionable advice.
 
     IF A/B TEST:
@@ -244,53 +227,118 @@ export const analyzeImage = async (
     
     Output strictly in the requested JSON schema.
   `;
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [
-          ...parts,
-          { text: prompt },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.4, 
-      },
-    });
-
-    let text = response.text || "{}";
-    
-    // Cleanup Markdown if present
-    if (text.startsWith("```")) {
-      text = text.replace(/^```json\s*/, "").replace(/^```\s*/, "").replace(/```$/, "");
+export const analyzeImage = async (
+  files: File[],
+  context: AnalysisContext,
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult> => {
+  checkUploads(files);
+
+  const parts = await Promise.all(files.map(async (file) => ({
+    inlineData: {
+      data: await fileToGenerativePart(file),
+      mimeType: file.type
     }
+  })));
+  const deviceRenderParts = await buildDeviceRenderParts(files, options);
 
-    const result = JSON.parse(text);
+  const profile = options.profile ?? getBuiltInProfile(context);
+  const prompt = buildAnalysisPrompt(files.length, context, options);
 
-    if (!result.report || !result.hotspots || !result.report.metrics) {
-        console.error("Invalid AI Response structure:", result);
-        throw new Error("AI response was incomplete. Please try again.");
-    }
+  const contents: Content[] = [{ role: "user", parts: [...parts, ...deviceRenderParts, { text: prompt }] }];
+  // Errors from earlier attempts that a re-prompt fixed, kept for the repair report
+  const resolvedIssues: ValidationIssue[] = [];
 
-    return result as AnalysisResult;
+  try {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const stream = await getClient().models.generateContentStream({
+        model: GEMINI_MODEL,
+        contents,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: responseSchema,
+          temperature: 0.4, 
+          abortSignal: options.signal,
+        },
+      });
+
+      let streamed = "";
+      for await (const chunk of stream) {
+        options.signal?.throwIfAborted();
+        const blocked = blockReason(chunk);
+        if (blocked) throw new AnalysisError("safety", undefined, { detail: `Blocked with reason ${blocked}` });
+        streamed += chunk.text ?? "";
+        if (options.onPartial) {
+          const provisional = buildProvisionalResult(stripCodeFence(streamed));
+          if (provisional) options.onPartial(provisional);
+        }
+      }
+      options.signal?.throwIfAborted();
+
+      // Cleanup Markdown if present
+      const text = stripCodeFence(streamed) || "{}";
+
+      let outcome: ValidationOutcome;
+      try {
+        outcome = validateAnalysisResult(JSON.parse(text), {
+          imageCount: files.length,
+          context,
+          requiredFields: profile.requiredFields,
+          keywords: options.listing?.keywords,
+        });
+      } catch {
+        outcome = { result: null, valid: false, repaired: false, issues: [{ path: "", message: NOT_JSON, repaired: false }] };
+      }
+
+      if (outcome.valid && outcome.result) {
+        const issues = [...resolvedIssues, ...outcome.issues];
+        return {
+          ...outcome.result,
+          validation: { repaired: issues.length > 0, attempts: attempt, issues },
+        };
+      }
+
+      const errors = outcome.issues.filter((i) => !i.repaired);
+      console.warn(`AI response failed validation (attempt ${attempt}/${MAX_ATTEMPTS})`, errors);
+      if (attempt === MAX_ATTEMPTS) {
+        const kind = errors.some((i) => i.message === NOT_JSON) ? "malformedJson" : "incompleteSchema";
+        throw new AnalysisError(kind, undefined, { detail: `Still failing after ${MAX_ATTEMPTS} attempts:\n${formatIssues(errors)}` });
+      }
+
+      resolvedIssues.push(...errors.map((i) => ({ ...i, message: `${i.message} (fixed by re-prompt)`, repaired: true })));
+      contents.push(
+        { role: "model", parts: [{ text }] },
+        { role: "user", parts: [{ text: buildRepairPrompt(errors) }] },
+      );
+    }
+    throw new AnalysisError("incompleteSchema");
   } catch (error) {
-    console.error("Analysis failed", error);
-    throw error;
+    if (options.signal?.aborted) throw error;
+    throw classifyError(error);
   }
 };
 
-const fileToGenerativePart = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      const base64Data = base64String.split(',')[1];
-      resolve(base64Data);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+export const geminiProvider: AnalysisProvider = {
+  id: "gemini",
+  label: "Gemini 2.5 Flash",
+  description: "Live analysis via the Gemini API (requires GEMINI_API_KEY)",
+  model: GEMINI_MODEL,
+  promptVersion: PROMPT_VERSION,
+  // The repair template is included: a changed wording changes what re-prompted results look like
+  buildPrompt: (fileCount, context, options) => `${buildAnalysisPrompt(fileCount, context, options)}\n${buildRepairPrompt([])}`,
+  analyze: analyzeImage,
+};
+
+// Blob.arrayBuffer and btoa exist in Node as well as the browser, so the CLI can
+// pass files read from disk; FileReader is browser-only
+const fileToGenerativePart = async (file: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  // Chunked: spreading a whole image into fromCharCode overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
 };
\ No newline at end of file
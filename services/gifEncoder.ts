@@ -0,0 +1,125 @@
+// Minimal animated GIF89a encoder. Every frame shares one fixed 6x7x6 color
+// cube (more green levels, which the eye separates best) with ordered dithering,
+// which is plenty for a heatmap overlay and needs no per-frame palette search.
+
+const R_LEVELS = 6;
+const G_LEVELS = 7;
+const B_LEVELS = 6;
+const MAX_CODE = 4096;
+
+const BAYER_4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+const buildPalette = (): number[] => {
+  const palette: number[] = [];
+  for (let r = 0; r < R_LEVELS; r++) {
+    for (let g = 0; g < G_LEVELS; g++) {
+      for (let b = 0; b < B_LEVELS; b++) {
+        palette.push(
+          Math.round((r * 255) / (R_LEVELS - 1)),
+          Math.round((g * 255) / (G_LEVELS - 1)),
+          Math.round((b * 255) / (B_LEVELS - 1))
+        );
+      }
+    }
+  }
+  while (palette.length < 256 * 3) palette.push(0);
+  return palette;
+};
+
+const quantize = (value: number, levels: number, threshold: number) =>
+  Math.min(levels - 1, Math.max(0, Math.floor((value / 255) * (levels - 1) + threshold)));
+
+export const indexPixels = (rgba: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const indices = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const threshold = (BAYER_4[(y % 4) * 4 + (x % 4)] + 0.5) / 16;
+      const r = quantize(rgba[i * 4], R_LEVELS, threshold);
+      const g = quantize(rgba[i * 4 + 1], G_LEVELS, threshold);
+      const b = quantize(rgba[i * 4 + 2], B_LEVELS, threshold);
+      indices[i] = (r * G_LEVELS + g) * B_LEVELS + b;
+    }
+  }
+  return indices;
+};
+
+/** Variable-width LZW as the GIF spec defines it, split into 255-byte sub-blocks. */
+export const lzwEncode = (indices: Uint8Array, minCodeSize: number): number[] => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const found = table.get(key);
+    if (found !== undefined) {
+      prefix = found;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) bytes.push(buffer & 0xff);
+
+  const blocks: number[] = [];
+  for (let i = 0; i < bytes.length; i += 255) {
+    const chunk = bytes.slice(i, i + 255);
+    blocks.push(chunk.length, ...chunk);
+  }
+  blocks.push(0);
+  return blocks;
+};
+
+const word = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+export interface GifFrame {
+  rgba: Uint8ClampedArray;
+  delayMs: number;
+}
+
+export const encodeGif = (frames: GifFrame[], width: number, height: number): Blob => {
+  const parts: Uint8Array[] = [];
+  const push = (bytes: number[]) => parts.push(Uint8Array.from(bytes));
+
+  push([...Array.from("GIF89a", (c) => c.charCodeAt(0)), ...word(width), ...word(height), 0xf7, 0, 0]);
+  push(buildPalette());
+  // NETSCAPE2.0 application extension: loop forever
+  push([0x21, 0xff, 0x0b, ...Array.from("NETSCAPE2.0", (c) => c.charCodeAt(0)), 0x03, 0x01, 0, 0, 0]);
+
+  for (const frame of frames) {
+    push([0x21, 0xf9, 0x04, 0x04, ...word(Math.max(2, Math.round(frame.delayMs / 10))), 0, 0]);
+    push([0x2c, 0, 0, 0, 0, ...word(width), ...word(height), 0]);
+    push([8, ...lzwEncode(indexPixels(frame.rgba, width, height), 8)]);
+  }
+  push([0x3b]);
+  return new Blob(parts, { type: "image/gif" });
+};
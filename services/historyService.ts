@@ -0,0 +1,70 @@
+import { AnalysisRecord, StoredImage } from "../types";
+import { createId } from "./ids";
+import { ANALYSES_STORE, withStore } from "./database";
+
+export const saveAnalysis = async (record: Omit<AnalysisRecord, "id" | "createdAt">): Promise<AnalysisRecord> => {
+  const full: AnalysisRecord = { ...record, id: createId(), createdAt: Date.now() };
+  await withStore(ANALYSES_STORE, "readwrite", (store) => store.put(full));
+  return full;
+};
+
+export const updateAnalysis = async (
+  id: string,
+  patch: Partial<Pick<AnalysisRecord, "asin" | "productName" | "tags">>
+): Promise<AnalysisRecord | undefined> => {
+  const existing = await getAnalysis(id);
+  if (!existing) return undefined;
+  const updated = { ...existing, ...patch };
+  await withStore(ANALYSES_STORE, "readwrite", (store) => store.put(updated));
+  return updated;
+};
+
+export const getAnalysis = (id: string): Promise<AnalysisRecord | undefined> =>
+  withStore<AnalysisRecord | undefined>(ANALYSES_STORE, "readonly", (store) => store.get(id));
+
+// Newest first
+export const listAnalyses = async (): Promise<AnalysisRecord[]> => {
+  const records = await withStore<AnalysisRecord[]>(ANALYSES_STORE, "readonly", (store) => store.getAll());
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteAnalysis = (id: string): Promise<undefined> =>
+  withStore(ANALYSES_STORE, "readwrite", (store) => store.delete(id));
+
+export const toStoredImages = (files: File[]): StoredImage[] =>
+  files.map((file) => ({ name: file.name, type: file.type, blob: file }));
+
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+// Rebuilds the File objects and previews the analysis phase expects
+export const restoreImages = async (record: AnalysisRecord): Promise<{ files: File[]; previews: string[] }> => {
+  const files = record.images.map((img) => new File([img.blob], img.name, { type: img.type }));
+  const previews = await Promise.all(record.images.map((img) => readAsDataUrl(img.blob)));
+  return { files, previews };
+};
+
+export const matchesQuery = (record: AnalysisRecord, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  const haystack = [
+    record.asin,
+    record.productName,
+    record.context,
+    record.model,
+    record.result.report.summary,
+    record.result.listing?.category,
+    ...(record.result.listing?.keywords ?? []),
+    ...record.tags,
+    ...record.images.map((img) => img.name),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  return q.split(/\s+/).every((term) => haystack.includes(term));
+};
@@ -0,0 +1,5 @@
+// Falls back to a time-based id where crypto.randomUUID is unavailable (non-secure origins)
+export const createId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,71 @@
+import { KeywordAlignment, ListingMetadata } from "../types";
+
+export const MAX_BULLETS = 5;
+export const MAX_KEYWORDS = 15;
+
+// A keyword at or above this score counts as visibly supported
+export const SUPPORTED_SCORE = 60;
+
+export const createEmptyListing = (): ListingMetadata => ({
+  title: "",
+  bullets: [],
+  price: "",
+  category: "",
+  keywords: [],
+});
+
+/** Splits free text on commas, semicolons and newlines; duplicates are dropped case-insensitively. */
+export const parseKeywords = (text: string): string[] => {
+  const seen = new Set<string>();
+  return text
+    .split(/[,;\n]/)
+    .map((k) => k.trim().replace(/\s+/g, " "))
+    .filter((k) => {
+      const key = k.toLowerCase();
+      if (!k || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_KEYWORDS);
+};
+
+// Trims every field and drops blank bullets, so an untouched form stores nothing
+export const normalizeListing = (listing: ListingMetadata): ListingMetadata | undefined => {
+  const normalized: ListingMetadata = {
+    title: listing.title.trim(),
+    bullets: listing.bullets.map((b) => b.trim()).filter(Boolean).slice(0, MAX_BULLETS),
+    price: listing.price.trim(),
+    category: listing.category.trim(),
+    keywords: parseKeywords(listing.keywords.join("\n")),
+  };
+  const empty = !normalized.title && !normalized.price && !normalized.category
+    && normalized.bullets.length === 0 && normalized.keywords.length === 0;
+  return empty ? undefined : normalized;
+};
+
+export const formatListingForPrompt = (listing: ListingMetadata): string => {
+  const lines = [
+    listing.title && `- Title: ${listing.title}`,
+    listing.category && `- Category: ${listing.category}`,
+    listing.price && `- Price: ${listing.price}`,
+    ...listing.bullets.map((b, idx) => `- Bullet ${idx + 1}: ${b}`),
+    listing.keywords.length > 0 && `- Target keywords: ${listing.keywords.map((k) => `"${k}"`).join(", ")}`,
+  ];
+  return lines.filter(Boolean).map((line) => `      ${line}`).join("\n");
+};
+
+export interface KeywordAlignmentSummary {
+  score: number; // 0-100, mean over all keywords
+  supported: KeywordAlignment[];
+  unsupported: KeywordAlignment[];
+}
+
+export const summarizeKeywordAlignment = (entries: KeywordAlignment[]): KeywordAlignmentSummary | null => {
+  if (entries.length === 0) return null;
+  const score = Math.round(entries.reduce((sum, e) => sum + e.score, 0) / entries.length);
+  return {
+    score,
+    supported: entries.filter((e) => e.score >= SUPPORTED_SCORE),
+    unsupported: entries.filter((e) => e.score < SUPPORTED_SCORE),
+  };
+};
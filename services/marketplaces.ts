@@ -0,0 +1,114 @@
+import { Language, Marketplace, MarketplaceId } from "../types";
+import { LANGUAGES } from "./messages";
+import { DEFAULT_CAMPAIGN_INPUTS } from "./projections";
+
+const SETTINGS_STORAGE_KEY = "amazon-heatmap-studio.marketplace";
+
+// CTR benchmarks are rough Sponsored Products averages; sellers' own numbers in
+// the calculator always take precedence
+export const MARKETPLACES: Marketplace[] = [
+  {
+    id: "us",
+    domain: "amazon.com",
+    label: "United States",
+    language: "en",
+    locale: "en-US",
+    currency: "USD",
+    ctrBenchmark: { low: 0.35, high: 0.5 },
+    complianceRules: [],
+    defaultCampaignInputs: DEFAULT_CAMPAIGN_INPUTS,
+  },
+  {
+    id: "uk",
+    domain: "amazon.co.uk",
+    label: "United Kingdom",
+    language: "en",
+    locale: "en-GB",
+    currency: "GBP",
+    ctrBenchmark: { low: 0.4, high: 0.55 },
+    complianceRules: [
+      "Packaging text should be in English; UK conformity marks (UKCA, CE) may appear only where they are printed on the real product or packaging.",
+    ],
+    defaultCampaignInputs: { cpc: 0.9, ctr: 0.45, conversionRate: 10, aov: 25, dailyBudget: 40 },
+  },
+  {
+    id: "de",
+    domain: "amazon.de",
+    label: "Germany",
+    language: "de",
+    locale: "de-DE",
+    currency: "EUR",
+    ctrBenchmark: { low: 0.35, high: 0.5 },
+    complianceRules: [
+      "Packaging and product text should be German; English-only packaging reads as a grey import to German shoppers.",
+      "Test seals such as Stiftung Warentest 'Testsieger' may only appear when printed on the real packaging; added as a graphic they are a violation.",
+      "The EU energy label belongs in its own image slot, never on the main image.",
+    ],
+    defaultCampaignInputs: { cpc: 0.8, ctr: 0.4, conversionRate: 11, aov: 28, dailyBudget: 45 },
+  },
+  {
+    id: "fr",
+    domain: "amazon.fr",
+    label: "France",
+    language: "fr",
+    locale: "fr-FR",
+    currency: "EUR",
+    ctrBenchmark: { low: 0.3, high: 0.45 },
+    complianceRules: [
+      "Product information must be available in French (Loi Toubon); packaging in another language only is a conversion and compliance risk.",
+      "The EU energy label belongs in its own image slot, never on the main image.",
+    ],
+    defaultCampaignInputs: { cpc: 0.7, ctr: 0.38, conversionRate: 9, aov: 27, dailyBudget: 40 },
+  },
+  {
+    id: "jp",
+    domain: "amazon.co.jp",
+    label: "Japan",
+    language: "ja",
+    locale: "ja-JP",
+    currency: "JPY",
+    ctrBenchmark: { low: 0.25, high: 0.4 },
+    complianceRules: [
+      "No added promotional text such as 送料無料 (free shipping), ポイント還元 (point rewards) or ranking badges (ランキング1位); Amazon.co.jp suppresses main images that carry them.",
+      "Packaging text should be Japanese; electrical goods are expected to show the PSE mark on the product itself.",
+    ],
+    defaultCampaignInputs: { cpc: 60, ctr: 0.32, conversionRate: 9, aov: 3500, dailyBudget: 5000 },
+  },
+];
+
+export const DEFAULT_MARKETPLACE_ID: MarketplaceId = "us";
+
+export const getMarketplace = (id: MarketplaceId | undefined): Marketplace =>
+  MARKETPLACES.find((m) => m.id === id) ?? MARKETPLACES[0];
+
+export const formatMoney = (value: number, marketplace: Marketplace): string =>
+  new Intl.NumberFormat(marketplace.locale, { style: "currency", currency: marketplace.currency }).format(value);
+
+// "$", "£", "€" or "￥", for input labels
+export const currencySymbol = (marketplace: Marketplace): string =>
+  new Intl.NumberFormat(marketplace.locale, { style: "currency", currency: marketplace.currency })
+    .formatToParts(0)
+    .find((part) => part.type === "currency")?.value ?? marketplace.currency;
+
+// -------------------------
+// Selected marketplace (localStorage)
+// -------------------------
+
+export interface MarketplaceSettings {
+  marketplace: MarketplaceId;
+  language: Language;
+}
+
+export const getMarketplaceSettings = (): MarketplaceSettings => {
+  const fallback = { marketplace: DEFAULT_MARKETPLACE_ID, language: getMarketplace(DEFAULT_MARKETPLACE_ID).language };
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? "null");
+    return MARKETPLACES.some((m) => m.id === parsed?.marketplace) && LANGUAGES.some((l) => l.id === parsed?.language) ? parsed : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveMarketplaceSettings = (settings: MarketplaceSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,2366 @@
+import { Language } from "../types";
+
+export const LANGUAGES: { id: Language; label: string; promptName: string; locale: string }[] = [
+  { id: "en", label: "English", promptName: "English", locale: "en-US" },
+  { id: "de", label: "Deutsch", promptName: "German", locale: "de-DE" },
+  { id: "fr", label: "Français", promptName: "French", locale: "fr-FR" },
+  { id: "ja", label: "日本語", promptName: "Japanese", locale: "ja-JP" },
+];
+
+export const getLanguage = (id: Language | undefined) => LANGUAGES.find((l) => l.id === id) ?? LANGUAGES[0];
+
+// English is the source catalog: every other language must translate each key.
+// Placeholders in braces are filled by translate().
+const EN = {
+  "app.tagline": "Amazon Conversion & PPC Optimization Studio",
+  "nav.batch": "Batch",
+  "nav.history": "History",
+  "nav.newAnalysis": "New Analysis",
+  "nav.cancel": "Cancel",
+  "nav.back": "Back",
+  "nav.open": "Open",
+  "nav.dismiss": "Dismiss",
+  "nav.details": "Details",
+
+  "upload.screenshot": "Upload Screenshot",
+  "upload.buildGrid": "Build Search Grid",
+  "upload.composedGrid": "Composed Grid · {count} tiles",
+  "upload.asset": "Upload Asset",
+  "upload.control": "Upload Control (A)",
+  "upload.variantB": "Upload Variant (B)",
+  "upload.variant": "Upload Variant {label}",
+  "upload.remove": "Remove {label}",
+  "upload.clear": "Clear Images",
+  "upload.showSaliency": "Instant Saliency Preview",
+  "upload.hideSaliency": "Hide Saliency Preview",
+  "upload.preview": "Preview {label}",
+  "grid.composeFailed": "Could not build the grid: {detail}",
+
+  "image.ab": "Image {label}",
+  "image.variant": "Variant {label}",
+  "image.asset": "Asset",
+
+  "setup.context": "Select Analysis Context",
+  "setup.marketplace": "Marketplace",
+  "setup.marketplaceHint": "Compliance rules, currency and CTR benchmarks follow {domain}.",
+  "setup.language": "Language",
+  "setup.languageHint": "Used for the report text and this interface.",
+  "setup.engine": "Analysis Engine",
+  "setup.runs": "Runs per Analysis",
+  "setup.singleRun": "Single",
+  "setup.runsHint": "Runs the analysis {runs} times and reports consensus hotspots and score intervals. Takes {runs}x as long.",
+  "setup.singleRunHint": "One run. Scores and hotspots can vary noticeably between reruns.",
+  "setup.deviceEvidence": "Device-Size Evidence",
+  "setup.deviceEvidenceHint": "Also sends each image at mobile and desktop search size, so legibility is judged on real thumbnails.",
+
+  "analyze.runProgress": "Analyzing Assets (run {run} of {runs})...",
+  "analyze.running": "Analyzing Assets...",
+  "analyze.uploadBoth": "Upload Both Images (A & B)",
+  "analyze.uploadAtLeast": "Upload at Least {count} Variants",
+  "analyze.uploadFirst": "Upload an Image First",
+  "analyze.selectContext": "Select Asset Type to Continue",
+  "analyze.run": "Run Auto-Analysis",
+
+  "lab.title": "Visual Attention Lab",
+  "lab.viewing": "Viewing: {label}",
+  "lab.versus": "{variant} vs {baseline}",
+  "lab.control": "Control",
+  "lab.variant": "Variant",
+  "viz.heatmap": "Heatmap",
+  "viz.fogmap": "Fog Map",
+  "viz.path": "Path",
+  "viz.device": "Devices",
+  "layout.single": "Single",
+  "layout.difference": "Difference",
+  "layout.sideBySide": "Side by Side",
+
+  "guide.advertiser": "Advertiser View",
+  "guide.customer": "Customer View",
+  "guide.heatmap.title": "Heatmap Analysis",
+  "guide.heatmap.advertiser": "Shows high-intensity zones. If your product is \"cold\" (blue) in a search grid, your PPC budget is being wasted on impressions that get ignored.",
+  "guide.heatmap.customer": "Represents general visual interest. Customers look at the red/hot zones first when scanning.",
+  "guide.fogmap.title": "Fog Map (The \"3-Second Rule\")",
+  "guide.fogmap.advertiser": "Simulates peripheral vision during scrolling. It reveals what is visible in the first 50ms. If your USP is hidden in the fog, you lose the click.",
+  "guide.fogmap.customer": "Mimics the brain’s initial filter (System 1 thinking). Only high-contrast, salient features penetrate the fog.",
+  "guide.path.title": "Attention Path Sequence",
+  "guide.path.advertiser": "Validates hierarchy. Are they seeing Brand -> Product -> Price in the right order? A chaotic path reduces trust and conversion. Play it back to see what fits in the first 3 seconds.",
+  "guide.path.customer": "The order in which information is consumed and how long each point holds the eye. A logical path reduces cognitive load.",
+  "guide.device.title": "Device Simulation",
+  "guide.device.advertiser": "Most Amazon traffic is mobile. A hotspot that turns illegible at 150px cannot sell the click, no matter how it scores on the full-size upload.",
+  "guide.device.customer": "What shoppers actually see while scrolling: the asset at the real size of a search tile or phone carousel.",
+
+  "report.title": "Strategic Report",
+  "report.receiving": "Receiving analysis...",
+  "report.rerunning": "Re-running analysis...",
+
+  "view.autoRepaired": "Auto-Repaired ({count})",
+  "view.streaming": "Streaming",
+  "view.cached": "Cached · {date}",
+  "view.cachedTitle": "Same images and inputs as an earlier analysis; no new API call was made",
+  "view.forceRerun": "Force Re-run",
+  "view.repairNote": "The AI response did not fully match the expected format and was corrected automatically.",
+  "view.repairNoteReprompts": "The AI response did not fully match the expected format and was corrected automatically after {count} re-prompt(s).",
+  "view.response": "response",
+  "view.verdict": "Comparison Verdict",
+  "view.wins": "{winner} Wins",
+  "view.inconclusive": "No Clear Winner",
+  "view.confidence": "{score}% Confidence",
+  "view.why": "Why?",
+  "view.differentiator": "Key Differentiator: {text}",
+  "view.headToHead": "Head-to-Head Scores",
+  "view.imageA": "Image A",
+  "view.imageB": "Image B",
+  "view.summary": "Executive Summary",
+  "view.scenarios": "Commercial Scenarios",
+  "view.scenario.Winning": "Winning Scenario",
+  "view.scenario.Losing": "Losing Scenario",
+  "view.scenario.Neutral": "Neutral Scenario",
+  "view.businessImpact": "Business Impact: {text}",
+  "view.coreScores": "Core Visual Scores (1-10)",
+  "view.ensembleNote": " · mean of {runs} runs, 95% interval",
+  "view.score.visibility": "Visibility",
+  "view.score.goalAlign": "Goal Align",
+  "view.score.clarity": "Clarity",
+  "view.shareOfAttention": "Share of Attention",
+  "view.ourTile": "Our Tile vs Competitors",
+  "view.tileRank": "Rank #{rank} of {total}",
+  "view.ourShare": "Our Share",
+  "view.competitorAverage": "Competitor Average",
+  "view.unseen": "unseen",
+  "view.seen": "seen #{order}",
+  "view.measuredAois": "Measured Areas of Interest · {label}",
+  "view.ttff": "TTFF: {value}",
+  "view.notFixated": "Not fixated",
+  "view.fixatedAt": "#{order} (~{ms} ms)",
+  "view.fixations": "Fixations: {count}",
+  "view.optimizationPlan": "Optimization Plan",
+
+  "export.menu": "Export",
+  "export.group.report": "Report",
+  "export.group.raw": "Raw Data",
+  "export.failed": "Export failed. Please try again.",
+  "export.pdfReport": "PDF Report",
+  "export.pdfReportDesc": "Paginated, ready to share",
+  "export.htmlReport": "HTML Report",
+  "export.htmlReportDesc": "Single offline file",
+  "export.png": "Flattened PNG",
+  "export.pngDesc": "{label}, current view, full resolution",
+  "export.overlay": "Overlay-only PNG",
+  "export.overlayDesc": "Transparent background",
+  "export.hotspotsJson": "Hotspots JSON",
+  "export.hotspotsJsonDesc": "hotspots, hotspotsB and hotspotsAnalysis fields",
+  "export.hotspotsCsv": "Hotspots CSV",
+  "export.hotspotsCsvDesc": "One row per attention point",
+  "export.analysisCsv": "Attention Analysis CSV",
+  "export.analysisCsvDesc": "Share of attention by element",
+
+  "export.reportTitle": "Amazon HeatMap Studio Report",
+  "export.generated": "Generated {date}",
+  "export.page": "Page {page} of {total}",
+  "export.validation": "Validation",
+  "export.validationNote": "The response needed corrections ({attempts} attempt(s)):",
+  "export.unresolved": "(unresolved)",
+  "export.ensemble": "Ensemble of {runs} Runs",
+  "export.stability": "Stability: {stability}",
+  "export.stability.stable": "Stable",
+  "export.stability.moderate": "Moderate",
+  "export.stability.unstable": "Unstable",
+  "export.winnerAgreement": "{percent}% of runs picked the same winner.",
+  "export.recurrence": "Recommendation recurrence",
+  "export.recurrenceRuns": "{count}/{runs} runs",
+  "export.compliance": "Main Image Compliance",
+  "export.status.pass": "Pass",
+  "export.status.warn": "Warn",
+  "export.status.fail": "Fail",
+  "export.column.check": "Check",
+  "export.column.status": "Status",
+  "export.column.value": "Value",
+  "export.column.detail": "Detail",
+  "export.column.metric": "Metric",
+  "export.column.rank": "Rank",
+  "export.column.variant": "Variant",
+  "export.column.score": "Score",
+  "export.column.verdict": "Verdict",
+  "export.column.keyword": "Keyword",
+  "export.column.evidence": "Evidence",
+  "export.leaderboard": "Variant Leaderboard",
+  "export.pairwise": "Pairwise Comparisons",
+  "export.pairWins": "{winner} wins",
+  "export.tie": "Tie",
+  "export.projections": "Commercial Projections",
+  "export.keywordAlignment": "Keyword-Visual Alignment: {score}/100",
+  "export.score.cognitiveLoad": "Cognitive Load",
+  "export.score.brandImpact": "Brand Impact",
+  "export.analyzedAsset": "Analyzed Asset",
+  "export.attentionPath": "Attention Path",
+
+  "history.title": "Analysis History",
+  "history.search": "Search by ASIN, product, tag, context or summary...",
+  "history.loading": "Loading history...",
+  "history.empty": "No saved analyses yet. Every completed analysis is stored here automatically.",
+  "history.noMatches": "No analyses match your search.",
+  "history.untitled": "Untitled",
+  "history.model": "{model} (prompt {version})",
+  "history.product": "Product",
+  "history.tags": "Tags (comma separated)",
+  "history.delete": "Delete",
+  "history.confirmDelete": "Delete the analysis from {date}?",
+  "history.saveFailed": "Changes not saved",
+  "history.saveFailedMessage": "The ASIN, product name and tags could not be stored. The browser may be out of storage space.",
+  "history.deleteFailed": "Analysis not deleted",
+  "history.deleteFailedMessage": "The analysis could not be removed from local history. Try again.",
+  "history.openFailed": "Analysis not opened",
+  "history.openFailedMessage": "The saved images could not be read back. The record may be damaged, or the browser blocked access to local history.",
+  "history.unavailable": "History unavailable",
+  "history.unavailableMessage": "Could not open local history. Your browser may block IndexedDB in private mode.",
+
+  "batch.title": "Batch Analysis",
+  "batch.contextForNew": "Context for new images",
+  "batch.addFolder": "Add Folder",
+  "batch.addImages": "Add Images",
+  "batch.parallel": "Parallel",
+  "batch.perMinute": "Per minute",
+  "batch.retries": "Retries",
+  "batch.start": "Start",
+  "batch.startCount": "Start ({count})",
+  "batch.pause": "Pause",
+  "batch.resume": "Resume",
+  "batch.newBatch": "New Batch",
+  "batch.state.idle": "Ready",
+  "batch.state.running": "Running",
+  "batch.state.paused": "Paused",
+  "batch.state.cancelled": "Cancelled",
+  "batch.state.finished": "Finished",
+  "batch.settled": "{settled}/{total} settled",
+  "batch.pausedNote": "Requests already in flight will finish; no new ones start until you resume.",
+  "batch.empty": "Add a folder or a set of images. Each image is analyzed on its own with its assigned context.",
+  "batch.retryIn": "Quota hit, retry in {seconds}s",
+  "batch.attempt": "try {count}",
+  "batch.status.queued": "Queued",
+  "batch.status.running": "Running",
+  "batch.status.retrying": "Retrying",
+  "batch.status.done": "Done",
+  "batch.status.failed": "Failed",
+  "batch.status.cancelled": "Cancelled",
+  "batch.column.image": "Image",
+  "batch.column.context": "Context",
+  "batch.column.score": "Score",
+  "batch.column.ctr": "Predicted CTR",
+
+  "profile.hero.name": "Product Hero Image",
+  "profile.hero.description": "Main listing image (CTR focus)",
+  "profile.aplus.name": "A+ Content / Lifestyle",
+  "profile.aplus.description": "Detail page (Conversion focus)",
+  "profile.search.name": "Search Results",
+  "profile.search.description": "Compare against competitors",
+  "profile.storefront.name": "Brand Storefront",
+  "profile.storefront.description": "Brand equity and navigation",
+  "profile.ab.name": "A/B Comparison Test",
+  "profile.ab.description": "Compare two images for effectiveness",
+  "profile.multi.name": "Multi-Variant Test",
+  "profile.multi.description": "Rank 3-6 main image candidates",
+  "profile.customName": "{name} (Custom)",
+  "profile.copyName": "{name} (Copy)",
+
+  "label.strategy.mainImage": "CTR & Main Image Strategy",
+  "label.strategy.experiment": "Experimentation Strategy",
+  "label.strategy.content": "Conversion & Content Strategy",
+  "label.strategy.ppc": "PPC Bidding Strategy",
+  "label.strategy.brand": "Brand & Traffic Strategy",
+  "label.ctrImpact": "Est. CTR Impact",
+  "label.engagement": "Est. Engagement",
+  "label.salesPotential": "Sales Potential",
+  "label.conversionLift": "Conv. Rate Lift",
+  "label.aovPotential": "AOV Potential",
+  "label.trafficPotential": "Traffic Potential",
+  "label.conversionStrategy": "Conversion Strategy",
+  "label.bidStrategy": "Recommended Bid Strategy",
+  "label.keyBenefit": "Key Benefit / Hook",
+  "label.keywordFocus": "Keyword Focus",
+  "label.adCopy": "Ad Copy Alignment",
+  "label.overlayContent": "Text/Overlay Content",
+
+  "range.span": "{low} to {high}{unit}",
+  "range.unit.percent": "%",
+  "range.unit.pp": " pp",
+
+  "compliance.title": "Main Image Compliance",
+  "compliance.allPassed": "All Checks Passed",
+  "compliance.passedWithWarnings": "Passed, {count} to check",
+  "compliance.notCompliant": "Not Compliant",
+  "compliance.measured": "Measured from the image pixels, not estimated by the AI.",
+  "compliance.background.label": "Pure White Background",
+  "compliance.background.value": "{percent} pure white",
+  "compliance.background.offWhite": "The border is off-white (RGB 240-254). Set the background to exactly RGB 255,255,255.",
+  "compliance.background.rule": "Border pixels must be RGB 255,255,255.",
+  "compliance.fill.label": "Product Fills 85% of Frame",
+  "compliance.fill.value": "{percent} of frame",
+  "compliance.fill.noProduct": "No product found",
+  "compliance.fill.rule": "Longest side of the product's bounding box relative to the image. Crop tighter if below 85%.",
+  "compliance.fill.whiteOnWhite": "Nothing stands out from the background; check that the product is not white on white.",
+  "compliance.dimensions.label": "Zoom-Ready Resolution",
+  "compliance.dimensions.zoomEnabled": "Longest side is at least {zoom}px, so zoom is enabled.",
+  "compliance.dimensions.rule": "Zoom needs at least {zoom}px on the longest side; below {min}px the image is rejected.",
+  "compliance.aspectRatio.label": "Square Aspect Ratio",
+  "compliance.aspectRatio.rule": "1:1 fills search tiles without letterboxing; anything wider than 5:1 is rejected.",
+  "compliance.overlays.label": "No Badges or Watermarks",
+  "compliance.overlays.found": "Possible overlay: {corners}",
+  "compliance.overlays.clear": "Corners clear",
+  "compliance.overlays.rule": "Text, logos, badges and watermarks added on top of the product are not allowed on the main image.",
+  "compliance.corner.topLeft": "top-left",
+  "compliance.corner.topRight": "top-right",
+  "compliance.corner.bottomLeft": "bottom-left",
+  "compliance.corner.bottomRight": "bottom-right",
+
+  "error.apiKey.title": "API key missing or invalid",
+  "error.apiKey.message": "Gemini did not accept the API key. Set GEMINI_API_KEY in .env.local and restart the dev server, or use the offline provider meanwhile.",
+  "error.quota.title": "Rate limit reached",
+  "error.quota.message": "The Gemini quota for this key is used up for the moment. Waiting a little before retrying usually works.",
+  "error.safety.title": "Blocked by safety filters",
+  "error.safety.message": "The model refused to analyze this content. Check the image and listing text for anything that could be read as unsafe, then try again.",
+  "error.imageTooLarge.title": "Image too large",
+  "error.imageTooLarge.message": "The images are larger than the model accepts in one request. A downscaled copy keeps plenty of detail for an attention analysis.",
+  "error.unsupportedImage.title": "Unsupported image format",
+  "error.unsupportedImage.message": "The model only accepts PNG, JPEG, WebP and HEIC images. Converting to JPEG keeps the image as it looks.",
+  "error.malformedJson.title": "Unreadable response",
+  "error.malformedJson.message": "The model answered with something that is not valid JSON, even after being asked to correct it. This is usually a one-off.",
+  "error.incompleteSchema.title": "Incomplete response",
+  "error.incompleteSchema.message": "The model kept leaving out required parts of the report. Retrying often helps; fewer required fields in the profile help too.",
+  "error.offline.title": "No connection",
+  "error.offline.message": "The request could not reach the model. Check your internet connection and try again.",
+  "error.unknown.title": "Analysis failed",
+  "error.unknown.message": "Something went wrong while analyzing. Try again; if it keeps failing, the details below may help.",
+  "error.apiKeyNotSet": "GEMINI_API_KEY is not set. Add it to .env.local and restart the dev server, or switch to the offline provider.",
+  "error.unsupportedFile": "{name} is {type}. Gemini accepts PNG, JPEG, WebP and HEIC images.",
+  "error.unknownFileType": "{name} is of an unknown type. Gemini accepts PNG, JPEG, WebP and HEIC images.",
+  "error.uploadTooLarge": "The images add up to {size} MB once encoded; Gemini accepts about {limit} MB per request.",
+  "error.cannotConvert": "This browser cannot open the image to convert it. Export it as JPEG or PNG and upload it again.",
+  "error.tryAgain": "Try Again",
+  "error.retryingIn": "Retrying in {seconds}s · Cancel",
+  "error.retryWithBackoff": "Retry with Backoff",
+  "error.convertAndRetry": "Convert to JPEG & Retry",
+  "error.downscaleAndRetry": "Downscale & Retry",
+  "error.switchTo": "Switch to {provider}",
+  "error.inputsKept": "Your images, context and listing details are kept.",
+
+  "hotspot.point": "Point {id}",
+  "overlay.analyzedAsset": "Analyzed Asset",
+
+  "aoi.title": "Areas of Interest",
+  "aoi.tool.view": "View",
+  "aoi.tool.rect": "Rectangle",
+  "aoi.tool.polygon": "Polygon",
+  "aoi.shape.rect": "Rect",
+  "aoi.shape.polygon": "Polygon",
+  "aoi.nextName": "Name for the next region",
+  "aoi.defaultName": "AOI {n}",
+  "aoi.preset.logo": "Logo",
+  "aoi.preset.priceBadge": "Price Badge",
+  "aoi.preset.product": "Product",
+  "aoi.preset.claim": "Claim Text",
+  "aoi.rectHint": "Drag over the image to draw a rectangle.",
+  "aoi.polygonHint": "Click to add points; click the first point or double-click to close. Esc cancels.",
+  "aoi.empty": "Draw regions such as the logo or price badge to measure their share of attention.",
+  "aoi.templateName": "Template name, e.g. Main image layout",
+  "aoi.save": "Save",
+  "aoi.count": "{count} AOIs",
+  "aoi.apply": "Apply",
+
+  "saliency.source.model": "AI",
+  "saliency.source.pixels": "Pixels",
+  "saliency.source.blended": "Blended",
+  "saliency.agreement": "Pixel Agreement {score}%",
+  "saliency.computing": "Computing pixel saliency...",
+  "saliency.aiOnly": "AI-only focus:",
+  "saliency.aiOnlyNote": "{points} sits on visually flat pixels.",
+  "saliency.pixelOnly": "Pixel-only peaks:",
+  "saliency.missedOne": "{count} high-saliency region was not predicted by the AI.",
+  "saliency.missedMany": "{count} high-saliency regions were not predicted by the AI.",
+  "saliency.feature.contrast": "High Contrast",
+  "saliency.feature.color": "Color Pop",
+  "saliency.feature.edges": "Edge Detail",
+  "saliency.feature.text": "Text-like Region",
+  "saliency.pixelLabel": "Pixel: {label}",
+  "saliency.pixelPeak": "Pixel Peak",
+
+  "switcher.rank": "Rank {rank} on the leaderboard",
+
+  "heatmap.settings": "Heatmap Settings",
+  "heatmap.reset": "Reset",
+  "heatmap.radius": "Radius",
+  "heatmap.opacity": "Opacity",
+  "heatmap.threshold": "Threshold",
+  "heatmap.palette.jet": "Jet",
+  "heatmap.palette.viridis": "Viridis",
+  "heatmap.palette.colorblind": "Colorblind-safe",
+  "heatmap.palette.mono": "Single Hue",
+
+  "zoom.in": "Zoom in",
+  "zoom.out": "Zoom out",
+  "zoom.reset": "Reset zoom",
+
+  "diff.loses": "{variant} loses attention",
+  "diff.noChange": "No change",
+  "diff.gains": "{variant} gains attention",
+  "diff.biggestGain": "Biggest gain:",
+  "diff.biggestLoss": "Biggest loss vs {baseline}:",
+  "diff.none": "None",
+  "diff.identical": "Attention is distributed identically in both images.",
+
+  "scanpath.play": "Play",
+  "scanpath.pause": "Pause",
+  "scanpath.restart": "Restart",
+  "scanpath.exportFailed": "Export failed",
+  "scanpath.fixation": "Fixation",
+  "scanpath.firstImpression": "— {count} of {total} fixations in the first 3 seconds",
+  "scanpath.noWebm": "This browser cannot record WebM",
+  "scanpath.download": "Download the playback as {format}",
+
+  "device.status.survives": "Survives",
+  "device.status.blurred": "Illegible",
+  "device.status.lost": "Lost",
+  "device.failed": "Simulation failed",
+  "device.rendering": "Rendering device sizes...",
+  "device.legibility": "Legibility {score}",
+  "device.mobileSearch.label": "Mobile Search",
+  "device.mobileSearch.description": "Amazon app search results tile",
+  "device.desktopSearch.label": "Desktop Search",
+  "device.desktopSearch.description": "Desktop search results grid",
+  "device.detailCarousel.label": "Detail-Page Carousel",
+  "device.detailCarousel.description": "Full-width image carousel on a phone",
+
+  "leaderboard.perMetric": "Per-Metric Scores",
+  "leaderboard.versus": "vs",
+
+  "ensemble.hint.stable": "Runs agree closely. Differences of more than a point are real.",
+  "ensemble.hint.moderate": "Runs roughly agree. Treat small score differences as noise.",
+  "ensemble.hint.unstable": "Runs disagree. Add runs or a clearer variant before acting on this.",
+  "ensemble.failedOne": "{count} run failed and was left out.",
+  "ensemble.failedMany": "{count} runs failed and were left out.",
+  "ensemble.headToHead": "Head-to-Head (95% interval)",
+  "ensemble.consensus": "{count} consensus hotspots",
+  "ensemble.spread": "for this image, average spread {spread}% of the image.",
+  "ensemble.weakSupport": "Some points were seen by half the runs or fewer.",
+
+  "profit.title": "ACOS / ROAS Calculator",
+  "profit.intro": "Enter your current campaign numbers to see what the predicted lift is worth.",
+  "profit.input.cpc": "CPC",
+  "profit.input.ctr": "CTR (%)",
+  "profit.input.conversionRate": "Conv. Rate (%)",
+  "profit.input.aov": "AOV",
+  "profit.input.dailyBudget": "Daily Budget",
+  "profit.row.clicks": "Clicks / day",
+  "profit.row.orders": "Orders / day",
+  "profit.row.spend": "Ad spend / day",
+  "profit.row.revenue": "Revenue / day",
+  "profit.row.acos": "ACOS",
+  "profit.row.roas": "ROAS",
+  "profit.noLift": "This analysis has no numeric lift estimate. Re-run it to get one.",
+  "profit.column.daily": "Daily",
+  "profit.column.baseline": "Baseline",
+  "profit.column.projected": "Projected (low – high)",
+  "profit.ctrRange": "CTR {range}.",
+  "profit.conversionRange": "Conversion {range}.",
+  "profit.budgetNote": "Impressions are held at today's level, so a higher CTR needs up to {amount} a day in budget.",
+  "profit.variantComparison": "Variant Comparison (midpoint)",
+  "profit.perDay": "{amount} / day",
+  "profit.perMonth": "{amount} / mo",
+  "profit.acos": "ACOS {value}",
+  "profit.leader": "Leader",
+  "profit.monthlyNote": "Monthly difference in revenue after ad spend against the leading variant.",
+
+  "color.title": "Color Palette",
+  "color.readFailed": "Could not read the image colors",
+  "color.extracting": "Extracting colors...",
+  "color.family.white": "White",
+  "color.family.black": "Black",
+  "color.family.gray": "Gray",
+  "color.family.red": "Red",
+  "color.family.orange": "Orange",
+  "color.family.brown": "Brown",
+  "color.family.yellow": "Yellow",
+  "color.family.green": "Green",
+  "color.family.teal": "Teal",
+  "color.family.blue": "Blue",
+  "color.family.purple": "Purple",
+  "color.family.pink": "Pink",
+  "color.note.white": "Clean and clinical; required for main images, so it never differentiates on its own.",
+  "color.note.black": "Premium and authoritative; heavy use can look dated at thumbnail size.",
+  "color.note.gray": "Neutral and technical; lets an accent color carry the attention.",
+  "color.note.red": "Urgency and energy; pulls the eye first but reads as discount when overused.",
+  "color.note.orange": "Friendly and affordable; close to Amazon's own UI accents, so it can blend in.",
+  "color.note.brown": "Natural, warm and artisanal; works for food, leather and wood goods.",
+  "color.note.yellow": "Optimism and attention; low contrast on white, so pair it with a dark outline.",
+  "color.note.green": "Health, nature and eco claims; a common cue in supplements and cleaning.",
+  "color.note.teal": "Fresh and modern; reads as clean and clinical in personal care.",
+  "color.note.blue": "Trust and reliability; the most common category color, so it rarely stands out.",
+  "color.note.purple": "Premium and creative; less common in search results, so it differentiates.",
+  "color.note.pink": "Playful, beauty and gifting cues; strong differentiation outside beauty categories.",
+  "color.claimed": "AI-Reported Colors vs Pixels",
+  "color.verdict.match": "In image",
+  "color.verdict.close": "Approximate",
+  "color.verdict.absent": "Not found",
+  "color.contrast": "Text Contrast (WCAG)",
+  "color.belowAa": "{count} below AA",
+  "color.noText": "No text-like regions found.",
+  "color.region": "Region at {x}%, {y}%",
+  "color.level.aaa": "AAA",
+  "color.level.aa": "AA",
+  "color.level.aaLarge": "AA Large",
+  "color.level.fail": "Fail",
+  "color.detectionNote": "Text-like regions are detected from the pixels; busy textures can be picked up and very small text missed.",
+  "color.distinctness": "Distinctness from Neighboring Tiles",
+  "color.noNeighbors": "No competitor tiles next to ours.",
+  "color.standsOut": "Stands out",
+  "color.blendsIn": "Blends in",
+
+  "keywords.title": "Keyword–Visual Alignment",
+  "keywords.supported": "{supported} of {total} target keywords visibly supported by the image.",
+  "keywords.supportedFor": "{supported} of {total} target keywords visibly supported by the image for \"{title}\".",
+
+  "grid.ourProduct": "Our Product",
+  "grid.competitor": "Competitor {n}",
+  "grid.layout.desktop": "Desktop Grid",
+  "grid.layout.mobile": "Mobile List",
+  "grid.addTile": "Add Tile",
+  "grid.chooseImage": "Choose product image",
+  "grid.tile": "Tile {n}",
+  "grid.productTitle": "Product title",
+  "grid.rating": "Star rating",
+  "grid.reviewCount": "Review count",
+  "grid.prime": "Prime",
+  "grid.sponsored": "Sponsored",
+  "grid.ours": "Ours",
+  "grid.removeTile": "Remove tile {n}",
+  "grid.building": "Building Grid...",
+  "grid.addImage": "Add an Image to Your Tile",
+
+  "listing.title": "Listing Details",
+  "listing.filled": "({count} filled)",
+  "listing.optional": "(optional)",
+  "listing.productTitle": "Product title",
+  "listing.price": "Price, e.g. $24.99",
+  "listing.category": "Category",
+  "listing.bullet": "Bullet point {n}",
+  "listing.keywords": "Target keywords, separated by commas or new lines",
+  "listing.keywordCount": "{count}/{max} keywords. Each one is scored for how clearly the image supports it.",
+
+  "profilePicker.custom": "Custom",
+  "profilePicker.customizeCopy": "Customize a copy",
+  "profilePicker.edit": "Edit profile",
+  "profilePicker.customizeName": "Customize {name}",
+  "profilePicker.editName": "Edit {name}",
+  "profilePicker.new": "New Profile",
+  "profilePicker.import": "Import",
+  "profilePicker.export": "Export",
+  "profilePicker.importFailed": "Could not import profiles",
+
+  "profileEditor.editTitle": "Edit Context Profile",
+  "profileEditor.newTitle": "New Context Profile",
+  "profileEditor.close": "Close",
+  "profileEditor.name": "Name",
+  "profileEditor.namePlaceholder": "e.g. Walmart listing",
+  "profileEditor.base": "Behaves like",
+  "profileEditor.baseHint": "Sets the number of images, validation and local measurements.",
+  "profileEditor.description": "Description",
+  "profileEditor.descriptionPlaceholder": "Shown under the name in the picker",
+  "profileEditor.prompt": "Prompt",
+  "profileEditor.scenario": "Scenario",
+  "profileEditor.scenarioPlaceholder": "e.g. AMAZON POSTS FEED",
+  "profileEditor.objective": "Key objective",
+  "profileEditor.role": "Role",
+  "profileEditor.rolePlaceholder": "Who the model should act as",
+  "profileEditor.focus": "Focus checklist (one per line)",
+  "profileEditor.instructions": "Extra instructions",
+  "profileEditor.instructionsPlaceholder": "Optional simulation or output rules",
+  "profileEditor.reportLabels": "Report Labels",
+  "profileEditor.label.strategyTitle": "Strategy section title",
+  "profileEditor.label.ctrLabel": "CTR metric label",
+  "profileEditor.label.conversionLabel": "Conversion metric label",
+  "profileEditor.label.bidLabel": "Bid / traffic label",
+  "profileEditor.label.keywordLabel": "Keyword label",
+  "profileEditor.label.copyLabel": "Copy label",
+  "profileEditor.requiredOutput": "Required Output",
+  "profileEditor.field.strategicInsights": "Commercial scenarios",
+  "profileEditor.field.blindSpots": "Blind spots",
+  "profileEditor.field.recommendations": "Recommendations",
+  "profileEditor.field.dominantColors": "Dominant colors",
+  "profileEditor.field.abTestVerdict": "A/B verdict",
+  "profileEditor.field.comparativeAnalysis": "Head-to-head scores",
+  "profileEditor.field.variantLeaderboard": "Variant leaderboard",
+  "profileEditor.field.pairwiseComparisons": "Pairwise comparisons",
+  "profileEditor.nameRequired": "Give the profile a name.",
+  "profileEditor.focusRequired": "Add at least one focus item.",
+  "profileEditor.saveFailed": "Could not save the profile",
+  "profileEditor.save": "Save Profile",
+  "profileEditor.delete": "Delete",
+};
+
+export type MessageKey = keyof typeof EN;
+type Catalog = Record<MessageKey, string>;
+
+const DE: Catalog = {
+  "app.tagline": "Studio für Amazon-Conversion & PPC-Optimierung",
+  "nav.batch": "Stapel",
+  "nav.history": "Verlauf",
+  "nav.newAnalysis": "Neue Analyse",
+  "nav.cancel": "Abbrechen",
+  "nav.back": "Zurück",
+  "nav.open": "Öffnen",
+  "nav.dismiss": "Schließen",
+  "nav.details": "Details",
+
+  "upload.screenshot": "Screenshot hochladen",
+  "upload.buildGrid": "Suchraster erstellen",
+  "upload.composedGrid": "Erstelltes Raster · {count} Kacheln",
+  "upload.asset": "Bild hochladen",
+  "upload.control": "Kontrolle hochladen (A)",
+  "upload.variantB": "Variante hochladen (B)",
+  "upload.variant": "Variante {label} hochladen",
+  "upload.remove": "{label} entfernen",
+  "upload.clear": "Bilder entfernen",
+  "upload.showSaliency": "Sofortige Salienz-Vorschau",
+  "upload.hideSaliency": "Salienz-Vorschau ausblenden",
+  "upload.preview": "Vorschau {label}",
+  "grid.composeFailed": "Das Raster konnte nicht erstellt werden: {detail}",
+
+  "image.ab": "Bild {label}",
+  "image.variant": "Variante {label}",
+  "image.asset": "Bild",
+
+  "setup.context": "Analysekontext wählen",
+  "setup.marketplace": "Marktplatz",
+  "setup.marketplaceHint": "Compliance-Regeln, Währung und CTR-Benchmarks richten sich nach {domain}.",
+  "setup.language": "Sprache",
+  "setup.languageHint": "Gilt für den Berichtstext und diese Oberfläche.",
+  "setup.engine": "Analyse-Engine",
+  "setup.runs": "Durchläufe pro Analyse",
+  "setup.singleRun": "Einzeln",
+  "setup.runsHint": "Führt die Analyse {runs}-mal aus und zeigt Konsens-Hotspots und Score-Intervalle. Dauert {runs}-mal so lange.",
+  "setup.singleRunHint": "Ein Durchlauf. Scores und Hotspots können zwischen Wiederholungen merklich schwanken.",
+  "setup.deviceEvidence": "Gerätegrößen-Nachweis",
+  "setup.deviceEvidenceHint": "Sendet jedes Bild zusätzlich in mobiler und Desktop-Suchgröße, damit die Lesbarkeit an echten Thumbnails beurteilt wird.",
+
+  "analyze.runProgress": "Bilder werden analysiert (Durchlauf {run} von {runs})...",
+  "analyze.running": "Bilder werden analysiert...",
+  "analyze.uploadBoth": "Beide Bilder hochladen (A & B)",
+  "analyze.uploadAtLeast": "Mindestens {count} Varianten hochladen",
+  "analyze.uploadFirst": "Zuerst ein Bild hochladen",
+  "analyze.selectContext": "Bildtyp wählen, um fortzufahren",
+  "analyze.run": "Auto-Analyse starten",
+
+  "lab.title": "Visual Attention Lab",
+  "lab.viewing": "Ansicht: {label}",
+  "lab.versus": "{variant} vs. {baseline}",
+  "lab.control": "Kontrolle",
+  "lab.variant": "Variante",
+  "viz.heatmap": "Heatmap",
+  "viz.fogmap": "Nebelkarte",
+  "viz.path": "Blickpfad",
+  "viz.device": "Geräte",
+  "layout.single": "Einzeln",
+  "layout.difference": "Differenz",
+  "layout.sideBySide": "Nebeneinander",
+
+  "guide.advertiser": "Sicht des Werbetreibenden",
+  "guide.customer": "Sicht des Kunden",
+  "guide.heatmap.title": "Heatmap-Analyse",
+  "guide.heatmap.advertiser": "Zeigt Zonen hoher Intensität. Ist Ihr Produkt im Suchraster „kalt“ (blau), fließt Ihr PPC-Budget in Impressionen, die übersehen werden.",
+  "guide.heatmap.customer": "Steht für das allgemeine visuelle Interesse. Kunden sehen beim Überfliegen zuerst auf die roten, heißen Zonen.",
+  "guide.fogmap.title": "Nebelkarte (die „3-Sekunden-Regel“)",
+  "guide.fogmap.advertiser": "Simuliert das periphere Sehen beim Scrollen und zeigt, was in den ersten 50 ms sichtbar ist. Liegt Ihr USP im Nebel, verlieren Sie den Klick.",
+  "guide.fogmap.customer": "Bildet den ersten Filter des Gehirns nach (System-1-Denken). Nur kontrastreiche, auffällige Merkmale durchdringen den Nebel.",
+  "guide.path.title": "Blickpfad-Abfolge",
+  "guide.path.advertiser": "Prüft die Hierarchie: Sehen Kunden Marke -> Produkt -> Preis in der richtigen Reihenfolge? Ein chaotischer Pfad kostet Vertrauen und Conversion. Spielen Sie ihn ab, um zu sehen, was in die ersten 3 Sekunden passt.",
+  "guide.path.customer": "Die Reihenfolge, in der Informationen aufgenommen werden, und wie lange jeder Punkt den Blick hält. Ein logischer Pfad senkt die kognitive Last.",
+  "guide.device.title": "Gerätesimulation",
+  "guide.device.advertiser": "Der Großteil des Amazon-Traffics ist mobil. Ein Hotspot, der bei 150 px unleserlich wird, verkauft den Klick nicht, egal wie gut er in voller Größe abschneidet.",
+  "guide.device.customer": "Was Kunden beim Scrollen tatsächlich sehen: das Bild in der echten Größe einer Suchkachel oder eines Handy-Karussells.",
+
+  "report.title": "Strategiebericht",
+  "report.receiving": "Analyse wird empfangen...",
+  "report.rerunning": "Analyse wird erneut ausgeführt...",
+
+  "view.autoRepaired": "Automatisch korrigiert ({count})",
+  "view.streaming": "Streaming",
+  "view.cached": "Zwischengespeichert · {date}",
+  "view.cachedTitle": "Dieselben Bilder und Eingaben wie bei einer früheren Analyse; es wurde kein neuer API-Aufruf gemacht",
+  "view.forceRerun": "Neu ausführen",
+  "view.repairNote": "Die KI-Antwort entsprach nicht ganz dem erwarteten Format und wurde automatisch korrigiert.",
+  "view.repairNoteReprompts": "Die KI-Antwort entsprach nicht ganz dem erwarteten Format und wurde nach {count} Nachfrage(n) automatisch korrigiert.",
+  "view.response": "Antwort",
+  "view.verdict": "Vergleichsurteil",
+  "view.wins": "{winner} gewinnt",
+  "view.inconclusive": "Kein klarer Gewinner",
+  "view.confidence": "{score} % Konfidenz",
+  "view.why": "Warum?",
+  "view.differentiator": "Entscheidender Unterschied: {text}",
+  "view.headToHead": "Direktvergleich",
+  "view.imageA": "Bild A",
+  "view.imageB": "Bild B",
+  "view.summary": "Zusammenfassung",
+  "view.scenarios": "Kommerzielle Szenarien",
+  "view.scenario.Winning": "Gewinnerszenario",
+  "view.scenario.Losing": "Verlustszenario",
+  "view.scenario.Neutral": "Neutrales Szenario",
+  "view.businessImpact": "Geschäftliche Auswirkung: {text}",
+  "view.coreScores": "Visuelle Kernwerte (1-10)",
+  "view.ensembleNote": " · Mittel aus {runs} Durchläufen, 95-%-Intervall",
+  "view.score.visibility": "Sichtbarkeit",
+  "view.score.goalAlign": "Zielbezug",
+  "view.score.clarity": "Klarheit",
+  "view.shareOfAttention": "Aufmerksamkeitsanteil",
+  "view.ourTile": "Unsere Kachel vs. Wettbewerb",
+  "view.tileRank": "Rang {rank} von {total}",
+  "view.ourShare": "Unser Anteil",
+  "view.competitorAverage": "Wettbewerbsschnitt",
+  "view.unseen": "nicht gesehen",
+  "view.seen": "gesehen als {order}.",
+  "view.measuredAois": "Gemessene Interessenbereiche · {label}",
+  "view.ttff": "Zeit bis zur ersten Fixation: {value}",
+  "view.notFixated": "Nicht fixiert",
+  "view.fixatedAt": "{order}. (~{ms} ms)",
+  "view.fixations": "Fixationen: {count}",
+  "view.optimizationPlan": "Optimierungsplan",
+
+  "export.menu": "Exportieren",
+  "export.group.report": "Bericht",
+  "export.group.raw": "Rohdaten",
+  "export.failed": "Export fehlgeschlagen. Bitte versuchen Sie es erneut.",
+  "export.pdfReport": "PDF-Bericht",
+  "export.pdfReportDesc": "Mit Seitenumbruch, bereit zum Teilen",
+  "export.htmlReport": "HTML-Bericht",
+  "export.htmlReportDesc": "Einzelne Offline-Datei",
+  "export.png": "Zusammengeführtes PNG",
+  "export.pngDesc": "{label}, aktuelle Ansicht, volle Auflösung",
+  "export.overlay": "PNG nur mit Overlay",
+  "export.overlayDesc": "Transparenter Hintergrund",
+  "export.hotspotsJson": "Hotspots als JSON",
+  "export.hotspotsJsonDesc": "Felder hotspots, hotspotsB und hotspotsAnalysis",
+  "export.hotspotsCsv": "Hotspots als CSV",
+  "export.hotspotsCsvDesc": "Eine Zeile pro Aufmerksamkeitspunkt",
+  "export.analysisCsv": "Aufmerksamkeitsanalyse als CSV",
+  "export.analysisCsvDesc": "Aufmerksamkeitsanteil je Element",
+
+  "export.reportTitle": "Amazon HeatMap Studio – Bericht",
+  "export.generated": "Erstellt am {date}",
+  "export.page": "Seite {page} von {total}",
+  "export.validation": "Validierung",
+  "export.validationNote": "Die Antwort musste korrigiert werden ({attempts} Versuch(e)):",
+  "export.unresolved": "(ungelöst)",
+  "export.ensemble": "Ensemble aus {runs} Durchläufen",
+  "export.stability": "Stabilität: {stability}",
+  "export.stability.stable": "Stabil",
+  "export.stability.moderate": "Mittel",
+  "export.stability.unstable": "Instabil",
+  "export.winnerAgreement": "{percent} % der Durchläufe wählten denselben Gewinner.",
+  "export.recurrence": "Wiederkehr der Empfehlungen",
+  "export.recurrenceRuns": "{count}/{runs} Durchläufe",
+  "export.compliance": "Konformität des Hauptbilds",
+  "export.status.pass": "Erfüllt",
+  "export.status.warn": "Warnung",
+  "export.status.fail": "Nicht erfüllt",
+  "export.column.check": "Prüfung",
+  "export.column.status": "Status",
+  "export.column.value": "Wert",
+  "export.column.detail": "Details",
+  "export.column.metric": "Kennzahl",
+  "export.column.rank": "Rang",
+  "export.column.variant": "Variante",
+  "export.column.score": "Punktzahl",
+  "export.column.verdict": "Urteil",
+  "export.column.keyword": "Keyword",
+  "export.column.evidence": "Beleg",
+  "export.leaderboard": "Varianten-Rangliste",
+  "export.pairwise": "Paarweise Vergleiche",
+  "export.pairWins": "{winner} gewinnt",
+  "export.tie": "Unentschieden",
+  "export.projections": "Kommerzielle Prognosen",
+  "export.keywordAlignment": "Abgleich Keywords und Bild: {score}/100",
+  "export.score.cognitiveLoad": "Kognitive Last",
+  "export.score.brandImpact": "Markenwirkung",
+  "export.analyzedAsset": "Analysiertes Bild",
+  "export.attentionPath": "Blickpfad",
+
+  "history.title": "Analyseverlauf",
+  "history.search": "Nach ASIN, Produkt, Tag, Kontext oder Zusammenfassung suchen...",
+  "history.loading": "Verlauf wird geladen...",
+  "history.empty": "Noch keine gespeicherten Analysen. Jede abgeschlossene Analyse wird hier automatisch gespeichert.",
+  "history.noMatches": "Keine Analyse passt zu Ihrer Suche.",
+  "history.untitled": "Ohne Titel",
+  "history.model": "{model} (Prompt {version})",
+  "history.product": "Produkt",
+  "history.tags": "Tags (durch Kommas getrennt)",
+  "history.delete": "Löschen",
+  "history.confirmDelete": "Die Analyse vom {date} löschen?",
+  "history.saveFailed": "Änderungen nicht gespeichert",
+  "history.saveFailedMessage": "ASIN, Produktname und Tags konnten nicht gespeichert werden. Möglicherweise ist der Speicher des Browsers voll.",
+  "history.deleteFailed": "Analyse nicht gelöscht",
+  "history.deleteFailedMessage": "Die Analyse konnte nicht aus dem lokalen Verlauf entfernt werden. Versuchen Sie es erneut.",
+  "history.openFailed": "Analyse nicht geöffnet",
+  "history.openFailedMessage": "Die gespeicherten Bilder konnten nicht gelesen werden. Der Eintrag ist möglicherweise beschädigt, oder der Browser hat den Zugriff auf den lokalen Verlauf blockiert.",
+  "history.unavailable": "Verlauf nicht verfügbar",
+  "history.unavailableMessage": "Der lokale Verlauf konnte nicht geöffnet werden. Ihr Browser blockiert IndexedDB möglicherweise im privaten Modus.",
+
+  "batch.title": "Stapelanalyse",
+  "batch.contextForNew": "Kontext für neue Bilder",
+  "batch.addFolder": "Ordner hinzufügen",
+  "batch.addImages": "Bilder hinzufügen",
+  "batch.parallel": "Parallel",
+  "batch.perMinute": "Pro Minute",
+  "batch.retries": "Wiederholungen",
+  "batch.start": "Starten",
+  "batch.startCount": "Starten ({count})",
+  "batch.pause": "Pausieren",
+  "batch.resume": "Fortsetzen",
+  "batch.newBatch": "Neuer Stapel",
+  "batch.state.idle": "Bereit",
+  "batch.state.running": "Läuft",
+  "batch.state.paused": "Pausiert",
+  "batch.state.cancelled": "Abgebrochen",
+  "batch.state.finished": "Abgeschlossen",
+  "batch.settled": "{settled}/{total} erledigt",
+  "batch.pausedNote": "Laufende Anfragen werden abgeschlossen; neue starten erst, wenn Sie fortsetzen.",
+  "batch.empty": "Fügen Sie einen Ordner oder mehrere Bilder hinzu. Jedes Bild wird einzeln mit seinem zugewiesenen Kontext analysiert.",
+  "batch.retryIn": "Kontingent erreicht, neuer Versuch in {seconds} s",
+  "batch.attempt": "Versuch {count}",
+  "batch.status.queued": "Wartend",
+  "batch.status.running": "Läuft",
+  "batch.status.retrying": "Wiederholung",
+  "batch.status.done": "Fertig",
+  "batch.status.failed": "Fehlgeschlagen",
+  "batch.status.cancelled": "Abgebrochen",
+  "batch.column.image": "Bild",
+  "batch.column.context": "Kontext",
+  "batch.column.score": "Punktzahl",
+  "batch.column.ctr": "Prognostizierte CTR",
+
+  "profile.hero.name": "Produkt-Hauptbild",
+  "profile.hero.description": "Hauptbild des Angebots (Fokus CTR)",
+  "profile.aplus.name": "A+ Content / Lifestyle",
+  "profile.aplus.description": "Detailseite (Fokus Conversion)",
+  "profile.search.name": "Suchergebnisse",
+  "profile.search.description": "Vergleich mit Wettbewerbern",
+  "profile.storefront.name": "Markenshop",
+  "profile.storefront.description": "Markenwert und Navigation",
+  "profile.ab.name": "A/B-Vergleichstest",
+  "profile.ab.description": "Zwei Bilder auf ihre Wirkung vergleichen",
+  "profile.multi.name": "Multivarianten-Test",
+  "profile.multi.description": "3–6 Hauptbild-Kandidaten bewerten",
+  "profile.customName": "{name} (angepasst)",
+  "profile.copyName": "{name} (Kopie)",
+
+  "label.strategy.mainImage": "CTR- & Hauptbild-Strategie",
+  "label.strategy.experiment": "Teststrategie",
+  "label.strategy.content": "Conversion- & Content-Strategie",
+  "label.strategy.ppc": "PPC-Gebotsstrategie",
+  "label.strategy.brand": "Marken- & Traffic-Strategie",
+  "label.ctrImpact": "Geschätzte CTR-Wirkung",
+  "label.engagement": "Geschätztes Engagement",
+  "label.salesPotential": "Umsatzpotenzial",
+  "label.conversionLift": "Steigerung der Conversion-Rate",
+  "label.aovPotential": "Potenzial beim Ø-Bestellwert",
+  "label.trafficPotential": "Traffic-Potenzial",
+  "label.conversionStrategy": "Conversion-Strategie",
+  "label.bidStrategy": "Empfohlene Gebotsstrategie",
+  "label.keyBenefit": "Hauptvorteil / Aufhänger",
+  "label.keywordFocus": "Keyword-Fokus",
+  "label.adCopy": "Abstimmung mit dem Anzeigentext",
+  "label.overlayContent": "Text-/Overlay-Inhalt",
+
+  "range.span": "{low} bis {high}{unit}",
+  "range.unit.percent": " %",
+  "range.unit.pp": " Pp.",
+
+  "compliance.title": "Konformität des Hauptbilds",
+  "compliance.allPassed": "Alle Prüfungen bestanden",
+  "compliance.passedWithWarnings": "Bestanden, {count} zu prüfen",
+  "compliance.notCompliant": "Nicht konform",
+  "compliance.measured": "Aus den Bildpixeln gemessen, nicht von der KI geschätzt.",
+  "compliance.background.label": "Rein weißer Hintergrund",
+  "compliance.background.value": "{percent} reinweiß",
+  "compliance.background.offWhite": "Der Rand ist nicht ganz weiß (RGB 240–254). Setzen Sie den Hintergrund auf genau RGB 255,255,255.",
+  "compliance.background.rule": "Die Randpixel müssen RGB 255,255,255 sein.",
+  "compliance.fill.label": "Produkt füllt 85 % des Bildes",
+  "compliance.fill.value": "{percent} des Bildes",
+  "compliance.fill.noProduct": "Kein Produkt gefunden",
+  "compliance.fill.rule": "Längste Seite des Produktrahmens im Verhältnis zum Bild. Unter 85 % enger zuschneiden.",
+  "compliance.fill.whiteOnWhite": "Nichts hebt sich vom Hintergrund ab; prüfen Sie, ob das Produkt weiß auf weiß ist.",
+  "compliance.dimensions.label": "Zoomfähige Auflösung",
+  "compliance.dimensions.zoomEnabled": "Die längste Seite hat mindestens {zoom} px, daher ist Zoom aktiviert.",
+  "compliance.dimensions.rule": "Zoom braucht mindestens {zoom} px an der längsten Seite; unter {min} px wird das Bild abgelehnt.",
+  "compliance.aspectRatio.label": "Quadratisches Seitenverhältnis",
+  "compliance.aspectRatio.rule": "1:1 füllt die Suchkacheln ohne Balken; alles breiter als 5:1 wird abgelehnt.",
+  "compliance.overlays.label": "Keine Badges oder Wasserzeichen",
+  "compliance.overlays.found": "Mögliche Einblendung: {corners}",
+  "compliance.overlays.clear": "Ecken frei",
+  "compliance.overlays.rule": "Über das Produkt gelegte Texte, Logos, Badges und Wasserzeichen sind im Hauptbild nicht erlaubt.",
+  "compliance.corner.topLeft": "oben links",
+  "compliance.corner.topRight": "oben rechts",
+  "compliance.corner.bottomLeft": "unten links",
+  "compliance.corner.bottomRight": "unten rechts",
+
+  "error.apiKey.title": "API-Schlüssel fehlt oder ist ungültig",
+  "error.apiKey.message": "Gemini hat den API-Schlüssel nicht akzeptiert. Setzen Sie GEMINI_API_KEY in .env.local und starten Sie den Dev-Server neu, oder nutzen Sie so lange den Offline-Anbieter.",
+  "error.quota.title": "Ratenlimit erreicht",
+  "error.quota.message": "Das Gemini-Kontingent für diesen Schlüssel ist vorerst aufgebraucht. Kurz warten und dann erneut versuchen hilft meist.",
+  "error.safety.title": "Von Sicherheitsfiltern blockiert",
+  "error.safety.message": "Das Modell hat die Analyse dieses Inhalts abgelehnt. Prüfen Sie Bild und Angebotstext auf alles, was als unsicher gelten könnte, und versuchen Sie es erneut.",
+  "error.imageTooLarge.title": "Bild zu groß",
+  "error.imageTooLarge.message": "Die Bilder sind größer, als das Modell in einer Anfrage akzeptiert. Eine verkleinerte Kopie behält genug Details für eine Aufmerksamkeitsanalyse.",
+  "error.unsupportedImage.title": "Nicht unterstütztes Bildformat",
+  "error.unsupportedImage.message": "Das Modell akzeptiert nur PNG-, JPEG-, WebP- und HEIC-Bilder. Bei der Umwandlung in JPEG sieht das Bild unverändert aus.",
+  "error.malformedJson.title": "Unlesbare Antwort",
+  "error.malformedJson.message": "Das Modell hat kein gültiges JSON geliefert, auch nicht nach der Aufforderung zur Korrektur. Das ist meist ein Einzelfall.",
+  "error.incompleteSchema.title": "Unvollständige Antwort",
+  "error.incompleteSchema.message": "Das Modell hat wiederholt Pflichtteile des Berichts ausgelassen. Ein neuer Versuch hilft oft, ebenso weniger Pflichtfelder im Profil.",
+  "error.offline.title": "Keine Verbindung",
+  "error.offline.message": "Die Anfrage hat das Modell nicht erreicht. Prüfen Sie Ihre Internetverbindung und versuchen Sie es erneut.",
+  "error.unknown.title": "Analyse fehlgeschlagen",
+  "error.unknown.message": "Bei der Analyse ist etwas schiefgelaufen. Versuchen Sie es erneut; falls es weiterhin fehlschlägt, helfen eventuell die Details unten.",
+  "error.apiKeyNotSet": "GEMINI_API_KEY ist nicht gesetzt. Tragen Sie ihn in .env.local ein und starten Sie den Dev-Server neu, oder wechseln Sie zum Offline-Anbieter.",
+  "error.unsupportedFile": "{name} hat das Format {type}. Gemini akzeptiert PNG-, JPEG-, WebP- und HEIC-Bilder.",
+  "error.unknownFileType": "Das Format von {name} ist unbekannt. Gemini akzeptiert PNG-, JPEG-, WebP- und HEIC-Bilder.",
+  "error.uploadTooLarge": "Die Bilder ergeben kodiert {size} MB; Gemini akzeptiert etwa {limit} MB pro Anfrage.",
+  "error.cannotConvert": "Dieser Browser kann das Bild zum Umwandeln nicht öffnen. Exportieren Sie es als JPEG oder PNG und laden Sie es erneut hoch.",
+  "error.tryAgain": "Erneut versuchen",
+  "error.retryingIn": "Neuer Versuch in {seconds} s · Abbrechen",
+  "error.retryWithBackoff": "Verzögert erneut versuchen",
+  "error.convertAndRetry": "In JPEG umwandeln & erneut versuchen",
+  "error.downscaleAndRetry": "Verkleinern & erneut versuchen",
+  "error.switchTo": "Zu {provider} wechseln",
+  "error.inputsKept": "Ihre Bilder, der Kontext und die Angebotsdetails bleiben erhalten.",
+
+  "hotspot.point": "Punkt {id}",
+  "overlay.analyzedAsset": "Analysiertes Asset",
+
+  "aoi.title": "Interessenbereiche",
+  "aoi.tool.view": "Ansehen",
+  "aoi.tool.rect": "Rechteck",
+  "aoi.tool.polygon": "Polygon",
+  "aoi.shape.rect": "Rechteck",
+  "aoi.shape.polygon": "Polygon",
+  "aoi.nextName": "Name für den nächsten Bereich",
+  "aoi.defaultName": "AOI {n}",
+  "aoi.preset.logo": "Logo",
+  "aoi.preset.priceBadge": "Preisbadge",
+  "aoi.preset.product": "Produkt",
+  "aoi.preset.claim": "Werbeaussage",
+  "aoi.rectHint": "Ziehen Sie über das Bild, um ein Rechteck zu zeichnen.",
+  "aoi.polygonHint": "Klicken Sie, um Punkte hinzuzufügen; klicken Sie auf den ersten Punkt oder doppelklicken Sie zum Schließen. Esc bricht ab.",
+  "aoi.empty": "Zeichnen Sie Bereiche wie das Logo oder das Preisbadge, um ihren Anteil an der Aufmerksamkeit zu messen.",
+  "aoi.templateName": "Vorlagenname, z. B. Hauptbild-Layout",
+  "aoi.save": "Speichern",
+  "aoi.count": "{count} AOIs",
+  "aoi.apply": "Anwenden",
+
+  "saliency.source.model": "KI",
+  "saliency.source.pixels": "Pixel",
+  "saliency.source.blended": "Kombiniert",
+  "saliency.agreement": "Pixel-Übereinstimmung {score} %",
+  "saliency.computing": "Pixel-Salienz wird berechnet...",
+  "saliency.aiOnly": "Nur KI-Fokus:",
+  "saliency.aiOnlyNote": "{points} liegt auf visuell flachen Pixeln.",
+  "saliency.pixelOnly": "Nur Pixel-Spitzen:",
+  "saliency.missedOne": "{count} Bereich mit hoher Salienz wurde von der KI nicht vorhergesagt.",
+  "saliency.missedMany": "{count} Bereiche mit hoher Salienz wurden von der KI nicht vorhergesagt.",
+  "saliency.feature.contrast": "Hoher Kontrast",
+  "saliency.feature.color": "Farbakzent",
+  "saliency.feature.edges": "Kantendetail",
+  "saliency.feature.text": "Textähnlicher Bereich",
+  "saliency.pixelLabel": "Pixel: {label}",
+  "saliency.pixelPeak": "Pixel-Spitze",
+
+  "switcher.rank": "Platz {rank} in der Rangliste",
+
+  "heatmap.settings": "Heatmap-Einstellungen",
+  "heatmap.reset": "Zurücksetzen",
+  "heatmap.radius": "Radius",
+  "heatmap.opacity": "Deckkraft",
+  "heatmap.threshold": "Schwelle",
+  "heatmap.palette.jet": "Jet",
+  "heatmap.palette.viridis": "Viridis",
+  "heatmap.palette.colorblind": "Farbenblind-sicher",
+  "heatmap.palette.mono": "Einfarbig",
+
+  "zoom.in": "Vergrößern",
+  "zoom.out": "Verkleinern",
+  "zoom.reset": "Zoom zurücksetzen",
+
+  "diff.loses": "{variant} verliert Aufmerksamkeit",
+  "diff.noChange": "Keine Änderung",
+  "diff.gains": "{variant} gewinnt Aufmerksamkeit",
+  "diff.biggestGain": "Größter Zuwachs:",
+  "diff.biggestLoss": "Größter Verlust ggü. {baseline}:",
+  "diff.none": "Keiner",
+  "diff.identical": "Die Aufmerksamkeit ist in beiden Bildern gleich verteilt.",
+
+  "scanpath.play": "Abspielen",
+  "scanpath.pause": "Pause",
+  "scanpath.restart": "Neu starten",
+  "scanpath.exportFailed": "Export fehlgeschlagen",
+  "scanpath.fixation": "Fixation",
+  "scanpath.firstImpression": "— {count} von {total} Fixationen in den ersten 3 Sekunden",
+  "scanpath.noWebm": "Dieser Browser kann kein WebM aufnehmen",
+  "scanpath.download": "Wiedergabe als {format} herunterladen",
+
+  "device.status.survives": "Bleibt lesbar",
+  "device.status.blurred": "Unleserlich",
+  "device.status.lost": "Verloren",
+  "device.failed": "Simulation fehlgeschlagen",
+  "device.rendering": "Gerätegrößen werden gerendert...",
+  "device.legibility": "Lesbarkeit {score}",
+  "device.mobileSearch.label": "Mobile Suche",
+  "device.mobileSearch.description": "Kachel in den Suchergebnissen der Amazon-App",
+  "device.desktopSearch.label": "Desktop-Suche",
+  "device.desktopSearch.description": "Suchergebnisraster am Desktop",
+  "device.detailCarousel.label": "Karussell der Detailseite",
+  "device.detailCarousel.description": "Bildkarussell in voller Breite auf dem Smartphone",
+
+  "leaderboard.perMetric": "Werte pro Metrik",
+  "leaderboard.versus": "vs.",
+
+  "ensemble.hint.stable": "Die Durchläufe stimmen eng überein. Unterschiede von mehr als einem Punkt sind echt.",
+  "ensemble.hint.moderate": "Die Durchläufe stimmen grob überein. Behandeln Sie kleine Punktunterschiede als Rauschen.",
+  "ensemble.hint.unstable": "Die Durchläufe widersprechen sich. Ergänzen Sie Durchläufe oder eine klarere Variante, bevor Sie danach handeln.",
+  "ensemble.failedOne": "{count} Durchlauf ist fehlgeschlagen und wurde nicht berücksichtigt.",
+  "ensemble.failedMany": "{count} Durchläufe sind fehlgeschlagen und wurden nicht berücksichtigt.",
+  "ensemble.headToHead": "Direktvergleich (95-%-Intervall)",
+  "ensemble.consensus": "{count} Konsens-Hotspots",
+  "ensemble.spread": "für dieses Bild, durchschnittliche Streuung {spread} % des Bildes.",
+  "ensemble.weakSupport": "Einige Punkte wurden nur von der Hälfte der Durchläufe oder weniger erkannt.",
+
+  "profit.title": "ACOS-/ROAS-Rechner",
+  "profit.intro": "Geben Sie Ihre aktuellen Kampagnenwerte ein, um zu sehen, was der prognostizierte Zuwachs wert ist.",
+  "profit.input.cpc": "CPC",
+  "profit.input.ctr": "CTR (%)",
+  "profit.input.conversionRate": "Conv.-Rate (%)",
+  "profit.input.aov": "Ø Bestellwert",
+  "profit.input.dailyBudget": "Tagesbudget",
+  "profit.row.clicks": "Klicks / Tag",
+  "profit.row.orders": "Bestellungen / Tag",
+  "profit.row.spend": "Werbekosten / Tag",
+  "profit.row.revenue": "Umsatz / Tag",
+  "profit.row.acos": "ACOS",
+  "profit.row.roas": "ROAS",
+  "profit.noLift": "Diese Analyse enthält keine numerische Schätzung des Zuwachses. Führen Sie sie erneut aus, um eine zu erhalten.",
+  "profit.column.daily": "Täglich",
+  "profit.column.baseline": "Ausgangswert",
+  "profit.column.projected": "Prognose (niedrig – hoch)",
+  "profit.ctrRange": "CTR {range}.",
+  "profit.conversionRange": "Conversion {range}.",
+  "profit.budgetNote": "Die Impressionen bleiben auf heutigem Niveau, daher braucht eine höhere CTR bis zu {amount} Tagesbudget.",
+  "profit.variantComparison": "Variantenvergleich (Mittelwert)",
+  "profit.perDay": "{amount} / Tag",
+  "profit.perMonth": "{amount} / Monat",
+  "profit.acos": "ACOS {value}",
+  "profit.leader": "Spitzenreiter",
+  "profit.monthlyNote": "Monatliche Differenz des Umsatzes nach Werbekosten gegenüber der führenden Variante.",
+
+  "color.title": "Farbpalette",
+  "color.readFailed": "Die Bildfarben konnten nicht gelesen werden",
+  "color.extracting": "Farben werden ermittelt...",
+  "color.family.white": "Weiß",
+  "color.family.black": "Schwarz",
+  "color.family.gray": "Grau",
+  "color.family.red": "Rot",
+  "color.family.orange": "Orange",
+  "color.family.brown": "Braun",
+  "color.family.yellow": "Gelb",
+  "color.family.green": "Grün",
+  "color.family.teal": "Petrol",
+  "color.family.blue": "Blau",
+  "color.family.purple": "Lila",
+  "color.family.pink": "Pink",
+  "color.note.white": "Sauber und klinisch; für Hauptbilder vorgeschrieben, hebt sich daher allein nie ab.",
+  "color.note.black": "Hochwertig und souverän; zu viel davon kann in Miniaturgröße altmodisch wirken.",
+  "color.note.gray": "Neutral und technisch; überlässt die Aufmerksamkeit einer Akzentfarbe.",
+  "color.note.red": "Dringlichkeit und Energie; zieht den Blick zuerst an, wirkt im Übermaß aber nach Rabatt.",
+  "color.note.orange": "Freundlich und preiswert; nah an Amazons eigenen UI-Akzenten, kann daher untergehen.",
+  "color.note.brown": "Natürlich, warm und handwerklich; passt zu Lebensmitteln, Leder- und Holzwaren.",
+  "color.note.yellow": "Optimismus und Aufmerksamkeit; wenig Kontrast auf Weiß, daher mit dunkler Kontur kombinieren.",
+  "color.note.green": "Gesundheit, Natur und Öko-Versprechen; ein häufiges Signal bei Nahrungsergänzung und Reinigungsmitteln.",
+  "color.note.teal": "Frisch und modern; wirkt in der Körperpflege sauber und klinisch.",
+  "color.note.blue": "Vertrauen und Zuverlässigkeit; die häufigste Kategoriefarbe, hebt sich daher selten ab.",
+  "color.note.purple": "Hochwertig und kreativ; in Suchergebnissen seltener, daher differenzierend.",
+  "color.note.pink": "Verspielt, mit Beauty- und Geschenk-Anmutung; stark differenzierend außerhalb von Beauty-Kategorien.",
+  "color.claimed": "KI-Farbangaben vs. Pixel",
+  "color.verdict.match": "Im Bild",
+  "color.verdict.close": "Ungefähr",
+  "color.verdict.absent": "Nicht gefunden",
+  "color.contrast": "Textkontrast (WCAG)",
+  "color.belowAa": "{count} unter AA",
+  "color.noText": "Keine textähnlichen Bereiche gefunden.",
+  "color.region": "Bereich bei {x} %, {y} %",
+  "color.level.aaa": "AAA",
+  "color.level.aa": "AA",
+  "color.level.aaLarge": "AA groß",
+  "color.level.fail": "Nicht bestanden",
+  "color.detectionNote": "Textähnliche Bereiche werden aus den Pixeln erkannt; unruhige Texturen können fälschlich erfasst und sehr kleiner Text übersehen werden.",
+  "color.distinctness": "Abgrenzung zu benachbarten Kacheln",
+  "color.noNeighbors": "Keine Wettbewerbskacheln neben unserer.",
+  "color.standsOut": "Hebt sich ab",
+  "color.blendsIn": "Geht unter",
+
+  "keywords.title": "Abgleich Keywords und Bild",
+  "keywords.supported": "{supported} von {total} Ziel-Keywords werden vom Bild sichtbar gestützt.",
+  "keywords.supportedFor": "{supported} von {total} Ziel-Keywords werden vom Bild für „{title}“ sichtbar gestützt.",
+
+  "grid.ourProduct": "Unser Produkt",
+  "grid.competitor": "Wettbewerber {n}",
+  "grid.layout.desktop": "Desktop-Raster",
+  "grid.layout.mobile": "Mobile Liste",
+  "grid.addTile": "Kachel hinzufügen",
+  "grid.chooseImage": "Produktbild wählen",
+  "grid.tile": "Kachel {n}",
+  "grid.productTitle": "Produkttitel",
+  "grid.rating": "Sternebewertung",
+  "grid.reviewCount": "Anzahl Rezensionen",
+  "grid.prime": "Prime",
+  "grid.sponsored": "Gesponsert",
+  "grid.ours": "Unseres",
+  "grid.removeTile": "Kachel {n} entfernen",
+  "grid.building": "Raster wird erstellt...",
+  "grid.addImage": "Fügen Sie Ihrer Kachel ein Bild hinzu",
+
+  "listing.title": "Listing-Details",
+  "listing.filled": "({count} ausgefüllt)",
+  "listing.optional": "(optional)",
+  "listing.productTitle": "Produkttitel",
+  "listing.price": "Preis, z. B. 24,99 €",
+  "listing.category": "Kategorie",
+  "listing.bullet": "Aufzählungspunkt {n}",
+  "listing.keywords": "Ziel-Keywords, durch Kommas oder Zeilenumbrüche getrennt",
+  "listing.keywordCount": "{count}/{max} Keywords. Für jedes wird bewertet, wie deutlich das Bild es stützt.",
+
+  "profilePicker.custom": "Eigenes",
+  "profilePicker.customizeCopy": "Kopie anpassen",
+  "profilePicker.edit": "Profil bearbeiten",
+  "profilePicker.customizeName": "{name} anpassen",
+  "profilePicker.editName": "{name} bearbeiten",
+  "profilePicker.new": "Neues Profil",
+  "profilePicker.import": "Importieren",
+  "profilePicker.export": "Exportieren",
+  "profilePicker.importFailed": "Profile konnten nicht importiert werden",
+
+  "profileEditor.editTitle": "Kontextprofil bearbeiten",
+  "profileEditor.newTitle": "Neues Kontextprofil",
+  "profileEditor.close": "Schließen",
+  "profileEditor.name": "Name",
+  "profileEditor.namePlaceholder": "z. B. Walmart-Listing",
+  "profileEditor.base": "Verhält sich wie",
+  "profileEditor.baseHint": "Legt die Anzahl der Bilder, die Prüfung und die lokalen Messungen fest.",
+  "profileEditor.description": "Beschreibung",
+  "profileEditor.descriptionPlaceholder": "Wird in der Auswahl unter dem Namen angezeigt",
+  "profileEditor.prompt": "Prompt",
+  "profileEditor.scenario": "Szenario",
+  "profileEditor.scenarioPlaceholder": "z. B. AMAZON POSTS FEED",
+  "profileEditor.objective": "Hauptziel",
+  "profileEditor.role": "Rolle",
+  "profileEditor.rolePlaceholder": "Als wer das Modell auftreten soll",
+  "profileEditor.focus": "Fokus-Checkliste (eine pro Zeile)",
+  "profileEditor.instructions": "Zusätzliche Anweisungen",
+  "profileEditor.instructionsPlaceholder": "Optionale Simulations- oder Ausgaberegeln",
+  "profileEditor.reportLabels": "Berichtsbeschriftungen",
+  "profileEditor.label.strategyTitle": "Titel des Strategieabschnitts",
+  "profileEditor.label.ctrLabel": "Beschriftung CTR-Kennzahl",
+  "profileEditor.label.conversionLabel": "Beschriftung Conversion-Kennzahl",
+  "profileEditor.label.bidLabel": "Beschriftung Gebot / Traffic",
+  "profileEditor.label.keywordLabel": "Beschriftung Keyword",
+  "profileEditor.label.copyLabel": "Beschriftung Werbetext",
+  "profileEditor.requiredOutput": "Erforderliche Ausgabe",
+  "profileEditor.field.strategicInsights": "Kommerzielle Szenarien",
+  "profileEditor.field.blindSpots": "Blinde Flecken",
+  "profileEditor.field.recommendations": "Empfehlungen",
+  "profileEditor.field.dominantColors": "Dominante Farben",
+  "profileEditor.field.abTestVerdict": "A/B-Urteil",
+  "profileEditor.field.comparativeAnalysis": "Direktvergleichswerte",
+  "profileEditor.field.variantLeaderboard": "Varianten-Rangliste",
+  "profileEditor.field.pairwiseComparisons": "Paarweise Vergleiche",
+  "profileEditor.nameRequired": "Geben Sie dem Profil einen Namen.",
+  "profileEditor.focusRequired": "Fügen Sie mindestens einen Fokuspunkt hinzu.",
+  "profileEditor.saveFailed": "Das Profil konnte nicht gespeichert werden",
+  "profileEditor.save": "Profil speichern",
+  "profileEditor.delete": "Löschen",
+};
+
+const FR: Catalog = {
+  "app.tagline": "Studio d’optimisation de la conversion et du PPC Amazon",
+  "nav.batch": "Lot",
+  "nav.history": "Historique",
+  "nav.newAnalysis": "Nouvelle analyse",
+  "nav.cancel": "Annuler",
+  "nav.back": "Retour",
+  "nav.open": "Ouvrir",
+  "nav.dismiss": "Fermer",
+  "nav.details": "Détails",
+
+  "upload.screenshot": "Importer une capture",
+  "upload.buildGrid": "Composer une grille de recherche",
+  "upload.composedGrid": "Grille composée · {count} vignettes",
+  "upload.asset": "Importer un visuel",
+  "upload.control": "Importer le témoin (A)",
+  "upload.variantB": "Importer la variante (B)",
+  "upload.variant": "Importer la variante {label}",
+  "upload.remove": "Retirer {label}",
+  "upload.clear": "Effacer les images",
+  "upload.showSaliency": "Aperçu de saillance instantané",
+  "upload.hideSaliency": "Masquer l’aperçu de saillance",
+  "upload.preview": "Aperçu {label}",
+  "grid.composeFailed": "Impossible de créer la grille : {detail}",
+
+  "image.ab": "Image {label}",
+  "image.variant": "Variante {label}",
+  "image.asset": "Visuel",
+
+  "setup.context": "Choisir le contexte d’analyse",
+  "setup.marketplace": "Marketplace",
+  "setup.marketplaceHint": "Les règles de conformité, la devise et les repères de CTR suivent {domain}.",
+  "setup.language": "Langue",
+  "setup.languageHint": "Utilisée pour le texte du rapport et cette interface.",
+  "setup.engine": "Moteur d’analyse",
+  "setup.runs": "Exécutions par analyse",
+  "setup.singleRun": "Unique",
+  "setup.runsHint": "Exécute l’analyse {runs} fois et présente les hotspots consensuels et les intervalles de score. Prend {runs} fois plus de temps.",
+  "setup.singleRunHint": "Une seule exécution. Scores et hotspots peuvent varier sensiblement d’une relance à l’autre.",
+  "setup.deviceEvidence": "Preuve à taille d’appareil",
+  "setup.deviceEvidenceHint": "Envoie aussi chaque image à la taille de recherche mobile et ordinateur, pour juger la lisibilité sur de vraies vignettes.",
+
+  "analyze.runProgress": "Analyse des visuels (exécution {run} sur {runs})...",
+  "analyze.running": "Analyse des visuels...",
+  "analyze.uploadBoth": "Importer les deux images (A et B)",
+  "analyze.uploadAtLeast": "Importer au moins {count} variantes",
+  "analyze.uploadFirst": "Importez d’abord une image",
+  "analyze.selectContext": "Choisissez un type de visuel pour continuer",
+  "analyze.run": "Lancer l’analyse automatique",
+
+  "lab.title": "Visual Attention Lab",
+  "lab.viewing": "Affichage : {label}",
+  "lab.versus": "{variant} vs {baseline}",
+  "lab.control": "Témoin",
+  "lab.variant": "Variante",
+  "viz.heatmap": "Carte thermique",
+  "viz.fogmap": "Carte de brouillard",
+  "viz.path": "Parcours",
+  "viz.device": "Appareils",
+  "layout.single": "Unique",
+  "layout.difference": "Différence",
+  "layout.sideBySide": "Côte à côte",
+
+  "guide.advertiser": "Point de vue annonceur",
+  "guide.customer": "Point de vue client",
+  "guide.heatmap.title": "Analyse par carte thermique",
+  "guide.heatmap.advertiser": "Montre les zones de forte intensité. Si votre produit est « froid » (bleu) dans une grille de recherche, votre budget PPC part dans des impressions ignorées.",
+  "guide.heatmap.customer": "Représente l’intérêt visuel général. Les clients regardent d’abord les zones rouges, les plus chaudes.",
+  "guide.fogmap.title": "Carte de brouillard (la « règle des 3 secondes »)",
+  "guide.fogmap.advertiser": "Simule la vision périphérique pendant le défilement et révèle ce qui est visible dans les 50 premières ms. Si votre argument clé reste dans le brouillard, vous perdez le clic.",
+  "guide.fogmap.customer": "Imite le premier filtre du cerveau (pensée du Système 1). Seuls les éléments saillants et contrastés percent le brouillard.",
+  "guide.path.title": "Séquence du parcours d’attention",
+  "guide.path.advertiser": "Vérifie la hiérarchie : voit-on Marque -> Produit -> Prix dans le bon ordre ? Un parcours chaotique nuit à la confiance et à la conversion. Lancez la lecture pour voir ce qui tient dans les 3 premières secondes.",
+  "guide.path.customer": "L’ordre dans lequel l’information est lue et combien de temps chaque point retient le regard. Un parcours logique réduit la charge cognitive.",
+  "guide.device.title": "Simulation d’appareils",
+  "guide.device.advertiser": "L’essentiel du trafic Amazon est mobile. Un hotspot illisible à 150 px ne peut pas générer le clic, quel que soit son score en pleine taille.",
+  "guide.device.customer": "Ce que les clients voient vraiment en faisant défiler : le visuel à la taille réelle d’une vignette de recherche ou d’un carrousel mobile.",
+
+  "report.title": "Rapport stratégique",
+  "report.receiving": "Réception de l’analyse...",
+  "report.rerunning": "Nouvelle exécution de l’analyse...",
+
+  "view.autoRepaired": "Corrigé automatiquement ({count})",
+  "view.streaming": "En direct",
+  "view.cached": "En cache · {date}",
+  "view.cachedTitle": "Mêmes images et paramètres qu’une analyse précédente ; aucun nouvel appel API n’a été effectué",
+  "view.forceRerun": "Relancer",
+  "view.repairNote": "La réponse de l’IA ne respectait pas entièrement le format attendu et a été corrigée automatiquement.",
+  "view.repairNoteReprompts": "La réponse de l’IA ne respectait pas entièrement le format attendu et a été corrigée automatiquement après {count} relance(s).",
+  "view.response": "réponse",
+  "view.verdict": "Verdict de la comparaison",
+  "view.wins": "{winner} l’emporte",
+  "view.inconclusive": "Pas de gagnant net",
+  "view.confidence": "Confiance : {score} %",
+  "view.why": "Pourquoi ?",
+  "view.differentiator": "Différence décisive : {text}",
+  "view.headToHead": "Scores face à face",
+  "view.imageA": "Image A",
+  "view.imageB": "Image B",
+  "view.summary": "Synthèse",
+  "view.scenarios": "Scénarios commerciaux",
+  "view.scenario.Winning": "Scénario gagnant",
+  "view.scenario.Losing": "Scénario perdant",
+  "view.scenario.Neutral": "Scénario neutre",
+  "view.businessImpact": "Impact commercial : {text}",
+  "view.coreScores": "Scores visuels clés (1-10)",
+  "view.ensembleNote": " · moyenne de {runs} exécutions, intervalle à 95 %",
+  "view.score.visibility": "Visibilité",
+  "view.score.goalAlign": "Adéquation",
+  "view.score.clarity": "Clarté",
+  "view.shareOfAttention": "Part d’attention",
+  "view.ourTile": "Notre vignette vs concurrents",
+  "view.tileRank": "Rang {rank} sur {total}",
+  "view.ourShare": "Notre part",
+  "view.competitorAverage": "Moyenne concurrents",
+  "view.unseen": "non vue",
+  "view.seen": "vue en n° {order}",
+  "view.measuredAois": "Zones d’intérêt mesurées · {label}",
+  "view.ttff": "Délai de 1re fixation : {value}",
+  "view.notFixated": "Non fixée",
+  "view.fixatedAt": "n° {order} (~{ms} ms)",
+  "view.fixations": "Fixations : {count}",
+  "view.optimizationPlan": "Plan d’optimisation",
+
+  "export.menu": "Exporter",
+  "export.group.report": "Rapport",
+  "export.group.raw": "Données brutes",
+  "export.failed": "Échec de l’export. Veuillez réessayer.",
+  "export.pdfReport": "Rapport PDF",
+  "export.pdfReportDesc": "Paginé, prêt à partager",
+  "export.htmlReport": "Rapport HTML",
+  "export.htmlReportDesc": "Fichier unique hors ligne",
+  "export.png": "PNG aplati",
+  "export.pngDesc": "{label}, vue actuelle, pleine résolution",
+  "export.overlay": "PNG de la superposition seule",
+  "export.overlayDesc": "Fond transparent",
+  "export.hotspotsJson": "Points chauds en JSON",
+  "export.hotspotsJsonDesc": "Champs hotspots, hotspotsB et hotspotsAnalysis",
+  "export.hotspotsCsv": "Points chauds en CSV",
+  "export.hotspotsCsvDesc": "Une ligne par point d’attention",
+  "export.analysisCsv": "Analyse de l’attention en CSV",
+  "export.analysisCsvDesc": "Part d’attention par élément",
+
+  "export.reportTitle": "Rapport Amazon HeatMap Studio",
+  "export.generated": "Généré le {date}",
+  "export.page": "Page {page} sur {total}",
+  "export.validation": "Validation",
+  "export.validationNote": "La réponse a dû être corrigée ({attempts} tentative(s)) :",
+  "export.unresolved": "(non résolu)",
+  "export.ensemble": "Ensemble de {runs} exécutions",
+  "export.stability": "Stabilité : {stability}",
+  "export.stability.stable": "Stable",
+  "export.stability.moderate": "Modérée",
+  "export.stability.unstable": "Instable",
+  "export.winnerAgreement": "{percent} % des exécutions ont désigné le même gagnant.",
+  "export.recurrence": "Récurrence des recommandations",
+  "export.recurrenceRuns": "{count}/{runs} exécutions",
+  "export.compliance": "Conformité de l’image principale",
+  "export.status.pass": "Conforme",
+  "export.status.warn": "À vérifier",
+  "export.status.fail": "Non conforme",
+  "export.column.check": "Contrôle",
+  "export.column.status": "Statut",
+  "export.column.value": "Valeur",
+  "export.column.detail": "Détail",
+  "export.column.metric": "Indicateur",
+  "export.column.rank": "Rang",
+  "export.column.variant": "Variante",
+  "export.column.score": "Score",
+  "export.column.verdict": "Verdict",
+  "export.column.keyword": "Mot-clé",
+  "export.column.evidence": "Preuve",
+  "export.leaderboard": "Classement des variantes",
+  "export.pairwise": "Comparaisons par paires",
+  "export.pairWins": "{winner} l’emporte",
+  "export.tie": "Égalité",
+  "export.projections": "Projections commerciales",
+  "export.keywordAlignment": "Alignement mots-clés / visuel : {score}/100",
+  "export.score.cognitiveLoad": "Charge cognitive",
+  "export.score.brandImpact": "Impact de marque",
+  "export.analyzedAsset": "Visuel analysé",
+  "export.attentionPath": "Parcours d’attention",
+
+  "history.title": "Historique des analyses",
+  "history.search": "Rechercher par ASIN, produit, tag, contexte ou résumé...",
+  "history.loading": "Chargement de l’historique...",
+  "history.empty": "Aucune analyse enregistrée pour l’instant. Chaque analyse terminée est enregistrée ici automatiquement.",
+  "history.noMatches": "Aucune analyse ne correspond à votre recherche.",
+  "history.untitled": "Sans titre",
+  "history.model": "{model} (prompt {version})",
+  "history.product": "Produit",
+  "history.tags": "Tags (séparés par des virgules)",
+  "history.delete": "Supprimer",
+  "history.confirmDelete": "Supprimer l’analyse du {date} ?",
+  "history.saveFailed": "Modifications non enregistrées",
+  "history.saveFailedMessage": "L’ASIN, le nom du produit et les tags n’ont pas pu être enregistrés. L’espace de stockage du navigateur est peut-être plein.",
+  "history.deleteFailed": "Analyse non supprimée",
+  "history.deleteFailedMessage": "L’analyse n’a pas pu être retirée de l’historique local. Réessayez.",
+  "history.openFailed": "Analyse non ouverte",
+  "history.openFailedMessage": "Les images enregistrées n’ont pas pu être relues. L’entrée est peut-être endommagée, ou le navigateur a bloqué l’accès à l’historique local.",
+  "history.unavailable": "Historique indisponible",
+  "history.unavailableMessage": "Impossible d’ouvrir l’historique local. Votre navigateur bloque peut-être IndexedDB en navigation privée.",
+
+  "batch.title": "Analyse par lot",
+  "batch.contextForNew": "Contexte des nouvelles images",
+  "batch.addFolder": "Ajouter un dossier",
+  "batch.addImages": "Ajouter des images",
+  "batch.parallel": "En parallèle",
+  "batch.perMinute": "Par minute",
+  "batch.retries": "Nouvelles tentatives",
+  "batch.start": "Démarrer",
+  "batch.startCount": "Démarrer ({count})",
+  "batch.pause": "Pause",
+  "batch.resume": "Reprendre",
+  "batch.newBatch": "Nouveau lot",
+  "batch.state.idle": "Prêt",
+  "batch.state.running": "En cours",
+  "batch.state.paused": "En pause",
+  "batch.state.cancelled": "Annulé",
+  "batch.state.finished": "Terminé",
+  "batch.settled": "{settled}/{total} traités",
+  "batch.pausedNote": "Les requêtes en cours se terminent ; aucune nouvelle ne démarre avant la reprise.",
+  "batch.empty": "Ajoutez un dossier ou un ensemble d’images. Chaque image est analysée séparément avec le contexte qui lui est attribué.",
+  "batch.retryIn": "Quota atteint, nouvel essai dans {seconds} s",
+  "batch.attempt": "essai {count}",
+  "batch.status.queued": "En attente",
+  "batch.status.running": "En cours",
+  "batch.status.retrying": "Nouvel essai",
+  "batch.status.done": "Terminé",
+  "batch.status.failed": "Échec",
+  "batch.status.cancelled": "Annulé",
+  "batch.column.image": "Image",
+  "batch.column.context": "Contexte",
+  "batch.column.score": "Score",
+  "batch.column.ctr": "CTR prévu",
+
+  "profile.hero.name": "Image principale du produit",
+  "profile.hero.description": "Image principale de l’offre (focus CTR)",
+  "profile.aplus.name": "Contenu A+ / Lifestyle",
+  "profile.aplus.description": "Page produit (focus conversion)",
+  "profile.search.name": "Résultats de recherche",
+  "profile.search.description": "Comparaison avec la concurrence",
+  "profile.storefront.name": "Boutique de marque",
+  "profile.storefront.description": "Image de marque et navigation",
+  "profile.ab.name": "Test comparatif A/B",
+  "profile.ab.description": "Comparer l’efficacité de deux images",
+  "profile.multi.name": "Test multivariantes",
+  "profile.multi.description": "Classer 3 à 6 images principales candidates",
+  "profile.customName": "{name} (personnalisé)",
+  "profile.copyName": "{name} (copie)",
+
+  "label.strategy.mainImage": "Stratégie CTR et image principale",
+  "label.strategy.experiment": "Stratégie d’expérimentation",
+  "label.strategy.content": "Stratégie de conversion et de contenu",
+  "label.strategy.ppc": "Stratégie d’enchères PPC",
+  "label.strategy.brand": "Stratégie de marque et de trafic",
+  "label.ctrImpact": "Impact CTR estimé",
+  "label.engagement": "Engagement estimé",
+  "label.salesPotential": "Potentiel de ventes",
+  "label.conversionLift": "Hausse du taux de conversion",
+  "label.aovPotential": "Potentiel de panier moyen",
+  "label.trafficPotential": "Potentiel de trafic",
+  "label.conversionStrategy": "Stratégie de conversion",
+  "label.bidStrategy": "Stratégie d’enchères recommandée",
+  "label.keyBenefit": "Bénéfice clé / accroche",
+  "label.keywordFocus": "Mots-clés ciblés",
+  "label.adCopy": "Cohérence avec le texte publicitaire",
+  "label.overlayContent": "Texte et contenu en surimpression",
+
+  "range.span": "{low} à {high}{unit}",
+  "range.unit.percent": " %",
+  "range.unit.pp": " pts",
+
+  "compliance.title": "Conformité de l’image principale",
+  "compliance.allPassed": "Tous les contrôles réussis",
+  "compliance.passedWithWarnings": "Réussi, {count} à vérifier",
+  "compliance.notCompliant": "Non conforme",
+  "compliance.measured": "Mesuré à partir des pixels de l’image, et non estimé par l’IA.",
+  "compliance.background.label": "Fond blanc pur",
+  "compliance.background.value": "{percent} de blanc pur",
+  "compliance.background.offWhite": "La bordure est blanc cassé (RVB 240-254). Réglez le fond sur exactement RVB 255,255,255.",
+  "compliance.background.rule": "Les pixels de bordure doivent être en RVB 255,255,255.",
+  "compliance.fill.label": "Le produit occupe 85 % du cadre",
+  "compliance.fill.value": "{percent} du cadre",
+  "compliance.fill.noProduct": "Aucun produit détecté",
+  "compliance.fill.rule": "Plus grand côté du cadre du produit par rapport à l’image. Recadrez plus serré en dessous de 85 %.",
+  "compliance.fill.whiteOnWhite": "Rien ne se détache du fond ; vérifiez que le produit n’est pas blanc sur blanc.",
+  "compliance.dimensions.label": "Résolution compatible zoom",
+  "compliance.dimensions.zoomEnabled": "Le plus grand côté fait au moins {zoom} px : le zoom est activé.",
+  "compliance.dimensions.rule": "Le zoom exige au moins {zoom} px sur le plus grand côté ; en dessous de {min} px, l’image est refusée.",
+  "compliance.aspectRatio.label": "Format carré",
+  "compliance.aspectRatio.rule": "Le format 1:1 remplit les vignettes de recherche sans bandes ; au-delà de 5:1, l’image est refusée.",
+  "compliance.overlays.label": "Ni badges ni filigranes",
+  "compliance.overlays.found": "Surimpression possible : {corners}",
+  "compliance.overlays.clear": "Coins dégagés",
+  "compliance.overlays.rule": "Les textes, logos, badges et filigranes ajoutés sur le produit sont interdits sur l’image principale.",
+  "compliance.corner.topLeft": "en haut à gauche",
+  "compliance.corner.topRight": "en haut à droite",
+  "compliance.corner.bottomLeft": "en bas à gauche",
+  "compliance.corner.bottomRight": "en bas à droite",
+
+  "error.apiKey.title": "Clé API manquante ou invalide",
+  "error.apiKey.message": "Gemini n’a pas accepté la clé API. Définissez GEMINI_API_KEY dans .env.local et redémarrez le serveur de développement, ou utilisez en attendant le fournisseur hors ligne.",
+  "error.quota.title": "Limite de débit atteinte",
+  "error.quota.message": "Le quota Gemini de cette clé est épuisé pour le moment. Patienter un peu avant de réessayer suffit généralement.",
+  "error.safety.title": "Bloqué par les filtres de sécurité",
+  "error.safety.message": "Le modèle a refusé d’analyser ce contenu. Vérifiez que l’image et le texte de l’offre ne contiennent rien qui puisse être jugé dangereux, puis réessayez.",
+  "error.imageTooLarge.title": "Image trop volumineuse",
+  "error.imageTooLarge.message": "Les images dépassent ce que le modèle accepte en une requête. Une copie réduite conserve largement assez de détails pour une analyse d’attention.",
+  "error.unsupportedImage.title": "Format d’image non pris en charge",
+  "error.unsupportedImage.message": "Le modèle n’accepte que les images PNG, JPEG, WebP et HEIC. La conversion en JPEG conserve l’apparence de l’image.",
+  "error.malformedJson.title": "Réponse illisible",
+  "error.malformedJson.message": "Le modèle a répondu par un JSON invalide, même après une demande de correction. C’est généralement ponctuel.",
+  "error.incompleteSchema.title": "Réponse incomplète",
+  "error.incompleteSchema.message": "Le modèle a omis à plusieurs reprises des parties obligatoires du rapport. Réessayer aide souvent, tout comme réduire les champs obligatoires du profil.",
+  "error.offline.title": "Pas de connexion",
+  "error.offline.message": "La requête n’a pas pu atteindre le modèle. Vérifiez votre connexion Internet et réessayez.",
+  "error.unknown.title": "Échec de l’analyse",
+  "error.unknown.message": "Un problème est survenu pendant l’analyse. Réessayez ; si l’échec persiste, les détails ci-dessous peuvent aider.",
+  "error.apiKeyNotSet": "GEMINI_API_KEY n’est pas défini. Ajoutez-le dans .env.local et redémarrez le serveur de développement, ou passez au fournisseur hors ligne.",
+  "error.unsupportedFile": "{name} est au format {type}. Gemini accepte les images PNG, JPEG, WebP et HEIC.",
+  "error.unknownFileType": "Le format de {name} est inconnu. Gemini accepte les images PNG, JPEG, WebP et HEIC.",
+  "error.uploadTooLarge": "Une fois encodées, les images pèsent {size} Mo ; Gemini accepte environ {limit} Mo par requête.",
+  "error.cannotConvert": "Ce navigateur ne peut pas ouvrir l’image pour la convertir. Exportez-la en JPEG ou PNG, puis importez-la à nouveau.",
+  "error.tryAgain": "Réessayer",
+  "error.retryingIn": "Nouvel essai dans {seconds} s · Annuler",
+  "error.retryWithBackoff": "Réessayer avec délai",
+  "error.convertAndRetry": "Convertir en JPEG et réessayer",
+  "error.downscaleAndRetry": "Réduire et réessayer",
+  "error.switchTo": "Passer à {provider}",
+  "error.inputsKept": "Vos images, le contexte et les détails de l’offre sont conservés.",
+
+  "hotspot.point": "Point {id}",
+  "overlay.analyzedAsset": "Visuel analysé",
+
+  "aoi.title": "Zones d’intérêt",
+  "aoi.tool.view": "Affichage",
+  "aoi.tool.rect": "Rectangle",
+  "aoi.tool.polygon": "Polygone",
+  "aoi.shape.rect": "Rect.",
+  "aoi.shape.polygon": "Polygone",
+  "aoi.nextName": "Nom de la prochaine zone",
+  "aoi.defaultName": "Zone {n}",
+  "aoi.preset.logo": "Logo",
+  "aoi.preset.priceBadge": "Badge de prix",
+  "aoi.preset.product": "Produit",
+  "aoi.preset.claim": "Texte d’argument",
+  "aoi.rectHint": "Faites glisser sur l’image pour tracer un rectangle.",
+  "aoi.polygonHint": "Cliquez pour ajouter des points ; cliquez sur le premier point ou double-cliquez pour fermer. Échap annule.",
+  "aoi.empty": "Tracez des zones comme le logo ou le badge de prix pour mesurer leur part d’attention.",
+  "aoi.templateName": "Nom du modèle, p. ex. Mise en page image principale",
+  "aoi.save": "Enregistrer",
+  "aoi.count": "{count} zones",
+  "aoi.apply": "Appliquer",
+
+  "saliency.source.model": "IA",
+  "saliency.source.pixels": "Pixels",
+  "saliency.source.blended": "Combiné",
+  "saliency.agreement": "Concordance pixels {score} %",
+  "saliency.computing": "Calcul de la saillance des pixels...",
+  "saliency.aiOnly": "Focus IA uniquement :",
+  "saliency.aiOnlyNote": "{points} se trouve sur des pixels visuellement uniformes.",
+  "saliency.pixelOnly": "Pics pixels uniquement :",
+  "saliency.missedOne": "{count} zone très saillante n’a pas été prédite par l’IA.",
+  "saliency.missedMany": "{count} zones très saillantes n’ont pas été prédites par l’IA.",
+  "saliency.feature.contrast": "Fort contraste",
+  "saliency.feature.color": "Couleur vive",
+  "saliency.feature.edges": "Détail des contours",
+  "saliency.feature.text": "Zone de type texte",
+  "saliency.pixelLabel": "Pixel : {label}",
+  "saliency.pixelPeak": "Pic de pixels",
+
+  "switcher.rank": "Rang {rank} au classement",
+
+  "heatmap.settings": "Réglages de la carte thermique",
+  "heatmap.reset": "Réinitialiser",
+  "heatmap.radius": "Rayon",
+  "heatmap.opacity": "Opacité",
+  "heatmap.threshold": "Seuil",
+  "heatmap.palette.jet": "Jet",
+  "heatmap.palette.viridis": "Viridis",
+  "heatmap.palette.colorblind": "Adapté aux daltoniens",
+  "heatmap.palette.mono": "Teinte unique",
+
+  "zoom.in": "Zoom avant",
+  "zoom.out": "Zoom arrière",
+  "zoom.reset": "Réinitialiser le zoom",
+
+  "diff.loses": "{variant} perd de l’attention",
+  "diff.noChange": "Aucun changement",
+  "diff.gains": "{variant} gagne de l’attention",
+  "diff.biggestGain": "Plus forte hausse :",
+  "diff.biggestLoss": "Plus forte baisse vs {baseline} :",
+  "diff.none": "Aucune",
+  "diff.identical": "L’attention est répartie de la même façon dans les deux images.",
+
+  "scanpath.play": "Lecture",
+  "scanpath.pause": "Pause",
+  "scanpath.restart": "Recommencer",
+  "scanpath.exportFailed": "Échec de l’export",
+  "scanpath.fixation": "Fixation",
+  "scanpath.firstImpression": "— {count} fixations sur {total} dans les 3 premières secondes",
+  "scanpath.noWebm": "Ce navigateur ne peut pas enregistrer en WebM",
+  "scanpath.download": "Télécharger la lecture en {format}",
+
+  "device.status.survives": "Lisible",
+  "device.status.blurred": "Illisible",
+  "device.status.lost": "Perdu",
+  "device.failed": "Échec de la simulation",
+  "device.rendering": "Rendu des tailles d’appareil...",
+  "device.legibility": "Lisibilité {score}",
+  "device.mobileSearch.label": "Recherche mobile",
+  "device.mobileSearch.description": "Vignette des résultats de recherche de l’app Amazon",
+  "device.desktopSearch.label": "Recherche sur ordinateur",
+  "device.desktopSearch.description": "Grille de résultats sur ordinateur",
+  "device.detailCarousel.label": "Carrousel de la fiche produit",
+  "device.detailCarousel.description": "Carrousel d’images pleine largeur sur téléphone",
+
+  "leaderboard.perMetric": "Scores par métrique",
+  "leaderboard.versus": "vs",
+
+  "ensemble.hint.stable": "Les exécutions concordent étroitement. Les écarts de plus d’un point sont réels.",
+  "ensemble.hint.moderate": "Les exécutions concordent à peu près. Considérez les petits écarts de score comme du bruit.",
+  "ensemble.hint.unstable": "Les exécutions divergent. Ajoutez des exécutions ou une variante plus nette avant d’agir.",
+  "ensemble.failedOne": "{count} exécution a échoué et a été écartée.",
+  "ensemble.failedMany": "{count} exécutions ont échoué et ont été écartées.",
+  "ensemble.headToHead": "Face-à-face (intervalle à 95 %)",
+  "ensemble.consensus": "{count} hotspots consensuels",
+  "ensemble.spread": "pour cette image, dispersion moyenne de {spread} % de l’image.",
+  "ensemble.weakSupport": "Certains points n’ont été vus que par la moitié des exécutions ou moins.",
+
+  "profit.title": "Calculateur ACOS / ROAS",
+  "profit.intro": "Saisissez les chiffres actuels de votre campagne pour voir ce que vaut la hausse prévue.",
+  "profit.input.cpc": "CPC",
+  "profit.input.ctr": "CTR (%)",
+  "profit.input.conversionRate": "Taux de conv. (%)",
+  "profit.input.aov": "Panier moyen",
+  "profit.input.dailyBudget": "Budget quotidien",
+  "profit.row.clicks": "Clics / jour",
+  "profit.row.orders": "Commandes / jour",
+  "profit.row.spend": "Dépenses pub / jour",
+  "profit.row.revenue": "Chiffre d’affaires / jour",
+  "profit.row.acos": "ACOS",
+  "profit.row.roas": "ROAS",
+  "profit.noLift": "Cette analyse ne contient pas d’estimation chiffrée de la hausse. Relancez-la pour en obtenir une.",
+  "profit.column.daily": "Par jour",
+  "profit.column.baseline": "Référence",
+  "profit.column.projected": "Projection (basse – haute)",
+  "profit.ctrRange": "CTR {range}.",
+  "profit.conversionRange": "Conversion {range}.",
+  "profit.budgetNote": "Les impressions restent au niveau actuel : une CTR plus élevée demande jusqu’à {amount} de budget par jour.",
+  "profit.variantComparison": "Comparaison des variantes (point médian)",
+  "profit.perDay": "{amount} / jour",
+  "profit.perMonth": "{amount} / mois",
+  "profit.acos": "ACOS {value}",
+  "profit.leader": "En tête",
+  "profit.monthlyNote": "Écart mensuel de chiffre d’affaires après dépenses pub par rapport à la variante en tête.",
+
+  "color.title": "Palette de couleurs",
+  "color.readFailed": "Impossible de lire les couleurs de l’image",
+  "color.extracting": "Extraction des couleurs...",
+  "color.family.white": "Blanc",
+  "color.family.black": "Noir",
+  "color.family.gray": "Gris",
+  "color.family.red": "Rouge",
+  "color.family.orange": "Orange",
+  "color.family.brown": "Marron",
+  "color.family.yellow": "Jaune",
+  "color.family.green": "Vert",
+  "color.family.teal": "Bleu canard",
+  "color.family.blue": "Bleu",
+  "color.family.purple": "Violet",
+  "color.family.pink": "Rose",
+  "color.note.white": "Net et clinique ; obligatoire pour les images principales, il ne différencie donc jamais à lui seul.",
+  "color.note.black": "Premium et affirmé ; en excès, il peut paraître daté en miniature.",
+  "color.note.gray": "Neutre et technique ; laisse une couleur d’accent capter l’attention.",
+  "color.note.red": "Urgence et énergie ; attire l’œil en premier mais évoque la promotion s’il est trop présent.",
+  "color.note.orange": "Convivial et abordable ; proche des accents de l’interface d’Amazon, il peut donc se fondre dans la page.",
+  "color.note.brown": "Naturel, chaleureux et artisanal ; convient à l’alimentation, au cuir et au bois.",
+  "color.note.yellow": "Optimisme et attention ; peu contrasté sur blanc, associez-le à un contour sombre.",
+  "color.note.green": "Santé, nature et arguments écologiques ; un signal courant pour les compléments et l’entretien.",
+  "color.note.teal": "Frais et moderne ; évoque la propreté et le soin en hygiène-beauté.",
+  "color.note.blue": "Confiance et fiabilité ; la couleur la plus courante des catégories, elle se démarque donc rarement.",
+  "color.note.purple": "Premium et créatif ; plus rare dans les résultats de recherche, il différencie.",
+  "color.note.pink": "Ludique, évoque la beauté et le cadeau ; très différenciant hors des catégories beauté.",
+  "color.claimed": "Couleurs annoncées par l’IA vs pixels",
+  "color.verdict.match": "Dans l’image",
+  "color.verdict.close": "Approchante",
+  "color.verdict.absent": "Introuvable",
+  "color.contrast": "Contraste du texte (WCAG)",
+  "color.belowAa": "{count} sous AA",
+  "color.noText": "Aucune zone de type texte trouvée.",
+  "color.region": "Zone à {x} %, {y} %",
+  "color.level.aaa": "AAA",
+  "color.level.aa": "AA",
+  "color.level.aaLarge": "AA grand texte",
+  "color.level.fail": "Échec",
+  "color.detectionNote": "Les zones de type texte sont détectées à partir des pixels ; des textures chargées peuvent être retenues et un texte très petit manqué.",
+  "color.distinctness": "Démarcation par rapport aux vignettes voisines",
+  "color.noNeighbors": "Aucune vignette concurrente à côté de la nôtre.",
+  "color.standsOut": "Se démarque",
+  "color.blendsIn": "Se fond",
+
+  "keywords.title": "Alignement mots-clés / visuel",
+  "keywords.supported": "{supported} mots-clés cibles sur {total} visiblement appuyés par l’image.",
+  "keywords.supportedFor": "{supported} mots-clés cibles sur {total} visiblement appuyés par l’image pour « {title} ».",
+
+  "grid.ourProduct": "Notre produit",
+  "grid.competitor": "Concurrent {n}",
+  "grid.layout.desktop": "Grille ordinateur",
+  "grid.layout.mobile": "Liste mobile",
+  "grid.addTile": "Ajouter une vignette",
+  "grid.chooseImage": "Choisir l’image produit",
+  "grid.tile": "Vignette {n}",
+  "grid.productTitle": "Titre du produit",
+  "grid.rating": "Note en étoiles",
+  "grid.reviewCount": "Nombre d’avis",
+  "grid.prime": "Prime",
+  "grid.sponsored": "Sponsorisé",
+  "grid.ours": "Le nôtre",
+  "grid.removeTile": "Retirer la vignette {n}",
+  "grid.building": "Création de la grille...",
+  "grid.addImage": "Ajoutez une image à votre vignette",
+
+  "listing.title": "Détails de la fiche",
+  "listing.filled": "({count} renseignés)",
+  "listing.optional": "(facultatif)",
+  "listing.productTitle": "Titre du produit",
+  "listing.price": "Prix, p. ex. 24,99 €",
+  "listing.category": "Catégorie",
+  "listing.bullet": "Puce {n}",
+  "listing.keywords": "Mots-clés cibles, séparés par des virgules ou des retours à la ligne",
+  "listing.keywordCount": "{count}/{max} mots-clés. Chacun est noté selon la clarté avec laquelle l’image l’appuie.",
+
+  "profilePicker.custom": "Personnalisé",
+  "profilePicker.customizeCopy": "Personnaliser une copie",
+  "profilePicker.edit": "Modifier le profil",
+  "profilePicker.customizeName": "Personnaliser {name}",
+  "profilePicker.editName": "Modifier {name}",
+  "profilePicker.new": "Nouveau profil",
+  "profilePicker.import": "Importer",
+  "profilePicker.export": "Exporter",
+  "profilePicker.importFailed": "Impossible d’importer les profils",
+
+  "profileEditor.editTitle": "Modifier le profil de contexte",
+  "profileEditor.newTitle": "Nouveau profil de contexte",
+  "profileEditor.close": "Fermer",
+  "profileEditor.name": "Nom",
+  "profileEditor.namePlaceholder": "p. ex. Fiche Walmart",
+  "profileEditor.base": "Se comporte comme",
+  "profileEditor.baseHint": "Définit le nombre d’images, la validation et les mesures locales.",
+  "profileEditor.description": "Description",
+  "profileEditor.descriptionPlaceholder": "Affichée sous le nom dans le sélecteur",
+  "profileEditor.prompt": "Prompt",
+  "profileEditor.scenario": "Scénario",
+  "profileEditor.scenarioPlaceholder": "p. ex. AMAZON POSTS FEED",
+  "profileEditor.objective": "Objectif principal",
+  "profileEditor.role": "Rôle",
+  "profileEditor.rolePlaceholder": "Le rôle que le modèle doit endosser",
+  "profileEditor.focus": "Liste des points clés (un par ligne)",
+  "profileEditor.instructions": "Instructions supplémentaires",
+  "profileEditor.instructionsPlaceholder": "Règles de simulation ou de sortie facultatives",
+  "profileEditor.reportLabels": "Libellés du rapport",
+  "profileEditor.label.strategyTitle": "Titre de la section stratégie",
+  "profileEditor.label.ctrLabel": "Libellé de la métrique CTR",
+  "profileEditor.label.conversionLabel": "Libellé de la métrique de conversion",
+  "profileEditor.label.bidLabel": "Libellé enchères / trafic",
+  "profileEditor.label.keywordLabel": "Libellé mot-clé",
+  "profileEditor.label.copyLabel": "Libellé du texte",
+  "profileEditor.requiredOutput": "Sortie requise",
+  "profileEditor.field.strategicInsights": "Scénarios commerciaux",
+  "profileEditor.field.blindSpots": "Angles morts",
+  "profileEditor.field.recommendations": "Recommandations",
+  "profileEditor.field.dominantColors": "Couleurs dominantes",
+  "profileEditor.field.abTestVerdict": "Verdict A/B",
+  "profileEditor.field.comparativeAnalysis": "Scores face-à-face",
+  "profileEditor.field.variantLeaderboard": "Classement des variantes",
+  "profileEditor.field.pairwiseComparisons": "Comparaisons par paires",
+  "profileEditor.nameRequired": "Donnez un nom au profil.",
+  "profileEditor.focusRequired": "Ajoutez au moins un point clé.",
+  "profileEditor.saveFailed": "Impossible d’enregistrer le profil",
+  "profileEditor.save": "Enregistrer le profil",
+  "profileEditor.delete": "Supprimer",
+};
+
+const JA: Catalog = {
+  "app.tagline": "Amazon コンバージョン & PPC 最適化スタジオ",
+  "nav.batch": "一括処理",
+  "nav.history": "履歴",
+  "nav.newAnalysis": "新しい分析",
+  "nav.cancel": "キャンセル",
+  "nav.back": "戻る",
+  "nav.open": "開く",
+  "nav.dismiss": "閉じる",
+  "nav.details": "詳細",
+
+  "upload.screenshot": "スクリーンショットをアップロード",
+  "upload.buildGrid": "検索グリッドを作成",
+  "upload.composedGrid": "作成したグリッド · {count} タイル",
+  "upload.asset": "画像をアップロード",
+  "upload.control": "コントロール (A) をアップロード",
+  "upload.variantB": "バリアント (B) をアップロード",
+  "upload.variant": "バリアント {label} をアップロード",
+  "upload.remove": "{label} を削除",
+  "upload.clear": "画像をクリア",
+  "upload.showSaliency": "サリエンシーを即時プレビュー",
+  "upload.hideSaliency": "サリエンシーのプレビューを隠す",
+  "upload.preview": "{label} のプレビュー",
+  "grid.composeFailed": "グリッドを作成できませんでした: {detail}",
+
+  "image.ab": "画像 {label}",
+  "image.variant": "バリアント {label}",
+  "image.asset": "画像",
+
+  "setup.context": "分析コンテキストを選択",
+  "setup.marketplace": "マーケットプレイス",
+  "setup.marketplaceHint": "コンプライアンス規則・通貨・CTR ベンチマークは {domain} に従います。",
+  "setup.language": "言語",
+  "setup.languageHint": "レポート本文とこの画面で使用します。",
+  "setup.engine": "分析エンジン",
+  "setup.runs": "分析あたりの実行回数",
+  "setup.singleRun": "1 回",
+  "setup.runsHint": "分析を {runs} 回実行し、合意したホットスポットとスコアの区間を表示します。所要時間は {runs} 倍です。",
+  "setup.singleRunHint": "1 回のみ実行します。再実行するとスコアやホットスポットがかなり変わることがあります。",
+  "setup.deviceEvidence": "デバイスサイズの根拠",
+  "setup.deviceEvidenceHint": "各画像をモバイルとデスクトップの検索サイズでも送信し、実際のサムネイルで読みやすさを判定します。",
+
+  "analyze.runProgress": "画像を分析中 ({runs} 回中 {run} 回目)...",
+  "analyze.running": "画像を分析中...",
+  "analyze.uploadBoth": "両方の画像 (A と B) をアップロード",
+  "analyze.uploadAtLeast": "バリアントを {count} 件以上アップロード",
+  "analyze.uploadFirst": "まず画像をアップロードしてください",
+  "analyze.selectContext": "続けるには画像の種類を選択してください",
+  "analyze.run": "自動分析を実行",
+
+  "lab.title": "Visual Attention Lab",
+  "lab.viewing": "表示中: {label}",
+  "lab.versus": "{variant} 対 {baseline}",
+  "lab.control": "コントロール",
+  "lab.variant": "バリアント",
+  "viz.heatmap": "ヒートマップ",
+  "viz.fogmap": "フォグマップ",
+  "viz.path": "視線経路",
+  "viz.device": "デバイス",
+  "layout.single": "単独",
+  "layout.difference": "差分",
+  "layout.sideBySide": "並べて表示",
+
+  "guide.advertiser": "広告主の視点",
+  "guide.customer": "顧客の視点",
+  "guide.heatmap.title": "ヒートマップ分析",
+  "guide.heatmap.advertiser": "注目度の高い領域を示します。検索グリッドで商品が「冷たい」(青) 場合、PPC 予算は見過ごされるインプレッションに消えています。",
+  "guide.heatmap.customer": "全体的な視覚的関心を表します。顧客は流し見するとき、まず赤い高温の領域を見ます。",
+  "guide.fogmap.title": "フォグマップ (「3 秒ルール」)",
+  "guide.fogmap.advertiser": "スクロール中の周辺視をシミュレーションし、最初の 50ms で見えるものを示します。USP が霧に隠れていればクリックを失います。",
+  "guide.fogmap.customer": "脳の最初のフィルター (システム 1 思考) を再現します。コントラストが高く目立つ要素だけが霧を抜けます。",
+  "guide.path.title": "視線経路のシーケンス",
+  "guide.path.advertiser": "情報の階層を検証します。ブランド -> 商品 -> 価格の順に見られていますか? 混乱した経路は信頼とコンバージョンを下げます。再生して最初の 3 秒に何が収まるか確認してください。",
+  "guide.path.customer": "情報が読まれる順序と、各ポイントが視線を留める時間です。論理的な経路は認知負荷を下げます。",
+  "guide.device.title": "デバイスシミュレーション",
+  "guide.device.advertiser": "Amazon のトラフィックの大半はモバイルです。150px で読めなくなるホットスポットは、原寸でどれほど高評価でもクリックを生みません。",
+  "guide.device.customer": "スクロール中に顧客が実際に見るもの: 検索タイルやスマホのカルーセルの実寸での画像です。",
+
+  "report.title": "戦略レポート",
+  "report.receiving": "分析を受信中...",
+  "report.rerunning": "分析を再実行中...",
+
+  "view.autoRepaired": "自動修正済み ({count})",
+  "view.streaming": "ストリーミング中",
+  "view.cached": "キャッシュ · {date}",
+  "view.cachedTitle": "以前の分析と同じ画像と入力のため、新しい API 呼び出しは行っていません",
+  "view.forceRerun": "強制的に再実行",
+  "view.repairNote": "AI の応答が想定の形式と完全には一致しなかったため、自動的に修正しました。",
+  "view.repairNoteReprompts": "AI の応答が想定の形式と完全には一致しなかったため、{count} 回の再指示の後に自動的に修正しました。",
+  "view.response": "応答",
+  "view.verdict": "比較の判定",
+  "view.wins": "{winner} の勝ち",
+  "view.inconclusive": "明確な勝者なし",
+  "view.confidence": "信頼度 {score}%",
+  "view.why": "理由",
+  "view.differentiator": "決め手: {text}",
+  "view.headToHead": "直接比較スコア",
+  "view.imageA": "画像 A",
+  "view.imageB": "画像 B",
+  "view.summary": "エグゼクティブサマリー",
+  "view.scenarios": "商業シナリオ",
+  "view.scenario.Winning": "成功シナリオ",
+  "view.scenario.Losing": "失敗シナリオ",
+  "view.scenario.Neutral": "中立シナリオ",
+  "view.businessImpact": "ビジネスへの影響: {text}",
+  "view.coreScores": "主要ビジュアルスコア (1-10)",
+  "view.ensembleNote": " · {runs} 回の平均、95% 区間",
+  "view.score.visibility": "視認性",
+  "view.score.goalAlign": "目的適合",
+  "view.score.clarity": "明瞭さ",
+  "view.shareOfAttention": "注目シェア",
+  "view.ourTile": "自社タイル対競合",
+  "view.tileRank": "{total} 件中 {rank} 位",
+  "view.ourShare": "自社シェア",
+  "view.competitorAverage": "競合平均",
+  "view.unseen": "未注視",
+  "view.seen": "{order} 番目に注視",
+  "view.measuredAois": "計測した関心領域 · {label}",
+  "view.ttff": "初回注視まで: {value}",
+  "view.notFixated": "注視なし",
+  "view.fixatedAt": "{order} 番目 (約 {ms} ms)",
+  "view.fixations": "注視回数: {count}",
+  "view.optimizationPlan": "最適化プラン",
+
+  "export.menu": "エクスポート",
+  "export.group.report": "レポート",
+  "export.group.raw": "生データ",
+  "export.failed": "エクスポートに失敗しました。もう一度お試しください。",
+  "export.pdfReport": "PDF レポート",
+  "export.pdfReportDesc": "ページ分割済み、そのまま共有可能",
+  "export.htmlReport": "HTML レポート",
+  "export.htmlReportDesc": "オフラインで開ける単一ファイル",
+  "export.png": "合成した PNG",
+  "export.pngDesc": "{label}、現在の表示、フル解像度",
+  "export.overlay": "オーバーレイのみの PNG",
+  "export.overlayDesc": "透明な背景",
+  "export.hotspotsJson": "ホットスポット JSON",
+  "export.hotspotsJsonDesc": "hotspots・hotspotsB・hotspotsAnalysis フィールド",
+  "export.hotspotsCsv": "ホットスポット CSV",
+  "export.hotspotsCsvDesc": "注目ポイントごとに 1 行",
+  "export.analysisCsv": "注目分析 CSV",
+  "export.analysisCsvDesc": "要素ごとの注目シェア",
+
+  "export.reportTitle": "Amazon HeatMap Studio レポート",
+  "export.generated": "作成日時 {date}",
+  "export.page": "{page} / {total} ページ",
+  "export.validation": "検証",
+  "export.validationNote": "応答の修正が必要でした (試行 {attempts} 回):",
+  "export.unresolved": "(未解決)",
+  "export.ensemble": "{runs} 回の実行のアンサンブル",
+  "export.stability": "安定性: {stability}",
+  "export.stability.stable": "安定",
+  "export.stability.moderate": "中程度",
+  "export.stability.unstable": "不安定",
+  "export.winnerAgreement": "{percent}% の実行が同じ勝者を選びました。",
+  "export.recurrence": "推奨事項の再現回数",
+  "export.recurrenceRuns": "{runs} 回中 {count} 回",
+  "export.compliance": "メイン画像のコンプライアンス",
+  "export.status.pass": "合格",
+  "export.status.warn": "注意",
+  "export.status.fail": "不合格",
+  "export.column.check": "チェック",
+  "export.column.status": "状態",
+  "export.column.value": "値",
+  "export.column.detail": "詳細",
+  "export.column.metric": "指標",
+  "export.column.rank": "順位",
+  "export.column.variant": "バリアント",
+  "export.column.score": "スコア",
+  "export.column.verdict": "評価",
+  "export.column.keyword": "キーワード",
+  "export.column.evidence": "根拠",
+  "export.leaderboard": "バリアントランキング",
+  "export.pairwise": "ペア比較",
+  "export.pairWins": "{winner} の勝ち",
+  "export.tie": "引き分け",
+  "export.projections": "商業予測",
+  "export.keywordAlignment": "キーワードとビジュアルの一致度: {score}/100",
+  "export.score.cognitiveLoad": "認知負荷",
+  "export.score.brandImpact": "ブランドへの影響",
+  "export.analyzedAsset": "分析した画像",
+  "export.attentionPath": "視線経路",
+
+  "history.title": "分析履歴",
+  "history.search": "ASIN・商品・タグ・コンテキスト・サマリーで検索...",
+  "history.loading": "履歴を読み込み中...",
+  "history.empty": "保存された分析はまだありません。完了した分析はすべて自動的にここに保存されます。",
+  "history.noMatches": "検索に一致する分析はありません。",
+  "history.untitled": "無題",
+  "history.model": "{model} (プロンプト {version})",
+  "history.product": "商品",
+  "history.tags": "タグ (カンマ区切り)",
+  "history.delete": "削除",
+  "history.confirmDelete": "{date} の分析を削除しますか?",
+  "history.saveFailed": "変更を保存できませんでした",
+  "history.saveFailedMessage": "ASIN・商品名・タグを保存できませんでした。ブラウザーの保存容量が不足している可能性があります。",
+  "history.deleteFailed": "分析を削除できませんでした",
+  "history.deleteFailedMessage": "ローカル履歴から分析を削除できませんでした。もう一度お試しください。",
+  "history.openFailed": "分析を開けませんでした",
+  "history.openFailedMessage": "保存した画像を読み込めませんでした。記録が破損しているか、ブラウザーがローカル履歴へのアクセスをブロックした可能性があります。",
+  "history.unavailable": "履歴を利用できません",
+  "history.unavailableMessage": "ローカル履歴を開けませんでした。プライベートモードではブラウザーが IndexedDB をブロックしている可能性があります。",
+
+  "batch.title": "一括分析",
+  "batch.contextForNew": "新しい画像のコンテキスト",
+  "batch.addFolder": "フォルダーを追加",
+  "batch.addImages": "画像を追加",
+  "batch.parallel": "並列数",
+  "batch.perMinute": "毎分",
+  "batch.retries": "再試行",
+  "batch.start": "開始",
+  "batch.startCount": "開始 ({count})",
+  "batch.pause": "一時停止",
+  "batch.resume": "再開",
+  "batch.newBatch": "新しい一括処理",
+  "batch.state.idle": "準備完了",
+  "batch.state.running": "実行中",
+  "batch.state.paused": "一時停止中",
+  "batch.state.cancelled": "キャンセル済み",
+  "batch.state.finished": "完了",
+  "batch.settled": "{total} 件中 {settled} 件処理済み",
+  "batch.pausedNote": "処理中のリクエストは完了しますが、再開するまで新しいリクエストは開始されません。",
+  "batch.empty": "フォルダーまたは複数の画像を追加してください。各画像は割り当てられたコンテキストで個別に分析されます。",
+  "batch.retryIn": "割り当て上限に到達、{seconds} 秒後に再試行",
+  "batch.attempt": "{count} 回目",
+  "batch.status.queued": "待機中",
+  "batch.status.running": "実行中",
+  "batch.status.retrying": "再試行中",
+  "batch.status.done": "完了",
+  "batch.status.failed": "失敗",
+  "batch.status.cancelled": "キャンセル済み",
+  "batch.column.image": "画像",
+  "batch.column.context": "コンテキスト",
+  "batch.column.score": "スコア",
+  "batch.column.ctr": "予測 CTR",
+
+  "profile.hero.name": "商品メイン画像",
+  "profile.hero.description": "出品のメイン画像(CTR重視)",
+  "profile.aplus.name": "A+コンテンツ / ライフスタイル",
+  "profile.aplus.description": "商品詳細ページ(コンバージョン重視)",
+  "profile.search.name": "検索結果",
+  "profile.search.description": "競合商品と比較",
+  "profile.storefront.name": "ブランドストア",
+  "profile.storefront.description": "ブランド価値とナビゲーション",
+  "profile.ab.name": "A/B比較テスト",
+  "profile.ab.description": "2枚の画像の効果を比較",
+  "profile.multi.name": "マルチバリアントテスト",
+  "profile.multi.description": "メイン画像候補3～6枚をランク付け",
+  "profile.customName": "{name}(カスタム)",
+  "profile.copyName": "{name}(コピー)",
+
+  "label.strategy.mainImage": "CTR・メイン画像戦略",
+  "label.strategy.experiment": "テスト戦略",
+  "label.strategy.content": "コンバージョン・コンテンツ戦略",
+  "label.strategy.ppc": "PPC入札戦略",
+  "label.strategy.brand": "ブランド・トラフィック戦略",
+  "label.ctrImpact": "推定CTR効果",
+  "label.engagement": "推定エンゲージメント",
+  "label.salesPotential": "売上ポテンシャル",
+  "label.conversionLift": "CVR向上",
+  "label.aovPotential": "平均注文額ポテンシャル",
+  "label.trafficPotential": "トラフィックポテンシャル",
+  "label.conversionStrategy": "コンバージョン戦略",
+  "label.bidStrategy": "推奨入札戦略",
+  "label.keyBenefit": "主なメリット / フック",
+  "label.keywordFocus": "注力キーワード",
+  "label.adCopy": "広告文との整合性",
+  "label.overlayContent": "テキスト・オーバーレイ内容",
+
+  "range.span": "{low}～{high}{unit}",
+  "range.unit.percent": "%",
+  "range.unit.pp": "ポイント",
+
+  "compliance.title": "メイン画像のコンプライアンス",
+  "compliance.allPassed": "すべてのチェックに合格",
+  "compliance.passedWithWarnings": "合格(確認事項 {count} 件)",
+  "compliance.notCompliant": "要件を満たしていません",
+  "compliance.measured": "AIによる推定ではなく、画像のピクセルから測定しています。",
+  "compliance.background.label": "純白の背景",
+  "compliance.background.value": "純白 {percent}",
+  "compliance.background.offWhite": "縁がわずかにオフホワイトです(RGB 240～254)。背景を正確にRGB 255,255,255に設定してください。",
+  "compliance.background.rule": "縁のピクセルはRGB 255,255,255である必要があります。",
+  "compliance.fill.label": "商品が画像の85%を占める",
+  "compliance.fill.value": "画像の{percent}",
+  "compliance.fill.noProduct": "商品が見つかりません",
+  "compliance.fill.rule": "商品の外接矩形の長辺と画像の比率です。85%未満ならもっと狭くトリミングしてください。",
+  "compliance.fill.whiteOnWhite": "背景から際立つものがありません。商品が白地に白になっていないか確認してください。",
+  "compliance.dimensions.label": "ズーム対応の解像度",
+  "compliance.dimensions.zoomEnabled": "長辺が{zoom}px以上のため、ズームが有効です。",
+  "compliance.dimensions.rule": "ズームには長辺{zoom}px以上が必要です。{min}px未満の画像は却下されます。",
+  "compliance.aspectRatio.label": "正方形のアスペクト比",
+  "compliance.aspectRatio.rule": "1:1なら検索タイルに余白なく収まります。5:1より横長の画像は却下されます。",
+  "compliance.overlays.label": "バッジや透かしなし",
+  "compliance.overlays.found": "オーバーレイの可能性: {corners}",
+  "compliance.overlays.clear": "四隅に問題なし",
+  "compliance.overlays.rule": "商品の上に重ねたテキスト、ロゴ、バッジ、透かしはメイン画像では使用できません。",
+  "compliance.corner.topLeft": "左上",
+  "compliance.corner.topRight": "右上",
+  "compliance.corner.bottomLeft": "左下",
+  "compliance.corner.bottomRight": "右下",
+
+  "error.apiKey.title": "APIキーがないか無効です",
+  "error.apiKey.message": "GeminiがAPIキーを受け付けませんでした。.env.localにGEMINI_API_KEYを設定して開発サーバーを再起動するか、それまではオフラインプロバイダーを使用してください。",
+  "error.quota.title": "レート制限に達しました",
+  "error.quota.message": "このキーのGemini割り当ては現在使い切られています。少し待ってから再試行すると、たいていは成功します。",
+  "error.safety.title": "セーフティフィルターによりブロックされました",
+  "error.safety.message": "モデルがこのコンテンツの分析を拒否しました。画像と商品テキストに安全でないと受け取られうる内容がないか確認してから、もう一度お試しください。",
+  "error.imageTooLarge.title": "画像が大きすぎます",
+  "error.imageTooLarge.message": "画像が1回のリクエストでモデルが受け付けるサイズを超えています。縮小したコピーでも、アテンション分析に十分な細部が残ります。",
+  "error.unsupportedImage.title": "サポートされていない画像形式",
+  "error.unsupportedImage.message": "モデルが受け付けるのはPNG、JPEG、WebP、HEIC画像のみです。JPEGに変換しても見た目は変わりません。",
+  "error.malformedJson.title": "読み取れない応答",
+  "error.malformedJson.message": "修正を求めた後も、モデルの応答は有効なJSONではありませんでした。通常は一時的なものです。",
+  "error.incompleteSchema.title": "不完全な応答",
+  "error.incompleteSchema.message": "モデルがレポートの必須項目を繰り返し省略しました。再試行で解決することが多く、プロファイルの必須項目を減らすのも効果的です。",
+  "error.offline.title": "接続がありません",
+  "error.offline.message": "リクエストがモデルに届きませんでした。インターネット接続を確認して、もう一度お試しください。",
+  "error.unknown.title": "分析に失敗しました",
+  "error.unknown.message": "分析中に問題が発生しました。もう一度お試しください。失敗が続く場合は、以下の詳細が役立つかもしれません。",
+  "error.apiKeyNotSet": "GEMINI_API_KEYが設定されていません。.env.localに追加して開発サーバーを再起動するか、オフラインプロバイダーに切り替えてください。",
+  "error.unsupportedFile": "{name}の形式は{type}です。GeminiはPNG、JPEG、WebP、HEIC画像を受け付けます。",
+  "error.unknownFileType": "{name}の形式が不明です。GeminiはPNG、JPEG、WebP、HEIC画像を受け付けます。",
+  "error.uploadTooLarge": "画像はエンコード後の合計が{size} MBです。Geminiが1回のリクエストで受け付けるのは約{limit} MBです。",
+  "error.cannotConvert": "このブラウザーでは画像を開いて変換できません。JPEGまたはPNGで書き出して、もう一度アップロードしてください。",
+  "error.tryAgain": "再試行",
+  "error.retryingIn": "{seconds}秒後に再試行 · キャンセル",
+  "error.retryWithBackoff": "間隔をあけて再試行",
+  "error.convertAndRetry": "JPEGに変換して再試行",
+  "error.downscaleAndRetry": "縮小して再試行",
+  "error.switchTo": "{provider}に切り替え",
+  "error.inputsKept": "画像、コンテキスト、商品情報はそのまま保持されます。",
+
+  "hotspot.point": "ポイント {id}",
+  "overlay.analyzedAsset": "分析対象のアセット",
+
+  "aoi.title": "関心領域",
+  "aoi.tool.view": "表示",
+  "aoi.tool.rect": "矩形",
+  "aoi.tool.polygon": "多角形",
+  "aoi.shape.rect": "矩形",
+  "aoi.shape.polygon": "多角形",
+  "aoi.nextName": "次の領域の名前",
+  "aoi.defaultName": "AOI {n}",
+  "aoi.preset.logo": "ロゴ",
+  "aoi.preset.priceBadge": "価格バッジ",
+  "aoi.preset.product": "商品",
+  "aoi.preset.claim": "訴求テキスト",
+  "aoi.rectHint": "画像上をドラッグして矩形を描きます。",
+  "aoi.polygonHint": "クリックで点を追加し、最初の点をクリックするかダブルクリックで閉じます。Esc でキャンセルします。",
+  "aoi.empty": "ロゴや価格バッジなどの領域を描いて、注目度のシェアを測定します。",
+  "aoi.templateName": "テンプレート名 (例: メイン画像レイアウト)",
+  "aoi.save": "保存",
+  "aoi.count": "AOI {count} 件",
+  "aoi.apply": "適用",
+
+  "saliency.source.model": "AI",
+  "saliency.source.pixels": "ピクセル",
+  "saliency.source.blended": "ブレンド",
+  "saliency.agreement": "ピクセル一致度 {score}%",
+  "saliency.computing": "ピクセル顕著性を計算中...",
+  "saliency.aiOnly": "AI のみの注目点:",
+  "saliency.aiOnlyNote": "{points} は視覚的に平坦なピクセル上にあります。",
+  "saliency.pixelOnly": "ピクセルのみのピーク:",
+  "saliency.missedOne": "顕著性の高い {count} 個の領域を AI は予測しませんでした。",
+  "saliency.missedMany": "顕著性の高い {count} 個の領域を AI は予測しませんでした。",
+  "saliency.feature.contrast": "高コントラスト",
+  "saliency.feature.color": "色の際立ち",
+  "saliency.feature.edges": "エッジの細部",
+  "saliency.feature.text": "テキスト状の領域",
+  "saliency.pixelLabel": "ピクセル: {label}",
+  "saliency.pixelPeak": "ピクセルピーク",
+
+  "switcher.rank": "ランキング {rank} 位",
+
+  "heatmap.settings": "ヒートマップ設定",
+  "heatmap.reset": "リセット",
+  "heatmap.radius": "半径",
+  "heatmap.opacity": "不透明度",
+  "heatmap.threshold": "しきい値",
+  "heatmap.palette.jet": "Jet",
+  "heatmap.palette.viridis": "Viridis",
+  "heatmap.palette.colorblind": "色覚バリアフリー",
+  "heatmap.palette.mono": "単色",
+
+  "zoom.in": "拡大",
+  "zoom.out": "縮小",
+  "zoom.reset": "ズームをリセット",
+
+  "diff.loses": "{variant} の注目が減少",
+  "diff.noChange": "変化なし",
+  "diff.gains": "{variant} の注目が増加",
+  "diff.biggestGain": "最大の増加:",
+  "diff.biggestLoss": "{baseline} に対する最大の減少:",
+  "diff.none": "なし",
+  "diff.identical": "両方の画像で注目の分布は同一です。",
+
+  "scanpath.play": "再生",
+  "scanpath.pause": "一時停止",
+  "scanpath.restart": "最初から再生",
+  "scanpath.exportFailed": "エクスポートに失敗しました",
+  "scanpath.fixation": "注視",
+  "scanpath.firstImpression": "— 最初の 3 秒間の注視 {count}/{total} 件",
+  "scanpath.noWebm": "このブラウザーは WebM を録画できません",
+  "scanpath.download": "再生を {format} でダウンロード",
+
+  "device.status.survives": "判読可",
+  "device.status.blurred": "判読不可",
+  "device.status.lost": "消失",
+  "device.failed": "シミュレーションに失敗しました",
+  "device.rendering": "デバイスサイズを描画中...",
+  "device.legibility": "判読性 {score}",
+  "device.mobileSearch.label": "モバイル検索",
+  "device.mobileSearch.description": "Amazon アプリの検索結果タイル",
+  "device.desktopSearch.label": "デスクトップ検索",
+  "device.desktopSearch.description": "デスクトップの検索結果グリッド",
+  "device.detailCarousel.label": "商品詳細ページのカルーセル",
+  "device.detailCarousel.description": "スマートフォンの全幅画像カルーセル",
+
+  "leaderboard.perMetric": "指標別スコア",
+  "leaderboard.versus": "対",
+
+  "ensemble.hint.stable": "実行結果はよく一致しています。1 ポイントを超える差は有意です。",
+  "ensemble.hint.moderate": "実行結果はおおむね一致しています。小さなスコア差はノイズとみなしてください。",
+  "ensemble.hint.unstable": "実行結果が一致しません。判断する前に実行回数を増やすか、より明確なバリアントを用意してください。",
+  "ensemble.failedOne": "{count} 回の実行が失敗したため除外しました。",
+  "ensemble.failedMany": "{count} 回の実行が失敗したため除外しました。",
+  "ensemble.headToHead": "直接比較 (95% 区間)",
+  "ensemble.consensus": "合意ホットスポット {count} 件",
+  "ensemble.spread": "(この画像、平均ばらつきは画像の {spread}%)。",
+  "ensemble.weakSupport": "一部のポイントは半数以下の実行でしか検出されていません。",
+
+  "profit.title": "ACOS / ROAS 計算ツール",
+  "profit.intro": "現在のキャンペーン数値を入力すると、予測される改善の価値を確認できます。",
+  "profit.input.cpc": "CPC",
+  "profit.input.ctr": "CTR (%)",
+  "profit.input.conversionRate": "CVR (%)",
+  "profit.input.aov": "平均注文額",
+  "profit.input.dailyBudget": "1 日の予算",
+  "profit.row.clicks": "クリック数 / 日",
+  "profit.row.orders": "注文数 / 日",
+  "profit.row.spend": "広告費 / 日",
+  "profit.row.revenue": "売上 / 日",
+  "profit.row.acos": "ACOS",
+  "profit.row.roas": "ROAS",
+  "profit.noLift": "この分析には数値の改善予測がありません。再実行すると取得できます。",
+  "profit.column.daily": "1 日あたり",
+  "profit.column.baseline": "現状",
+  "profit.column.projected": "予測 (下限 – 上限)",
+  "profit.ctrRange": "CTR {range}。",
+  "profit.conversionRange": "コンバージョン {range}。",
+  "profit.budgetNote": "インプレッションは現状の水準で計算しているため、CTR が上がると 1 日あたり最大 {amount} の予算が必要です。",
+  "profit.variantComparison": "バリアント比較 (中央値)",
+  "profit.perDay": "{amount} / 日",
+  "profit.perMonth": "{amount} / 月",
+  "profit.acos": "ACOS {value}",
+  "profit.leader": "トップ",
+  "profit.monthlyNote": "広告費差し引き後の月間売上の、トップのバリアントとの差です。",
+
+  "color.title": "カラーパレット",
+  "color.readFailed": "画像の色を読み取れませんでした",
+  "color.extracting": "色を抽出中...",
+  "color.family.white": "白",
+  "color.family.black": "黒",
+  "color.family.gray": "グレー",
+  "color.family.red": "赤",
+  "color.family.orange": "オレンジ",
+  "color.family.brown": "茶",
+  "color.family.yellow": "黄",
+  "color.family.green": "緑",
+  "color.family.teal": "ティール",
+  "color.family.blue": "青",
+  "color.family.purple": "紫",
+  "color.family.pink": "ピンク",
+  "color.note.white": "清潔で無機質。メイン画像では必須なので、それだけで差別化にはなりません。",
+  "color.note.black": "高級感と権威性。多用するとサムネイルサイズで古びて見えることがあります。",
+  "color.note.gray": "中立的で技術的。アクセントカラーに注目を任せられます。",
+  "color.note.red": "緊急性とエネルギー。最初に目を引きますが、使いすぎると安売りの印象になります。",
+  "color.note.orange": "親しみやすく手頃。Amazon 自体の UI のアクセントに近いため、埋もれることがあります。",
+  "color.note.brown": "自然で温かく職人的。食品、革製品、木製品に向いています。",
+  "color.note.yellow": "楽観と注目。白地ではコントラストが低いため、暗い輪郭と組み合わせてください。",
+  "color.note.green": "健康、自然、エコの訴求。サプリメントや洗剤でよく使われる合図です。",
+  "color.note.teal": "爽やかでモダン。パーソナルケアでは清潔で医療的な印象になります。",
+  "color.note.blue": "信頼と安心感。最も一般的なカテゴリーカラーなので、目立つことはまれです。",
+  "color.note.purple": "高級感と創造性。検索結果では比較的少ないため差別化になります。",
+  "color.note.pink": "遊び心、美容、ギフトの印象。美容カテゴリー以外では強い差別化になります。",
+  "color.claimed": "AI が報告した色とピクセルの比較",
+  "color.verdict.match": "画像内にあり",
+  "color.verdict.close": "近似",
+  "color.verdict.absent": "見つかりません",
+  "color.contrast": "テキストのコントラスト (WCAG)",
+  "color.belowAa": "AA 未満 {count} 件",
+  "color.noText": "テキスト状の領域は見つかりませんでした。",
+  "color.region": "{x}%, {y}% の領域",
+  "color.level.aaa": "AAA",
+  "color.level.aa": "AA",
+  "color.level.aaLarge": "AA (大きい文字)",
+  "color.level.fail": "不合格",
+  "color.detectionNote": "テキスト状の領域はピクセルから検出されます。複雑なテクスチャを誤検出したり、非常に小さな文字を見逃したりすることがあります。",
+  "color.distinctness": "隣接タイルとの識別性",
+  "color.noNeighbors": "自社タイルの隣に競合タイルはありません。",
+  "color.standsOut": "目立つ",
+  "color.blendsIn": "埋もれる",
+
+  "keywords.title": "キーワードとビジュアルの一致度",
+  "keywords.supported": "{total} 件中 {supported} 件のターゲットキーワードが画像で明確に裏付けられています。",
+  "keywords.supportedFor": "「{title}」について、{total} 件中 {supported} 件のターゲットキーワードが画像で明確に裏付けられています。",
+
+  "grid.ourProduct": "自社商品",
+  "grid.competitor": "競合 {n}",
+  "grid.layout.desktop": "デスクトップグリッド",
+  "grid.layout.mobile": "モバイルリスト",
+  "grid.addTile": "タイルを追加",
+  "grid.chooseImage": "商品画像を選択",
+  "grid.tile": "タイル {n}",
+  "grid.productTitle": "商品タイトル",
+  "grid.rating": "星評価",
+  "grid.reviewCount": "レビュー数",
+  "grid.prime": "Prime",
+  "grid.sponsored": "スポンサー",
+  "grid.ours": "自社",
+  "grid.removeTile": "タイル {n} を削除",
+  "grid.building": "グリッドを作成中...",
+  "grid.addImage": "自社タイルに画像を追加",
+
+  "listing.title": "出品情報",
+  "listing.filled": "({count} 件入力済み)",
+  "listing.optional": "(任意)",
+  "listing.productTitle": "商品タイトル",
+  "listing.price": "価格 (例: ¥2,480)",
+  "listing.category": "カテゴリー",
+  "listing.bullet": "箇条書き {n}",
+  "listing.keywords": "ターゲットキーワード (カンマまたは改行区切り)",
+  "listing.keywordCount": "キーワード {count}/{max} 件。それぞれ画像がどれだけ明確に裏付けているかを採点します。",
+
+  "profilePicker.custom": "カスタム",
+  "profilePicker.customizeCopy": "コピーをカスタマイズ",
+  "profilePicker.edit": "プロファイルを編集",
+  "profilePicker.customizeName": "{name} をカスタマイズ",
+  "profilePicker.editName": "{name} を編集",
+  "profilePicker.new": "新規プロファイル",
+  "profilePicker.import": "インポート",
+  "profilePicker.export": "エクスポート",
+  "profilePicker.importFailed": "プロファイルをインポートできませんでした",
+
+  "profileEditor.editTitle": "コンテキストプロファイルを編集",
+  "profileEditor.newTitle": "新しいコンテキストプロファイル",
+  "profileEditor.close": "閉じる",
+  "profileEditor.name": "名前",
+  "profileEditor.namePlaceholder": "例: Walmart の出品",
+  "profileEditor.base": "動作の基準",
+  "profileEditor.baseHint": "画像の枚数、検証、ローカル計測を決定します。",
+  "profileEditor.description": "説明",
+  "profileEditor.descriptionPlaceholder": "選択画面で名前の下に表示されます",
+  "profileEditor.prompt": "プロンプト",
+  "profileEditor.scenario": "シナリオ",
+  "profileEditor.scenarioPlaceholder": "例: AMAZON POSTS FEED",
+  "profileEditor.objective": "主な目的",
+  "profileEditor.role": "役割",
+  "profileEditor.rolePlaceholder": "モデルが演じる役割",
+  "profileEditor.focus": "注目チェックリスト (1 行に 1 項目)",
+  "profileEditor.instructions": "追加の指示",
+  "profileEditor.instructionsPlaceholder": "任意のシミュレーション・出力ルール",
+  "profileEditor.reportLabels": "レポートのラベル",
+  "profileEditor.label.strategyTitle": "戦略セクションの見出し",
+  "profileEditor.label.ctrLabel": "CTR 指標のラベル",
+  "profileEditor.label.conversionLabel": "コンバージョン指標のラベル",
+  "profileEditor.label.bidLabel": "入札 / トラフィックのラベル",
+  "profileEditor.label.keywordLabel": "キーワードのラベル",
+  "profileEditor.label.copyLabel": "コピーのラベル",
+  "profileEditor.requiredOutput": "必須の出力",
+  "profileEditor.field.strategicInsights": "商業シナリオ",
+  "profileEditor.field.blindSpots": "見落とし",
+  "profileEditor.field.recommendations": "推奨事項",
+  "profileEditor.field.dominantColors": "主要な色",
+  "profileEditor.field.abTestVerdict": "A/B 判定",
+  "profileEditor.field.comparativeAnalysis": "直接比較スコア",
+  "profileEditor.field.variantLeaderboard": "バリアントランキング",
+  "profileEditor.field.pairwiseComparisons": "ペア比較",
+  "profileEditor.nameRequired": "プロファイルに名前を付けてください。",
+  "profileEditor.focusRequired": "注目項目を 1 つ以上追加してください。",
+  "profileEditor.saveFailed": "プロファイルを保存できませんでした",
+  "profileEditor.save": "プロファイルを保存",
+  "profileEditor.delete": "削除",
+};
+
+const CATALOGS: Record<Language, Catalog> = { en: EN, de: DE, fr: FR, ja: JA };
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+/** Looks up a UI message and fills its {placeholders}; unknown placeholders are left as they are. */
+export const getTranslator = (language: Language): Translate => {
+  const catalog = CATALOGS[language] ?? EN;
+  return (key, params = {}) =>
+    catalog[key].replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
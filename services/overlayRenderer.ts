@@ -0,0 +1,157 @@
+import { HeatmapSettings, Hotspot, VisualizationMode } from "../types";
+import { DEFAULT_HEATMAP_SETTINGS, drawDensityHeatmap, drawDifferenceMap } from "./densityRenderer";
+
+/**
+ * Draws the attention overlay for `mode` onto a context whose canvas is already
+ * sized to the image's natural resolution. Shared by HeatmapOverlay and the
+ * exporters so exported images match the screen exactly. Passing
+ * `baselineHotspots` draws the attention difference against that baseline
+ * instead of `mode`.
+ */
+export const drawOverlay = (
+  ctx: CanvasRenderingContext2D,
+  hotspots: Hotspot[],
+  mode: VisualizationMode,
+  heatmapSettings: HeatmapSettings = DEFAULT_HEATMAP_SETTINGS,
+  baselineHotspots?: Hotspot[]
+) => {
+  const canvas = ctx.canvas;
+
+  // Reset canvas
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  if (!hotspots || hotspots.length === 0) return;
+
+  if (baselineHotspots) {
+    drawDifferenceMap(ctx, baselineHotspots, hotspots, heatmapSettings);
+    return;
+  }
+
+  // Sort hotspots by ID for sequence
+  const sortedHotspots = [...hotspots].sort((a, b) => a.id - b.id);
+
+  // -------------------------
+  // RENDER: HEATMAP
+  // -------------------------
+  if (mode === 'heatmap') {
+    drawDensityHeatmap(ctx, sortedHotspots, heatmapSettings);
+  }
+
+  // -------------------------
+  // RENDER: FOG MAP (Reverse Heatmap)
+  // -------------------------
+  if (mode === 'fogmap') {
+    // 1. Fill entire screen with dark fog
+    ctx.fillStyle = 'rgba(15, 23, 42, 0.92)'; // Slate 900
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // 2. Cut out holes for hotspots
+    ctx.globalCompositeOperation = 'destination-out';
+    
+    sortedHotspots.forEach(spot => {
+        const x = (spot.x / 100) * canvas.width;
+        const y = (spot.y / 100) * canvas.height;
+        const radius = Math.min(canvas.width, canvas.height) * 0.14; 
+
+        const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+        gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');     // Fully transparent hole
+        gradient.addColorStop(0.5, 'rgba(0, 0, 0, 0.5)'); // Semi-transparent edge
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');     // Solid fog
+
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, 2 * Math.PI);
+        ctx.fill();
+    });
+    ctx.globalCompositeOperation = 'source-over';
+  }
+
+  // -------------------------
+  // RENDER: PATH
+  // -------------------------
+  if (mode === 'path') {
+     // Draw Lines
+     ctx.strokeStyle = 'rgba(236, 72, 153, 0.8)'; // Pink-500
+     ctx.lineWidth = Math.max(2, canvas.width * 0.003); // Responsive line width
+     ctx.setLineDash([15, 10]);
+     
+     ctx.beginPath();
+     sortedHotspots.forEach((spot, idx) => {
+       const x = (spot.x / 100) * canvas.width;
+       const y = (spot.y / 100) * canvas.height;
+       if (idx === 0) ctx.moveTo(x, y);
+       else ctx.lineTo(x, y);
+     });
+     ctx.stroke();
+     ctx.setLineDash([]); // Reset dash
+
+     // Draw Points and Numbers
+     sortedHotspots.forEach((spot) => {
+       const x = (spot.x / 100) * canvas.width;
+       const y = (spot.y / 100) * canvas.height;
+       const circleRadius = Math.max(12, canvas.width * 0.015);
+
+       // Outer glow
+       ctx.shadowColor = "rgba(0,0,0,0.5)";
+       ctx.shadowBlur = 10;
+       
+       // Circle
+       ctx.fillStyle = spot.id === 1 ? '#ec4899' : '#ffffff'; 
+       ctx.beginPath();
+       ctx.arc(x, y, circleRadius, 0, 2 * Math.PI);
+       ctx.fill();
+       ctx.shadowBlur = 0; // Reset shadow
+
+       // Border
+       ctx.strokeStyle = '#ec4899';
+       ctx.lineWidth = 3;
+       ctx.stroke();
+
+       // Number
+       ctx.fillStyle = spot.id === 1 ? '#ffffff' : '#ec4899';
+       ctx.font = `bold ${Math.max(12, circleRadius)}px Inter, sans-serif`;
+       ctx.textAlign = 'center';
+       ctx.textBaseline = 'middle';
+       ctx.fillText(spot.id.toString(), x, y + 2);
+     });
+  }
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image"));
+    img.src = src;
+  });
+
+/**
+ * Renders the overlay at the image's natural resolution, either composited onto
+ * the image (as seen in the Visual Attention Lab) or on a transparent background.
+ */
+export const renderOverlayCanvas = async (
+  imageSrc: string,
+  hotspots: Hotspot[],
+  mode: VisualizationMode,
+  options: { includeImage?: boolean; heatmapSettings?: HeatmapSettings; baselineHotspots?: Hotspot[] } = {}
+): Promise<HTMLCanvasElement> => {
+  const { includeImage = true, heatmapSettings, baselineHotspots } = options;
+  const img = await loadImage(imageSrc);
+
+  const overlay = document.createElement("canvas");
+  overlay.width = img.naturalWidth;
+  overlay.height = img.naturalHeight;
+  const overlayCtx = overlay.getContext("2d");
+  if (!overlayCtx) throw new Error("Canvas 2D context unavailable");
+  drawOverlay(overlayCtx, hotspots, mode, heatmapSettings, baselineHotspots);
+  if (!includeImage) return overlay;
+
+  const output = document.createElement("canvas");
+  output.width = img.naturalWidth;
+  output.height = img.naturalHeight;
+  const ctx = output.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(img, 0, 0);
+  ctx.drawImage(overlay, 0, 0);
+  return output;
+};
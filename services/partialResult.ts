@@ -0,0 +1,159 @@
+import { Schema, Type } from "@google/genai";
+import { AnalysisReport, AnalysisResult } from "../types";
+import { responseSchema } from "./responseSchema";
+
+type Container = "{" | "[";
+
+const CLOSERS: Record<Container, string> = { "{": "}", "[": "]" };
+const close = (stack: Container[]) => stack.map((c) => CLOSERS[c]).reverse().join("");
+
+/**
+ * Parses the longest usable prefix of a JSON document that is still being
+ * streamed. Open objects and arrays are closed, a string value cut mid-way is
+ * kept as far as it got, and a dangling key, comma or number is dropped.
+ * Returns undefined when nothing parseable has arrived yet.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const stack: Container[] = [];
+  let inString = false;
+  let stringIsKey = false;
+  let escaped = false;
+  let expectingKey = false;
+  // Last position after which the prefix is valid once the open containers are closed
+  let safeEnd = 0;
+  let safeStack: Container[] = [];
+  const mark = (end: number) => {
+    safeEnd = end;
+    safeStack = [...stack];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === "\\") escaped = true;
+      else if (c === '"') {
+        inString = false;
+        if (!stringIsKey) mark(i + 1);
+      }
+      continue;
+    }
+    switch (c) {
+      case '"':
+        inString = true;
+        stringIsKey = stack[stack.length - 1] === "{" && expectingKey;
+        break;
+      case "{":
+      case "[":
+        stack.push(c);
+        expectingKey = c === "{";
+        mark(i + 1);
+        break;
+      case "}":
+      case "]":
+        stack.pop();
+        expectingKey = false;
+        mark(i + 1);
+        break;
+      case ":":
+        expectingKey = false;
+        break;
+      case ",":
+        expectingKey = stack[stack.length - 1] === "{";
+        break;
+      default:
+        // End of a number or literal: only complete once a delimiter follows
+        if (!/\s/.test(c) && /[\s,\]}]/.test(text[i + 1] ?? "")) mark(i + 1);
+    }
+  }
+
+  const candidates: string[] = [];
+  if (inString && !stringIsKey) {
+    const body = escaped ? text.slice(0, -1) : text;
+    candidates.push(`${body}"${close(stack)}`);
+  }
+  candidates.push(text.slice(0, safeEnd) + close(safeStack));
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // A cut inside an escape sequence; fall back to the last safe point
+    }
+  }
+  return undefined;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isComplete = (value: unknown, schema: Schema): boolean => {
+  switch (schema.type) {
+    case Type.OBJECT:
+      return isObject(value) && (schema.required ?? []).every((key) => value[key] !== undefined && isComplete(value[key], schema.properties![key]));
+    case Type.ARRAY:
+      return Array.isArray(value);
+    case Type.NUMBER:
+      return typeof value === "number";
+    default:
+      // A cut enum value ("Winn") is not a value yet
+      return schema.enum ? schema.enum.includes(value as string) : typeof value === "string";
+  }
+};
+
+// Required sections down to this depth (report, report.metrics...) have placeholders and may render half-filled
+const PLACEHOLDER_DEPTH = 2;
+
+// Anything else, including every list item, is only kept once all its required fields have arrived
+const pruneIncomplete = (value: unknown, schema: Schema, depth = 0): unknown => {
+  if (schema.type === Type.OBJECT && isObject(value)) {
+    const out: Record<string, unknown> = {};
+    Object.entries(schema.properties ?? {}).forEach(([key, propSchema]) => {
+      if (value[key] === undefined) return;
+      const placeholder = depth < PLACEHOLDER_DEPTH && (schema.required?.includes(key) ?? false);
+      if (!placeholder && propSchema.type === Type.OBJECT && !isComplete(value[key], propSchema)) return;
+      out[key] = pruneIncomplete(value[key], propSchema, depth + 1);
+    });
+    return out;
+  }
+  if (schema.type === Type.ARRAY && Array.isArray(value)) {
+    const items = schema.items!;
+    return value.filter((item) => isComplete(item, items)).map((item) => pruneIncomplete(item, items, depth + 1));
+  }
+  return value;
+};
+
+const EMPTY_REPORT: AnalysisReport = {
+  summary: "",
+  metrics: { visibilityScore: 0, goalAlignmentScore: 0, clarityScore: 0, cognitiveLoadScore: 0, brandImpactScore: 0 },
+  commercialProjections: { predictedCTR: "", conversionLiftPotential: "", searchVolumeRelevance: "" },
+  ppcStrategy: { bidRecommendation: "", keywordFocus: "", adCopyAlignment: "" },
+  strategicInsights: [],
+  hotspotsAnalysis: [],
+  blindSpots: [],
+  recommendations: [],
+  dominantColors: [],
+};
+
+/**
+ * Turns the text streamed so far into a result the report can render: what has
+ * fully arrived, with empty placeholders for required sections still to come.
+ * It is not validated; the final response replaces it.
+ */
+export const buildProvisionalResult = (text: string): AnalysisResult | null => {
+  const parsed = pruneIncomplete(parsePartialJson(text), responseSchema);
+  if (!isObject(parsed)) return null;
+  const partial = parsed as Partial<AnalysisResult>;
+  const report: Partial<AnalysisReport> = partial.report ?? {};
+  return {
+    ...partial,
+    hotspots: partial.hotspots ?? [],
+    report: {
+      ...EMPTY_REPORT,
+      ...report,
+      metrics: { ...EMPTY_REPORT.metrics, ...report.metrics },
+      commercialProjections: { ...EMPTY_REPORT.commercialProjections, ...report.commercialProjections },
+      ppcStrategy: { ...EMPTY_REPORT.ppcStrategy, ...report.ppcStrategy },
+    },
+  };
+};
@@ -0,0 +1,38 @@
+import { PixelBuffer } from "../types";
+
+// Rec. 601 luma, 0-1
+export const luminance = (pixels: PixelBuffer): Float32Array => {
+  const { width, height, data } = pixels;
+  const lum = new Float32Array(width * height);
+  for (let i = 0; i < lum.length; i++) {
+    lum[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+  }
+  return lum;
+};
+
+export interface SobelGradients {
+  gx: Float32Array;
+  gy: Float32Array;
+  magnitude: Float32Array;
+}
+
+// Sobel gradients of a single channel; the 1px border stays 0
+export const sobel = (channel: Float32Array, width: number, height: number): SobelGradients => {
+  const size = width * height;
+  const gx = new Float32Array(size);
+  const gy = new Float32Array(size);
+  const magnitude = new Float32Array(size);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      gx[i] = channel[i - width + 1] + 2 * channel[i + 1] + channel[i + width + 1] - channel[i - width - 1] - 2 * channel[i - 1] - channel[i + width - 1];
+      gy[i] = channel[i + width - 1] + 2 * channel[i + width] + channel[i + width + 1] - channel[i - width - 1] - 2 * channel[i - width] - channel[i - width + 1];
+      magnitude[i] = Math.hypot(gx[i], gy[i]);
+    }
+  }
+  return { gx, gy, magnitude };
+};
+
+// Sobel gradient magnitude of the luminance channel
+export const gradientMagnitude = (pixels: PixelBuffer): Float32Array =>
+  sobel(luminance(pixels), pixels.width, pixels.height).magnitude;
@@ -0,0 +1,123 @@
+import { CampaignInputs, CampaignOutcome, Language, Marketplace, ProjectionRange, VariantProjection } from "../types";
+import { getLanguage, getTranslator } from "./messages";
+
+const INPUTS_STORAGE_KEY = "amazon-heatmap-studio.campaign-inputs";
+
+export const DAYS_PER_MONTH = 30;
+
+export const DEFAULT_CAMPAIGN_INPUTS: CampaignInputs = {
+  cpc: 1.2,
+  ctr: 0.4,
+  conversionRate: 10,
+  aov: 30,
+  dailyBudget: 50,
+};
+
+export type ProjectionPoint = "low" | "mid" | "high";
+
+export interface ProjectedCampaign {
+  baseline: CampaignOutcome;
+  low: CampaignOutcome;
+  mid: CampaignOutcome;
+  high: CampaignOutcome;
+}
+
+export interface VariantOutcome {
+  variant: string;
+  outcome: CampaignOutcome;
+}
+
+const clampRate = (rate: number) => Math.min(100, Math.max(0, rate));
+
+const pointOf = (range: ProjectionRange, point: ProjectionPoint) =>
+  point === "low" ? range.low : point === "high" ? range.high : (range.low + range.high) / 2;
+
+export const applyLift = (rate: number, range: ProjectionRange | undefined, point: ProjectionPoint): number => {
+  if (!range) return rate;
+  const value = pointOf(range, point);
+  return clampRate(range.unit === "pp" ? rate + value : rate * (1 + value / 100));
+};
+
+export const formatRange = (range: ProjectionRange, language: Language): string => {
+  const t = getTranslator(language);
+  const number = new Intl.NumberFormat(getLanguage(language).locale, { maximumFractionDigits: 1, signDisplay: "exceptZero" });
+  const unit = t(range.unit === "pp" ? "range.unit.pp" : "range.unit.percent");
+  return range.low === range.high
+    ? `${number.format(range.low)}${unit}`
+    : t("range.span", { low: number.format(range.low), high: number.format(range.high), unit });
+};
+
+/**
+ * Daily numbers for a CTR and conversion rate (both in %). Impressions are fixed
+ * by the seller's current budget and CTR, so a better CTR shows up as more clicks
+ * and more spend rather than the same spend going further.
+ */
+const outcomeFor = (inputs: CampaignInputs, ctr: number, conversionRate: number): CampaignOutcome => {
+  const baselineClicks = inputs.cpc > 0 ? inputs.dailyBudget / inputs.cpc : 0;
+  const impressions = inputs.ctr > 0 ? baselineClicks / (inputs.ctr / 100) : 0;
+  const clicks = impressions * (ctr / 100);
+  const orders = clicks * (conversionRate / 100);
+  const spend = clicks * inputs.cpc;
+  const revenue = orders * inputs.aov;
+  return {
+    impressions,
+    clicks,
+    orders,
+    spend,
+    revenue,
+    acos: revenue > 0 ? (spend / revenue) * 100 : null,
+    roas: spend > 0 ? revenue / spend : null,
+  };
+};
+
+export const projectCampaign = (
+  inputs: CampaignInputs,
+  ctrLift?: ProjectionRange,
+  conversionLift?: ProjectionRange
+): ProjectedCampaign => {
+  const at = (point: ProjectionPoint) =>
+    outcomeFor(inputs, applyLift(inputs.ctr, ctrLift, point), applyLift(inputs.conversionRate, conversionLift, point));
+  return {
+    baseline: outcomeFor(inputs, inputs.ctr, inputs.conversionRate),
+    low: at("low"),
+    mid: at("mid"),
+    high: at("high"),
+  };
+};
+
+export const netRevenue = (outcome: CampaignOutcome) => outcome.revenue - outcome.spend;
+
+// Midpoint outcome per variant, highest revenue after ad spend first
+export const compareVariants = (inputs: CampaignInputs, projections: VariantProjection[]): VariantOutcome[] =>
+  projections
+    .map((p) => ({ variant: p.variant, outcome: projectCampaign(inputs, p.ctrLift, p.conversionLift).mid }))
+    .sort((a, b) => netRevenue(b.outcome) - netRevenue(a.outcome));
+
+// -------------------------
+// Saved inputs (localStorage)
+// -------------------------
+
+const isValidInputs = (value: unknown): value is CampaignInputs =>
+  typeof value === "object" && value !== null &&
+  (Object.keys(DEFAULT_CAMPAIGN_INPUTS) as (keyof CampaignInputs)[]).every((key) => {
+    const field = (value as Record<string, unknown>)[key];
+    return typeof field === "number" && Number.isFinite(field) && field >= 0;
+  });
+
+// Inputs are in the marketplace's currency, so each marketplace keeps its own;
+// amazon.com stays on the original key so existing inputs carry over
+const inputsStorageKey = (marketplace: Marketplace) =>
+  marketplace.id === "us" ? INPUTS_STORAGE_KEY : `${INPUTS_STORAGE_KEY}.${marketplace.id}`;
+
+export const getCampaignInputs = (marketplace: Marketplace): CampaignInputs => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(inputsStorageKey(marketplace)) ?? "null");
+    return isValidInputs(parsed) ? parsed : marketplace.defaultCampaignInputs;
+  } catch {
+    return marketplace.defaultCampaignInputs;
+  }
+};
+
+export const saveCampaignInputs = (inputs: CampaignInputs, marketplace: Marketplace) => {
+  localStorage.setItem(inputsStorageKey(marketplace), JSON.stringify(inputs));
+};
@@ -0,0 +1,777 @@
+import { jsPDF } from "jspdf";
+import { AnalysisContext, AnalysisResult, ComplianceStatus, ContextProfile, EnsembleStability, EnsembleSummary, HeatmapSettings, Hotspot, Language, ProjectionRange, ScoreInterval, StrategicInsight, VisualizationMode } from "../types";
+import { renderOverlayCanvas } from "./overlayRenderer";
+import { downloadBlob, exportFileName } from "./download";
+import { getImageLabel, getVariantHotspots } from "./variants";
+import { computeTileAttention } from "./searchGrid";
+import { SUPPORTED_SCORE, summarizeKeywordAlignment } from "./listingMetadata";
+import { formatRange } from "./projections";
+import { localizeProfile } from "./contextProfiles";
+import { localizeComplianceReport } from "./complianceChecker";
+import { getLanguage, getTranslator, MessageKey, Translate } from "./messages";
+
+export interface ReportExportInput {
+  result: AnalysisResult;
+  context: AnalysisContext;
+  profile: ContextProfile; // Labels and name; `context` is its base
+  previews: string[];
+  heatmapSettings?: HeatmapSettings;
+}
+
+export const VISUALIZATION_MODES: { mode: VisualizationMode; labelKey: MessageKey }[] = [
+  { mode: "heatmap", labelKey: "viz.heatmap" },
+  { mode: "fogmap", labelKey: "viz.fogmap" },
+  { mode: "path", labelKey: "export.attentionPath" },
+];
+
+// Labels follow the language the report text was written in, so a German
+// report never mixes English headings into German findings
+const reportLanguage = (result: AnalysisResult): Language => result.language ?? "en";
+const reportTranslator = (result: AnalysisResult): Translate => getTranslator(reportLanguage(result));
+
+interface ReportVisual {
+  imageLabel: string;
+  modeLabel: string;
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+// Keeps embedded images sharp without producing 50MB reports from 4K uploads
+const EMBED_MAX_SIDE = 1600;
+
+const toJpeg = (source: HTMLCanvasElement, maxSide: number) => {
+  const scale = Math.min(1, maxSide / Math.max(source.width, source.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(source.width * scale);
+  canvas.height = Math.round(source.height * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  // JPEG has no alpha; transparent uploads would otherwise turn black
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return { dataUrl: canvas.toDataURL("image/jpeg", 0.88), width: canvas.width, height: canvas.height };
+};
+
+const imageSetLabel = (context: AnalysisContext, index: number, t: Translate): string => {
+  if (context === AnalysisContext.AB_TEST) return `${getImageLabel(context, index, t)} (${index === 0 ? t("lab.control") : t("lab.variant")})`;
+  if (context === AnalysisContext.MULTI_VARIANT) return getImageLabel(context, index, t);
+  return t("export.analyzedAsset");
+};
+
+export const getImageSets = ({ result, context, previews }: ReportExportInput) => {
+  const t = reportTranslator(result);
+  const sets: { label: string; src: string; hotspots: Hotspot[] }[] = [];
+  getVariantHotspots(result).forEach((hotspots, idx) => {
+    if (previews[idx]) sets.push({ label: imageSetLabel(context, idx, t), src: previews[idx], hotspots });
+  });
+  return sets;
+};
+
+const renderReportVisuals = async (input: ReportExportInput): Promise<ReportVisual[]> => {
+  const t = reportTranslator(input.result);
+  const visuals: ReportVisual[] = [];
+  for (const set of getImageSets(input)) {
+    for (const { mode, labelKey } of VISUALIZATION_MODES) {
+      const canvas = await renderOverlayCanvas(set.src, set.hotspots, mode, { heatmapSettings: input.heatmapSettings });
+      visuals.push({ imageLabel: set.label, modeLabel: t(labelKey), ...toJpeg(canvas, EMBED_MAX_SIDE) });
+    }
+  }
+  return visuals;
+};
+
+const scoreRows = (result: AnalysisResult, t: Translate) => [
+  { label: t("view.score.visibility"), value: result.report.metrics.visibilityScore, color: "#ec4899" },
+  { label: t("view.score.goalAlign"), value: result.report.metrics.goalAlignmentScore, color: "#8b5cf6" },
+  { label: t("view.score.clarity"), value: result.report.metrics.clarityScore, color: "#10b981" },
+];
+
+const STABILITY_KEYS: Record<EnsembleStability, MessageKey> = {
+  stable: "export.stability.stable",
+  moderate: "export.stability.moderate",
+  unstable: "export.stability.unstable",
+};
+
+const COMPLIANCE_KEYS: Record<ComplianceStatus, MessageKey> = {
+  pass: "export.status.pass",
+  warn: "export.status.warn",
+  fail: "export.status.fail",
+};
+
+const SCENARIO_KEYS: Record<StrategicInsight["scenario"], MessageKey> = {
+  Winning: "view.scenario.Winning",
+  Losing: "view.scenario.Losing",
+  Neutral: "view.scenario.Neutral",
+};
+
+const pairOutcome = (winner: string, t: Translate) => (winner === "Tie" ? t("export.tie") : t("export.pairWins", { winner }));
+
+// -------------------------
+// HTML
+// -------------------------
+
+const escapeHtml = (value: string | number): string =>
+  String(value).replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c]!));
+
+const htmlBar = (value: number, max: number, color: string) =>
+  `<div class="bar"><div class="fill" style="width:${Math.max(0, Math.min(100, (value / max) * 100))}%;background:${color}"></div></div>`;
+
+const HTML_STYLES = `
+  body { font-family: Inter, -apple-system, Segoe UI, sans-serif; background: #0f172a; color: #e5e7eb; margin: 0; padding: 32px; }
+  main { max-width: 960px; margin: 0 auto; }
+  h1 { font-size: 24px; margin: 0 0 4px; color: #fff; }
+  h2 { font-size: 13px; text-transform: uppercase; letter-spacing: .08em; color: #f472b6; margin: 0 0 12px; }
+  section { background: #1f2937; border: 1px solid #374151; border-radius: 12px; padding: 20px; margin-bottom: 16px; page-break-inside: avoid; }
+  .meta { color: #9ca3af; font-size: 12px; margin-bottom: 24px; }
+  .grid2 { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+  .card { background: #111827; border: 1px solid #374151; border-radius: 8px; padding: 12px; margin-bottom: 8px; }
+  .label { font-size: 11px; color: #9ca3af; text-transform: uppercase; letter-spacing: .05em; }
+  .value { font-size: 18px; font-weight: 700; color: #fff; }
+  .small { font-size: 12px; color: #9ca3af; }
+  .pill { font-size: 10px; font-weight: 700; text-transform: uppercase; padding: 2px 8px; border-radius: 4px; }
+  .Winning { background: #14532d; } .Losing { background: #7f1d1d; } .Neutral { background: #374151; }
+  .row { display: grid; grid-template-columns: 120px 1fr 40px; align-items: center; gap: 8px; margin-bottom: 6px; font-size: 12px; }
+  .bar { background: #111827; border-radius: 4px; height: 10px; overflow: hidden; }
+  .fill { height: 100%; border-radius: 4px; }
+  .verdict { background: linear-gradient(90deg, rgba(88,28,135,.4), rgba(131,24,67,.4)); border-color: #a855f7; }
+  figure { margin: 0; }
+  figure img { width: 100%; border-radius: 8px; border: 1px solid #374151; }
+  figcaption { font-size: 12px; color: #9ca3af; margin-top: 4px; text-align: center; }
+  .visuals { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; }
+  p { line-height: 1.6; font-size: 14px; margin: 0 0 8px; }
+  ul { margin: 0; padding-left: 18px; font-size: 12px; }
+  @media print { body { background: #fff; color: #111; } section, .card { background: #fff; border-color: #d1d5db; } .value, h1 { color: #111; } }
+`;
+
+const COMPLIANCE_COLORS: Record<ComplianceStatus, string> = { pass: "#15803d", warn: "#a16207", fail: "#b91c1c" };
+const STABILITY_COLORS: Record<EnsembleStability, string> = { stable: "#15803d", moderate: "#a16207", unstable: "#b91c1c" };
+
+const withRange = (text: string, range: ProjectionRange | undefined, language: Language) => (range ? `${text} (${formatRange(range, language)})` : text);
+
+const formatInterval = (i: ScoreInterval) => `${i.mean} ± ${Math.round(((i.high - i.low) / 2) * 10) / 10} (${i.low}-${i.high})`;
+
+const ENSEMBLE_METRICS: [keyof EnsembleSummary["metrics"], MessageKey][] = [
+  ["visibilityScore", "view.score.visibility"],
+  ["goalAlignmentScore", "view.score.goalAlign"],
+  ["clarityScore", "view.score.clarity"],
+  ["cognitiveLoadScore", "export.score.cognitiveLoad"],
+  ["brandImpactScore", "export.score.brandImpact"],
+];
+
+// Label/interval pairs shown in the ensemble section of both formats
+const ensembleRows = (summary: EnsembleSummary, t: Translate): [string, ScoreInterval][] => [
+  ...ENSEMBLE_METRICS.map(([key, labelKey]) => [t(labelKey), summary.metrics[key]] as [string, ScoreInterval]),
+  ...(summary.comparativeAnalysis ?? []).flatMap((m) => [[`${m.metric} (A)`, m.scoreA], [`${m.metric} (B)`, m.scoreB]] as [string, ScoreInterval][]),
+];
+
+export const buildReportHtml = (input: ReportExportInput, visuals: ReportVisual[], generatedAt: Date = new Date()): string => {
+  const { result, context } = input;
+  const { report } = result;
+  const t = reportTranslator(result);
+  const profile = localizeProfile(input.profile, t);
+  const { labels } = profile;
+  const isAB = context === AnalysisContext.AB_TEST;
+  const isMulti = context === AnalysisContext.MULTI_VARIANT;
+  const tiles = result.searchGrid ? computeTileAttention(result.searchGrid, result.hotspots, reportLanguage(result)) : [];
+  const alignment = summarizeKeywordAlignment(report.keywordAlignment ?? []);
+  const sections: string[] = [];
+
+  if (result.ensemble) {
+    const { ensemble } = result;
+    sections.push(`<section>
+      <h2>${escapeHtml(t("export.ensemble", { runs: ensemble.runs }))} <span class="pill" style="background:${STABILITY_COLORS[ensemble.stability]}">${escapeHtml(t(STABILITY_KEYS[ensemble.stability]))}</span></h2>
+      ${ensemble.winnerAgreement !== undefined ? `<p class="small">${escapeHtml(t("export.winnerAgreement", { percent: Math.round(ensemble.winnerAgreement * 100) }))}</p>` : ""}
+      ${ensembleRows(ensemble, t).map(([label, interval]) => `<div class="small">${escapeHtml(label)}: <strong>${escapeHtml(formatInterval(interval))}</strong></div>`).join("")}
+      <p style="margin-top:8px"><strong>${escapeHtml(t("export.recurrence"))}</strong></p>
+      <ul>${ensemble.recommendations.map((rec) => `<li>${escapeHtml(t("export.recurrenceRuns", { count: rec.runs, runs: ensemble.runs }))} - ${escapeHtml(rec.title)}</li>`).join("")}</ul>
+    </section>`);
+  }
+
+  if (result.compliance) {
+    sections.push(`<section>
+      <h2>${escapeHtml(t("export.compliance"))}</h2>
+      ${localizeComplianceReport(result.compliance, reportLanguage(result)).checks.map((c) => `<div class="card">
+        <strong>${escapeHtml(c.label)}</strong> <span class="pill" style="background:${COMPLIANCE_COLORS[c.status]}">${escapeHtml(t(COMPLIANCE_KEYS[c.status]))}</span>
+        <div class="small">${escapeHtml(c.value)} &middot; ${escapeHtml(c.detail)}</div>
+      </div>`).join("")}
+    </section>`);
+  }
+
+  if (isAB && report.abTestVerdict) {
+    const v = report.abTestVerdict;
+    sections.push(`<section class="verdict">
+      <h2>${escapeHtml(t("view.verdict"))}</h2>
+      <div class="value">${escapeHtml(t("view.wins", { winner: v.winner }))} <span class="pill" style="background:#6b21a8">${escapeHtml(t("view.confidence", { score: v.confidenceScore }))}</span></div>
+      <p>${escapeHtml(v.reasoning)}</p>
+      <div class="small">${escapeHtml(t("view.differentiator", { text: v.keyDifferentiator }))}</div>
+    </section>`);
+  }
+
+  if (isAB && report.comparativeAnalysis) {
+    sections.push(`<section>
+      <h2>${escapeHtml(t("view.headToHead"))}</h2>
+      ${report.comparativeAnalysis.map((m) => `
+        <div class="row"><span>${escapeHtml(m.metric)} (A)</span>${htmlBar(m.scoreA, 100, "#ec4899")}<span>${escapeHtml(m.scoreA)}</span></div>
+        <div class="row"><span>${escapeHtml(m.metric)} (B)</span>${htmlBar(m.scoreB, 100, "#8b5cf6")}<span>${escapeHtml(m.scoreB)}</span></div>`).join("")}
+    </section>`);
+  }
+
+  if (isMulti && report.variantLeaderboard) {
+    const ranked = [...report.variantLeaderboard].sort((a, b) => a.rank - b.rank);
+    sections.push(`<section class="verdict">
+      <h2>${escapeHtml(t("export.leaderboard"))}</h2>
+      ${ranked.map((s) => `
+        <div class="row"><span>#${escapeHtml(s.rank)} ${escapeHtml(t("image.variant", { label: s.variant }))}</span>${htmlBar(s.overallScore, 100, s.rank === 1 ? "#facc15" : "#8b5cf6")}<span>${escapeHtml(s.overallScore)}</span></div>
+        <div class="small" style="margin:0 0 8px 128px">${escapeHtml(s.verdict)}</div>`).join("")}
+    </section>`);
+  }
+
+  if (isMulti && report.pairwiseComparisons && report.pairwiseComparisons.length > 0) {
+    sections.push(`<section>
+      <h2>${escapeHtml(t("export.pairwise"))}</h2>
+      ${report.pairwiseComparisons.map((p) => `<div class="card">
+        <strong>${escapeHtml(t("lab.versus", { variant: p.variantA, baseline: p.variantB }))}</strong>
+        <span class="pill" style="background:#6b21a8">${escapeHtml(pairOutcome(p.winner, t))} &middot; ${escapeHtml(p.confidenceScore)}%</span>
+        <div class="small">${escapeHtml(p.keyDifferentiator)}</div>
+      </div>`).join("")}
+    </section>`);
+  }
+
+  if (!isAB) {
+    sections.push(`<section><h2>${escapeHtml(t("view.summary"))}</h2><p>${escapeHtml(report.summary)}</p></section>`);
+  }
+
+  sections.push(`<section class="grid2">
+    <div><div class="label">${escapeHtml(labels.ctrLabel)}</div><div class="value">${escapeHtml(withRange(report.commercialProjections.predictedCTR, report.commercialProjections.ctrLift, reportLanguage(result)))}</div></div>
+    <div><div class="label">${escapeHtml(labels.conversionLabel)}</div><div class="value">${escapeHtml(withRange(report.commercialProjections.conversionLiftPotential, report.commercialProjections.conversionLift, reportLanguage(result)))}</div></div>
+  </section>`);
+
+  sections.push(`<section>
+    <h2>${escapeHtml(t("view.scenarios"))}</h2>
+    ${report.strategicInsights.map((insight) => `<div class="card">
+      <span class="pill ${escapeHtml(insight.scenario)}">${escapeHtml(t(SCENARIO_KEYS[insight.scenario]))}</span>
+      <p style="margin-top:8px"><strong>${escapeHtml(insight.observation)}</strong></p>
+      <div class="small">${escapeHtml(t("view.businessImpact", { text: insight.businessImpact }))}</div>
+      <ul>${insight.actionPlan.map((a) => `<li>${escapeHtml(a)}</li>`).join("")}</ul>
+    </div>`).join("")}
+  </section>`);
+
+  sections.push(`<section>
+    <h2>${escapeHtml(labels.strategyTitle)}</h2>
+    <div class="card"><div class="label">${escapeHtml(labels.bidLabel)}</div><p>${escapeHtml(report.ppcStrategy.bidRecommendation)}</p></div>
+    <div class="card"><div class="label">${escapeHtml(labels.keywordLabel)}</div><p>${escapeHtml(report.ppcStrategy.keywordFocus)}</p></div>
+    <div class="card"><div class="label">${escapeHtml(labels.copyLabel)}</div><p>${escapeHtml(report.ppcStrategy.adCopyAlignment)}</p></div>
+  </section>`);
+
+  if (alignment) {
+    sections.push(`<section>
+      <h2>${escapeHtml(t("export.keywordAlignment", { score: alignment.score }))}</h2>
+      ${report.keywordAlignment!.map((k) => `
+        <div class="row"><span>${escapeHtml(k.keyword)}</span>${htmlBar(k.score, 100, k.score >= SUPPORTED_SCORE ? "#16a34a" : "#dc2626")}<span>${escapeHtml(Math.round(k.score))}</span></div>
+        <div class="small" style="margin:0 0 8px 128px">${escapeHtml(k.evidence)}</div>`).join("")}
+    </section>`);
+  }
+
+  if (!isAB && !isMulti) {
+    sections.push(`<section>
+      <h2>${escapeHtml(t("view.coreScores"))}</h2>
+      ${scoreRows(result, t).map((r) => `<div class="row"><span>${escapeHtml(r.label)}</span>${htmlBar(r.value, 10, r.color)}<span>${escapeHtml(r.value)}</span></div>`).join("")}
+    </section>`);
+  }
+
+  sections.push(`<section>
+    <h2>${escapeHtml(t("view.shareOfAttention"))}</h2>
+    ${tiles.map((tile) => `<div class="row"><span>${escapeHtml(tile.name)}</span>${htmlBar(tile.attentionShare, 100, tile.isOurs ? "#ec4899" : "#6b7280")}<span>${escapeHtml(tile.attentionShare)}%</span></div>`).join("")}
+    ${report.hotspotsAnalysis.map((spot, idx) => `<div class="card">
+      <strong>${idx + 1}. ${escapeHtml(spot.element)}</strong> <span class="pill" style="background:#831843">${escapeHtml(spot.attentionPercentage)}</span>
+      <div class="small">${escapeHtml(spot.rationale)}</div>
+    </div>`).join("")}
+  </section>`);
+
+  sections.push(`<section>
+    <h2>${escapeHtml(t("view.optimizationPlan"))}</h2>
+    ${report.recommendations.map((rec) => `<div class="card">
+      <strong>${escapeHtml(rec.title)}</strong> <span class="pill" style="background:#374151">${escapeHtml(rec.type)}</span>
+      <p class="small">${escapeHtml(rec.description)}</p>
+    </div>`).join("")}
+  </section>`);
+
+  const visualGroups = Array.from(new Set(visuals.map((v) => v.imageLabel)));
+  sections.push(`<section>
+    <h2>${escapeHtml(t("lab.title"))}</h2>
+    ${visualGroups.map((group) => `
+      <p><strong>${escapeHtml(group)}</strong></p>
+      <div class="visuals">
+        ${visuals.filter((v) => v.imageLabel === group).map((v) => `<figure><img src="${v.dataUrl}" alt="${escapeHtml(`${group} - ${v.modeLabel}`)}"><figcaption>${escapeHtml(v.modeLabel)}</figcaption></figure>`).join("")}
+      </div>`).join("")}
+  </section>`);
+
+  return `<!DOCTYPE html>
+<html lang="${getLanguage(result.language).id}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(t("export.reportTitle"))} - ${escapeHtml(profile.name)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+  <h1>${escapeHtml(t("export.reportTitle"))}</h1>
+  <div class="meta">${escapeHtml(profile.name)}${result.listing?.title ? ` &middot; ${escapeHtml(result.listing.title)}` : ""} &middot; ${escapeHtml(t("export.generated", { date: generatedAt.toLocaleString(getLanguage(result.language).locale) }))}</div>
+  ${sections.join("\n")}
+</main>
+</body>
+</html>`;
+};
+
+// -------------------------
+// PDF
+// -------------------------
+
+type RGB = [number, number, number];
+
+const hexToRgb = (hex: string): RGB => {
+  const n = parseInt(hex.replace("#", ""), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+/** Base64 TrueType files for text jsPDF's built-in Helvetica cannot draw. */
+export interface PdfFontFiles {
+  regular: string;
+  bold: string;
+}
+
+const CJK_FONT = "NotoSansJP";
+
+export const buildReportPdf = (input: ReportExportInput, visuals: ReportVisual[], generatedAt: Date = new Date(), cjkFont?: PdfFontFiles): jsPDF => {
+  const { result, context } = input;
+  const { report } = result;
+  const t = reportTranslator(result);
+  const profile = localizeProfile(input.profile, t);
+  const { labels } = profile;
+  const isAB = context === AnalysisContext.AB_TEST;
+  const isMulti = context === AnalysisContext.MULTI_VARIANT;
+  const tiles = result.searchGrid ? computeTileAttention(result.searchGrid, result.hotspots, reportLanguage(result)) : [];
+  const alignment = summarizeKeywordAlignment(report.keywordAlignment ?? []);
+
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  // jsPDF embeds only the glyphs the report uses, so the PDF stays small
+  if (cjkFont) {
+    doc.addFileToVFS(`${CJK_FONT}-Regular.ttf`, cjkFont.regular);
+    doc.addFont(`${CJK_FONT}-Regular.ttf`, CJK_FONT, "normal");
+    doc.addFileToVFS(`${CJK_FONT}-Bold.ttf`, cjkFont.bold);
+    doc.addFont(`${CJK_FONT}-Bold.ttf`, CJK_FONT, "bold");
+  }
+  const font = cjkFont ? CJK_FONT : "helvetica";
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 40;
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y += 8;
+    doc.setFont(font, "bold");
+    doc.setFontSize(12);
+    doc.setTextColor(219, 39, 119);
+    doc.text(text.toUpperCase(), margin, y + 12);
+    y += 22;
+  };
+
+  const paragraph = (text: string, options: { size?: number; bold?: boolean; color?: RGB; indent?: number } = {}) => {
+    const { size = 10, bold = false, color = [55, 65, 81], indent = 0 } = options;
+    doc.setFont(font, bold ? "bold" : "normal");
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+    const lineHeight = size * 1.4;
+    (doc.splitTextToSize(text, contentWidth - indent) as string[]).forEach((line) => {
+      ensureSpace(lineHeight);
+      doc.text(line, margin + indent, y + size);
+      y += lineHeight;
+    });
+    y += 4;
+  };
+
+  const barRow = (label: string, value: number, max: number, color: string) => {
+    const rowHeight = 16;
+    const labelWidth = 130;
+    const barWidth = contentWidth - labelWidth - 40;
+    ensureSpace(rowHeight);
+    doc.setFont(font, "normal");
+    doc.setFontSize(9);
+    doc.setTextColor(55, 65, 81);
+    doc.text(label, margin, y + 9);
+    doc.setFillColor(229, 231, 235);
+    doc.roundedRect(margin + labelWidth, y + 2, barWidth, 8, 2, 2, "F");
+    doc.setFillColor(...hexToRgb(color));
+    doc.roundedRect(margin + labelWidth, y + 2, Math.max(2, barWidth * Math.min(1, value / max)), 8, 2, 2, "F");
+    doc.text(String(value), margin + labelWidth + barWidth + 8, y + 9);
+    y += rowHeight;
+  };
+
+  const image = (visual: ReportVisual, maxWidth: number, maxHeight: number, x: number) => {
+    const scale = Math.min(maxWidth / visual.width, maxHeight / visual.height);
+    const w = visual.width * scale;
+    const h = visual.height * scale;
+    doc.addImage(visual.dataUrl, "JPEG", x + (maxWidth - w) / 2, y, w, h);
+    doc.setFontSize(8);
+    doc.setTextColor(107, 114, 128);
+    doc.text(visual.modeLabel, x + maxWidth / 2, y + maxHeight + 10, { align: "center" });
+  };
+
+  // Title
+  doc.setFont(font, "bold");
+  doc.setFontSize(20);
+  doc.setTextColor(17, 24, 39);
+  doc.text(t("export.reportTitle"), margin, y + 20);
+  y += 32;
+  paragraph(`${[profile.name, result.listing?.title].filter(Boolean).join(" - ")} - ${t("export.generated", { date: generatedAt.toLocaleString(getLanguage(result.language).locale) })}`, { size: 9, color: [107, 114, 128] });
+
+  if (result.ensemble) {
+    const { ensemble } = result;
+    heading(t("export.ensemble", { runs: ensemble.runs }));
+    paragraph(t("export.stability", { stability: t(STABILITY_KEYS[ensemble.stability]).toUpperCase() }), { bold: true, color: hexToRgb(STABILITY_COLORS[ensemble.stability]) });
+    if (ensemble.winnerAgreement !== undefined) {
+      paragraph(t("export.winnerAgreement", { percent: Math.round(ensemble.winnerAgreement * 100) }), { size: 9 });
+    }
+    ensembleRows(ensemble, t).forEach(([label, interval]) => paragraph(`${label}: ${formatInterval(interval)}`, { size: 9 }));
+    paragraph(t("export.recurrence"), { size: 8, color: [107, 114, 128] });
+    ensemble.recommendations.forEach((rec) => paragraph(`${t("export.recurrenceRuns", { count: rec.runs, runs: ensemble.runs })} - ${rec.title}`, { size: 9, indent: 10 }));
+  }
+
+  if (result.compliance) {
+    heading(t("export.compliance"));
+    localizeComplianceReport(result.compliance, reportLanguage(result)).checks.forEach((c) => {
+      paragraph(`${t(COMPLIANCE_KEYS[c.status]).toUpperCase()} - ${c.label} (${c.value})`, { bold: true, color: hexToRgb(COMPLIANCE_COLORS[c.status]) });
+      paragraph(c.detail, { size: 9, indent: 12 });
+    });
+  }
+
+  if (isAB && report.abTestVerdict) {
+    const v = report.abTestVerdict;
+    heading(t("view.verdict"));
+    paragraph(`${t("view.wins", { winner: v.winner })} (${t("view.confidence", { score: v.confidenceScore })})`, { size: 14, bold: true, color: [17, 24, 39] });
+    paragraph(v.reasoning);
+    paragraph(t("view.differentiator", { text: v.keyDifferentiator }), { size: 9, color: [126, 34, 206] });
+  }
+
+  if (isAB && report.comparativeAnalysis) {
+    heading(t("view.headToHead"));
+    report.comparativeAnalysis.forEach((m) => {
+      barRow(`${m.metric} (A)`, m.scoreA, 100, "#ec4899");
+      barRow(`${m.metric} (B)`, m.scoreB, 100, "#8b5cf6");
+    });
+  }
+
+  if (isMulti && report.variantLeaderboard) {
+    heading(t("export.leaderboard"));
+    [...report.variantLeaderboard].sort((a, b) => a.rank - b.rank).forEach((s) => {
+      barRow(`#${s.rank} ${t("image.variant", { label: s.variant })}`, s.overallScore, 100, s.rank === 1 ? "#eab308" : "#8b5cf6");
+      paragraph(s.verdict, { size: 8, color: [107, 114, 128], indent: 12 });
+    });
+  }
+
+  if (isMulti && report.pairwiseComparisons && report.pairwiseComparisons.length > 0) {
+    heading(t("export.pairwise"));
+    report.pairwiseComparisons.forEach((p) => {
+      paragraph(`${t("lab.versus", { variant: p.variantA, baseline: p.variantB })} - ${pairOutcome(p.winner, t)} (${p.confidenceScore}%)`, { bold: true, color: [17, 24, 39] });
+      paragraph(p.keyDifferentiator, { size: 9, indent: 12 });
+    });
+  }
+
+  if (!isAB) {
+    heading(t("view.summary"));
+    paragraph(report.summary);
+  }
+
+  heading(t("export.projections"));
+  paragraph(`${labels.ctrLabel}: ${withRange(report.commercialProjections.predictedCTR, report.commercialProjections.ctrLift, reportLanguage(result))}`, { bold: true, color: [17, 24, 39] });
+  paragraph(`${labels.conversionLabel}: ${withRange(report.commercialProjections.conversionLiftPotential, report.commercialProjections.conversionLift, reportLanguage(result))}`, { bold: true, color: [17, 24, 39] });
+
+  heading(t("view.scenarios"));
+  report.strategicInsights.forEach((insight) => {
+    const color: RGB = insight.scenario === "Winning" ? [22, 163, 74] : insight.scenario === "Losing" ? [220, 38, 38] : [107, 114, 128];
+    paragraph(t(SCENARIO_KEYS[insight.scenario]).toUpperCase(), { size: 8, bold: true, color });
+    paragraph(insight.observation, { bold: true, color: [17, 24, 39] });
+    paragraph(t("view.businessImpact", { text: insight.businessImpact }), { size: 9, color: [107, 114, 128] });
+    insight.actionPlan.forEach((action) => paragraph(`- ${action}`, { size: 9, indent: 10 }));
+  });
+
+  heading(labels.strategyTitle);
+  [
+    [labels.bidLabel, report.ppcStrategy.bidRecommendation],
+    [labels.keywordLabel, report.ppcStrategy.keywordFocus],
+    [labels.copyLabel, report.ppcStrategy.adCopyAlignment],
+  ].forEach(([label, value]) => {
+    paragraph(label, { size: 8, color: [107, 114, 128] });
+    paragraph(value, { color: [17, 24, 39] });
+  });
+
+  if (alignment) {
+    heading(t("export.keywordAlignment", { score: alignment.score }));
+    report.keywordAlignment!.forEach((k) => {
+      barRow(k.keyword, Math.round(k.score), 100, k.score >= SUPPORTED_SCORE ? "#16a34a" : "#dc2626");
+      paragraph(k.evidence, { size: 8, color: [107, 114, 128], indent: 12 });
+    });
+  }
+
+  if (!isAB && !isMulti) {
+    heading(t("view.coreScores"));
+    scoreRows(result, t).forEach((r) => barRow(r.label, r.value, 10, r.color));
+  }
+
+  heading(t("view.shareOfAttention"));
+  tiles.forEach((tile) => barRow(tile.name, tile.attentionShare, 100, tile.isOurs ? "#ec4899" : "#6b7280"));
+  report.hotspotsAnalysis.forEach((spot, idx) => {
+    paragraph(`${idx + 1}. ${spot.element} - ${spot.attentionPercentage}`, { bold: true, color: [17, 24, 39] });
+    paragraph(spot.rationale, { size: 9, indent: 12 });
+  });
+
+  heading(t("view.optimizationPlan"));
+  report.recommendations.forEach((rec) => {
+    paragraph(`${rec.title} [${rec.type}]`, { bold: true, color: [17, 24, 39] });
+    paragraph(rec.description, { size: 9, indent: 12 });
+  });
+
+  // Visuals: one page per image, three modes side by side
+  const groups = Array.from(new Set(visuals.map((v) => v.imageLabel)));
+  groups.forEach((group) => {
+    doc.addPage();
+    y = margin;
+    heading(`${t("lab.title")} - ${group}`);
+    const gap = 10;
+    const cellWidth = (contentWidth - gap * 2) / 3;
+    const cellHeight = cellWidth * 1.25;
+    visuals.filter((v) => v.imageLabel === group).forEach((visual, idx) => {
+      image(visual, cellWidth, cellHeight, margin + idx * (cellWidth + gap));
+    });
+    y += cellHeight + 20;
+  });
+
+  // Footer with page numbers
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFont(font, "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(156, 163, 175);
+    doc.text("Amazon HeatMap Studio", margin, pageHeight - 20);
+    doc.text(t("export.page", { page: i, total: pageCount }), pageWidth - margin, pageHeight - 20, { align: "right" });
+  }
+
+  return doc;
+};
+
+// -------------------------
+// Markdown
+// -------------------------
+
+// Markdown has no images here: the CLI writes overlays as separate files
+const cell = (value: string | number) => String(value).replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+export const buildReportMarkdown = (input: ReportExportInput, generatedAt: Date = new Date()): string => {
+  const { result, context } = input;
+  const { report } = result;
+  const t = reportTranslator(result);
+  const profile = localizeProfile(input.profile, t);
+  const { labels } = profile;
+  const isAB = context === AnalysisContext.AB_TEST;
+  const isMulti = context === AnalysisContext.MULTI_VARIANT;
+  const tiles = result.searchGrid ? computeTileAttention(result.searchGrid, result.hotspots, reportLanguage(result)) : [];
+  const alignment = summarizeKeywordAlignment(report.keywordAlignment ?? []);
+  const lines: string[] = [
+    `# ${t("export.reportTitle")}`,
+    "",
+    `${profile.name}${result.listing?.title ? ` · ${result.listing.title}` : ""} · ${t("export.generated", { date: generatedAt.toLocaleString(getLanguage(result.language).locale) })}`,
+  ];
+  const section = (title: string, ...body: string[]) => lines.push("", `## ${title}`, "", ...body);
+
+  if (result.validation?.issues.length) {
+    section(
+      t("export.validation"),
+      t("export.validationNote", { attempts: result.validation.attempts }),
+      "",
+      ...result.validation.issues.map((i) => `- ${i.path || "(root)"}: ${i.message}${i.repaired ? "" : ` ${t("export.unresolved")}`}`),
+    );
+  }
+
+  if (result.ensemble) {
+    const { ensemble } = result;
+    section(
+      `${t("export.ensemble", { runs: ensemble.runs })} (${t(STABILITY_KEYS[ensemble.stability])})`,
+      ...(ensemble.winnerAgreement !== undefined ? [t("export.winnerAgreement", { percent: Math.round(ensemble.winnerAgreement * 100) }), ""] : []),
+      ...ensembleRows(ensemble, t).map(([label, interval]) => `- ${label}: **${formatInterval(interval)}**`),
+      "",
+      `${t("export.recurrence")}:`,
+      "",
+      ...ensemble.recommendations.map((rec) => `- ${t("export.recurrenceRuns", { count: rec.runs, runs: ensemble.runs })} - ${rec.title}`),
+    );
+  }
+
+  if (result.compliance) {
+    section(
+      t("export.compliance"),
+      `| ${t("export.column.check")} | ${t("export.column.status")} | ${t("export.column.value")} | ${t("export.column.detail")} |`,
+      "| --- | --- | --- | --- |",
+      ...localizeComplianceReport(result.compliance, reportLanguage(result)).checks.map((c) => `| ${cell(c.label)} | ${t(COMPLIANCE_KEYS[c.status]).toUpperCase()} | ${cell(c.value)} | ${cell(c.detail)} |`),
+    );
+  }
+
+  if (isAB && report.abTestVerdict) {
+    const v = report.abTestVerdict;
+    section(
+      t("view.verdict"),
+      `**${t("view.wins", { winner: v.winner })}** (${t("view.confidence", { score: v.confidenceScore })})`,
+      "",
+      v.reasoning,
+      "",
+      t("view.differentiator", { text: v.keyDifferentiator }),
+    );
+  }
+
+  if (isAB && report.comparativeAnalysis) {
+    section(
+      t("view.headToHead"),
+      `| ${t("export.column.metric")} | A | B |`,
+      "| --- | --- | --- |",
+      ...report.comparativeAnalysis.map((m) => `| ${cell(m.metric)} | ${m.scoreA} | ${m.scoreB} |`),
+    );
+  }
+
+  if (isMulti && report.variantLeaderboard) {
+    const ranked = [...report.variantLeaderboard].sort((a, b) => a.rank - b.rank);
+    section(
+      t("export.leaderboard"),
+      `| ${t("export.column.rank")} | ${t("export.column.variant")} | ${t("export.column.score")} | ${t("export.column.verdict")} |`,
+      "| --- | --- | --- | --- |",
+      ...ranked.map((s) => `| ${s.rank} | ${s.variant} | ${s.overallScore} | ${cell(s.verdict)} |`),
+    );
+  }
+
+  if (isMulti && report.pairwiseComparisons && report.pairwiseComparisons.length > 0) {
+    section(
+      t("export.pairwise"),
+      ...report.pairwiseComparisons.map((p) =>
+        `- **${t("lab.versus", { variant: p.variantA, baseline: p.variantB })}**: ${pairOutcome(p.winner, t)} (${p.confidenceScore}%) - ${p.keyDifferentiator}`),
+    );
+  }
+
+  if (!isAB) section(t("view.summary"), report.summary);
+
+  section(
+    t("export.projections"),
+    `- ${labels.ctrLabel}: **${withRange(report.commercialProjections.predictedCTR, report.commercialProjections.ctrLift, reportLanguage(result))}**`,
+    `- ${labels.conversionLabel}: **${withRange(report.commercialProjections.conversionLiftPotential, report.commercialProjections.conversionLift, reportLanguage(result))}**`,
+  );
+
+  section(
+    t("view.scenarios"),
+    ...report.strategicInsights.flatMap((insight) => [
+      `### ${t(SCENARIO_KEYS[insight.scenario])}: ${insight.observation}`,
+      "",
+      t("view.businessImpact", { text: insight.businessImpact }),
+      "",
+      ...insight.actionPlan.map((a) => `- ${a}`),
+      "",
+    ]),
+  );
+
+  section(
+    labels.strategyTitle,
+    `- **${labels.bidLabel}:** ${report.ppcStrategy.bidRecommendation}`,
+    `- **${labels.keywordLabel}:** ${report.ppcStrategy.keywordFocus}`,
+    `- **${labels.copyLabel}:** ${report.ppcStrategy.adCopyAlignment}`,
+  );
+
+  if (alignment) {
+    section(
+      t("export.keywordAlignment", { score: alignment.score }),
+      `| ${t("export.column.keyword")} | ${t("export.column.score")} | ${t("export.column.evidence")} |`,
+      "| --- | --- | --- |",
+      ...report.keywordAlignment!.map((k) => `| ${cell(k.keyword)} | ${Math.round(k.score)} | ${cell(k.evidence)} |`),
+    );
+  }
+
+  if (!isAB && !isMulti) {
+    section(t("view.coreScores"), ...scoreRows(result, t).map((r) => `- ${r.label}: ${r.value}`));
+  }
+
+  section(
+    t("view.shareOfAttention"),
+    ...tiles.map((tile) => `- ${tile.name}: ${tile.attentionShare}%`),
+    ...(tiles.length > 0 ? [""] : []),
+    ...report.hotspotsAnalysis.map((spot, idx) => `${idx + 1}. **${spot.element}** (${spot.attentionPercentage}) - ${spot.rationale}`),
+  );
+
+  section(
+    t("view.optimizationPlan"),
+    ...report.recommendations.map((rec) => `- **${rec.title}** [${rec.type}] - ${rec.description}`),
+  );
+
+  return `${lines.join("\n").trimEnd()}\n`;
+};
+
+// jsPDF's built-in Helvetica only has WinAnsi glyphs (Latin-1 plus typographic
+// punctuation). Anything else, e.g. Japanese, needs an embedded font.
+const NON_PDF_TEXT = /[^\t\n\r\u0020-\u007e\u00a0-\u00ff\u0152\u0153\u0160\u0161\u0178\u017d\u017e\u0192\u02c6\u02dc\u2013\u2014\u2018-\u201a\u201c-\u201e\u2020-\u2022\u2026\u2030\u2039\u203a\u20ac\u2122]/;
+
+const needsCjkFont = (input: ReportExportInput): boolean => NON_PDF_TEXT.test(buildReportMarkdown(input));
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  // Chunked: spreading megabytes into one call overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const fetchFont = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load the PDF font (HTTP ${response.status})`);
+  return toBase64(await response.arrayBuffer());
+};
+
+// Loaded from a CDN like the app's other runtime dependencies (see the import map in index.html).
+// Each weight is about 5MB, so the files are only fetched for reports that need them.
+const CJK_FONT_URL = "https://cdn.jsdelivr.net/npm/@expo-google-fonts/noto-sans-jp@0.4.3";
+
+const fetchCjkFont = async (): Promise<PdfFontFiles> => {
+  const [regular, bold] = await Promise.all([
+    fetchFont(`${CJK_FONT_URL}/400Regular/NotoSansJP_400Regular.ttf`),
+    fetchFont(`${CJK_FONT_URL}/700Bold/NotoSansJP_700Bold.ttf`),
+  ]);
+  return { regular, bold };
+};
+
+let cjkFontFiles: Promise<PdfFontFiles> | null = null;
+
+// Fetched once per session; a failed download is tried again on the next export
+const loadCjkFont = (): Promise<PdfFontFiles> => {
+  cjkFontFiles ??= fetchCjkFont().catch((error) => {
+    cjkFontFiles = null;
+    throw error;
+  });
+  return cjkFontFiles;
+};
+
+export const exportReportPdf = async (input: ReportExportInput) => {
+  const cjkFont = needsCjkFont(input) ? await loadCjkFont() : undefined;
+  const visuals = await renderReportVisuals(input);
+  const doc = buildReportPdf(input, visuals, new Date(), cjkFont);
+  downloadBlob(doc.output("blob"), exportFileName(input.profile.name, "pdf"));
+};
+
+export const exportReportHtml = async (input: ReportExportInput) => {
+  const visuals = await renderReportVisuals(input);
+  const html = buildReportHtml(input, visuals);
+  downloadBlob(new Blob([html], { type: "text/html" }), exportFileName(input.profile.name, "html"));
+};
@@ -0,0 +1,242 @@
+import { Type, Schema } from "@google/genai";
+
+// Shared by the Gemini request and the runtime validator, so the bounds the
+// model is asked for are exactly the bounds that are enforced.
+
+export const hotspotSchema: Schema = {
+  type: Type.ARRAY,
+  description: "List of 8-12 coordinate points representing the SEQUENCE of visual attention.",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.NUMBER, description: "Order of attention (1, 2, 3...)", minimum: 1 },
+      x: { type: Type.NUMBER, description: "X coordinate percentage (0-100) from left", minimum: 0, maximum: 100 },
+      y: { type: Type.NUMBER, description: "Y coordinate percentage (0-100) from top", minimum: 0, maximum: 100 },
+      intensity: { type: Type.NUMBER, description: "Intensity 0.0 to 1.0", minimum: 0, maximum: 1 },
+      label: { type: Type.STRING },
+      fixationMs: { type: Type.NUMBER, description: "Estimated fixation duration in milliseconds", minimum: 50, maximum: 2000 },
+    },
+    required: ["id", "x", "y", "intensity"],
+  },
+};
+
+const projectionRangeSchema = (description: string): Schema => ({
+  type: Type.OBJECT,
+  description,
+  properties: {
+    low: { type: Type.NUMBER, description: "Pessimistic end of the range", minimum: -100, maximum: 500 },
+    high: { type: Type.NUMBER, description: "Optimistic end of the range", minimum: -100, maximum: 500 },
+    unit: { type: Type.STRING, enum: ["%", "pp"], description: "'%' = relative change, 'pp' = percentage points" },
+  },
+  required: ["low", "high", "unit"],
+});
+
+export const responseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    report: {
+      type: Type.OBJECT,
+      properties: {
+        summary: { type: Type.STRING },
+        metrics: {
+          type: Type.OBJECT,
+          properties: {
+            visibilityScore: { type: Type.NUMBER, description: "Score 1-10", minimum: 1, maximum: 10 },
+            goalAlignmentScore: { type: Type.NUMBER, description: "Score 1-10", minimum: 1, maximum: 10 },
+            clarityScore: { type: Type.NUMBER, description: "Score 1-10", minimum: 1, maximum: 10 },
+            cognitiveLoadScore: { type: Type.NUMBER, description: "Score 1-10 (10 = High Clutter)", minimum: 1, maximum: 10 },
+            brandImpactScore: { type: Type.NUMBER, description: "Score 1-10", minimum: 1, maximum: 10 },
+          },
+          required: ["visibilityScore", "goalAlignmentScore", "clarityScore", "cognitiveLoadScore", "brandImpactScore"],
+        },
+        commercialProjections: {
+          type: Type.OBJECT,
+          properties: {
+            predictedCTR: { type: Type.STRING, description: "Estimated Click-Through Rate impact" },
+            conversionLiftPotential: { type: Type.STRING, description: "Estimated impact on Sales/Conversion" },
+            searchVolumeRelevance: { type: Type.STRING, description: "Relevance to high-volume keywords" },
+            ctrLift: projectionRangeSchema("Expected CTR change versus the seller's current listing, e.g. {low: 5, high: 15, unit: '%'}"),
+            conversionLift: projectionRangeSchema("Expected conversion rate change versus the seller's current listing"),
+          },
+          required: ["predictedCTR", "conversionLiftPotential", "searchVolumeRelevance", "ctrLift", "conversionLift"],
+        },
+        ppcStrategy: {
+          type: Type.OBJECT,
+          properties: {
+            bidRecommendation: { type: Type.STRING, description: "Strategic advice for Bidding or Traffic" },
+            keywordFocus: { type: Type.STRING, description: "Keywords or Themes to target" },
+            adCopyAlignment: { type: Type.STRING, description: "Ad Copy or Headline suggestions" },
+          },
+          required: ["bidRecommendation", "keywordFocus", "adCopyAlignment"],
+        },
+        strategicInsights: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              scenario: { type: Type.STRING, enum: ["Winning", "Losing", "Neutral"] },
+              observation: { type: Type.STRING },
+              businessImpact: { type: Type.STRING, description: "Impact on ROI/RoAS/ACOS" },
+              actionPlan: { type: Type.ARRAY, items: { type: Type.STRING } },
+            },
+            required: ["scenario", "observation", "businessImpact", "actionPlan"],
+          },
+        },
+        abTestVerdict: {
+          type: Type.OBJECT,
+          description: "ONLY populate this if analyzing two images.",
+          properties: {
+            winner: { type: Type.STRING, enum: ["Image A", "Image B", "Inconclusive"] },
+            confidenceScore: { type: Type.NUMBER, description: "0-100", minimum: 0, maximum: 100 },
+            keyDifferentiator: { type: Type.STRING },
+            reasoning: { type: Type.STRING },
+          },
+          required: ["winner", "confidenceScore", "keyDifferentiator", "reasoning"],
+        },
+        comparativeAnalysis: {
+          type: Type.ARRAY,
+          description: "Side-by-side scoring for A/B tests (e.g. Appeal, Clarity, Trustworthiness).",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              metric: { type: Type.STRING },
+              scoreA: { type: Type.NUMBER, description: "Score 0-100", minimum: 0, maximum: 100 },
+              scoreB: { type: Type.NUMBER, description: "Score 0-100", minimum: 0, maximum: 100 },
+              winner: { type: Type.STRING, enum: ["A", "B", "Tie"] },
+            },
+            required: ["metric", "scoreA", "scoreB", "winner"],
+          },
+        },
+        variantProjections: {
+          type: Type.ARRAY,
+          description: "ONLY for A/B and multi-variant tests: CTR and conversion change of each image versus the seller's current listing.",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              variant: { type: Type.STRING, description: "Variant letter (A, B, C...)" },
+              ctrLift: projectionRangeSchema("Expected CTR change if this image is used"),
+              conversionLift: projectionRangeSchema("Expected conversion rate change if this image is used"),
+            },
+            required: ["variant", "ctrLift", "conversionLift"],
+          },
+        },
+        variantLeaderboard: {
+          type: Type.ARRAY,
+          description: "ONLY for multi-variant tests: every variant ranked from best (rank 1) to worst.",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              variant: { type: Type.STRING, description: "Variant letter (A, B, C...)" },
+              rank: { type: Type.NUMBER, description: "1 = best", minimum: 1 },
+              overallScore: { type: Type.NUMBER, description: "Score 0-100", minimum: 0, maximum: 100 },
+              metricScores: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    metric: { type: Type.STRING },
+                    score: { type: Type.NUMBER, description: "Score 0-100", minimum: 0, maximum: 100 },
+                  },
+                  required: ["metric", "score"],
+                },
+              },
+              verdict: { type: Type.STRING, description: "One-sentence assessment of this variant" },
+            },
+            required: ["variant", "rank", "overallScore", "metricScores", "verdict"],
+          },
+        },
+        pairwiseComparisons: {
+          type: Type.ARRAY,
+          description: "ONLY for multi-variant tests: one entry per pair of variants.",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              variantA: { type: Type.STRING },
+              variantB: { type: Type.STRING },
+              winner: { type: Type.STRING, description: "variantA, variantB or 'Tie'" },
+              confidenceScore: { type: Type.NUMBER, description: "0-100", minimum: 0, maximum: 100 },
+              keyDifferentiator: { type: Type.STRING },
+            },
+            required: ["variantA", "variantB", "winner", "confidenceScore", "keyDifferentiator"],
+          },
+        },
+        hotspotsAnalysis: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              element: { type: Type.STRING },
+              attentionPercentage: { type: Type.STRING, description: "e.g. '35%'" },
+              rationale: { type: Type.STRING },
+            },
+            required: ["element", "attentionPercentage", "rationale"],
+          },
+        },
+        blindSpots: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              item: { type: Type.STRING },
+              insight: { type: Type.STRING },
+            },
+            required: ["item", "insight"],
+          },
+        },
+        recommendations: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              title: { type: Type.STRING },
+              description: { type: Type.STRING },
+              type: { type: Type.STRING, enum: ["visual", "content", "test"] },
+            },
+            required: ["title", "description", "type"],
+          },
+        },
+        dominantColors: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              hex: { type: Type.STRING },
+              name: { type: Type.STRING },
+              psychology: { type: Type.STRING },
+            },
+            required: ["hex", "name", "psychology"],
+          },
+        },
+        keywordAlignment: {
+          type: Type.ARRAY,
+          description: "ONLY when target keywords are provided: one entry per keyword, in the order given.",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              keyword: { type: Type.STRING, description: "The target keyword, exactly as provided" },
+              score: { type: Type.NUMBER, description: "0-100: how clearly the image itself shows what the keyword promises", minimum: 0, maximum: 100 },
+              evidence: { type: Type.STRING, description: "The visual element that supports it, or what is missing" },
+            },
+            required: ["keyword", "score", "evidence"],
+          },
+        },
+      },
+      required: ["summary", "metrics", "commercialProjections", "ppcStrategy", "strategicInsights", "hotspotsAnalysis", "blindSpots", "recommendations", "dominantColors"],
+    },
+    hotspots: hotspotSchema,
+    hotspotsB: { ...hotspotSchema, description: "Hotspots specifically for Image B (Second Image)" },
+    variantHotspots: {
+      type: Type.ARRAY,
+      description: "ONLY for multi-variant tests: one entry per image, in upload order.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          variant: { type: Type.STRING, description: "Variant letter (A, B, C...)" },
+          hotspots: hotspotSchema,
+        },
+        required: ["variant", "hotspots"],
+      },
+    },
+  },
+  required: ["report", "hotspots"],
+};
@@ -0,0 +1,102 @@
+import { AnalysisContext, AnalysisProvider, AnalysisResult, AnalyzeOptions, ResultCacheEntry } from "../types";
+import { responseSchema } from "./responseSchema";
+import { RESULT_CACHE_STORE, withStore } from "./database";
+
+// Oldest entries are dropped beyond this; each entry is one JSON result, no images
+const MAX_ENTRIES = 200;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, "0")).join("");
+
+const sha256 = async (data: BufferSource | string): Promise<string> =>
+  toHex(await crypto.subtle.digest("SHA-256", typeof data === "string" ? new TextEncoder().encode(data) : data));
+
+// Key order must not change the hash, so objects are serialized with sorted keys
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+let schemaHashPromise: Promise<string> | null = null;
+export const getSchemaHash = (): Promise<string> => {
+  if (!schemaHashPromise) schemaHashPromise = sha256(stableStringify(responseSchema));
+  return schemaHashPromise;
+};
+
+export interface CacheKeyInput {
+  provider: AnalysisProvider;
+  context: AnalysisContext;
+  files: File[];
+  options: AnalyzeOptions;
+  ensembleRuns: number;
+}
+
+/**
+ * Hash of the image bytes, every input that shapes the request and the
+ * provider's prompt text. Compliance measurements only enter through the prompt,
+ * as they are derived from the same bytes, and the profile's id is left out so
+ * an identical copy of a profile still hits.
+ */
+export const computeCacheKey = async ({ provider, context, files, options, ensembleRuns }: CacheKeyInput): Promise<string> => {
+  const images = await Promise.all(files.map(async (file) => ({ type: file.type, hash: await sha256(await file.arrayBuffer()) })));
+  const profile = options.profile ? { ...options.profile, id: undefined, builtIn: undefined } : undefined;
+  return sha256(stableStringify({
+    images,
+    context,
+    profile,
+    listing: options.listing,
+    searchGrid: options.searchGrid,
+    marketplace: options.marketplace,
+    language: options.language,
+    viewports: options.viewports ?? [],
+    ensembleRuns,
+    provider: provider.id,
+    model: provider.model,
+    promptVersion: provider.promptVersion,
+    // A prompt edit must miss the cache even when nobody bumped promptVersion
+    prompt: provider.buildPrompt ? await sha256(provider.buildPrompt(files.length, context, options)) : undefined,
+    schema: await getSchemaHash(),
+  }));
+};
+
+const isCurrent = async (entry: ResultCacheEntry, provider: AnalysisProvider) =>
+  entry.promptVersion === provider.promptVersion && entry.schemaHash === (await getSchemaHash());
+
+export const getCachedResult = async (key: string, provider: AnalysisProvider): Promise<ResultCacheEntry | undefined> => {
+  const entry = await withStore<ResultCacheEntry | undefined>(RESULT_CACHE_STORE, "readonly", (store) => store.get(key));
+  return entry && (await isCurrent(entry, provider)) ? entry : undefined;
+};
+
+export const putCachedResult = async (key: string, provider: AnalysisProvider, result: AnalysisResult): Promise<void> => {
+  const entry: ResultCacheEntry = {
+    key,
+    createdAt: Date.now(),
+    result,
+    providerId: provider.id,
+    model: provider.model,
+    promptVersion: provider.promptVersion,
+    schemaHash: await getSchemaHash(),
+  };
+  await withStore(RESULT_CACHE_STORE, "readwrite", (store) => store.put(entry));
+  await pruneResultCache(provider);
+};
+
+// Entries from an older prompt or schema can never hit again, so they are deleted
+export const pruneResultCache = async (provider: AnalysisProvider): Promise<void> => {
+  const entries = await withStore<ResultCacheEntry[]>(RESULT_CACHE_STORE, "readonly", (store) => store.getAll());
+  const schemaHash = await getSchemaHash();
+  const stale = entries.filter((e) => e.providerId === provider.id && (e.promptVersion !== provider.promptVersion || e.schemaHash !== schemaHash));
+  const overflow = entries
+    .filter((e) => !stale.includes(e))
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(MAX_ENTRIES);
+  for (const entry of [...stale, ...overflow]) {
+    await withStore(RESULT_CACHE_STORE, "readwrite", (store) => store.delete(entry.key));
+  }
+};
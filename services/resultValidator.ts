@@ -0,0 +1,350 @@
+import { Schema, Type } from "@google/genai";
+import { AnalysisContext, AnalysisResult, Hotspot, ProjectionRange, ReportField, ValidationIssue } from "../types";
+import { responseSchema } from "./responseSchema";
+import { variantLabel } from "./variants";
+
+export interface ValidationOutcome {
+  result: AnalysisResult | null;
+  issues: ValidationIssue[];
+  valid: boolean;    // No unrepaired issues remain
+  repaired: boolean; // At least one value was changed
+}
+
+export interface ValidationExpectations {
+  imageCount: number;
+  context: AnalysisContext;
+  requiredFields?: ReportField[]; // From the context profile
+  keywords?: string[];            // Target keywords from the listing details
+}
+
+type Issues = ValidationIssue[];
+
+const repaired = (issues: Issues, path: string, message: string) => issues.push({ path, message, repaired: true });
+const failed = (issues: Issues, path: string, message: string) => issues.push({ path, message, repaired: false });
+
+const hasErrors = (issues: Issues) => issues.some((i) => !i.repaired);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const validateNumber = (value: unknown, schema: Schema, path: string, issues: Issues): number | undefined => {
+  let num: number;
+  if (typeof value === "number" && Number.isFinite(value)) {
+    num = value;
+  } else if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value.replace("%", "")))) {
+    num = Number(value.replace("%", ""));
+    repaired(issues, path, `Converted string "${value}" to a number`);
+  } else {
+    failed(issues, path, `Expected a number, got ${JSON.stringify(value)}`);
+    return undefined;
+  }
+
+  const { minimum, maximum } = schema;
+  if (maximum !== undefined && num > maximum) {
+    // Models frequently answer on a 0-100 scale for 0-1 or 1-10 fields;
+    // small overshoots are just clamped.
+    const scale = maximum <= 1 ? 100 : maximum <= 10 ? 10 : 1;
+    if (scale > 1 && num > maximum * 2 && num <= maximum * scale) {
+      repaired(issues, path, `Rescaled ${num} from a 0-${maximum * scale} scale to 0-${maximum}`);
+      num = round(num / scale);
+    } else {
+      repaired(issues, path, `Clamped ${num} to maximum ${maximum}`);
+      num = maximum;
+    }
+  }
+  if (minimum !== undefined && num < minimum) {
+    repaired(issues, path, `Clamped ${num} to minimum ${minimum}`);
+    num = minimum;
+  }
+  return num;
+};
+
+const validateString = (value: unknown, schema: Schema, path: string, issues: Issues): string | undefined => {
+  let str = value;
+  if (typeof str === "number" || typeof str === "boolean") {
+    str = String(str);
+    repaired(issues, path, `Converted ${typeof value} to a string`);
+  }
+  if (typeof str !== "string") {
+    failed(issues, path, `Expected a string, got ${JSON.stringify(value)}`);
+    return undefined;
+  }
+  if (schema.enum && !schema.enum.includes(str)) {
+    const match = schema.enum.find((option) => option.toLowerCase() === str.toString().trim().toLowerCase());
+    if (!match) {
+      failed(issues, path, `"${str}" is not one of ${schema.enum.join(", ")}`);
+      return undefined;
+    }
+    repaired(issues, path, `Normalized "${str}" to "${match}"`);
+    str = match;
+  }
+  return str as string;
+};
+
+// Walks a value against the Gemini Schema, returning the repaired value (or undefined when invalid).
+const validateNode = (value: unknown, schema: Schema, path: string, issues: Issues): unknown => {
+  switch (schema.type) {
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return validateNumber(value, schema, path, issues);
+    case Type.STRING:
+      return validateString(value, schema, path, issues);
+    case Type.BOOLEAN:
+      if (typeof value === "boolean") return value;
+      failed(issues, path, `Expected a boolean, got ${JSON.stringify(value)}`);
+      return undefined;
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) {
+        failed(issues, path, "Expected an array");
+        return undefined;
+      }
+      if (!schema.items) return value;
+      const items: unknown[] = [];
+      value.forEach((item, idx) => {
+        const itemIssues: Issues = [];
+        const checked = validateNode(item, schema.items!, `${path}[${idx}]`, itemIssues);
+        // A single broken entry is dropped rather than failing the whole list.
+        if (hasErrors(itemIssues) || checked === undefined) {
+          const reason = itemIssues.find((i) => !i.repaired);
+          repaired(issues, `${path}[${idx}]`, `Dropped invalid entry${reason ? ` (${reason.path}: ${reason.message})` : ""}`);
+        } else {
+          issues.push(...itemIssues);
+          items.push(checked);
+        }
+      });
+      return items;
+    }
+    case Type.OBJECT: {
+      if (!isRecord(value)) {
+        failed(issues, path, "Expected an object");
+        return undefined;
+      }
+      const out: Record<string, unknown> = {};
+      const properties = schema.properties ?? {};
+      Object.entries(properties).forEach(([key, propSchema]) => {
+        const childPath = path ? `${path}.${key}` : key;
+        const isRequired = schema.required?.includes(key) ?? false;
+        if (value[key] === undefined || value[key] === null) {
+          if (!isRequired) return;
+          if (propSchema.type === Type.ARRAY) {
+            repaired(issues, childPath, "Missing list replaced with an empty list");
+            out[key] = [];
+          } else {
+            failed(issues, childPath, "Required field is missing");
+          }
+          return;
+        }
+        const checked = validateNode(value[key], propSchema, childPath, issues);
+        if (checked !== undefined) out[key] = checked;
+      });
+      return out;
+    }
+    default:
+      return value;
+  }
+};
+
+// Ids define the attention sequence, so they must be unique and start at 1.
+const normalizeSequence = (hotspots: Hotspot[], path: string, issues: Issues): Hotspot[] => {
+  const ids = hotspots.map((h) => h.id).sort((a, b) => a - b);
+  const isSequential = ids.every((id, idx) => id === idx + 1);
+  if (isSequential) return hotspots;
+  repaired(issues, path, "Renumbered hotspot ids to run from 1 without gaps or duplicates");
+  return [...hotspots]
+    .sort((a, b) => a.id - b.id || b.intensity - a.intensity)
+    .map((h, idx) => ({ ...h, id: idx + 1 }));
+};
+
+const applyABRules = (result: AnalysisResult, issues: Issues) => {
+  const { report } = result;
+  if (!result.hotspotsB || result.hotspotsB.length === 0) {
+    failed(issues, "hotspotsB", "A/B tests require hotspots for Image B");
+  } else {
+    result.hotspotsB = normalizeSequence(result.hotspotsB, "hotspotsB", issues);
+  }
+  if (!report.abTestVerdict) failed(issues, "report.abTestVerdict", "A/B tests require a verdict");
+  if (!report.comparativeAnalysis || report.comparativeAnalysis.length === 0) {
+    failed(issues, "report.comparativeAnalysis", "A/B tests require comparative scores");
+  } else {
+    report.comparativeAnalysis = report.comparativeAnalysis.map((m, idx) => {
+      const winner = m.scoreA === m.scoreB ? "Tie" : m.scoreA > m.scoreB ? "A" : "B";
+      if (winner === m.winner) return m;
+      repaired(issues, `report.comparativeAnalysis[${idx}].winner`, `Winner "${m.winner}" contradicted the scores, set to "${winner}"`);
+      return { ...m, winner };
+    });
+  }
+};
+
+const applyMultiVariantRules = (result: AnalysisResult, imageCount: number, issues: Issues) => {
+  const { report } = result;
+  const expected = Array.from({ length: imageCount }, (_, idx) => variantLabel(idx));
+
+  const variants = result.variantHotspots ?? [];
+  if (variants.length !== imageCount) {
+    failed(issues, "variantHotspots", `Expected hotspots for ${imageCount} variants, got ${variants.length}`);
+  } else {
+    result.variantHotspots = variants.map((v, idx) => {
+      const path = `variantHotspots[${idx}]`;
+      if (v.hotspots.length === 0) failed(issues, `${path}.hotspots`, "At least one hotspot is required");
+      // Entries are positional; labels only need to agree with the upload order
+      if (v.variant.trim().toUpperCase() !== expected[idx]) {
+        repaired(issues, `${path}.variant`, `Relabelled "${v.variant}" to "${expected[idx]}" to match upload order`);
+      }
+      return { variant: expected[idx], hotspots: normalizeSequence(v.hotspots, `${path}.hotspots`, issues) };
+    });
+  }
+
+  const leaderboard = report.variantLeaderboard ?? [];
+  const missing = expected.filter((label) => !leaderboard.some((s) => s.variant.trim().toUpperCase() === label));
+  if (missing.length > 0) {
+    failed(issues, "report.variantLeaderboard", `Missing ranking for variant(s) ${missing.join(", ")}`);
+  } else {
+    // Ranks must follow the overall scores and be unique
+    const ranked = [...leaderboard]
+      .map((s) => ({ ...s, variant: s.variant.trim().toUpperCase() }))
+      .filter((s) => expected.includes(s.variant))
+      .sort((a, b) => b.overallScore - a.overallScore || a.rank - b.rank)
+      .map((s, idx) => ({ ...s, rank: idx + 1 }));
+    if (ranked.some((s) => leaderboard.find((o) => o.variant.trim().toUpperCase() === s.variant)?.rank !== s.rank)) {
+      repaired(issues, "report.variantLeaderboard", "Re-ranked variants by overall score");
+    }
+    report.variantLeaderboard = ranked;
+  }
+
+  const pairs = report.pairwiseComparisons ?? [];
+  const expectedPairs = (imageCount * (imageCount - 1)) / 2;
+  if (pairs.length < expectedPairs) {
+    failed(issues, "report.pairwiseComparisons", `Expected ${expectedPairs} pairwise comparisons, got ${pairs.length}`);
+  }
+  pairs.forEach((p, idx) => {
+    if (p.winner !== "Tie" && p.winner !== p.variantA && p.winner !== p.variantB) {
+      failed(issues, `report.pairwiseComparisons[${idx}].winner`, `"${p.winner}" is neither ${p.variantA}, ${p.variantB} nor "Tie"`);
+    }
+  });
+};
+
+// Ranges are read as low..high everywhere, so swapped ends are fixed rather than rejected
+const orderRange = (range: ProjectionRange | undefined, path: string, issues: Issues): ProjectionRange | undefined => {
+  if (!range || range.low <= range.high) return range;
+  repaired(issues, path, `Swapped reversed range ${range.low}..${range.high}`);
+  return { ...range, low: range.high, high: range.low };
+};
+
+const applyProjectionRules = (result: AnalysisResult, expectations: ValidationExpectations, issues: Issues) => {
+  const { report } = result;
+  const projections = report.commercialProjections;
+  projections.ctrLift = orderRange(projections.ctrLift, "report.commercialProjections.ctrLift", issues);
+  projections.conversionLift = orderRange(projections.conversionLift, "report.commercialProjections.conversionLift", issues);
+
+  const comparesImages = expectations.context === AnalysisContext.AB_TEST || expectations.context === AnalysisContext.MULTI_VARIANT;
+  if (!comparesImages) {
+    if (report.variantProjections) {
+      repaired(issues, "report.variantProjections", "Removed per-variant projections from a single-image analysis");
+      delete report.variantProjections;
+    }
+    return;
+  }
+
+  const entries = report.variantProjections ?? [];
+  const expected = Array.from({ length: expectations.imageCount }, (_, idx) => variantLabel(idx));
+  const find = (label: string) => entries.find((p) => p.variant.trim().toUpperCase().replace(/^(IMAGE|VARIANT)\s+/, "") === label);
+  const missing = expected.filter((label) => !find(label));
+  if (missing.length > 0) {
+    failed(issues, "report.variantProjections", `Missing projections for variant(s) ${missing.join(", ")}`);
+    return;
+  }
+  report.variantProjections = expected.map((label, idx) => {
+    const entry = find(label)!;
+    const path = `report.variantProjections[${idx}]`;
+    return {
+      variant: label,
+      ctrLift: orderRange(entry.ctrLift, `${path}.ctrLift`, issues)!,
+      conversionLift: orderRange(entry.conversionLift, `${path}.conversionLift`, issues)!,
+    };
+  });
+};
+
+// One entry per target keyword, in the order given and spelled as the user typed it
+const applyKeywordRules = (result: AnalysisResult, keywords: string[], issues: Issues) => {
+  const { report } = result;
+  if (keywords.length === 0) {
+    if (report.keywordAlignment) {
+      repaired(issues, "report.keywordAlignment", "Removed keyword alignment from an analysis without target keywords");
+      delete report.keywordAlignment;
+    }
+    return;
+  }
+
+  const entries = report.keywordAlignment ?? [];
+  const find = (keyword: string) => entries.find((e) => e.keyword.trim().toLowerCase() === keyword.toLowerCase());
+  const missing = keywords.filter((k) => !find(k));
+  if (missing.length > 0) {
+    failed(issues, "report.keywordAlignment", `Missing alignment for keyword(s) ${missing.map((k) => `"${k}"`).join(", ")}`);
+    return;
+  }
+  if (entries.length > keywords.length) {
+    repaired(issues, "report.keywordAlignment", "Dropped entries for keywords that were not provided");
+  }
+  report.keywordAlignment = keywords.map((keyword) => ({ ...find(keyword)!, keyword }));
+};
+
+const applyDomainRules = (result: AnalysisResult, expectations: ValidationExpectations, issues: Issues) => {
+  if (result.hotspots.length === 0) {
+    failed(issues, "hotspots", "At least one hotspot is required");
+  } else {
+    result.hotspots = normalizeSequence(result.hotspots, "hotspots", issues);
+  }
+
+  if (expectations.context === AnalysisContext.AB_TEST) {
+    applyABRules(result, issues);
+  } else if (result.hotspotsB) {
+    repaired(issues, "hotspotsB", "Removed Image B hotspots from a non A/B analysis");
+    delete result.hotspotsB;
+  }
+
+  if (expectations.context === AnalysisContext.MULTI_VARIANT) {
+    applyMultiVariantRules(result, expectations.imageCount, issues);
+  } else if (result.variantHotspots) {
+    repaired(issues, "variantHotspots", "Removed variant hotspots from a single-variant analysis");
+    delete result.variantHotspots;
+  }
+
+  applyProjectionRules(result, expectations, issues);
+  applyKeywordRules(result, expectations.keywords ?? [], issues);
+
+  // Fields the base context already checks are not reported twice
+  for (const field of expectations.requiredFields ?? []) {
+    const value = result.report[field];
+    const reported = issues.some((i) => i.path === `report.${field}` && !i.repaired);
+    if (!reported && (value === undefined || (Array.isArray(value) && value.length === 0))) {
+      failed(issues, `report.${field}`, "Required by the context profile but missing or empty");
+    }
+  }
+};
+
+/**
+ * Validates a parsed model response against responseSchema plus the domain rules
+ * the schema cannot express. Safe fixes are applied in place and reported as
+ * repaired; everything else is reported as an error.
+ */
+export const validateAnalysisResult = (raw: unknown, expectations: ValidationExpectations): ValidationOutcome => {
+  const issues: Issues = [];
+  const checked = validateNode(raw, responseSchema, "", issues) as AnalysisResult | undefined;
+
+  if (checked && checked.report && checked.hotspots) {
+    applyDomainRules(checked, expectations, issues);
+  }
+
+  const valid = !!checked && !hasErrors(issues);
+  return {
+    result: valid ? checked! : null,
+    issues,
+    valid,
+    repaired: issues.some((i) => i.repaired),
+  };
+};
+
+export const formatIssues = (issues: ValidationIssue[]): string =>
+  issues.map((i) => `- ${i.path || "(root)"}: ${i.message}`).join("\n");
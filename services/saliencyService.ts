@@ -0,0 +1,349 @@
+import { Hotspot, Language, PixelBuffer, SaliencyAgreement, SaliencyAnalysis, SaliencyMap } from "../types";
+import { getTranslator } from "./messages";
+import { luminance, sobel } from "./pixelOps";
+
+// Classical bottom-up saliency (Itti/Koch style), computed fully in the browser.
+// Every feature map is normalised to 0-1 before being combined so that no single
+// channel dominates just because of its numeric range.
+
+export interface SaliencyWeights {
+  contrast: number;
+  color: number;
+  edges: number;
+  text: number;
+  centerBias: number; // 0 = ignore position, 1 = fully centre-weighted
+}
+
+export const DEFAULT_SALIENCY_WEIGHTS: SaliencyWeights = {
+  contrast: 0.3,
+  color: 0.25,
+  edges: 0.2,
+  text: 0.25,
+  centerBias: 0.35,
+};
+
+// Working resolution: large enough to find labels and badges, small enough to stay instant.
+const MAX_WORKING_SIDE = 256;
+
+const FEATURE_LABELS = {
+  contrast: "saliency.feature.contrast",
+  color: "saliency.feature.color",
+  edges: "saliency.feature.edges",
+  text: "saliency.feature.text",
+} as const;
+
+type FeatureName = keyof typeof FEATURE_LABELS;
+
+const normalize = (values: Float32Array): Float32Array => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] < min) min = values[i];
+    if (values[i] > max) max = values[i];
+  }
+  const range = max - min;
+  const out = new Float32Array(values.length);
+  if (range <= 1e-6) return out;
+  for (let i = 0; i < values.length; i++) out[i] = (values[i] - min) / range;
+  return out;
+};
+
+// Box blur via a summed-area table, O(n) regardless of radius.
+const boxBlur = (src: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const stride = width + 1;
+  const sat = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += src[y * width + x];
+      sat[(y + 1) * stride + x + 1] = sat[y * stride + x + 1] + rowSum;
+    }
+  }
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum = sat[y1 * stride + x1] - sat[y0 * stride + x1] - sat[y1 * stride + x0] + sat[y0 * stride + x0];
+      out[y * width + x] = sum / ((x1 - x0) * (y1 - y0));
+    }
+  }
+  return out;
+};
+
+const centerSurround = (channel: Float32Array, width: number, height: number, center: number, surround: number): Float32Array => {
+  const c = boxBlur(channel, width, height, center);
+  const s = boxBlur(channel, width, height, surround);
+  const out = new Float32Array(channel.length);
+  for (let i = 0; i < out.length; i++) out[i] = Math.abs(c[i] - s[i]);
+  return out;
+};
+
+interface FeatureMaps {
+  contrast: Float32Array;
+  color: Float32Array;
+  edges: Float32Array;
+  text: Float32Array;
+}
+
+const computeFeatureMaps = (pixels: PixelBuffer): FeatureMaps => {
+  const { width, height, data } = pixels;
+  const size = width * height;
+  const lum = luminance(pixels);
+  const rg = new Float32Array(size);
+  const by = new Float32Array(size);
+
+  for (let i = 0; i < size; i++) {
+    const r = data[i * 4] / 255;
+    const g = data[i * 4 + 1] / 255;
+    const b = data[i * 4 + 2] / 255;
+    rg[i] = r - g;
+    by[i] = b - (r + g) / 2;
+  }
+
+  const shortSide = Math.min(width, height);
+  const fine = Math.max(1, Math.round(shortSide * 0.02));
+  const coarse = Math.max(fine + 1, Math.round(shortSide * 0.08));
+
+  // Luminance contrast at two scales
+  const contrastFine = centerSurround(lum, width, height, fine, coarse);
+  const contrastCoarse = centerSurround(lum, width, height, coarse, coarse * 3);
+  const contrast = new Float32Array(size);
+  for (let i = 0; i < size; i++) contrast[i] = contrastFine[i] + contrastCoarse[i];
+
+  // Red/green and blue/yellow opponency
+  const rgDiff = centerSurround(rg, width, height, fine, coarse);
+  const byDiff = centerSurround(by, width, height, fine, coarse);
+  const color = new Float32Array(size);
+  for (let i = 0; i < size; i++) color[i] = rgDiff[i] + byDiff[i];
+
+  const { gx, gy, magnitude } = sobel(lum, width, height);
+  const edges = boxBlur(magnitude, width, height, fine * 2);
+
+  // Text-like regions: dense strokes in BOTH orientations within a small window.
+  // Long single edges (product outlines) only score in one direction and are suppressed.
+  const strokeThreshold = 0.25;
+  const strokesX = new Float32Array(size);
+  const strokesY = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    strokesX[i] = Math.abs(gx[i]) > strokeThreshold ? 1 : 0;
+    strokesY[i] = Math.abs(gy[i]) > strokeThreshold ? 1 : 0;
+  }
+  const densityX = boxBlur(strokesX, width, height, fine * 2);
+  const densityY = boxBlur(strokesY, width, height, fine * 2);
+  const text = new Float32Array(size);
+  for (let i = 0; i < size; i++) text[i] = Math.sqrt(densityX[i] * densityY[i]);
+
+  return {
+    contrast: normalize(contrast),
+    color: normalize(color),
+    edges: normalize(edges),
+    text: normalize(text),
+  };
+};
+
+const dominantFeature = (features: FeatureMaps, weights: SaliencyWeights, index: number): FeatureName => {
+  let best: FeatureName = "contrast";
+  let bestValue = -Infinity;
+  (Object.keys(FEATURE_LABELS) as FeatureName[]).forEach((name) => {
+    const value = features[name][index] * weights[name];
+    if (value > bestValue) {
+      bestValue = value;
+      best = name;
+    }
+  });
+  return best;
+};
+
+const combineFeatures = (features: FeatureMaps, width: number, height: number, weights: SaliencyWeights): Float32Array => {
+  const size = width * height;
+  const combined = new Float32Array(size);
+  const sigma = 0.3;
+  for (let y = 0; y < height; y++) {
+    const dy = y / height - 0.5;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const dx = x / width - 0.5;
+      const center = Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma));
+      const value =
+        weights.contrast * features.contrast[i] +
+        weights.color * features.color[i] +
+        weights.edges * features.edges[i] +
+        weights.text * features.text[i];
+      combined[i] = value * (1 - weights.centerBias + weights.centerBias * center);
+    }
+  }
+  const smoothed = boxBlur(combined, width, height, Math.max(1, Math.round(Math.min(width, height) * 0.04)));
+  return normalize(smoothed);
+};
+
+export const computeSaliencyMap = (
+  pixels: PixelBuffer,
+  weights: SaliencyWeights = DEFAULT_SALIENCY_WEIGHTS
+): { map: SaliencyMap; features: FeatureMaps } => {
+  const features = computeFeatureMaps(pixels);
+  const values = combineFeatures(features, pixels.width, pixels.height, weights);
+  return { map: { width: pixels.width, height: pixels.height, values }, features };
+};
+
+/**
+ * Greedy peak picking with non-maximum suppression. Peaks are ranked by
+ * saliency, so the resulting ids double as a predicted fixation order.
+ */
+export const extractHotspots = (
+  map: SaliencyMap,
+  options: { count?: number; minDistance?: number; minIntensity?: number; labelAt?: (index: number) => string } = {}
+): Hotspot[] => {
+  const { count = 10, minDistance = 0.12, minIntensity = 0.15, labelAt } = options;
+  const { width, height } = map;
+  const remaining = Float32Array.from(map.values);
+  const suppressRadius = Math.max(2, Math.round(Math.min(width, height) * minDistance));
+  const hotspots: Hotspot[] = [];
+
+  while (hotspots.length < count) {
+    let peak = -1;
+    let peakValue = minIntensity;
+    for (let i = 0; i < remaining.length; i++) {
+      if (remaining[i] > peakValue) {
+        peakValue = remaining[i];
+        peak = i;
+      }
+    }
+    if (peak < 0) break;
+
+    const px = peak % width;
+    const py = Math.floor(peak / width);
+    hotspots.push({
+      id: hotspots.length + 1,
+      x: Math.round(((px + 0.5) / width) * 1000) / 10,
+      y: Math.round(((py + 0.5) / height) * 1000) / 10,
+      intensity: Math.round(map.values[peak] * 100) / 100,
+      label: labelAt?.(peak),
+    });
+
+    for (let y = Math.max(0, py - suppressRadius); y <= Math.min(height - 1, py + suppressRadius); y++) {
+      for (let x = Math.max(0, px - suppressRadius); x <= Math.min(width - 1, px + suppressRadius); x++) {
+        if ((x - px) ** 2 + (y - py) ** 2 <= suppressRadius ** 2) remaining[y * width + x] = 0;
+      }
+    }
+  }
+
+  return hotspots;
+};
+
+export const loadPixels = (src: string, maxSide: number = MAX_WORKING_SIDE): Promise<PixelBuffer> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxSide / Math.max(img.naturalWidth, img.naturalHeight));
+      const width = Math.max(1, Math.round(img.naturalWidth * scale));
+      const height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas 2D context unavailable"));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, width, height);
+      const { data } = ctx.getImageData(0, 0, width, height);
+      resolve({ width, height, data });
+    };
+    img.onerror = () => reject(new Error("Could not decode image for saliency analysis"));
+    img.src = src;
+  });
+};
+
+export const analyzeSaliency = (
+  pixels: PixelBuffer,
+  weights: SaliencyWeights = DEFAULT_SALIENCY_WEIGHTS,
+  language: Language = "en"
+): SaliencyAnalysis => {
+  const t = getTranslator(language);
+  const { map, features } = computeSaliencyMap(pixels, weights);
+  const hotspots = extractHotspots(map, {
+    labelAt: (index) => t(FEATURE_LABELS[dominantFeature(features, weights, index)]),
+  });
+  return { map, hotspots };
+};
+
+export const analyzeImageSaliency = async (src: string, language: Language = "en"): Promise<SaliencyAnalysis> =>
+  analyzeSaliency(await loadPixels(src), DEFAULT_SALIENCY_WEIGHTS, language);
+
+// Peak saliency in a small window, so a hotspot a few pixels off a feature still counts.
+export const sampleSaliency = (map: SaliencyMap, x: number, y: number, window = 0.03): number => {
+  const cx = Math.round((x / 100) * (map.width - 1));
+  const cy = Math.round((y / 100) * (map.height - 1));
+  const r = Math.max(1, Math.round(Math.min(map.width, map.height) * window));
+  let max = 0;
+  for (let py = Math.max(0, cy - r); py <= Math.min(map.height - 1, cy + r); py++) {
+    for (let px = Math.max(0, cx - r); px <= Math.min(map.width - 1, cx + r); px++) {
+      max = Math.max(max, map.values[py * map.width + px]);
+    }
+  }
+  return max;
+};
+
+const MATCH_DISTANCE = 12; // percentage points
+const LOW_SUPPORT = 0.25;
+
+const isNear = (a: Hotspot, b: Hotspot) => Math.hypot(a.x - b.x, a.y - b.y) <= MATCH_DISTANCE;
+
+/**
+ * Scores how well the model's attention points agree with the pixels.
+ * `unsupported` are confident model points on visually flat areas,
+ * `missed` are strong pixel peaks the model never looked at.
+ */
+export const compareWithModel = (modelHotspots: Hotspot[], saliency: SaliencyAnalysis): SaliencyAgreement => {
+  if (modelHotspots.length === 0) {
+    return { score: 0, unsupported: [], missed: saliency.hotspots };
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+  const unsupported: Hotspot[] = [];
+  modelHotspots.forEach((spot) => {
+    const support = sampleSaliency(saliency.map, spot.x, spot.y);
+    const weight = Math.max(0.05, spot.intensity);
+    weighted += weight * Math.min(1, support / 0.6);
+    totalWeight += weight;
+    if (spot.intensity >= 0.4 && support < LOW_SUPPORT) unsupported.push(spot);
+  });
+
+  const strongPeaks = saliency.hotspots.filter((s) => s.intensity >= 0.5);
+  const missed = strongPeaks.filter((peak) => !modelHotspots.some((spot) => isNear(spot, peak)));
+  const coverage = strongPeaks.length ? 1 - missed.length / strongPeaks.length : 1;
+
+  return {
+    score: Math.round(100 * (0.6 * (weighted / totalWeight) + 0.4 * coverage)),
+    unsupported,
+    missed,
+  };
+};
+
+/**
+ * Re-weights model hotspots by local saliency and appends strong pixel peaks
+ * the model missed. `modelWeight` controls how much the model's own intensity is trusted.
+ */
+export const blendHotspots = (modelHotspots: Hotspot[], saliency: SaliencyAnalysis, language: Language = "en", modelWeight = 0.6): Hotspot[] => {
+  const t = getTranslator(language);
+  const sorted = [...modelHotspots].sort((a, b) => a.id - b.id);
+  const blended: Hotspot[] = sorted.map((spot) => ({
+    ...spot,
+    intensity: Math.round((modelWeight * spot.intensity + (1 - modelWeight) * sampleSaliency(saliency.map, spot.x, spot.y)) * 100) / 100,
+  }));
+
+  compareWithModel(modelHotspots, saliency).missed.forEach((peak) => {
+    blended.push({
+      ...peak,
+      id: blended.length + 1,
+      intensity: Math.round(peak.intensity * (1 - modelWeight) * 100) / 100,
+      label: peak.label ? t("saliency.pixelLabel", { label: peak.label }) : t("saliency.pixelPeak"),
+    });
+  });
+
+  return blended;
+};
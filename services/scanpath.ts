@@ -0,0 +1,169 @@
+import { Hotspot } from "../types";
+
+// The window in which a shopper decides whether to click
+export const FIRST_IMPRESSION_MS = 3000;
+export const PLAYBACK_SPEEDS = [0.5, 1, 2];
+
+// Typical saccade between two fixations
+const SACCADE_MS = 40;
+
+const PINK = "#ec4899";
+const LATE = "#8b5cf6";
+
+export interface Fixation {
+  hotspot: Hotspot;
+  start: number; // ms from the first fixation
+  end: number;
+}
+
+export interface Scanpath {
+  fixations: Fixation[];
+  duration: number;
+}
+
+export interface GazePosition {
+  x: number; // %
+  y: number; // %
+  fixationIndex: number; // Last fixation that has started
+  moving: boolean; // In a saccade towards the next fixation
+}
+
+// Average fixation duration in free viewing of product imagery, for hotspots
+// without an estimate of their own (pixel peaks, older results)
+export const ASSUMED_FIXATION_MS = 250;
+
+export const fixationDuration = (hotspot: Hotspot): number => hotspot.fixationMs ?? ASSUMED_FIXATION_MS;
+
+export const buildScanpath = (hotspots: Hotspot[]): Scanpath => {
+  let time = 0;
+  const fixations = [...hotspots]
+    .sort((a, b) => a.id - b.id)
+    .map((hotspot, idx) => {
+      const start = idx === 0 ? 0 : time + SACCADE_MS;
+      time = start + fixationDuration(hotspot);
+      return { hotspot, start, end: time };
+    });
+  return { fixations, duration: time };
+};
+
+export const gazeAt = (path: Scanpath, time: number): GazePosition | null => {
+  const { fixations } = path;
+  if (fixations.length === 0) return null;
+  let index = 0;
+  while (index + 1 < fixations.length && fixations[index + 1].start <= time) index++;
+
+  const current = fixations[index];
+  const next = fixations[index + 1];
+  if (!next || time <= current.end) return { x: current.hotspot.x, y: current.hotspot.y, fixationIndex: index, moving: false };
+
+  const t = Math.min(1, (time - current.end) / (next.start - current.end));
+  const eased = t * t * (3 - 2 * t);
+  return {
+    x: current.hotspot.x + (next.hotspot.x - current.hotspot.x) * eased,
+    y: current.hotspot.y + (next.hotspot.y - current.hotspot.y) * eased,
+    fixationIndex: index,
+    moving: true,
+  };
+};
+
+export const fixationsWithin = (path: Scanpath, ms: number) => path.fixations.filter((f) => f.start < ms).length;
+
+export const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Draws the scanpath as it stands at `time`: the trail so far, a circle per
+ * fixation sized by its duration (growing while it is being held), and the gaze
+ * point. Fixations that start after the first three seconds are drawn in purple.
+ * `timeline` adds a progress bar with the 3-second mark, for exported animations
+ * that have no player controls around them.
+ */
+export const drawScanpathFrame = (
+  ctx: CanvasRenderingContext2D,
+  path: Scanpath,
+  time: number,
+  options: { timeline?: boolean } = {}
+) => {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  const gaze = gazeAt(path, time);
+  if (!gaze) return;
+
+  const unit = Math.min(width, height);
+  const toX = (pct: number) => (pct / 100) * width;
+  const toY = (pct: number) => (pct / 100) * height;
+
+  ctx.fillStyle = "rgba(15, 23, 42, 0.35)";
+  ctx.fillRect(0, 0, width, height);
+
+  const visited = path.fixations.slice(0, gaze.fixationIndex + 1);
+  ctx.lineWidth = Math.max(2, unit * 0.004);
+  ctx.lineCap = "round";
+  visited.forEach((fixation, idx) => {
+    const to = idx + 1 < visited.length ? visited[idx + 1].hotspot : gaze.moving ? gaze : null;
+    if (!to) return;
+    ctx.strokeStyle = (idx + 1 < visited.length ? visited[idx + 1].start : time) < FIRST_IMPRESSION_MS ? PINK : LATE;
+    ctx.beginPath();
+    ctx.moveTo(toX(fixation.hotspot.x), toY(fixation.hotspot.y));
+    ctx.lineTo(toX(to.x), toY(to.y));
+    ctx.stroke();
+  });
+
+  visited.forEach((fixation, idx) => {
+    const held = Math.min(time, fixation.end) - fixation.start;
+    const duration = fixation.end - fixation.start;
+    const radius = unit * 0.018 * Math.sqrt(duration / 250) * Math.max(0.35, held / duration);
+    const color = fixation.start < FIRST_IMPRESSION_MS ? PINK : LATE;
+    const isCurrent = idx === gaze.fixationIndex && !gaze.moving;
+    const x = toX(fixation.hotspot.x);
+    const y = toY(fixation.hotspot.y);
+
+    ctx.fillStyle = isCurrent ? color : `${color}66`;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    ctx.fillStyle = "#ffffff";
+    ctx.font = `bold ${Math.max(11, Math.min(radius, unit * 0.03))}px Inter, sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(String(fixation.hotspot.id), x, y + 1);
+  });
+
+  // Gaze point
+  ctx.fillStyle = "#ffffff";
+  ctx.strokeStyle = PINK;
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.arc(toX(gaze.x), toY(gaze.y), Math.max(5, unit * 0.008), 0, 2 * Math.PI);
+  ctx.fill();
+  ctx.stroke();
+
+  if (options.timeline) {
+    const barHeight = Math.max(6, unit * 0.012);
+    const margin = barHeight * 2;
+    const barWidth = width - margin * 2;
+    const barY = height - margin - barHeight;
+    const total = Math.max(path.duration, FIRST_IMPRESSION_MS);
+
+    ctx.fillStyle = "rgba(17, 24, 39, 0.8)";
+    ctx.fillRect(margin, barY, barWidth, barHeight);
+    ctx.fillStyle = PINK;
+    ctx.fillRect(margin, barY, barWidth * Math.min(1, time / total), barHeight);
+
+    const markX = margin + barWidth * (FIRST_IMPRESSION_MS / total);
+    ctx.fillStyle = "#facc15";
+    ctx.fillRect(markX - 1, barY - barHeight, 2, barHeight * 3);
+
+    ctx.font = `bold ${Math.max(11, barHeight * 1.6)}px Inter, sans-serif`;
+    ctx.textBaseline = "bottom";
+    ctx.textAlign = "left";
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText(formatSeconds(Math.min(time, path.duration)), margin, barY - barHeight * 0.5);
+    ctx.textAlign = "center";
+    ctx.fillStyle = "#facc15";
+    ctx.fillText("3s", markX, barY - barHeight * 1.2);
+  }
+};
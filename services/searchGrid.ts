@@ -0,0 +1,314 @@
+import { AreaOfInterest, ComposedSearchGrid, Hotspot, Language, SearchGridConfig, SearchGridLayout, SearchGridTile, SearchGridTileRegion, TileAttention } from "../types";
+import { computeAoiMetrics } from "./aoiService";
+import { createId } from "./ids";
+import { getTranslator, Translate } from "./messages";
+import { loadImage } from "./overlayRenderer";
+
+export const MAX_GRID_TILES = 8;
+
+interface GridSpec {
+  columns: number;
+  pageWidth: number;
+  tileWidth: number;
+  tileHeight: number;
+  imageSize: number; // Square image area inside the tile
+  gap: number;
+  padding: number;
+  header: number; // "Results" strip above the tiles
+}
+
+// Desktop is the 4-column results grid; mobile is the app's one-column list
+// with the image on the left. Image sizes match the device viewports.
+const GRID_SPECS: Record<SearchGridLayout, GridSpec> = {
+  desktop: { columns: 4, pageWidth: 1024, tileWidth: 238, tileHeight: 392, imageSize: 218, gap: 12, padding: 16, header: 40 },
+  mobile: { columns: 1, pageWidth: 414, tileWidth: 398, tileHeight: 170, imageSize: 150, gap: 8, padding: 8, header: 36 },
+};
+
+const COLORS = {
+  page: "#ffffff",
+  border: "#e7e7e7",
+  imageBackground: "#f7f7f7",
+  title: "#0f1111",
+  muted: "#565959",
+  star: "#ffa41c",
+  link: "#007185",
+  prime: "#00a8e1",
+};
+
+const FONT = "Arial, Helvetica, sans-serif";
+
+export const createGridTile = (overrides: Partial<SearchGridTile> = {}): SearchGridTile => ({
+  id: createId(),
+  imageSrc: null,
+  title: "",
+  price: "",
+  rating: 4.3,
+  reviewCount: 1200,
+  prime: true,
+  sponsored: false,
+  ...overrides,
+});
+
+export const createDefaultGridConfig = (language: Language = "en"): SearchGridConfig => {
+  const t = getTranslator(language);
+  const tiles = [
+    createGridTile({ title: t("grid.ourProduct"), price: "$24.99", rating: 4.6, reviewCount: 2380, sponsored: true }),
+    createGridTile({ title: t("grid.competitor", { n: 1 }), price: "$21.99", rating: 4.4, reviewCount: 5120 }),
+    createGridTile({ title: t("grid.competitor", { n: 2 }), price: "$27.49", rating: 4.2, reviewCount: 860, prime: false }),
+    createGridTile({ title: t("grid.competitor", { n: 3 }), price: "$19.95", rating: 4.5, reviewCount: 12400, sponsored: true }),
+  ];
+  return { layout: "desktop", tiles, ourTileId: tiles[0].id };
+};
+
+/** Pixel size of the page and the position of every tile, before anything is drawn. */
+export const layoutSearchGrid = (layout: SearchGridLayout, tileCount: number) => {
+  const spec = GRID_SPECS[layout];
+  const rows = Math.max(1, Math.ceil(tileCount / spec.columns));
+  const width = spec.pageWidth;
+  const height = spec.header + spec.padding * 2 + rows * spec.tileHeight + (rows - 1) * spec.gap;
+  const boxes = Array.from({ length: tileCount }, (_, idx) => {
+    const row = Math.floor(idx / spec.columns);
+    const column = idx % spec.columns;
+    return {
+      row: row + 1,
+      column: column + 1,
+      x: spec.padding + column * (spec.tileWidth + spec.gap),
+      y: spec.header + spec.padding + row * (spec.tileHeight + spec.gap),
+      width: spec.tileWidth,
+      height: spec.tileHeight,
+    };
+  });
+  return { spec, width, height, boxes };
+};
+
+const tileLabel = (isOurs: boolean, competitorIndex: number, t: Translate) =>
+  isOurs ? t("grid.ourProduct") : t("grid.competitor", { n: competitorIndex });
+
+export const getTileRegions = (config: SearchGridConfig): SearchGridTileRegion[] => {
+  const { width, height, boxes } = layoutSearchGrid(config.layout, config.tiles.length);
+  let competitors = 0;
+  return config.tiles.map((tile, idx) => {
+    const isOurs = tile.id === config.ourTileId;
+    if (!isOurs) competitors++;
+    const box = boxes[idx];
+    return {
+      tileId: tile.id,
+      // Stays English: the label goes into the prompt
+      label: tileLabel(isOurs, competitors, getTranslator("en")),
+      isOurs,
+      row: box.row,
+      column: box.column,
+      x: (box.x / width) * 100,
+      y: (box.y / height) * 100,
+      width: (box.width / width) * 100,
+      height: (box.height / height) * 100,
+    };
+  });
+};
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth || !line) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line);
+    line = word;
+    if (lines.length === maxLines) break;
+  }
+  if (lines.length < maxLines && line) lines.push(line);
+  if (lines.length === maxLines && lines.join(" ").length < text.trim().length) {
+    let last = lines[maxLines - 1];
+    while (last.length > 1 && ctx.measureText(`${last}…`).width > maxWidth) last = last.slice(0, -1);
+    lines[maxLines - 1] = `${last}…`;
+  }
+  return lines;
+};
+
+const starPath = (ctx: CanvasRenderingContext2D, cx: number, cy: number, r: number) => {
+  ctx.beginPath();
+  for (let i = 0; i < 10; i++) {
+    const radius = i % 2 === 0 ? r : r * 0.45;
+    const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+    ctx.lineTo(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+  }
+  ctx.closePath();
+};
+
+const drawStars = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, rating: number) => {
+  const r = size / 2;
+  for (let i = 0; i < 5; i++) {
+    const cx = x + r + i * (size + 1);
+    const fill = Math.max(0, Math.min(1, rating - i));
+    starPath(ctx, cx, y + r, r);
+    ctx.strokeStyle = "#de7921";
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    if (fill > 0) {
+      ctx.save();
+      ctx.clip();
+      ctx.fillStyle = COLORS.star;
+      ctx.fillRect(cx - r, y, size * fill, size);
+      ctx.restore();
+    }
+  }
+  return 5 * (size + 1);
+};
+
+const drawTileImage = async (ctx: CanvasRenderingContext2D, src: string | null, x: number, y: number, size: number) => {
+  ctx.fillStyle = COLORS.imageBackground;
+  ctx.fillRect(x, y, size, size);
+  if (!src) {
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = `12px ${FONT}`;
+    ctx.textAlign = "center";
+    ctx.fillText("No image", x + size / 2, y + size / 2);
+    ctx.textAlign = "left";
+    return;
+  }
+  const img = await loadImage(src);
+  const scale = Math.min(size / img.naturalWidth, size / img.naturalHeight);
+  const w = img.naturalWidth * scale;
+  const h = img.naturalHeight * scale;
+  ctx.drawImage(img, x + (size - w) / 2, y + (size - h) / 2, w, h);
+};
+
+// Text block under the image on desktop, beside it on mobile
+const drawTileDetails = (ctx: CanvasRenderingContext2D, tile: SearchGridTile, x: number, y: number, width: number) => {
+  let cursor = y;
+  if (tile.sponsored) {
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = `11px ${FONT}`;
+    ctx.fillText("Sponsored", x, cursor + 11);
+    cursor += 16;
+  }
+
+  ctx.fillStyle = COLORS.title;
+  ctx.font = `14px ${FONT}`;
+  for (const line of wrapText(ctx, tile.title || "Product title", width, 3)) {
+    ctx.fillText(line, x, cursor + 14);
+    cursor += 19;
+  }
+  cursor += 4;
+
+  const starsWidth = drawStars(ctx, x, cursor, 13, tile.rating);
+  ctx.fillStyle = COLORS.link;
+  ctx.font = `12px ${FONT}`;
+  ctx.fillText(tile.reviewCount.toLocaleString("en-US"), x + starsWidth + 6, cursor + 11);
+  cursor += 22;
+
+  if (tile.price) {
+    const match = tile.price.match(/^(\D*)(\d[\d,]*)(?:[.,](\d{1,2}))?/);
+    const [symbol, whole, cents] = match ? [match[1], match[2], match[3] ?? ""] : ["", tile.price, ""];
+    let px = x;
+    ctx.fillStyle = COLORS.title;
+    ctx.font = `12px ${FONT}`;
+    ctx.fillText(symbol, px, cursor + 10);
+    px += ctx.measureText(symbol).width;
+    ctx.font = `24px ${FONT}`;
+    ctx.fillText(whole, px, cursor + 22);
+    px += ctx.measureText(whole).width;
+    ctx.font = `12px ${FONT}`;
+    ctx.fillText(cents, px, cursor + 10);
+    cursor += 30;
+  }
+
+  if (tile.prime) {
+    ctx.fillStyle = COLORS.prime;
+    ctx.font = `bold italic 13px ${FONT}`;
+    ctx.fillText("✓prime", x, cursor + 13);
+  }
+};
+
+/**
+ * Draws a realistic Amazon results page from the configured tiles. The page is
+ * what gets analyzed; the regions say which part of it is which product.
+ */
+export const composeSearchGrid = async (config: SearchGridConfig): Promise<{ file: File; preview: string; grid: ComposedSearchGrid }> => {
+  const { spec, width, height, boxes } = layoutSearchGrid(config.layout, config.tiles.length);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  ctx.fillStyle = COLORS.page;
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = COLORS.title;
+  ctx.font = `bold 18px ${FONT}`;
+  ctx.fillText("Results", spec.padding, spec.header - 10);
+
+  for (const [idx, tile] of config.tiles.entries()) {
+    const box = boxes[idx];
+    ctx.strokeStyle = COLORS.border;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(box.x + 0.5, box.y + 0.5, box.width - 1, box.height - 1);
+
+    const inset = config.layout === "desktop" ? (box.width - spec.imageSize) / 2 : 10;
+    await drawTileImage(ctx, tile.imageSrc, box.x + inset, box.y + inset, spec.imageSize);
+    if (config.layout === "desktop") {
+      drawTileDetails(ctx, tile, box.x + inset, box.y + inset + spec.imageSize + 10, spec.imageSize);
+    } else {
+      const textX = box.x + inset + spec.imageSize + 12;
+      drawTileDetails(ctx, tile, textX, box.y + inset, box.x + box.width - textX - 10);
+    }
+  }
+
+  const preview = canvas.toDataURL("image/png");
+  const blob = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Could not encode the search grid"))), "image/png"));
+  const file = new File([blob], `search-grid-${config.layout}.png`, { type: "image/png" });
+
+  return { file, preview, grid: { layout: config.layout, regions: getTileRegions(config) } };
+};
+
+// ---------------------------------------------------------------------------
+// Measurement
+// ---------------------------------------------------------------------------
+
+const regionToAoi = (region: SearchGridTileRegion): AreaOfInterest => ({
+  id: region.tileId,
+  name: region.label,
+  shape: "rect",
+  points: [
+    { x: region.x, y: region.y },
+    { x: region.x + region.width, y: region.y },
+    { x: region.x + region.width, y: region.y + region.height },
+    { x: region.x, y: region.y + region.height },
+  ],
+});
+
+/** Tile labels in the given language, in region order. */
+export const localizeTileLabels = (grid: ComposedSearchGrid, language: Language): string[] => {
+  const t = getTranslator(language);
+  let competitors = 0;
+  return grid.regions.map((r) => tileLabel(r.isOurs, r.isOurs ? 0 : ++competitors, t));
+};
+
+/** Attention per tile, measured like an AOI; ranks are by attention share. */
+export const computeTileAttention = (grid: ComposedSearchGrid, hotspots: Hotspot[], language: Language = "en"): TileAttention[] => {
+  const metrics = computeAoiMetrics(grid.regions.map(regionToAoi), hotspots);
+  const ranked = [...metrics].sort((a, b) => b.attentionShare - a.attentionShare);
+  const labels = localizeTileLabels(grid, language);
+  return metrics.map((m, idx) => ({
+    ...m,
+    name: labels[idx],
+    isOurs: grid.regions[idx].isOurs,
+    rank: ranked.indexOf(m) + 1,
+  }));
+};
+
+export const describeGridForPrompt = (grid: ComposedSearchGrid): string =>
+  grid.regions
+    .map((r, idx) => {
+      const bounds = `x ${Math.round(r.x)}-${Math.round(r.x + r.width)}%, y ${Math.round(r.y)}-${Math.round(r.y + r.height)}%`;
+      return `      - Tile ${idx + 1} (row ${r.row}, column ${r.column}; ${bounds}): ${r.isOurs ? "OUR PRODUCT" : r.label}`;
+    })
+    .join("\n");
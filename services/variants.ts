@@ -0,0 +1,31 @@
+import { AnalysisContext, AnalysisResult, Hotspot } from "../types";
+import { Translate } from "./messages";
+
+export const MIN_MULTI_VARIANTS = 3;
+export const MAX_VARIANTS = 6;
+
+// 0 -> "A", 1 -> "B", ...
+export const variantLabel = (index: number): string => String.fromCharCode(65 + index);
+
+export const getRequiredFileCount = (context: AnalysisContext | null): number =>
+  context === AnalysisContext.AB_TEST ? 2 : context === AnalysisContext.MULTI_VARIANT ? MIN_MULTI_VARIANTS : 1;
+
+export const getMaxFileCount = (context: AnalysisContext | null): number =>
+  context === AnalysisContext.AB_TEST ? 2 : context === AnalysisContext.MULTI_VARIANT ? MAX_VARIANTS : 1;
+
+/**
+ * Hotspots per uploaded image, in upload order, regardless of whether the
+ * result came from a single-image, A/B or multi-variant analysis.
+ */
+export const getVariantHotspots = (result: AnalysisResult): Hotspot[][] => {
+  if (result.variantHotspots && result.variantHotspots.length > 0) {
+    return result.variantHotspots.map((v) => v.hotspots);
+  }
+  return result.hotspotsB ? [result.hotspots, result.hotspotsB] : [result.hotspots];
+};
+
+// Short label for an uploaded image, e.g. "Image B" in A/B tests or "Variant D" in multi-variant tests
+export const getImageLabel = (context: AnalysisContext | null, index: number, t: Translate): string =>
+  context === AnalysisContext.AB_TEST ? t("image.ab", { label: variantLabel(index) })
+    : context === AnalysisContext.MULTI_VARIANT ? t("image.variant", { label: variantLabel(index) })
+    : t("image.asset");
@@ -3,10 +3,238 @@ export enum AnalysisContext {
   APLUS = 'A+ Content/Detail Page Section',
   SEARCH = 'Search Results Page Screenshot',
   STOREFRONT = 'Brand Storefront',
-  AB_TEST = 'A/B Comparison Test (Original vs Variant)'
+  AB_TEST = 'A/B Comparison Test (Original vs Variant)',
+  MULTI_VARIANT = 'Multi-Variant Test (3-6 Candidates)'
 }
 
-export type VisualizationMode = 'heatmap' | 'fogmap' | 'path';
+// Section titles that change with the analysis context, shared by AnalysisView and the exporters
+export interface ReportLabels {
+  strategyTitle: string;
+  ctrLabel: string;
+  conversionLabel: string;
+  bidLabel: string;
+  keywordLabel: string;
+  copyLabel: string;
+}
+
+export type ReportField = keyof AnalysisReport;
+
+/**
+ * An analysis context as data. `base` is the built-in context whose behaviour
+ * the profile inherits (image slots, validation, local measurements); the rest
+ * is what the model is told and how the report is labelled.
+ */
+export interface ContextProfile {
+  id: string;
+  name: string;
+  description: string;
+  base: AnalysisContext;
+  scenario: string;
+  role: string;
+  objective: string;
+  focus: string[];
+  instructions: string; // Extra prompt text, e.g. simulation and output rules
+  labels: ReportLabels;
+  requiredFields: ReportField[]; // Must be present and non-empty, or the response is re-prompted
+  builtIn: boolean;
+}
+
+export type VisualizationMode = 'heatmap' | 'fogmap' | 'path' | 'device';
+
+// Real display sizes an Amazon image is seen at
+export type DeviceViewportId = 'mobileSearch' | 'desktopSearch' | 'detailCarousel';
+
+export interface DeviceViewport {
+  id: DeviceViewportId;
+  label: string;
+  size: number; // Longest side in CSS px
+  description: string;
+}
+
+// 'blurred': still draws the eye, but its detail (usually text) is no longer legible
+export type HotspotSurvival = 'survives' | 'blurred' | 'lost';
+
+export interface ViewportHotspotCheck {
+  hotspot: Hotspot;
+  detailRetention: number; // 0-1, edge energy kept after downscaling
+  salience: number;        // 0-1, pixel saliency at this size
+  status: HotspotSurvival;
+}
+
+export interface ViewportSimulation {
+  viewport: DeviceViewport;
+  renderSrc: string; // Data URL of the asset at the viewport size
+  width: number;
+  height: number;
+  checks: ViewportHotspotCheck[];
+  legibilityScore: number; // 0-100, intensity-weighted detail retention
+}
+
+export type ComplianceStatus = 'pass' | 'warn' | 'fail';
+
+export interface ComplianceCheck {
+  id: 'background' | 'fill' | 'dimensions' | 'aspectRatio' | 'overlays';
+  label: string;
+  status: ComplianceStatus;
+  value: string;  // Measured value, e.g. "98.4% pure white"
+  detail: string; // What the rule is and how to fix a failure
+}
+
+// One cluster of the locally extracted palette
+export interface PaletteColor {
+  hex: string;
+  share: number; // 0-1 of sampled pixels
+  family: string; // Hue family, e.g. "blue" or "near-white"
+}
+
+// A color the model named in dominantColors, checked against the extracted palette
+export interface ClaimedColorCheck {
+  hex: string;
+  name: string;
+  psychology: string;
+  nearestHex: string;
+  deltaE: number; // CIE76 distance to the nearest extracted color
+  verdict: 'match' | 'close' | 'absent';
+}
+
+export type ContrastLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+// A block that looks like text, with the WCAG contrast of its strokes against their background
+export interface ContrastRegion {
+  x: number;      // Top-left, % of image
+  y: number;
+  width: number;  // % of image
+  height: number;
+  foreground: string; // Hex
+  background: string;
+  ratio: number;  // 1-21
+  level: ContrastLevel;
+}
+
+// How far our tile's palette is from a neighboring competitor tile's palette
+export interface TileDistinctness {
+  tileId: string;
+  label: string;
+  deltaE: number; // Share-weighted palette distance
+  distinct: boolean;
+}
+
+export interface ColorAnalysis {
+  palette: PaletteColor[];
+  claimed: ClaimedColorCheck[];
+  contrast: ContrastRegion[];
+  distinctness?: TileDistinctness[]; // Only for a composed search grid
+}
+
+// Local pixel measurements of a main image against Amazon's image requirements
+export interface ComplianceReport {
+  passed: boolean; // No check failed
+  checks: ComplianceCheck[];
+  width: number;  // Natural size in px
+  height: number;
+  backgroundPurity: number; // 0-1, share of border pixels that are exactly RGB 255,255,255
+  fillRatio: number;        // 0-1, product bounding box's longest side relative to the frame
+  productBox: { x: number; y: number; width: number; height: number } | null; // 0-100 percentages
+  overlayCorners: ('top-left' | 'top-right' | 'bottom-left' | 'bottom-right')[];
+}
+
+export type SearchGridLayout = 'desktop' | 'mobile';
+
+// One product in a composed search results page
+export interface SearchGridTile {
+  id: string;
+  imageSrc: string | null; // Data URL of the product image
+  title: string;
+  price: string;
+  rating: number; // 0-5 stars
+  reviewCount: number;
+  prime: boolean;
+  sponsored: boolean;
+}
+
+export interface SearchGridConfig {
+  layout: SearchGridLayout;
+  tiles: SearchGridTile[];
+  ourTileId: string;
+}
+
+// Where a tile landed in the composed image (0-100 percentages)
+export interface SearchGridTileRegion {
+  tileId: string;
+  label: string;
+  isOurs: boolean;
+  row: number;    // 1-based
+  column: number; // 1-based
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Kept with the result so attention can be split per tile after the analysis
+export interface ComposedSearchGrid {
+  layout: SearchGridLayout;
+  regions: SearchGridTileRegion[];
+}
+
+export interface TileAttention extends AoiMetrics {
+  isOurs: boolean;
+  rank: number; // 1 = most attention of all tiles
+}
+
+export interface AnalyzeOptions {
+  // Adds downscaled renders of every upload so size-dependent judgements rest on evidence
+  viewports?: DeviceViewportId[];
+  // Measured compliance of the uploaded main image, given to the model as ground truth
+  compliance?: ComplianceReport;
+  // Tile layout of a composed search grid, so the model knows which product is ours
+  searchGrid?: ComposedSearchGrid;
+  // Prompt and required fields; defaults to the built-in profile of the context
+  profile?: ContextProfile;
+  // What the product is and which keywords we bid on
+  listing?: ListingMetadata;
+  // Where the product is sold and which language the report text is written in
+  marketplace?: MarketplaceId;
+  language?: Language;
+  // Cancels the request; the call then rejects with the signal's AbortError
+  signal?: AbortSignal;
+  // Receives an unvalidated result built from the response streamed so far
+  onPartial?: (partial: AnalysisResult) => void;
+}
+
+export type AnalysisErrorKind =
+  | 'apiKey'
+  | 'quota'
+  | 'safety'
+  | 'imageTooLarge'
+  | 'unsupportedImage'
+  | 'malformedJson'
+  | 'incompleteSchema'
+  | 'offline'
+  | 'unknown';
+
+// What the user can do about a failed analysis without re-uploading
+export type RecoveryAction = 'retry' | 'retryWithBackoff' | 'downscale' | 'switchProvider';
+
+// How A/B and multi-variant results are laid out in the Visual Attention Lab
+export type ComparisonLayout = 'single' | 'difference' | 'sideBySide';
+
+export type HeatmapPalette = 'jet' | 'viridis' | 'colorblind' | 'mono';
+
+export interface HeatmapSettings {
+  radius: number;    // Kernel radius, % of the image's short side
+  opacity: number;   // 0-1, alpha of the densest areas
+  threshold: number; // 0-1, normalized density below which nothing is drawn
+  palette: HeatmapPalette;
+}
+
+// Strongest attention shift between a baseline image and a variant
+export interface DifferencePeak {
+  x: number; // 0-100 percentage
+  y: number; // 0-100 percentage
+  value: number; // -1..1, positive where the variant gains attention
+  label?: string; // Nearest hotspot on the image that owns the peak
+}
 
 export interface Hotspot {
   id: number;
@@ -14,6 +242,68 @@ export interface Hotspot {
   y: number; // 0-100 percentage
   intensity: number; // 0-1
   label?: string;
+  fixationMs?: number; // Estimated dwell time; absent on pixel-derived and older hotspots
+}
+
+// Where the hotspots drawn in the Visual Attention Lab come from
+export type HotspotSource = 'model' | 'saliency' | 'blended';
+
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, same layout as ImageData
+}
+
+export interface SaliencyMap {
+  width: number;
+  height: number;
+  values: Float32Array; // 0-1, row-major
+}
+
+export interface SaliencyAnalysis {
+  map: SaliencyMap;
+  hotspots: Hotspot[];
+}
+
+export interface SaliencyAgreement {
+  score: number; // 0-100
+  unsupported: Hotspot[]; // Model hotspots on low-saliency pixels
+  missed: Hotspot[];      // Strong pixel peaks the model ignored
+}
+
+export interface AoiPoint {
+  x: number; // 0-100 percentage
+  y: number; // 0-100 percentage
+}
+
+// Named region drawn over the image; rectangles are stored as 4-point polygons
+export interface AreaOfInterest {
+  id: string;
+  name: string;
+  shape: 'rect' | 'polygon';
+  points: AoiPoint[];
+}
+
+export interface AoiTemplate {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  aois: AreaOfInterest[];
+}
+
+export interface AoiMetrics {
+  aoiId: string;
+  name: string;
+  attentionShare: number;            // 0-100, intensity-weighted share of all fixations
+  fixationCount: number;
+  firstFixation: number | null;      // 1-based position in the hotspot sequence, null if never fixated
+  timeToFirstFixationMs: number | null;
+}
+
+// AOI metrics for one analyzed image (e.g. "Image B")
+export interface AoiMeasurement {
+  label: string;
+  metrics: AoiMetrics[];
 }
 
 export interface StrategicInsight {
@@ -23,6 +313,61 @@ export interface StrategicInsight {
   actionPlan: string[]; // Specific steps for PPC or Creative
 }
 
+// '%' = relative change (+10 turns a 0.5% CTR into 0.55%), 'pp' = percentage points (+0.1 turns it into 0.6%)
+export type ProjectionUnit = '%' | 'pp';
+
+// Expected change against the seller's current performance
+export interface ProjectionRange {
+  low: number;
+  high: number;
+  unit: ProjectionUnit;
+}
+
+export interface VariantProjection {
+  variant: string; // Variant letter (A, B, C...)
+  ctrLift: ProjectionRange;
+  conversionLift: ProjectionRange;
+}
+
+export type MarketplaceId = 'us' | 'uk' | 'de' | 'fr' | 'jp';
+
+// UI and report language
+export type Language = 'en' | 'de' | 'fr' | 'ja';
+
+export interface Marketplace {
+  id: MarketplaceId;
+  domain: string; // e.g. "amazon.co.uk"
+  label: string;
+  language: Language; // Default report and UI language
+  locale: string; // BCP 47, for number, currency and date formatting
+  currency: string; // ISO 4217
+  // Typical Sponsored Products CTR range, %; anchors the model's CTR estimates
+  ctrBenchmark: { low: number; high: number };
+  // Main image rules that apply on top of Amazon's global ones
+  complianceRules: string[];
+  defaultCampaignInputs: CampaignInputs; // In the marketplace's currency
+}
+
+// Seller's current campaign numbers for the ACOS/ROAS calculator
+export interface CampaignInputs {
+  cpc: number; // Cost per click
+  ctr: number; // Click-through rate, %
+  conversionRate: number; // %
+  aov: number; // Average order value
+  dailyBudget: number;
+}
+
+// Daily figures for one scenario
+export interface CampaignOutcome {
+  impressions: number;
+  clicks: number;
+  orders: number;
+  spend: number;
+  revenue: number;
+  acos: number | null; // % of revenue spent on ads; null without revenue
+  roas: number | null;
+}
+
 export interface ComparativeMetric {
   metric: string;
   scoreA: number; // 0-100
@@ -30,6 +375,22 @@ export interface ComparativeMetric {
   winner: 'A' | 'B' | 'Tie';
 }
 
+export interface VariantStanding {
+  variant: string; // "A", "B", "C"...
+  rank: number; // 1 = best
+  overallScore: number; // 0-100
+  metricScores: { metric: string; score: number }[]; // 0-100
+  verdict: string;
+}
+
+export interface PairwiseComparison {
+  variantA: string;
+  variantB: string;
+  winner: string; // One of variantA / variantB, or "Tie"
+  confidenceScore: number; // 0-100
+  keyDifferentiator: string;
+}
+
 export interface AnalysisReport {
   metrics: {
     visibilityScore: number;
@@ -43,6 +404,9 @@ export interface AnalysisReport {
     predictedCTR: string; // e.g. "High (>2.5%)"
     conversionLiftPotential: string; // e.g. "+15%"
     searchVolumeRelevance: string; // Insight on keyword intent matching
+    // Numeric versions of the two estimates above; absent in results saved before they existed
+    ctrLift?: ProjectionRange;
+    conversionLift?: ProjectionRange;
   };
   ppcStrategy: {
     bidRecommendation: string; // "Aggressive" or "Conservative"
@@ -60,6 +424,13 @@ export interface AnalysisReport {
   };
   comparativeAnalysis?: ComparativeMetric[]; // New field for A/B scores
 
+  // Per image, for A/B and multi-variant tests
+  variantProjections?: VariantProjection[];
+
+  // Multi-Variant Test Specific
+  variantLeaderboard?: VariantStanding[];
+  pairwiseComparisons?: PairwiseComparison[];
+
   hotspotsAnalysis: {
     element: string;
     attentionPercentage: string;
@@ -79,15 +450,154 @@ export interface AnalysisReport {
     name: string;
     psychology: string;
   }[];
+  keywordAlignment?: KeywordAlignment[]; // Only when target keywords were provided
   summary: string;
 }
 
+// How well one target keyword is visibly backed by the image
+export interface KeywordAlignment {
+  keyword: string;
+  score: number;    // 0-100, 0 = nothing in the image supports it
+  evidence: string; // What in the image supports it, or what is missing
+}
+
+// Optional listing details sent with the prompt and stored with the result
+export interface ListingMetadata {
+  title: string;
+  bullets: string[];
+  price: string; // As entered, currency included
+  category: string;
+  keywords: string[];
+}
+
+export interface ValidationIssue {
+  path: string;       // e.g. "hotspots[3].x"
+  message: string;
+  repaired: boolean;  // false = could not be fixed automatically
+}
+
+export interface ValidationReport {
+  repaired: boolean;
+  attempts: number;   // Model calls needed to obtain a valid response
+  issues: ValidationIssue[];
+}
+
 export interface AnalysisResult {
   report: AnalysisReport;
   hotspots: Hotspot[];    // For Image A (or single image)
   hotspotsB?: Hotspot[];  // For Image B (only in A/B test)
+  variantHotspots?: { variant: string; hotspots: Hotspot[] }[]; // One entry per image (multi-variant test)
+  validation?: ValidationReport;
+  compliance?: ComplianceReport;
+  searchGrid?: ComposedSearchGrid;
+  listing?: ListingMetadata;
+  marketplace?: MarketplaceId; // Absent on results from before marketplaces: amazon.com
+  language?: Language;
+  ensemble?: EnsembleSummary; // Set when the result combines several runs
+  cachedAt?: number; // Set when served from the result cache: when the cached result was produced
+}
+
+// Mean of one score across ensemble runs with its 95% confidence interval
+export interface ScoreInterval {
+  mean: number;
+  low: number;
+  high: number;
+  stdDev: number;
+}
+
+// Hotspots from several runs merged into one point
+export interface ConsensusHotspot extends Hotspot {
+  spread: number;  // RMS distance of the merged points from this one, in % of the image
+  support: number; // 0-1, share of runs that had a hotspot here
+}
+
+export interface RecommendationRecurrence {
+  title: string; // As worded in the first run that made it
+  type: 'visual' | 'content' | 'test';
+  runs: number;  // Runs that made this recommendation
+  share: number; // 0-1
+}
+
+export type EnsembleStability = 'stable' | 'moderate' | 'unstable';
+
+export interface EnsembleSummary {
+  runs: number;       // Successful runs combined
+  failedRuns: number;
+  metrics: Record<keyof AnalysisReport['metrics'], ScoreInterval>;
+  comparativeAnalysis?: { metric: string; scoreA: ScoreInterval; scoreB: ScoreInterval }[];
+  consensusHotspots: ConsensusHotspot[][]; // One set per image, in upload order
+  recommendations: RecommendationRecurrence[];
+  winnerAgreement?: number; // 0-1, share of runs that picked the reported A/B or leaderboard winner
+  stability: EnsembleStability;
 }
 
+// 'retrying': hit a quota error and is waiting out its backoff
+export type BatchItemStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  preview: string; // Data URL
+  context: AnalysisContext;
+  status: BatchItemStatus;
+  attempts: number;
+  error?: string;
+  nextRetryAt?: number; // epoch ms
+  result?: AnalysisResult;
+}
+
+export interface BatchSettings {
+  concurrency: number;       // Requests in flight at once
+  requestsPerMinute: number; // Started requests, retries included
+  maxRetries: number;        // Per item, quota errors only
+}
+
+export type BatchQueueState = 'idle' | 'running' | 'paused' | 'cancelled' | 'finished';
+
 export interface UserInput {
   context: AnalysisContext | null;
-}
\ No newline at end of file
+  listing?: ListingMetadata;
+}
+
+export interface AnalysisProvider {
+  id: string;
+  label: string;
+  description: string;
+  model: string;
+  promptVersion: string; // Shown with stored results; the cache hashes the prompt itself
+  // Full request text, when the provider has one; hashed into the result cache key
+  buildPrompt?: (fileCount: number, context: AnalysisContext, options: AnalyzeOptions) => string;
+  analyze: (files: File[], context: AnalysisContext, options?: AnalyzeOptions) => Promise<AnalysisResult>;
+}
+
+export interface StoredImage {
+  name: string;
+  type: string;
+  blob: Blob;
+}
+
+export interface AnalysisRecord {
+  id: string;
+  createdAt: number; // epoch ms
+  context: AnalysisContext;
+  profile?: ContextProfile; // Snapshot, so the record still renders if the profile is edited or deleted
+  result: AnalysisResult;
+  images: StoredImage[];
+  providerId: string;
+  model: string;
+  promptVersion: string;
+  asin?: string;
+  productName?: string;
+  tags: string[];
+}
+
+// A provider result stored under a hash of everything that went into the request
+export interface ResultCacheEntry {
+  key: string;
+  createdAt: number; // epoch ms
+  result: AnalysisResult;
+  providerId: string;
+  model: string;
+  promptVersion: string;
+  schemaHash: string; // Of responseSchema, so schema edits invalidate even without a version bump
+}